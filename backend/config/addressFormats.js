@@ -0,0 +1,59 @@
+/**
+ * Countries we deliver to and how their addresses are written
+ *
+ * Addresses store the country code (US, CA, GB); `aliases` are the other
+ * ways buyers and older orders write each country. `regions` lists the valid
+ * state/province codes where the country has them (free text otherwise).
+ * Phone numbers are stored in E.164; `nationalPhonePattern` matches the
+ * national number after any `trunkPrefix` (e.g. the UK's leading 0).
+ *
+ * Keep in sync with src/app/utils/address-format.util.ts.
+ */
+const ADDRESS_FORMATS = {
+  US: {
+    name: 'United States',
+    aliases: ['US', 'USA', 'UNITED STATES', 'UNITED STATES OF AMERICA'],
+    regionLabel: 'State',
+    regionRequired: true,
+    regions: [
+      'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+      'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+      'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+    ],
+    postalCodeLabel: 'ZIP code',
+    postalCodePattern: /^\d{5}(-\d{4})?$/,
+    callingCode: '1',
+    nationalPhonePattern: /^[2-9]\d{9}$/
+  },
+  CA: {
+    name: 'Canada',
+    aliases: ['CA', 'CAN', 'CANADA'],
+    regionLabel: 'Province',
+    regionRequired: true,
+    regions: ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'],
+    postalCodeLabel: 'Postal code',
+    postalCodePattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/,
+    callingCode: '1',
+    nationalPhonePattern: /^[2-9]\d{9}$/
+  },
+  GB: {
+    name: 'United Kingdom',
+    aliases: ['GB', 'GBR', 'UK', 'UNITED KINGDOM', 'GREAT BRITAIN'],
+    regionLabel: 'County',
+    regionRequired: false,
+    regions: null,
+    postalCodeLabel: 'Postcode',
+    postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    callingCode: '44',
+    nationalPhonePattern: /^[1-9]\d{8,9}$/,
+    trunkPrefix: '0'
+  }
+};
+
+// Orders and profiles without a country are in the US
+const DEFAULT_COUNTRY = 'US';
+
+module.exports = {
+  ADDRESS_FORMATS,
+  DEFAULT_COUNTRY
+};
@@ -0,0 +1,94 @@
+/**
+ * Shipping zones, service levels and rate tables
+ *
+ * Zones 1-5 group US states by distance from the warehouse (1 = nearest);
+ * zones 6 and up are whole countries abroad.
+ * Each service level prices parcels from a rate table keyed by either the
+ * number of items ('quantity') or the parcel weight in ounces ('weight');
+ * a bracket applies up to and including `upTo` (null = no upper limit) and
+ * lists one rate per zone, null where the service is not offered.
+ * Transit times are in business days.
+ *
+ * Keep in sync with src/app/utils/shipping.util.ts.
+ */
+const SHIPPING_ZONES = {
+  1: ['GA', 'FL', 'AL', 'SC', 'NC', 'TN'],
+  2: ['VA', 'WV', 'KY', 'OH', 'IN', 'MI', 'IL', 'WI', 'MS', 'LA', 'AR', 'MO', 'DC', 'MD', 'DE', 'PA', 'NJ', 'NY'],
+  3: ['CT', 'RI', 'MA', 'VT', 'NH', 'ME', 'MN', 'IA', 'KS', 'NE', 'SD', 'ND', 'OK', 'TX'],
+  4: ['NM', 'CO', 'WY', 'MT', 'ID', 'UT', 'AZ', 'NV', 'CA', 'OR', 'WA'],
+  5: ['AK', 'HI']
+};
+
+// Countries abroad (see config/addressFormats.js) and their zones
+const INTERNATIONAL_ZONES = {
+  CA: 6,
+  GB: 7
+};
+
+// Used for quotes before the buyer has entered a state
+const DEFAULT_ZONE = 3;
+
+const SERVICE_LEVELS = {
+  standard: {
+    name: 'Standard',
+    // Free within the US over this (discounted) subtotal
+    freeOver: 100,
+    rateTable: {
+      basis: 'quantity',
+      brackets: [
+        { upTo: 3, rates: [7, 8, 9, 10, 18, 20, 28] },
+        { upTo: 6, rates: [9, 10, 11, 12, 22, 26, 36] },
+        { upTo: null, rates: [12, 13, 14, 16, 28, 34, 48] }
+      ]
+    },
+    transitDays: [[2, 3], [3, 4], [3, 5], [4, 6], [6, 9], [5, 8], [7, 12]]
+  },
+  express: {
+    name: 'Express',
+    rateTable: {
+      basis: 'weight',
+      brackets: [
+        { upTo: 16, rates: [15, 17, 19, 22, 35, 40, 55] },
+        { upTo: 48, rates: [19, 22, 25, 29, 45, 52, 70] },
+        { upTo: null, rates: [25, 29, 33, 38, 60, 68, 90] }
+      ]
+    },
+    transitDays: [[1, 2], [2, 2], [2, 3], [2, 3], [3, 4], [2, 4], [3, 5]]
+  },
+  overnight: {
+    name: 'Overnight',
+    rateTable: {
+      basis: 'weight',
+      brackets: [
+        { upTo: 16, rates: [28, 32, 36, 40, 60, null, null] },
+        { upTo: 48, rates: [36, 41, 46, 52, 80, null, null] },
+        { upTo: null, rates: [48, 55, 62, 70, 110, null, null] }
+      ]
+    },
+    transitDays: [[1, 1], [1, 1], [1, 1], [1, 1], [2, 2], null, null]
+  }
+};
+
+// Shipping weight (ounces) of one unit per product category, plus packaging per parcel
+const CATEGORY_WEIGHTS = {
+  'virgin-hair': 4,
+  'remy-hair': 4,
+  synthetic: 4,
+  closure: 3,
+  frontal: 4,
+  wig: 10
+};
+const PACKAGING_WEIGHT = 4;
+
+// Orders placed before this hour (server time) on a business day ship the same day
+const DISPATCH_CUTOFF_HOUR = 14;
+
+module.exports = {
+  SHIPPING_ZONES,
+  INTERNATIONAL_ZONES,
+  DEFAULT_ZONE,
+  SERVICE_LEVELS,
+  CATEGORY_WEIGHTS,
+  PACKAGING_WEIGHT,
+  DISPATCH_CUTOFF_HOUR
+};
@@ -1,4 +1,6 @@
 const Stripe = require('stripe');
+const { getTaxCalculator } = require('../utils/tax');
+const { quoteShipping } = require('../utils/shipping');
 
 /**
  * Initialize Stripe with secret key
@@ -18,27 +20,40 @@ const stripeConfig = {
 
   // Payment settings
   paymentMethodTypes: ['card'],
-
-  // Shipping calculation
-  shippingCost: 10.00, // $10 flat rate
-  freeShippingThreshold: 100.00, // Free shipping over $100
-
-  // Tax rate (8%)
-  taxRate: 0.08,
 };
 
 /**
  * Calculate order total with tax and shipping
+ * A coupon discount comes off before the free-shipping threshold and tax are applied.
+ * Shipping is priced for the order items, address and chosen service (see utils/shipping.js);
+ * tax depends on the shipping address (see utils/tax.js) and tax-exempt buyers pay none.
  */
-const calculateOrderTotal = (subtotal) => {
-  const shipping = subtotal >= stripeConfig.freeShippingThreshold ? 0 : stripeConfig.shippingCost;
-  const tax = subtotal * stripeConfig.taxRate;
-  const total = subtotal + shipping + tax;
+const calculateOrderTotal = async (subtotal, discount = 0, { address, items = [], shippingService, taxExempt = false } = {}) => {
+  const discounted = Math.max(subtotal - discount, 0);
+  const shippingOption = await quoteShipping({
+    address,
+    items,
+    subtotal: discounted,
+    service: shippingService
+  });
+  const shipping = shippingOption.amount;
+  const { tax, lines } = await getTaxCalculator().calculate({
+    address,
+    subtotal: discounted,
+    shipping,
+    taxExempt
+  });
+  const total = discounted + shipping + tax;
 
   return {
     subtotal: Math.round(subtotal * 100) / 100,
+    discount: Math.round(Math.min(discount, subtotal) * 100) / 100,
     shipping: Math.round(shipping * 100) / 100,
+    shippingMethod: { service: shippingOption.service, name: shippingOption.name },
+    estimatedDelivery: shippingOption.estimatedDelivery,
     tax: Math.round(tax * 100) / 100,
+    taxBreakdown: lines,
+    taxExempt,
     total: Math.round(total * 100) / 100
   };
 };
@@ -0,0 +1,235 @@
+const User = require('../models/User');
+const Product = require('../models/Product');
+const Order = require('../models/Order');
+const { ErrorResponse } = require('../middleware/errorHandler');
+const { restoreStock } = require('../utils/orderItems');
+const { refundPayment } = require('../utils/refunds');
+const { releaseReservation } = require('../utils/reservations');
+
+/**
+ * Build a case-insensitive "contains" regex from user input
+ */
+const searchRegex = (term) => new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+
+// @desc    List users (searchable)
+// @route   GET /api/admin/users
+// @access  Private (Admin)
+exports.getUsers = async (req, res, next) => {
+  try {
+    const { search, role, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (role) query.role = role;
+    if (search) {
+      const regex = searchRegex(search);
+      query.$or = [{ firstName: regex }, { lastName: regex }, { email: regex }];
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const users = await User.find(query)
+      .sort('-createdAt')
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await User.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      count: users.length,
+      total,
+      page: parseInt(page),
+      pages: Math.ceil(total / parseInt(limit)),
+      data: users
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Change a user's role or suspend/reactivate the account
+// @route   PUT /api/admin/users/:id
+// @access  Private (Admin)
+exports.updateUser = async (req, res, next) => {
+  try {
+    const { role, isActive, taxExempt } = req.body;
+
+    // Prevent admins from locking themselves out
+    if (req.params.id === req.user.id) {
+      return next(new ErrorResponse('You cannot change your own role or status', 400));
+    }
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return next(new ErrorResponse('User not found', 404));
+    }
+
+    if (role !== undefined) user.role = role;
+    if (isActive !== undefined) user.isActive = isActive;
+    if (taxExempt !== undefined) user.taxExempt = taxExempt;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      data: user
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    List all products, including hidden ones
+// @route   GET /api/admin/products
+// @access  Private (Admin)
+exports.getProducts = async (req, res, next) => {
+  try {
+    const { search, page = 1, limit = 20 } = req.query;
+
+    const query = {};
+    if (search) {
+      query.name = searchRegex(search);
+    }
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const products = await Product.find(query)
+      .populate('seller', 'firstName lastName email')
+      .sort('-createdAt')
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const total = await Product.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      count: products.length,
+      total,
+      page: parseInt(page),
+      pages: Math.ceil(total / parseInt(limit)),
+      data: products
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Publish or hide a product
+// @route   PUT /api/admin/products/:id/visibility
+// @access  Private (Admin)
+exports.updateProductVisibility = async (req, res, next) => {
+  try {
+    const product = await Product.findByIdAndUpdate(
+      req.params.id,
+      { isActive: req.body.isActive },
+      { new: true }
+    ).populate('seller', 'firstName lastName email');
+
+    if (!product) {
+      return next(new ErrorResponse('Product not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: product
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Cancel an order regardless of its fulfillment status
+// @route   PUT /api/admin/orders/:id/cancel
+// @access  Private (Admin)
+exports.forceCancelOrder = async (req, res, next) => {
+  try {
+    const order = await Order.findById(req.params.id);
+
+    if (!order) {
+      return next(new ErrorResponse('Order not found', 404));
+    }
+
+    if (order.orderStatus === 'cancelled') {
+      return next(new ErrorResponse('Order is already cancelled', 400));
+    }
+
+    const reason = req.body.reason || 'Cancelled by admin';
+
+    // Unpaid orders are released, so Stripe stops taking payment for them
+    // (if it turns out to have been paid, it is cancelled like any paid order below)
+    if (order.orderStatus === 'pending' && order.paymentStatus !== 'paid') {
+      if (await releaseReservation(order, reason)) {
+        return res.status(200).json({
+          success: true,
+          data: order
+        });
+      }
+      if (order.paymentStatus !== 'paid') {
+        return next(new ErrorResponse('Payment is still being processed. Please try again shortly.', 409));
+      }
+    }
+
+    // Stock only goes back on the shelf if nothing has left the warehouse
+    const restock = order.orderStatus !== 'shipped' && order.orderStatus !== 'delivered';
+
+    order.orderStatus = 'cancelled';
+    order.cancelledAt = new Date();
+    order.cancellationReason = reason;
+    order.reservedUntil = undefined;
+    await order.save();
+
+    if (restock) {
+      await restoreStock(order);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Refund a paid order in full
+// @route   POST /api/admin/orders/:id/refund
+// @access  Private (Admin)
+exports.refundOrder = async (req, res, next) => {
+  try {
+    const order = await Order.findById(req.params.id);
+
+    if (!order) {
+      return next(new ErrorResponse('Order not found', 404));
+    }
+
+    if (order.paymentStatus !== 'paid') {
+      return next(new ErrorResponse('Only paid orders can be refunded', 400));
+    }
+
+    await refundPayment(order, req.user.id);
+
+    const restock = order.orderStatus !== 'shipped' &&
+                    order.orderStatus !== 'delivered' &&
+                    order.orderStatus !== 'cancelled';
+
+    if (order.orderStatus !== 'delivered' && order.orderStatus !== 'cancelled') {
+      order.orderStatus = 'cancelled';
+      order.cancelledAt = new Date();
+      order.cancellationReason = req.body.reason || 'Refunded by admin';
+    }
+    await order.save();
+
+    if (restock) {
+      await restoreStock(order);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = exports;
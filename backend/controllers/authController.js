@@ -1,5 +1,8 @@
+const crypto = require('crypto');
 const User = require('../models/User');
 const { ErrorResponse } = require('../middleware/errorHandler');
+const { sendEmail } = require('../utils/email');
+const logger = require('../utils/logger');
 
 /**
  * SECURE VERSION with httpOnly cookies and NO token in response body
@@ -56,7 +59,7 @@ exports.login = async (req, res, next) => {
     if (user.isLocked) {
       return res.status(423).json({
         success: false,
-        message: 'Account is temporarily locked. Please try again later.',
+        message: 'Account is temporarily locked. Please try again later or reset your password.',
         lockedUntil: user.lockUntil
       });
     }
@@ -121,12 +124,42 @@ exports.updateDetails = async (req, res, next) => {
       address: req.body.address
     };
 
+    // The address book replaces the saved list; the single address follows its default shipping entry
+    if (Array.isArray(req.body.addresses)) {
+      fieldsToUpdate.addresses = normalizeAddressBook(req.body.addresses);
+      const defaultShipping = fieldsToUpdate.addresses.find(address => address.isDefaultShipping);
+      if (defaultShipping && fieldsToUpdate.address === undefined) {
+        const { street, city, state, zipCode, country, phone } = defaultShipping;
+        fieldsToUpdate.address = { street, city, state, zipCode, country, phone };
+      }
+    }
+
     // Remove undefined fields
     Object.keys(fieldsToUpdate).forEach(key =>
       fieldsToUpdate[key] === undefined && delete fieldsToUpdate[key]
     );
 
-    const user = await User.findByIdAndUpdate(
+    // A new email address needs the current password and must be verified again
+    const current = await User.findById(req.user.id).select('+password');
+    const emailChanged = fieldsToUpdate.email !== undefined && fieldsToUpdate.email !== current.email;
+
+    if (emailChanged) {
+      if (!req.body.currentPassword) {
+        return next(new ErrorResponse('Please enter your current password to change your email', 400));
+      }
+
+      if (!(await current.comparePassword(req.body.currentPassword))) {
+        return next(new ErrorResponse('Current password is incorrect', 400));
+      }
+
+      if (await User.exists({ email: fieldsToUpdate.email })) {
+        return next(new ErrorResponse('Email already registered', 400));
+      }
+
+      fieldsToUpdate.isEmailVerified = false;
+    }
+
+    let user = await User.findByIdAndUpdate(
       req.user.id,
       fieldsToUpdate,
       {
@@ -135,6 +168,10 @@ exports.updateDetails = async (req, res, next) => {
       }
     );
 
+    if (emailChanged) {
+      user = await sendEmailVerification(user);
+    }
+
     res.status(200).json({
       success: true,
       data: user
@@ -144,6 +181,180 @@ exports.updateDetails = async (req, res, next) => {
   }
 };
 
+/**
+ * Keep exactly one default shipping and one default billing entry in an address book
+ * The first entry flagged wins; with none flagged, the first address becomes the default.
+ */
+function normalizeAddressBook(addresses) {
+  const shippingIndex = Math.max(addresses.findIndex(address => address.isDefaultShipping), 0);
+  const billingIndex = Math.max(addresses.findIndex(address => address.isDefaultBilling), 0);
+
+  return addresses.map((address, index) => ({
+    _id: address._id,
+    label: address.label,
+    street: address.street,
+    city: address.city,
+    state: address.state,
+    zipCode: address.zipCode,
+    country: address.country,
+    phone: address.phone,
+    isDefaultShipping: index === shippingIndex,
+    isDefaultBilling: index === billingIndex
+  }));
+}
+
+/**
+ * @desc    Verify an email address with the token from the verification link
+ * @route   PUT /api/auth/verifyemail/:token
+ * @access  Public
+ */
+exports.verifyEmail = async (req, res, next) => {
+  try {
+    const user = await User.findOne({
+      emailVerificationToken: hashToken(req.params.token),
+      emailVerificationExpire: { $gt: Date.now() }
+    });
+
+    if (!user) {
+      return next(new ErrorResponse('This verification link is invalid or has expired', 400));
+    }
+
+    // Tokens are single-use
+    user.isEmailVerified = true;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpire = undefined;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      data: user
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Send a new verification link to the current email address
+ * @route   POST /api/auth/verifyemail
+ * @access  Private
+ */
+exports.resendVerification = async (req, res, next) => {
+  try {
+    const user = await User.findById(req.user.id);
+
+    if (user.isEmailVerified) {
+      return next(new ErrorResponse('Your email address is already verified', 400));
+    }
+
+    await sendEmailVerification(user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Issue a new verification token and email the link to the user
+ */
+async function sendEmailVerification(user) {
+  const token = user.getEmailVerificationToken();
+  await user.save({ validateBeforeSave: false });
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Please verify your email address',
+    text: `Hi ${user.firstName},\n\n` +
+      `Please confirm your email address by opening this link within 24 hours:\n\n` +
+      `${process.env.FRONTEND_URL}/auth/verify-email/${token}\n`
+  });
+
+  return user;
+}
+
+/**
+ * @desc    Email a password reset link
+ * @route   POST /api/auth/forgotpassword
+ * @access  Public
+ */
+exports.forgotPassword = async (req, res, next) => {
+  try {
+    const user = await User.findOne({ email: req.body.email });
+
+    // Same answer whether or not the account exists, so addresses can't be probed
+    if (user && user.isActive) {
+      const token = user.getResetPasswordToken();
+      await user.save({ validateBeforeSave: false });
+
+      try {
+        await sendEmail({
+          to: user.email,
+          subject: 'Reset your password',
+          text: `Hi ${user.firstName},\n\n` +
+            `Someone asked to reset the password for your account. Open this link within 30 minutes to choose a new one:\n\n` +
+            `${process.env.FRONTEND_URL}/auth/reset-password/${token}\n\n` +
+            `If this wasn't you, you can ignore this email. Your password won't change.\n`
+        });
+      } catch (error) {
+        // Still answer as for any other address; an error here would reveal the account exists
+        logger.error('Could not send password reset email', error);
+        user.resetPasswordToken = undefined;
+        user.resetPasswordExpire = undefined;
+        await user.save({ validateBeforeSave: false });
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If an account exists for that email, we have sent a link to reset the password'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @desc    Set a new password with the token from a reset link
+ * @route   PUT /api/auth/resetpassword/:token
+ * @access  Public
+ */
+exports.resetPassword = async (req, res, next) => {
+  try {
+    const user = await User.findOne({
+      resetPasswordToken: hashToken(req.params.token),
+      resetPasswordExpire: { $gt: Date.now() },
+      isActive: true
+    });
+
+    if (!user) {
+      return next(new ErrorResponse('This reset link is invalid or has expired', 400));
+    }
+
+    // Tokens are single-use, and a reset also lifts a lockout
+    user.password = req.body.password;
+    user.resetPasswordToken = undefined;
+    user.resetPasswordExpire = undefined;
+    user.loginAttempts = 0;
+    user.lockUntil = undefined;
+    await user.save();
+
+    sendTokenResponse(user, 200, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Emailed tokens are stored as SHA-256 hashes
+ */
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * @desc    Update password
  * @route   PUT /api/auth/updatepassword
@@ -162,7 +373,7 @@ exports.updatePassword = async (req, res, next) => {
     // Check current password
     const isMatch = await user.comparePassword(currentPassword);
     if (!isMatch) {
-      return next(new ErrorResponse('Current password is incorrect', 401));
+      return next(new ErrorResponse('Current password is incorrect', 400));
     }
 
     // Update password
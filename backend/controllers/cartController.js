@@ -0,0 +1,107 @@
+const Cart = require('../models/Cart');
+const Product = require('../models/Product');
+
+/**
+ * Bring requested cart lines in line with the catalog
+ * Lines for removed, inactive or sold-out listings (or variants) are dropped,
+ * quantities are capped at the live stock, and duplicate lines are combined.
+ */
+const applyStock = async (items) => {
+  const ids = [...new Set(items.map(item => String(item.product)))];
+  const products = await Product.find({ _id: { $in: ids }, isActive: true })
+    .select('stock variants._id variants.stock');
+  const byId = new Map(products.map(product => [String(product._id), product]));
+
+  const lines = new Map();
+
+  for (const item of items) {
+    const product = byId.get(String(item.product));
+    if (!product) continue;
+
+    const hasVariants = product.variants.length > 0;
+    const variant = hasVariants && item.variant ? product.variants.id(item.variant) : null;
+    if (hasVariants ? !variant : item.variant) continue;
+
+    const stock = variant ? variant.stock : product.stock;
+    const key = Cart.lineKey(item);
+    const quantity = Math.min(Math.max(item.quantity, lines.get(key)?.quantity || 0), stock);
+    if (quantity < 1) continue;
+
+    lines.set(key, {
+      product: product._id,
+      variant: variant ? variant._id : undefined,
+      quantity,
+      price: item.price
+    });
+  }
+
+  return [...lines.values()].slice(0, Cart.MAX_LINES);
+};
+
+/**
+ * Response shape shared by every cart endpoint
+ */
+const sendCart = (res, cart) => {
+  res.status(200).json({
+    success: true,
+    data: {
+      items: cart ? cart.items : [],
+      updatedAt: cart ? cart.updatedAt : null
+    }
+  });
+};
+
+// @desc    Get the current user's cart
+// @route   GET /api/cart
+// @access  Private
+exports.getCart = async (req, res, next) => {
+  try {
+    const cart = await Cart.findOne({ user: req.user.id });
+    sendCart(res, cart);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Replace the current user's cart
+// @route   PUT /api/cart
+// @access  Private
+exports.updateCart = async (req, res, next) => {
+  try {
+    const items = await applyStock(req.body.items);
+
+    const cart = await Cart.findOneAndUpdate(
+      { user: req.user.id },
+      { items },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    sendCart(res, cart);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Merge a signed-out cart into the current user's cart
+// @route   POST /api/cart/merge
+// @access  Private
+exports.mergeCart = async (req, res, next) => {
+  try {
+    const cart = await Cart.findOne({ user: req.user.id });
+
+    // A line in both carts keeps the larger quantity rather than the sum, so
+    // merging the same cart twice (e.g. a retried login) never doubles it up.
+    // Either way the quantity is capped at what is in stock.
+    const items = await applyStock([...(cart ? cart.items : []), ...req.body.items]);
+
+    const merged = await Cart.findOneAndUpdate(
+      { user: req.user.id },
+      { items },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    sendCart(res, merged);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,135 @@
+const Coupon = require('../models/Coupon');
+const { ErrorResponse } = require('../middleware/errorHandler');
+const { checkCoupon, findCoupon } = require('../utils/promotions');
+
+// Fields sellers and admins may set on a coupon
+const EDITABLE_FIELDS = [
+  'code', 'description', 'type', 'value', 'buyQuantity', 'getQuantity', 'categories',
+  'seller', 'products', 'minSubtotal', 'startsAt', 'expiresAt', 'usageLimit', 'perUserLimit', 'isActive'
+];
+
+/**
+ * Copy editable fields from the request body
+ * Sellers' coupons only ever cover their own products.
+ */
+const pickCouponFields = (body, user) => {
+  const fields = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) fields[field] = body[field];
+  });
+
+  if (user.role !== 'admin') {
+    fields.seller = user.id;
+  }
+
+  return fields;
+};
+
+/**
+ * Load a coupon the current user may manage
+ */
+const loadOwnCoupon = async (id, user) => {
+  const coupon = await Coupon.findById(id);
+
+  if (!coupon) {
+    throw new ErrorResponse('Coupon not found', 404);
+  }
+
+  if (user.role !== 'admin' && coupon.createdBy.toString() !== user.id) {
+    throw new ErrorResponse('Not authorized to manage this coupon', 403);
+  }
+
+  return coupon;
+};
+
+// @desc    Check a coupon code before checkout
+// @route   POST /api/coupons/validate
+// @access  Private
+exports.validateCoupon = async (req, res, next) => {
+  try {
+    const coupon = await findCoupon(req.body.code);
+    await checkCoupon(coupon, req.user);
+
+    // The storefront previews the discount from these rules; orders recompute it
+    res.status(200).json({
+      success: true,
+      data: coupon.toPublic()
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get coupons (own for sellers, all for admin)
+// @route   GET /api/coupons
+// @access  Private (Seller/Admin)
+exports.getCoupons = async (req, res, next) => {
+  try {
+    const query = req.user.role === 'admin' ? {} : { createdBy: req.user.id };
+    const coupons = await Coupon.find(query).sort('-createdAt');
+
+    res.status(200).json({
+      success: true,
+      count: coupons.length,
+      data: coupons
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create coupon
+// @route   POST /api/coupons
+// @access  Private (Seller/Admin)
+exports.createCoupon = async (req, res, next) => {
+  try {
+    const coupon = await Coupon.create({
+      ...pickCouponFields(req.body, req.user),
+      createdBy: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: coupon
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update coupon
+// @route   PUT /api/coupons/:id
+// @access  Private (Seller/Admin - own coupons only)
+exports.updateCoupon = async (req, res, next) => {
+  try {
+    const coupon = await loadOwnCoupon(req.params.id, req.user);
+
+    // save() rather than findByIdAndUpdate so the cross-field checks run
+    Object.assign(coupon, pickCouponFields(req.body, req.user));
+    await coupon.save();
+
+    res.status(200).json({
+      success: true,
+      data: coupon
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete coupon
+// @route   DELETE /api/coupons/:id
+// @access  Private (Seller/Admin - own coupons only)
+exports.deleteCoupon = async (req, res, next) => {
+  try {
+    const coupon = await loadOwnCoupon(req.params.id, req.user);
+    await coupon.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Coupon deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,44 @@
 const Order = require('../models/Order');
 const Product = require('../models/Product');
 const { ErrorResponse } = require('../middleware/errorHandler');
-const { calculateOrderTotal } = require('../config/stripe');
+const { restoreStock } = require('../utils/orderItems');
+const { reserveItems, reservationExpiry, releaseReservation } = require('../utils/reservations');
+const { applyCoupon } = require('../utils/promotions');
+const { refundPayment } = require('../utils/refunds');
+const { stripe, calculateOrderTotal, dollarsToCents } = require('../config/stripe');
+
+// Fulfillment steps a seller may take: processing -> shipped -> delivered
+const SELLER_STATUS_TRANSITIONS = {
+  processing: 'shipped',
+  shipped: 'delivered'
+};
+
+/**
+ * Check whether the user sells at least one product in the order
+ */
+async function isSellerOfOrder(order, user) {
+  if (user.role !== 'seller') {
+    return false;
+  }
+
+  const productIds = order.items.map(item => item.product._id || item.product);
+  const count = await Product.countDocuments({ _id: { $in: productIds }, seller: user.id });
+  return count > 0;
+}
+
+/**
+ * Check whether the user sells every product in the order
+ * Orders shared with other sellers ship as one parcel, so an admin fulfils them
+ */
+async function isSoleSellerOfOrder(order, user) {
+  if (user.role !== 'seller') {
+    return false;
+  }
+
+  const productIds = [...new Set(order.items.map(item => String(item.product._id || item.product)))];
+  const count = await Product.countDocuments({ _id: { $in: productIds }, seller: user.id });
+  return count === productIds.length;
+}
 
 // @desc    Get all orders (for admin) or user's orders
 // @route   GET /api/orders
@@ -32,6 +69,27 @@ exports.getOrders = async (req, res, next) => {
   }
 };
 
+// @desc    Get orders containing the seller's products
+// @route   GET /api/orders/seller
+// @access  Private (Seller/Admin)
+exports.getSellerOrders = async (req, res, next) => {
+  try {
+    const productIds = await Product.find({ seller: req.user.id }).distinct('_id');
+
+    const orders = await Order.find({ 'items.product': { $in: productIds } })
+      .populate('user', 'firstName lastName email')
+      .sort('-createdAt');
+
+    res.status(200).json({
+      success: true,
+      count: orders.length,
+      data: orders
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Get single order
 // @route   GET /api/orders/:id
 // @access  Private
@@ -45,8 +103,9 @@ exports.getOrder = async (req, res, next) => {
       return next(new ErrorResponse('Order not found', 404));
     }
 
-    // Check ownership (unless admin)
-    if (order.user._id.toString() !== req.user.id && req.user.role !== 'admin') {
+    // Check ownership (unless admin, or a seller whose products are in the order)
+    if (order.user._id.toString() !== req.user.id && req.user.role !== 'admin' &&
+        !(await isSellerOfOrder(order, req.user))) {
       return next(new ErrorResponse('Not authorized to view this order', 403));
     }
 
@@ -59,55 +118,39 @@ exports.getOrder = async (req, res, next) => {
   }
 };
 
-// @desc    Create new order (for mock payments)
+// @desc    Create new unpaid order (paid through Stripe afterwards)
 // @route   POST /api/orders
 // @access  Private
 exports.createOrder = async (req, res, next) => {
   try {
-    const { items, shippingAddress, billingAddress, paymentMethod } = req.body;
+    const { items, shippingAddress, billingAddress, paymentMethod, couponCode, shippingService } = req.body;
 
     if (!items || items.length === 0) {
       return next(new ErrorResponse('No order items provided', 400));
     }
 
-    // Validate stock and calculate totals
-    let subtotal = 0;
-    const orderItems = [];
-
-    for (const item of items) {
-      const product = await Product.findById(item.product);
-
-      if (!product) {
-        return next(new ErrorResponse(`Product ${item.product} not found`, 404));
-      }
-
-      if (product.stock < item.quantity) {
-        return next(
-          new ErrorResponse(
-            `Insufficient stock for ${product.name}. Available: ${product.stock}`,
-            400
-          )
-        );
-      }
+    // Take the items out of stock; unpaid orders hold them until paid or released
+    const orderItems = await reserveItems(items);
+    const subtotal = orderItems.reduce((sum, item) => sum + item.subtotal, 0);
 
-      const itemSubtotal = product.price * item.quantity;
-      subtotal += itemSubtotal;
-
-      orderItems.push({
-        product: product._id,
-        productName: product.name,
-        productImage: product.imageUrl,
-        price: product.price,
-        quantity: item.quantity,
-        subtotal: itemSubtotal
+    let coupon = null;
+    if (couponCode) {
+      coupon = await applyCoupon(couponCode, orderItems, req.user).catch(async error => {
+        await restoreStock({ items: orderItems });
+        throw error;
       });
-
-      // Reduce stock
-      await product.updateStock(item.quantity, 'subtract');
     }
 
     // Calculate totals
-    const orderTotal = calculateOrderTotal(subtotal);
+    const orderTotal = await calculateOrderTotal(subtotal, coupon ? coupon.discount : 0, {
+      address: shippingAddress,
+      items: orderItems,
+      shippingService,
+      taxExempt: req.user.taxExempt
+    }).catch(async error => {
+      await restoreStock({ items: orderItems });
+      throw error;
+    });
 
     // Create order
     const order = await Order.create({
@@ -118,13 +161,24 @@ exports.createOrder = async (req, res, next) => {
       shippingAddress,
       billingAddress,
       subtotal: orderTotal.subtotal,
+      discount: orderTotal.discount,
+      couponCode: coupon ? coupon.code : undefined,
       shipping: orderTotal.shipping,
+      shippingMethod: orderTotal.shippingMethod,
+      earliestDelivery: orderTotal.estimatedDelivery.earliest,
+      estimatedDelivery: orderTotal.estimatedDelivery.latest,
       tax: orderTotal.tax,
+      taxBreakdown: orderTotal.taxBreakdown,
+      taxExempt: orderTotal.taxExempt,
       total: orderTotal.total,
-      paymentMethod: paymentMethod || 'mock',
-      paymentStatus: paymentMethod === 'mock' ? 'paid' : 'pending',
-      paidAt: paymentMethod === 'mock' ? new Date() : undefined,
-      orderStatus: paymentMethod === 'mock' ? 'processing' : 'pending'
+      // Orders are only ever marked paid once Stripe confirms the payment
+      paymentMethod: paymentMethod || 'stripe',
+      paymentStatus: 'pending',
+      orderStatus: 'pending',
+      reservedUntil: reservationExpiry()
+    }).catch(async error => {
+      await restoreStock({ items: orderItems });
+      throw error;
     });
 
     res.status(201).json({
@@ -141,7 +195,7 @@ exports.createOrder = async (req, res, next) => {
 // @access  Private (Admin/Seller)
 exports.updateOrderStatus = async (req, res, next) => {
   try {
-    const { status, trackingNumber } = req.body;
+    const { status, trackingNumber, estimatedDelivery } = req.body;
 
     const order = await Order.findById(req.params.id);
 
@@ -149,8 +203,31 @@ exports.updateOrderStatus = async (req, res, next) => {
       return next(new ErrorResponse('Order not found', 404));
     }
 
-    if (status === 'shipped' && trackingNumber) {
-      await order.markAsShipped(trackingNumber);
+    // Sellers may only fulfil orders made up entirely of their products, one step at a time
+    if (req.user.role !== 'admin') {
+      if (!(await isSellerOfOrder(order, req.user))) {
+        return next(new ErrorResponse('Not authorized to update this order', 403));
+      }
+
+      if (!(await isSoleSellerOfOrder(order, req.user))) {
+        return next(new ErrorResponse('Orders that include other sellers\' items are fulfilled by an admin', 403));
+      }
+
+      if (SELLER_STATUS_TRANSITIONS[order.orderStatus] !== status) {
+        return next(new ErrorResponse(`Cannot change order from ${order.orderStatus} to ${status}`, 400));
+      }
+    }
+
+    if (status === 'shipped' && !trackingNumber && !order.trackingNumber) {
+      return next(new ErrorResponse('Tracking number is required to ship an order', 400));
+    }
+
+    if (estimatedDelivery) {
+      order.estimatedDelivery = new Date(estimatedDelivery);
+    }
+
+    if (status === 'shipped') {
+      await order.markAsShipped(trackingNumber || order.trackingNumber);
     } else if (status === 'delivered') {
       await order.markAsDelivered();
     } else {
@@ -167,7 +244,121 @@ exports.updateOrderStatus = async (req, res, next) => {
   }
 };
 
-// @desc    Cancel order
+// @desc    Update payment status of own order
+// @route   PUT /api/orders/:id/payment
+// @access  Private
+exports.updatePaymentStatus = async (req, res, next) => {
+  try {
+    const { status, transactionId } = req.body;
+
+    const order = await Order.findById(req.params.id);
+
+    if (!order) {
+      return next(new ErrorResponse('Order not found', 404));
+    }
+
+    // Check ownership (unless admin)
+    if (order.user.toString() !== req.user.id && req.user.role !== 'admin') {
+      return next(new ErrorResponse('Not authorized to update this order', 403));
+    }
+
+    if (status === 'paid') {
+      // Idempotent - the webhook may have confirmed the payment already
+      if (order.paymentStatus !== 'paid') {
+        if (!transactionId) {
+          return next(new ErrorResponse('Transaction ID is required', 400));
+        }
+
+        // Never trust the client: confirm the payment with Stripe
+        const paymentIntent = await stripe.paymentIntents.retrieve(transactionId);
+
+        if (paymentIntent.status !== 'succeeded') {
+          return next(new ErrorResponse('Payment has not been completed', 402));
+        }
+
+        if (paymentIntent.amount !== dollarsToCents(order.total)) {
+          return next(new ErrorResponse('Payment amount does not match order total', 400));
+        }
+
+        // The payment must have been taken for this order, and not already count for another
+        const intentOrderId = paymentIntent.metadata && paymentIntent.metadata.orderId;
+        if (intentOrderId !== order.id && order.stripePaymentIntentId !== paymentIntent.id) {
+          return next(new ErrorResponse('Payment does not belong to this order', 400));
+        }
+
+        const usedElsewhere = await Order.exists({
+          _id: { $ne: order._id },
+          $or: [{ stripePaymentIntentId: paymentIntent.id }, { transactionId: paymentIntent.id }]
+        });
+        if (usedElsewhere) {
+          return next(new ErrorResponse('Payment has already been used for another order', 400));
+        }
+
+        await order.markAsPaid(paymentIntent);
+      }
+    } else {
+      if (order.paymentStatus === 'paid') {
+        return next(new ErrorResponse('Order has already been paid', 400));
+      }
+
+      order.paymentStatus = status;
+      await order.save();
+
+      // A failed payment gives the reserved stock back; paying again starts a new order
+      if (status === 'failed') {
+        await releaseReservation(order, 'Payment failed');
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Release an unpaid order whose Stripe Checkout the buyer left
+// @route   PUT /api/orders/:id/abandon
+// @access  Private
+exports.abandonCheckout = async (req, res, next) => {
+  try {
+    const order = await Order.findById(req.params.id);
+
+    if (!order) {
+      return next(new ErrorResponse('Order not found', 404));
+    }
+
+    if (order.user.toString() !== req.user.id) {
+      return next(new ErrorResponse('Not authorized to update this order', 403));
+    }
+
+    // Only the session this order was sent to pay in, while it is still waiting for payment
+    if (order.stripeCheckoutSessionId !== req.body.sessionId) {
+      return next(new ErrorResponse('Checkout session does not match this order', 400));
+    }
+
+    if (order.orderStatus !== 'pending' || order.paymentStatus === 'paid') {
+      return next(new ErrorResponse('Only unpaid orders can be released', 400));
+    }
+
+    // Stripe may have charged the buyer after all, in which case the order is confirmed instead
+    const released = await releaseReservation(order, 'Checkout abandoned');
+    if (!released && order.paymentStatus !== 'paid') {
+      return next(new ErrorResponse('Payment is still being processed. Please try again shortly.', 409));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Cancel order (refunding it if it was paid)
 // @route   PUT /api/orders/:id/cancel
 // @access  Private
 exports.cancelOrder = async (req, res, next) => {
@@ -183,17 +374,33 @@ exports.cancelOrder = async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to cancel this order', 403));
     }
 
-    const { reason } = req.body;
-    await order.cancelOrder(reason || 'Cancelled by user');
+    if (!order.canBeCancelled) {
+      return next(new ErrorResponse('Cannot cancel order that has been shipped or delivered', 400));
+    }
 
-    // Restore product stock
-    for (const item of order.items) {
-      const product = await Product.findById(item.product);
-      if (product) {
-        await product.updateStock(item.quantity, 'add');
+    const reason = req.body.reason || 'Cancelled by user';
+
+    // Unpaid orders release their reservation once Stripe can no longer take payment
+    // (if it turns out to have been paid, it is cancelled like any paid order below)
+    if (order.orderStatus === 'pending' && order.paymentStatus !== 'paid') {
+      const released = await releaseReservation(order, reason);
+      if (!released && order.paymentStatus !== 'paid') {
+        return next(new ErrorResponse('Payment is still being processed. Please try again shortly.', 409));
       }
     }
 
+    // Paid orders are refunded in full (the payment may have been confirmed just above)
+    if (order.paymentStatus === 'paid') {
+      await refundPayment(order, req.user.id);
+    }
+
+    if (order.orderStatus !== 'cancelled') {
+      await order.cancelOrder(reason);
+
+      // Restore product stock
+      await restoreStock(order);
+    }
+
     res.status(200).json({
       success: true,
       data: order
@@ -1,7 +1,21 @@
-const { stripe, calculateOrderTotal, dollarsToCents } = require('../config/stripe');
+const { stripe, calculateOrderTotal, dollarsToCents, centsToDollars } = require('../config/stripe');
 const Order = require('../models/Order');
-const Product = require('../models/Product');
 const { ErrorResponse } = require('../middleware/errorHandler');
+const { buildOrderItem } = require('../utils/orderItems');
+const {
+  reservationExpiry,
+  releaseReservation,
+  closePayment,
+  closeCheckoutSession,
+  closePaymentIntent
+} = require('../utils/reservations');
+const { applyCoupon } = require('../utils/promotions');
+
+// Stripe keeps Checkout Sessions open for at least 30 minutes (plus a margin for clock skew)
+const MIN_SESSION_MS = 31 * 60 * 1000;
+
+// PaymentIntent states in which the buyer can still pay it
+const OPEN_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation', 'requires_action'];
 
 /**
  * @desc    Create Stripe Checkout Session
@@ -10,7 +24,12 @@ const { ErrorResponse } = require('../middleware/errorHandler');
  */
 exports.createCheckoutSession = async (req, res, next) => {
   try {
-    const { items, shippingAddress, billingAddress } = req.body;
+    const { orderId, items, shippingAddress, billingAddress, couponCode, shippingService } = req.body;
+
+    // Pay for an order already stored (unpaid) via POST /api/orders
+    if (orderId) {
+      return await createOrderCheckoutSession(req, res, orderId);
+    }
 
     if (!items || items.length === 0) {
       return next(new ErrorResponse('Cart is empty', 400));
@@ -19,77 +38,46 @@ exports.createCheckoutSession = async (req, res, next) => {
     // Validate stock and calculate totals
     let subtotal = 0;
     const lineItems = [];
+    const orderItems = [];
 
     for (const item of items) {
-      const product = await Product.findById(item.product);
-
-      if (!product) {
-        return next(new ErrorResponse(`Product ${item.product} not found`, 404));
-      }
+      const { product, orderItem } = await buildOrderItem(item);
 
-      if (product.stock < item.quantity) {
-        return next(
-          new ErrorResponse(
-            `Insufficient stock for ${product.name}. Available: ${product.stock}`,
-            400
-          )
-        );
-      }
-
-      const itemSubtotal = product.price * item.quantity;
-      subtotal += itemSubtotal;
+      subtotal += orderItem.subtotal;
+      orderItems.push(orderItem);
 
       lineItems.push({
         price_data: {
           currency: 'usd',
           product_data: {
-            name: product.name,
+            name: orderItem.variantLabel ? `${product.name} (${orderItem.variantLabel})` : product.name,
             description: `${product.texture} ${product.category}`,
-            images: [product.imageUrl]
+            images: [orderItem.productImage]
           },
-          unit_amount: dollarsToCents(product.price)
+          unit_amount: dollarsToCents(orderItem.price)
         },
         quantity: item.quantity
       });
     }
 
-    // Calculate order totals
-    const orderTotal = calculateOrderTotal(subtotal);
+    const coupon = couponCode ? await applyCoupon(couponCode, orderItems, req.user) : null;
 
-    // Add shipping as a line item if not free
-    if (orderTotal.shipping > 0) {
-      lineItems.push({
-        price_data: {
-          currency: 'usd',
-          product_data: {
-            name: 'Shipping',
-            description: 'Standard shipping'
-          },
-          unit_amount: dollarsToCents(orderTotal.shipping)
-        },
-        quantity: 1
-      });
-    }
+    // Calculate order totals
+    const orderTotal = await calculateOrderTotal(subtotal, coupon ? coupon.discount : 0, {
+      address: shippingAddress,
+      items: orderItems,
+      shippingService,
+      taxExempt: req.user.taxExempt
+    });
 
-    // Add tax as a line item
-    if (orderTotal.tax > 0) {
-      lineItems.push({
-        price_data: {
-          currency: 'usd',
-          product_data: {
-            name: 'Tax',
-            description: 'Sales tax (8%)'
-          },
-          unit_amount: dollarsToCents(orderTotal.tax)
-        },
-        quantity: 1
-      });
-    }
+    // Add shipping and tax as line items
+    lineItems.push(...buildChargeLineItems(orderTotal));
 
     // Create Stripe Checkout Session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items: lineItems,
+      discounts: await buildDiscounts(coupon && coupon.code, orderTotal.discount),
       mode: 'payment',
       success_url: `${process.env.FRONTEND_URL}/order-success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${process.env.FRONTEND_URL}/checkout`,
@@ -99,8 +87,11 @@ exports.createCheckoutSession = async (req, res, next) => {
         userId: req.user.id.toString(),
         shippingAddress: JSON.stringify(shippingAddress),
         billingAddress: JSON.stringify(billingAddress),
+        couponCode: coupon ? coupon.code : '',
+        shippingService: orderTotal.shippingMethod.service,
         items: JSON.stringify(items.map(i => ({
           product: i.product,
+          variant: i.variant,
           quantity: i.quantity
         })))
       }
@@ -116,6 +107,37 @@ exports.createCheckoutSession = async (req, res, next) => {
   }
 };
 
+/**
+ * @desc    Verify a Checkout Session after Stripe redirects back
+ * @route   GET /api/payments/checkout-session/:sessionId
+ * @access  Private
+ */
+exports.verifyCheckoutSession = async (req, res, next) => {
+  try {
+    const session = await stripe.checkout.sessions.retrieve(req.params.sessionId);
+
+    if (session.client_reference_id !== req.user.id) {
+      return next(new ErrorResponse('Not authorized to view this payment', 403));
+    }
+
+    const orderId = session.metadata && session.metadata.orderId;
+    const paid = session.payment_status === 'paid';
+
+    // The webhook may not have arrived yet - confirm the order from the session itself
+    if (paid && orderId) {
+      await markOrderPaid(orderId, session.payment_intent, session.id);
+    }
+
+    res.status(200).json({
+      success: true,
+      paid,
+      orderId
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @desc    Stripe Webhook Handler
  * @route   POST /api/payments/webhook
@@ -143,6 +165,10 @@ exports.webhookHandler = async (req, res) => {
         await handleCheckoutComplete(event.data.object);
         break;
 
+      case 'checkout.session.expired':
+        await handleCheckoutExpired(event.data.object);
+        break;
+
       case 'payment_intent.succeeded':
         await handlePaymentSuccess(event.data.object);
         break;
@@ -169,34 +195,265 @@ exports.webhookHandler = async (req, res) => {
  */
 exports.createPaymentIntent = async (req, res, next) => {
   try {
-    const { amount } = req.body;
+    const { orderId } = req.body;
+    let { amount } = req.body;
+    const metadata = {
+      userId: req.user.id.toString()
+    };
+
+    // Charge the stored order total rather than a client-supplied amount
+    let order;
+    if (orderId) {
+      order = await loadPayableOrder(orderId, req.user);
+      amount = order.total;
+      metadata.orderId = order._id.toString();
+    }
 
     if (!amount || amount <= 0) {
       return next(new ErrorResponse('Invalid amount', 400));
     }
 
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: dollarsToCents(amount),
-      currency: 'usd',
-      metadata: {
-        userId: req.user.id.toString()
+    // An order is only ever payable through one open Stripe payment:
+    // its open PaymentIntent is reused, anything else is closed first
+    let paymentIntent = null;
+    if (order) {
+      if (!(await closeCheckoutSession(order))) {
+        return next(paymentInProgressError(order));
       }
-    });
+
+      paymentIntent = await findOpenPaymentIntent(order);
+      if (!paymentIntent && !(await closePaymentIntent(order))) {
+        return next(paymentInProgressError(order));
+      }
+    }
+
+    if (!paymentIntent) {
+      paymentIntent = await stripe.paymentIntents.create({
+        amount: dollarsToCents(amount),
+        currency: 'usd',
+        payment_method_types: ['card'],
+        metadata
+      });
+    }
+
+    if (order) {
+      order.stripePaymentIntentId = paymentIntent.id;
+      // Keep the stock held while the buyer enters their card
+      order.reservedUntil = reservationExpiry();
+      await order.save();
+    }
 
     res.status(200).json({
       success: true,
-      clientSecret: paymentIntent.client_secret
+      clientSecret: paymentIntent.client_secret,
+      amount: paymentIntent.amount
     });
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * Load an order the current user may pay for
+ * Throws ErrorResponse so callers can pass it straight to next()
+ */
+async function loadPayableOrder(orderId, user) {
+  const order = await Order.findById(orderId);
+
+  if (!order) {
+    throw new ErrorResponse('Order not found', 404);
+  }
+
+  if (order.user.toString() !== user.id) {
+    throw new ErrorResponse('Not authorized to pay for this order', 403);
+  }
+
+  if (order.paymentStatus === 'paid') {
+    throw new ErrorResponse('Order has already been paid', 400);
+  }
+
+  if (order.orderStatus === 'cancelled') {
+    throw new ErrorResponse('Order has been cancelled', 400);
+  }
+
+  return order;
+}
+
+/**
+ * The order's PaymentIntent, if the buyer can still pay it for the order total
+ */
+async function findOpenPaymentIntent(order) {
+  if (!order.stripePaymentIntentId) {
+    return null;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+  const open = OPEN_INTENT_STATUSES.includes(paymentIntent.status) &&
+               paymentIntent.amount === dollarsToCents(order.total);
+  return open ? paymentIntent : null;
+}
+
+/**
+ * Error for an order whose earlier Stripe payment could not be closed
+ */
+function paymentInProgressError(order) {
+  return order.paymentStatus === 'paid'
+    ? new ErrorResponse('Order has already been paid', 400)
+    : new ErrorResponse('Payment is still being processed. Please try again shortly.', 409);
+}
+
+/**
+ * Build shipping and tax line items for a Checkout Session
+ */
+function buildChargeLineItems(orderTotal) {
+  const lineItems = [];
+
+  // Add shipping as a line item if not free
+  if (orderTotal.shipping > 0) {
+    lineItems.push({
+      price_data: {
+        currency: 'usd',
+        product_data: {
+          name: 'Shipping',
+          description: `${(orderTotal.shippingMethod && orderTotal.shippingMethod.name) || 'Standard'} shipping`
+        },
+        unit_amount: dollarsToCents(orderTotal.shipping)
+      },
+      quantity: 1
+    });
+  }
+
+  // Add tax as a line item
+  if (orderTotal.tax > 0) {
+    lineItems.push({
+      price_data: {
+        currency: 'usd',
+        product_data: {
+          name: 'Tax',
+          description: 'Sales tax'
+        },
+        unit_amount: dollarsToCents(orderTotal.tax)
+      },
+      quantity: 1
+    });
+  }
+
+  return lineItems;
+}
+
+/**
+ * Checkout Session discounts for a coupon
+ * Stripe does not accept negative line items, so the order's discount becomes
+ * a single-use Stripe coupon for the exact amount.
+ */
+async function buildDiscounts(code, discount) {
+  if (!discount || discount <= 0) {
+    return undefined;
+  }
+
+  const stripeCoupon = await stripe.coupons.create({
+    amount_off: dollarsToCents(discount),
+    currency: 'usd',
+    duration: 'once',
+    max_redemptions: 1,
+    name: code || 'Discount'
+  });
+
+  return [{ coupon: stripeCoupon.id }];
+}
+
+/**
+ * Create a Checkout Session for an existing unpaid order
+ * Line items come from the stored order snapshot, never from the client
+ */
+async function createOrderCheckoutSession(req, res, orderId) {
+  const order = await loadPayableOrder(orderId, req.user);
+
+  // Earlier sessions and PaymentIntents for the order must not stay payable
+  if (!(await closePayment(order))) {
+    throw paymentInProgressError(order);
+  }
+
+  const lineItems = order.items.map(item => ({
+    price_data: {
+      currency: 'usd',
+      product_data: {
+        name: item.productName,
+        images: [item.productImage]
+      },
+      unit_amount: dollarsToCents(item.price)
+    },
+    quantity: item.quantity
+  }));
+
+  lineItems.push(...buildChargeLineItems(order));
+
+  // The hosted page closes when the stock reservation runs out
+  order.reservedUntil = reservationExpiry(MIN_SESSION_MS);
+
+  const session = await stripe.checkout.sessions.create({
+    payment_method_types: ['card'],
+    line_items: lineItems,
+    discounts: await buildDiscounts(order.couponCode, order.discount),
+    mode: 'payment',
+    expires_at: Math.floor(order.reservedUntil.getTime() / 1000),
+    success_url: `${process.env.FRONTEND_URL}/order-success?orderId=${order._id}&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${process.env.FRONTEND_URL}/checkout?cancelled=${order._id}`,
+    customer_email: req.user.email,
+    client_reference_id: req.user.id,
+    payment_intent_data: {
+      metadata: { orderId: order._id.toString() }
+    },
+    metadata: {
+      orderId: order._id.toString(),
+      userId: req.user.id.toString()
+    }
+  });
+
+  order.stripeCheckoutSessionId = session.id;
+  await order.save();
+
+  res.status(200).json({
+    success: true,
+    sessionId: session.id,
+    url: session.url
+  });
+}
+
+/**
+ * Mark an order as paid
+ * Idempotent - the webhook and the return-page verification can both arrive
+ */
+async function markOrderPaid(orderId, paymentIntentId, sessionId) {
+  const order = await Order.findById(orderId);
+
+  if (!order || order.paymentStatus === 'paid') {
+    return order;
+  }
+
+  // Stripe is stopped before a reservation is released, so this should never happen
+  if (order.orderStatus === 'cancelled') {
+    console.error(`Payment received for cancelled order ${order.orderNumber} - refund required`);
+  }
+
+  if (sessionId) {
+    order.stripeCheckoutSessionId = sessionId;
+  }
+
+  return order.markAsPaid({ id: paymentIntentId });
+}
+
 /**
  * Handle successful checkout session completion
  */
 async function handleCheckoutComplete(session) {
   try {
+    // Session created for an existing order - just confirm it
+    if (session.metadata && session.metadata.orderId) {
+      await markOrderPaid(session.metadata.orderId, session.payment_intent, session.id);
+      return;
+    }
+
     const metadata = session.metadata;
     const userId = metadata.userId;
     const items = JSON.parse(metadata.items);
@@ -217,26 +474,37 @@ async function handleCheckoutComplete(session) {
     const orderItems = [];
 
     for (const item of items) {
-      const product = await Product.findById(item.product);
-      if (!product) continue;
-
-      const itemSubtotal = product.price * item.quantity;
-      subtotal += itemSubtotal;
-
-      orderItems.push({
-        product: product._id,
-        productName: product.name,
-        productImage: product.imageUrl,
-        price: product.price,
-        quantity: item.quantity,
-        subtotal: itemSubtotal
-      });
+      let built;
+      try {
+        built = await buildOrderItem(item);
+      } catch (error) {
+        // Payment already taken - record what can still be fulfilled
+        console.error('Skipping checkout item:', error.message);
+        continue;
+      }
+
+      subtotal += built.orderItem.subtotal;
+      orderItems.push(built.orderItem);
 
       // Update product stock
-      await product.updateStock(item.quantity, 'subtract');
+      await built.product.updateStock(item.quantity, 'subtract', built.variant && built.variant._id);
     }
 
-    const orderTotal = calculateOrderTotal(subtotal);
+    // The discount was charged already; record it even if the coupon has run out since
+    let coupon = null;
+    if (metadata.couponCode) {
+      coupon = await applyCoupon(metadata.couponCode, orderItems, user).catch(error => {
+        console.error('Could not re-apply checkout coupon:', error.message);
+        return { code: metadata.couponCode, discount: centsToDollars(session.total_details.amount_discount) };
+      });
+    }
+
+    const orderTotal = await calculateOrderTotal(subtotal, coupon ? coupon.discount : 0, {
+      address: shippingAddress,
+      items: orderItems,
+      shippingService: metadata.shippingService,
+      taxExempt: user.taxExempt
+    });
 
     // Create order
     const order = await Order.create({
@@ -247,8 +515,15 @@ async function handleCheckoutComplete(session) {
       shippingAddress,
       billingAddress,
       subtotal: orderTotal.subtotal,
+      discount: orderTotal.discount,
+      couponCode: coupon ? coupon.code : undefined,
       shipping: orderTotal.shipping,
+      shippingMethod: orderTotal.shippingMethod,
+      earliestDelivery: orderTotal.estimatedDelivery.earliest,
+      estimatedDelivery: orderTotal.estimatedDelivery.latest,
       tax: orderTotal.tax,
+      taxBreakdown: orderTotal.taxBreakdown,
+      taxExempt: orderTotal.taxExempt,
       total: orderTotal.total,
       paymentMethod: 'stripe',
       paymentStatus: 'paid',
@@ -272,7 +547,16 @@ async function handleCheckoutComplete(session) {
  */
 async function handlePaymentSuccess(paymentIntent) {
   console.log('✅ Payment succeeded:', paymentIntent.id);
-  // Additional payment success handling if needed
+
+  const orderId = paymentIntent.metadata && paymentIntent.metadata.orderId;
+  if (!orderId) {
+    return;
+  }
+
+  const order = await Order.findById(orderId);
+  if (order && paymentIntent.amount === dollarsToCents(order.total)) {
+    await markOrderPaid(orderId, paymentIntent.id);
+  }
 }
 
 /**
@@ -289,6 +573,23 @@ async function handlePaymentFailed(paymentIntent) {
   if (order) {
     order.paymentStatus = 'failed';
     await order.save();
+    await releaseReservation(order, 'Payment failed');
+  }
+}
+
+/**
+ * Handle an abandoned Checkout Session
+ * The session closes when the reservation runs out, so release the stock now
+ */
+async function handleCheckoutExpired(session) {
+  const orderId = session.metadata && session.metadata.orderId;
+  if (!orderId) {
+    return;
+  }
+
+  const order = await Order.findById(orderId);
+  if (order) {
+    await releaseReservation(order, 'Checkout session expired');
   }
 }
 
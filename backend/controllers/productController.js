@@ -1,5 +1,43 @@
 const Product = require('../models/Product');
 const { ErrorResponse } = require('../middleware/errorHandler');
+const { productSearchFilters, rankProducts } = require('../utils/search');
+
+// Most products ranked in Node for one `q` search (newest first once exceeded)
+const SEARCH_CANDIDATE_LIMIT = 500;
+
+// Fields the server maintains itself (ratings come from reviews, visibility from admins)
+const SERVER_MANAGED_FIELDS = ['seller', 'rating', 'numReviews'];
+
+/**
+ * Drop server-managed fields from a create/update body
+ */
+const stripServerManagedFields = (body, user) => {
+  SERVER_MANAGED_FIELDS.forEach(field => delete body[field]);
+  if (user.role !== 'admin') {
+    delete body.isActive;
+  }
+
+  // Listing price and stock follow the variants (findByIdAndUpdate skips the pre-save hook)
+  if (Array.isArray(body.variants) && body.variants.length > 0) {
+    Object.assign(body, Product.summarizeVariants(body.variants));
+  }
+
+  // The first gallery image is the primary image shown in listings
+  if (Array.isArray(body.images) && body.images.length > 0) {
+    body.imageUrl = body.images[0];
+  }
+};
+
+/**
+ * Whether the requester may see a seller's hidden products (that seller or an admin)
+ */
+const canSeeHiddenProducts = (user, sellerId) =>
+  Boolean(user) && (user.role === 'admin' || String(sellerId) === user.id);
+
+/**
+ * Escape user input for use inside a RegExp
+ */
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 // @desc    Get all products
 // @route   GET /api/products
@@ -16,14 +54,17 @@ exports.getProducts = async (req, res, next) => {
       maxLength,
       inStock,
       featured,
+      seller,
+      color,
       search,
+      q,
       sort,
       page = 1,
       limit = 20
     } = req.query;
 
-    // Build query
-    const query = { isActive: true };
+    // Build query - a seller's own listing (or an admin's view of it) includes hidden products
+    const query = seller && canSeeHiddenProducts(req.user, seller) ? {} : { isActive: true };
 
     if (category) query.category = category;
     if (texture) query.texture = texture;
@@ -33,13 +74,22 @@ exports.getProducts = async (req, res, next) => {
       if (minPrice) query.price.$gte = parseFloat(minPrice);
       if (maxPrice) query.price.$lte = parseFloat(maxPrice);
     }
+    // Length and color also match any variant of the product
+    const variantFilters = [];
     if (minLength || maxLength) {
-      query.length = {};
-      if (minLength) query.length.$gte = parseInt(minLength);
-      if (maxLength) query.length.$lte = parseInt(maxLength);
+      const range = {};
+      if (minLength) range.$gte = parseInt(minLength);
+      if (maxLength) range.$lte = parseInt(maxLength);
+      variantFilters.push({ $or: [{ length: range }, { 'variants.length': range }] });
     }
     if (inStock === 'true') query.stock = { $gt: 0 };
     if (featured === 'true') query.isFeatured = true;
+    if (seller) query.seller = seller;
+    if (color) {
+      const colorRegex = new RegExp(`^${escapeRegex(color)}$`, 'i');
+      variantFilters.push({ $or: [{ 'specifications.color': colorRegex }, { 'variants.color': colorRegex }] });
+    }
+    if (variantFilters.length > 0) query.$and = variantFilters;
     if (search) query.$text = { $search: search };
 
     // Sort
@@ -50,7 +100,8 @@ exports.getProducts = async (req, res, next) => {
         'price-desc': '-price',
         'name-asc': 'name',
         'name-desc': '-name',
-        'rating': '-rating',
+        'rating': '-rating -numReviews',
+        'most-reviewed': '-numReviews -rating',
         'newest': '-createdAt'
       };
       sortOption = sortMap[sort] || sortOption;
@@ -59,6 +110,46 @@ exports.getProducts = async (req, res, next) => {
     // Pagination
     const skip = (parseInt(page) - 1) * parseInt(limit);
 
+    // Full-text search: rank matches by relevance unless a sort was requested
+    if (q) {
+      // Narrow the candidates in the database before ranking them here
+      const tokenFilters = productSearchFilters(q);
+      const candidates = tokenFilters.length === 0 ? [] : await Product.find({
+        ...query,
+        $and: [...(query.$and || []), ...tokenFilters]
+      })
+        .select('name description origin texture specifications.color')
+        .sort('-createdAt')
+        .limit(SEARCH_CANDIDATE_LIMIT)
+        .lean();
+      const matchedIds = rankProducts(candidates, q).map(p => p._id);
+
+      let products;
+      if (sort) {
+        products = await Product.find({ _id: { $in: matchedIds } })
+          .populate('seller', 'firstName lastName email')
+          .sort(sortOption)
+          .skip(skip)
+          .limit(parseInt(limit));
+      } else {
+        const pageIds = matchedIds.slice(skip, skip + parseInt(limit));
+        const found = await Product.find({ _id: { $in: pageIds } })
+          .populate('seller', 'firstName lastName email');
+        products = pageIds
+          .map(id => found.find(p => p._id.equals(id)))
+          .filter(Boolean);
+      }
+
+      return res.status(200).json({
+        success: true,
+        count: products.length,
+        total: matchedIds.length,
+        page: parseInt(page),
+        pages: Math.ceil(matchedIds.length / parseInt(limit)),
+        data: products
+      });
+    }
+
     // Execute query
     const products = await Product.find(query)
       .populate('seller', 'firstName lastName email')
@@ -89,7 +180,8 @@ exports.getProduct = async (req, res, next) => {
     const product = await Product.findById(req.params.id)
       .populate('seller', 'firstName lastName email');
 
-    if (!product) {
+    // Hidden (unpublished) products are only shown to their seller and admins
+    if (!product || (!product.isActive && !canSeeHiddenProducts(req.user, product.seller && product.seller._id))) {
       return next(new ErrorResponse('Product not found', 404));
     }
 
@@ -102,11 +194,32 @@ exports.getProduct = async (req, res, next) => {
   }
 };
 
+// @desc    Get current stock of several products (and their variants)
+// @route   GET /api/products/stock?ids=id1,id2
+// @access  Public
+exports.getProductStock = async (req, res, next) => {
+  try {
+    // Stock held by unpaid orders has already been taken off these numbers
+    const products = await Product.find({ _id: { $in: req.query.ids.split(',') }, isActive: true })
+      .select('stock variants._id variants.stock');
+
+    res.status(200).json({
+      success: true,
+      count: products.length,
+      data: products
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Create product
 // @route   POST /api/products
 // @access  Private (Seller/Admin)
 exports.createProduct = async (req, res, next) => {
   try {
+    stripServerManagedFields(req.body, req.user);
+
     // Add seller to req.body
     req.body.seller = req.user.id;
 
@@ -137,6 +250,8 @@ exports.updateProduct = async (req, res, next) => {
       return next(new ErrorResponse('Not authorized to update this product', 403));
     }
 
+    stripServerManagedFields(req.body, req.user);
+
     product = await Product.findByIdAndUpdate(req.params.id, req.body, {
       new: true,
       runValidators: true
@@ -0,0 +1,121 @@
+const mongoose = require('mongoose');
+const Review = require('../models/Review');
+const Product = require('../models/Product');
+const Order = require('../models/Order');
+const { ErrorResponse } = require('../middleware/errorHandler');
+
+// @desc    Get reviews for a product (paginated, with star breakdown)
+// @route   GET /api/products/:productId/reviews
+// @access  Public
+exports.getProductReviews = async (req, res, next) => {
+  try {
+    const { page = 1, limit = 10 } = req.query;
+    const productId = new mongoose.Types.ObjectId(req.params.productId);
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const reviews = await Review.find({ product: productId })
+      .sort('-createdAt')
+      .skip(skip)
+      .limit(parseInt(limit));
+
+    const breakdown = await Review.getRatingBreakdown(productId);
+    const total = Object.values(breakdown).reduce((sum, count) => sum + count, 0);
+    const ratingSum = Object.entries(breakdown).reduce((sum, [stars, count]) => sum + stars * count, 0);
+
+    res.status(200).json({
+      success: true,
+      count: reviews.length,
+      total,
+      page: parseInt(page),
+      pages: Math.ceil(total / parseInt(limit)),
+      summary: {
+        average: total > 0 ? Math.round((ratingSum / total) * 10) / 10 : 0,
+        total,
+        breakdown
+      },
+      data: reviews
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Check whether the current user may review a product
+// @route   GET /api/products/:productId/reviews/eligibility
+// @access  Private
+exports.getReviewEligibility = async (req, res, next) => {
+  try {
+    const { canReview, reason } = await checkEligibility(req.params.productId, req.user);
+
+    res.status(200).json({
+      success: true,
+      data: { canReview, reason }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create a review
+// @route   POST /api/products/:productId/reviews
+// @access  Private (buyers with a delivered order containing the product)
+exports.createReview = async (req, res, next) => {
+  try {
+    const product = await Product.findById(req.params.productId);
+
+    if (!product || !product.isActive) {
+      return next(new ErrorResponse('Product not found', 404));
+    }
+
+    const { canReview, reason, order } = await checkEligibility(product._id, req.user);
+
+    if (!canReview) {
+      return next(new ErrorResponse(reason, 403));
+    }
+
+    const { rating, title, comment } = req.body;
+
+    const review = await Review.create({
+      product: product._id,
+      user: req.user.id,
+      // Only the first name and last initial are shown publicly
+      userName: `${req.user.firstName} ${req.user.lastName.charAt(0)}.`,
+      order: order._id,
+      rating,
+      title,
+      comment
+    });
+
+    res.status(201).json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * A user may review a product once, after an order containing it was delivered
+ */
+async function checkEligibility(productId, user) {
+  const existing = await Review.exists({ product: productId, user: user.id });
+  if (existing) {
+    return { canReview: false, reason: 'You have already reviewed this product' };
+  }
+
+  const order = await Order.findOne({
+    user: user.id,
+    orderStatus: 'delivered',
+    'items.product': productId
+  }).select('_id');
+
+  if (!order) {
+    return { canReview: false, reason: 'Only buyers who have received this product can review it' };
+  }
+
+  return { canReview: true, order };
+}
+
+module.exports = exports;
@@ -0,0 +1,25 @@
+const { getShippingOptions } = require('../utils/shipping');
+
+// @desc    Get shipping options and delivery estimates for a cart
+// @route   POST /api/shipping/rates
+// @access  Public
+exports.getRates = async (req, res, next) => {
+  try {
+    const { address = {}, items, subtotal = 0 } = req.body;
+
+    // A quote only - orders are priced again when they are placed
+    const options = await getShippingOptions({
+      address,
+      items: items.map(item => ({ product: item.product, quantity: item.quantity })),
+      subtotal
+    });
+
+    res.status(200).json({
+      success: true,
+      count: options.length,
+      data: options
+    });
+  } catch (error) {
+    next(error);
+  }
+};
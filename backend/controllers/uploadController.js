@@ -0,0 +1,111 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const { ErrorResponse } = require('../middleware/errorHandler');
+
+const UPLOAD_ROOT = path.resolve(process.env.UPLOAD_PATH || './uploads');
+const PRODUCT_IMAGE_DIR = path.join(UPLOAD_ROOT, 'products');
+
+// @desc    Upload a product image (and optional thumbnail)
+// @route   POST /api/uploads/images
+// @access  Private (Seller/Admin)
+exports.uploadImage = async (req, res, next) => {
+  try {
+    const image = req.files?.image?.[0];
+    const thumbnail = req.files?.thumbnail?.[0];
+
+    if (!image) {
+      return next(new ErrorResponse('Please attach an image', 400));
+    }
+
+    // The declared mimetype comes from the client; check the bytes as well
+    for (const file of [image, thumbnail].filter(Boolean)) {
+      const format = detectFormat(file.buffer);
+      if (!format || `image/${format}` !== file.mimetype) {
+        return next(new ErrorResponse('File is not a valid JPEG or WebP image', 400));
+      }
+      // Photos straight from a phone carry GPS coordinates; only stripped images are accepted
+      if (hasExif(file.buffer, format)) {
+        return next(new ErrorResponse('Image contains EXIF metadata. Please upload it through the seller dashboard, which removes it.', 400));
+      }
+    }
+
+    await fs.mkdir(PRODUCT_IMAGE_DIR, { recursive: true });
+
+    const name = crypto.randomBytes(16).toString('hex');
+    const url = await saveFile(req, image, name);
+    const thumbnailUrl = thumbnail ? await saveFile(req, thumbnail, `${name}-thumb`) : url;
+
+    res.status(201).json({
+      success: true,
+      data: { url, thumbnailUrl }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Write an uploaded file and return its public URL
+ */
+async function saveFile(req, file, name) {
+  const extension = file.mimetype === 'image/webp' ? 'webp' : 'jpg';
+  const filename = `${name}.${extension}`;
+
+  await fs.writeFile(path.join(PRODUCT_IMAGE_DIR, filename), file.buffer);
+
+  const baseUrl = process.env.UPLOAD_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/uploads/products/${filename}`;
+}
+
+/**
+ * Identify JPEG or WebP data from its signature
+ */
+function detectFormat(buffer) {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (buffer.length >= 12 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+}
+
+/**
+ * Whether the image carries an EXIF block
+ * JPEG: an APP1 segment starting with "Exif". WebP: an "EXIF" chunk.
+ */
+function hasExif(buffer, format) {
+  if (format === 'webp') {
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+      const chunkId = buffer.toString('ascii', offset, offset + 4);
+      const chunkSize = buffer.readUInt32LE(offset + 4);
+      if (chunkId === 'EXIF') {
+        return true;
+      }
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return false;
+  }
+
+  // Walk the JPEG segments up to the start of the image data
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xda) {
+      break;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && buffer.toString('ascii', offset + 4, offset + 8) === 'Exif') {
+      return true;
+    }
+    offset += 2 + length;
+  }
+  return false;
+}
+
+module.exports = exports;
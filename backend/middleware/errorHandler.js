@@ -52,6 +52,12 @@ const errorHandler = (err, req, res, next) => {
     error = new ErrorResponse(message, 401);
   }
 
+  // Multipart upload errors (file too large, unexpected field, ...)
+  if (err.name === 'MulterError') {
+    const message = err.code === 'LIMIT_FILE_SIZE' ? 'Image is too large' : err.message;
+    error = new ErrorResponse(message, 400);
+  }
+
   // Stripe errors
   if (err.type === 'StripeCardError') {
     const message = err.message || 'Payment processing error';
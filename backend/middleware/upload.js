@@ -0,0 +1,31 @@
+const multer = require('multer');
+const { ErrorResponse } = require('./errorHandler');
+
+// Browsers re-encode images to one of these before uploading (see src/app/utils/image.util.ts)
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/webp'];
+
+const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE) || 5 * 1024 * 1024;
+
+/**
+ * Multipart parser for product image uploads
+ * Files stay in memory so their contents can be checked before anything is written to disk.
+ * Expects an `image` field and an optional `thumbnail` field.
+ */
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_FILE_SIZE,
+    files: 2
+  },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      return cb(new ErrorResponse('Only JPEG and WebP images are allowed', 400));
+    }
+    cb(null, true);
+  }
+}).fields([
+  { name: 'image', maxCount: 1 },
+  { name: 'thumbnail', maxCount: 1 }
+]);
+
+module.exports = { imageUpload, ALLOWED_IMAGE_TYPES };
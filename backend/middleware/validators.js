@@ -1,4 +1,17 @@
 const { body, param, query, validationResult } = require('express-validator');
+const { LACE_SIZES } = require('../models/Product');
+const { SERVICE_LEVELS } = require('../config/shipping');
+const { MAX_SAVED_ADDRESSES } = require('../models/User');
+const { validateAddress, normalizeAddress, toE164 } = require('../utils/address');
+
+const SHIPPING_SERVICES = Object.keys(SERVICE_LEVELS);
+
+// Uploaded images are served by this API, which has no TLD when run on localhost
+const IMAGE_URL_OPTIONS = {
+  protocols: ['http', 'https'],
+  require_protocol: true,
+  require_tld: process.env.NODE_ENV === 'production'
+};
 
 /**
  * Validate results and return errors if any
@@ -18,6 +31,29 @@ const validate = (req, res, next) => {
   next();
 };
 
+/**
+ * Check an address against its country's rules (utils/address.js) and store it normalized
+ */
+const checkAddress = (chain) => chain
+  .custom(address => {
+    const error = validateAddress(address);
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  })
+  .bail()
+  .customSanitizer(address => ({ ...address, ...normalizeAddress(address) }));
+
+/**
+ * Password strength rules, shared by registration and password changes
+ */
+const strongPassword = (field) => body(field)
+  .notEmpty().withMessage('Password is required')
+  .isLength({ min: 12 }).withMessage('Password must be at least 12 characters')
+  .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
+  .withMessage('Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character');
+
 /**
  * User Registration Validation
  */
@@ -40,11 +76,7 @@ exports.registerValidation = [
     .isEmail().withMessage('Please provide a valid email')
     .normalizeEmail(),
 
-  body('password')
-    .notEmpty().withMessage('Password is required')
-    .isLength({ min: 12 }).withMessage('Password must be at least 12 characters')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
-    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'),
+  strongPassword('password'),
 
   body('role')
     .optional()
@@ -69,6 +101,98 @@ exports.loginValidation = [
   validate
 ];
 
+/**
+ * Profile Update Validation (including the address book)
+ */
+exports.updateDetailsValidation = [
+  body('firstName')
+    .optional()
+    .trim()
+    .notEmpty().withMessage('First name is required')
+    .isLength({ max: 50 }).withMessage('First name cannot exceed 50 characters')
+    .matches(/^[a-zA-Z\s'-]+$/).withMessage('First name can only contain letters, spaces, hyphens, and apostrophes'),
+
+  body('lastName')
+    .optional()
+    .trim()
+    .notEmpty().withMessage('Last name is required')
+    .isLength({ max: 50 }).withMessage('Last name cannot exceed 50 characters')
+    .matches(/^[a-zA-Z\s'-]+$/).withMessage('Last name can only contain letters, spaces, hyphens, and apostrophes'),
+
+  body('email')
+    .optional()
+    .trim()
+    .isEmail().withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  body('addresses')
+    .optional()
+    .isArray({ max: MAX_SAVED_ADDRESSES }).withMessage(`You can save up to ${MAX_SAVED_ADDRESSES} addresses`),
+
+  body('addresses.*._id')
+    .optional()
+    .isMongoId().withMessage('Invalid address ID'),
+
+  body('addresses.*.label')
+    .trim()
+    .notEmpty().withMessage('Address label is required')
+    .isLength({ max: 50 }).withMessage('Address label cannot exceed 50 characters'),
+
+  checkAddress(body('addresses.*')),
+
+  checkAddress(body('address').optional({ values: 'falsy' })),
+
+  body('phone')
+    .optional({ values: 'falsy' })
+    .custom(phone => toE164(phone, 'US') !== null).withMessage('Please provide a valid phone number, with the country code for numbers outside the US')
+    .customSanitizer(phone => toE164(phone, 'US')),
+
+  body(['addresses.*.isDefaultShipping', 'addresses.*.isDefaultBilling'])
+    .optional()
+    .isBoolean().withMessage('Default flags must be true or false')
+    .toBoolean(),
+
+  validate
+];
+
+/**
+ * Forgot Password Validation
+ */
+exports.forgotPasswordValidation = [
+  body('email')
+    .trim()
+    .notEmpty().withMessage('Email is required')
+    .isEmail().withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  validate
+];
+
+/**
+ * Password Reset Validation
+ */
+exports.resetPasswordValidation = [
+  strongPassword('password'),
+
+  validate
+];
+
+/**
+ * Password Change Validation
+ */
+exports.updatePasswordValidation = [
+  body('currentPassword')
+    .notEmpty().withMessage('Current password is required'),
+
+  strongPassword('newPassword'),
+
+  body('newPassword')
+    .custom((newPassword, { req }) => newPassword !== req.body.currentPassword)
+    .withMessage('New password must be different from your current password'),
+
+  validate
+];
+
 /**
  * Product Creation/Update Validation
  */
@@ -113,7 +237,41 @@ exports.productValidation = [
   body('imageUrl')
     .trim()
     .notEmpty().withMessage('Image URL is required')
-    .isURL().withMessage('Please provide a valid image URL'),
+    .isURL(IMAGE_URL_OPTIONS).withMessage('Please provide a valid image URL'),
+
+  body('images')
+    .optional()
+    .isArray({ max: 10 }).withMessage('A product can have at most 10 images'),
+
+  body('images.*')
+    .trim()
+    .isURL(IMAGE_URL_OPTIONS).withMessage('Please provide valid gallery image URLs'),
+
+  body('variants')
+    .optional()
+    .isArray({ max: 50 }).withMessage('A product can have at most 50 variants'),
+
+  body('variants.*.length')
+    .isInt({ min: 8, max: 40 }).withMessage('Variant length must be between 8 and 40 inches'),
+
+  body('variants.*.color')
+    .trim()
+    .notEmpty().withMessage('Variant color is required'),
+
+  body('variants.*.laceSize')
+    .optional({ values: 'falsy' })
+    .isIn(LACE_SIZES).withMessage('Invalid lace size'),
+
+  body('variants.*.price')
+    .isFloat({ min: 0, max: 100000 }).withMessage('Variant price must be between $0 and $100,000'),
+
+  body('variants.*.stock')
+    .isInt({ min: 0 }).withMessage('Variant stock cannot be negative'),
+
+  body('variants.*.imageUrl')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isURL(IMAGE_URL_OPTIONS).withMessage('Please provide a valid variant image URL'),
 
   validate
 ];
@@ -129,26 +287,138 @@ exports.orderValidation = [
     .notEmpty().withMessage('Product ID is required')
     .isMongoId().withMessage('Invalid product ID'),
 
+  body('items.*.variant')
+    .optional()
+    .isMongoId().withMessage('Invalid variant ID'),
+
   body('items.*.quantity')
     .notEmpty().withMessage('Quantity is required')
     .isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
 
-  body('shippingAddress.street')
-    .trim()
-    .notEmpty().withMessage('Street address is required'),
+  body('couponCode')
+    .optional({ values: 'falsy' })
+    .isString().trim()
+    .isLength({ max: 30 }).withMessage('Invalid coupon code'),
 
-  body('shippingAddress.city')
+  body('shippingService')
+    .optional()
+    .isIn(SHIPPING_SERVICES).withMessage('Shipping must be standard, express or overnight'),
+
+  body('paymentMethod')
+    .optional()
+    .isIn(['stripe', 'card', 'mock']).withMessage('Invalid payment method')
+    .bail()
+    .custom(method => method !== 'mock' || process.env.NODE_ENV === 'development')
+    .withMessage('Mock payments are only available in development'),
+
+  checkAddress(body('shippingAddress')),
+
+  checkAddress(body('billingAddress').optional({ values: 'falsy' })),
+
+  validate
+];
+
+/**
+ * Abandoned Checkout Validation
+ */
+exports.abandonCheckoutValidation = [
+  body('sessionId')
+    .isString().withMessage('Checkout session ID is required')
+    .notEmpty().withMessage('Checkout session ID is required'),
+
+  validate
+];
+
+/**
+ * Shipping Rates Validation
+ */
+exports.shippingRatesValidation = [
+  body('items')
+    .isArray({ min: 1, max: 100 }).withMessage('Items must be a non-empty array'),
+
+  body('items.*.product')
+    .notEmpty().withMessage('Product ID is required')
+    .isMongoId().withMessage('Invalid product ID'),
+
+  body('items.*.quantity')
+    .isInt({ min: 1 }).withMessage('Quantity must be at least 1')
+    .toInt(),
+
+  body('subtotal')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Subtotal cannot be negative')
+    .toFloat(),
+
+  body('address.state')
+    .optional()
+    .isString().trim()
+    .isLength({ max: 50 }).withMessage('Invalid state'),
+
+  body('address.zipCode')
+    .optional()
+    .isString().trim()
+    .isLength({ max: 20 }).withMessage('Invalid ZIP code'),
+
+  body('address.country')
+    .optional()
+    .isString().trim()
+    .isLength({ max: 60 }).withMessage('Invalid country'),
+
+  validate
+];
+
+/**
+ * Review Validation
+ */
+exports.reviewValidation = [
+  body('rating')
+    .isInt({ min: 1, max: 5 }).withMessage('Rating must be between 1 and 5')
+    .toInt(),
+
+  body('title')
+    .optional()
     .trim()
-    .notEmpty().withMessage('City is required'),
+    .isLength({ max: 100 }).withMessage('Title cannot exceed 100 characters'),
 
-  body('shippingAddress.state')
+  body('comment')
     .trim()
-    .notEmpty().withMessage('State is required'),
+    .notEmpty().withMessage('Please write a comment')
+    .isLength({ max: 1000 }).withMessage('Comment cannot exceed 1000 characters'),
 
-  body('shippingAddress.zipCode')
+  validate
+];
+
+/**
+ * Order Status Validation (fulfillment)
+ */
+exports.orderStatusValidation = [
+  body('status')
+    .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled']).withMessage('Invalid order status'),
+
+  body('trackingNumber')
+    .optional()
+    .isString().withMessage('Invalid tracking number')
     .trim()
-    .notEmpty().withMessage('ZIP code is required')
-    .matches(/^\d{5}(-\d{4})?$/).withMessage('Invalid ZIP code format'),
+    .isLength({ max: 100 }).withMessage('Tracking number cannot exceed 100 characters'),
+
+  body('estimatedDelivery')
+    .optional({ values: 'falsy' })
+    .isISO8601().withMessage('Estimated delivery must be a valid date'),
+
+  validate
+];
+
+/**
+ * Order Payment Status Validation
+ */
+exports.paymentStatusValidation = [
+  body('status')
+    .isIn(['paid', 'failed']).withMessage('Status must be paid or failed'),
+
+  body('transactionId')
+    .optional()
+    .isString().withMessage('Invalid transaction ID')
+    .trim(),
 
   validate
 ];
@@ -163,6 +433,110 @@ exports.mongoIdValidation = (paramName = 'id') => [
   validate
 ];
 
+/**
+ * Live Stock Validation (comma-separated product IDs)
+ */
+exports.stockQueryValidation = [
+  query('ids')
+    .notEmpty().withMessage('Product IDs are required')
+    .custom(value => value.split(',').length <= 100).withMessage('At most 100 products per request')
+    .custom(value => value.split(',').every(id => /^[a-f0-9]{24}$/i.test(id))).withMessage('Invalid product ID'),
+
+  validate
+];
+
+/**
+ * Coupon Code Validation (buyer entering a code)
+ */
+exports.couponCodeValidation = [
+  body('code')
+    .isString().withMessage('Coupon code is required')
+    .trim()
+    .isLength({ min: 1, max: 30 }).withMessage('Invalid coupon code'),
+
+  validate
+];
+
+/**
+ * Coupon Validation (create or update)
+ * Required fields and cross-field rules are enforced by the Coupon model
+ */
+exports.couponValidation = [
+  body('code')
+    .optional()
+    .trim()
+    .matches(/^[A-Za-z0-9_-]{3,30}$/).withMessage('Codes are 3-30 letters, digits, dashes or underscores'),
+
+  body('type')
+    .optional()
+    .isIn(['percentage', 'fixed', 'bogo']).withMessage('Invalid coupon type'),
+
+  body('value')
+    .optional()
+    .isFloat({ min: 0.01, max: 100000 }).withMessage('Discount must be positive'),
+
+  body(['buyQuantity', 'getQuantity', 'usageLimit', 'perUserLimit'])
+    .optional()
+    .isInt({ min: 1 }).withMessage('Must be a whole number of at least 1'),
+
+  body('minSubtotal')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Minimum subtotal cannot be negative'),
+
+  body('categories')
+    .optional()
+    .isArray().withMessage('Categories must be a list'),
+
+  body('categories.*')
+    .isIn(['virgin-hair', 'remy-hair', 'synthetic', 'closure', 'frontal', 'wig'])
+    .withMessage('Invalid category'),
+
+  body('products')
+    .optional()
+    .isArray({ max: 100 }).withMessage('Products must be a list of at most 100'),
+
+  body('products.*')
+    .isMongoId().withMessage('Invalid product ID'),
+
+  body('seller')
+    .optional({ values: 'null' })
+    .isMongoId().withMessage('Invalid seller ID'),
+
+  body(['startsAt', 'expiresAt'])
+    .optional({ values: 'null' })
+    .isISO8601().withMessage('Dates must be ISO 8601'),
+
+  validate
+];
+
+/**
+ * Cart Validation (replace or merge a cart)
+ */
+exports.cartValidation = [
+  body('items')
+    .isArray({ max: 100 }).withMessage('Items must be a list of at most 100 lines'),
+
+  body('items.*.product')
+    .notEmpty().withMessage('Product ID is required')
+    .isMongoId().withMessage('Invalid product ID'),
+
+  body('items.*.variant')
+    .optional({ values: 'null' })
+    .isMongoId().withMessage('Invalid variant ID'),
+
+  body('items.*.quantity')
+    .notEmpty().withMessage('Quantity is required')
+    .isInt({ min: 1 }).withMessage('Quantity must be at least 1')
+    .toInt(),
+
+  body('items.*.price')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 }).withMessage('Price must be a positive number')
+    .toFloat(),
+
+  validate
+];
+
 /**
  * Pagination Validation
  */
@@ -175,37 +549,85 @@ exports.paginationValidation = [
     .optional()
     .isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
 
+  query('seller')
+    .optional()
+    .isMongoId().withMessage('Invalid seller ID'),
+
   validate
 ];
 
 /**
- * Address Validation
+ * Product Search Validation
  */
-exports.addressValidation = [
-  body('street')
+exports.productSearchValidation = [
+  query('q')
+    .optional()
     .trim()
-    .notEmpty().withMessage('Street address is required')
-    .isLength({ max: 200 }).withMessage('Street address cannot exceed 200 characters'),
+    .isLength({ max: 100 }).withMessage('Search query cannot exceed 100 characters'),
 
-  body('city')
+  query('color')
+    .optional()
     .trim()
-    .notEmpty().withMessage('City is required')
-    .isLength({ max: 100 }).withMessage('City cannot exceed 100 characters'),
+    .isLength({ max: 50 }).withMessage('Color cannot exceed 50 characters'),
 
-  body('state')
-    .trim()
-    .notEmpty().withMessage('State is required')
-    .isLength({ max: 50 }).withMessage('State cannot exceed 50 characters'),
+  query('sort')
+    .optional()
+    .isIn(['price-asc', 'price-desc', 'name-asc', 'name-desc', 'rating', 'most-reviewed', 'newest'])
+    .withMessage('Invalid sort option'),
 
-  body('zipCode')
-    .trim()
-    .notEmpty().withMessage('ZIP code is required')
-    .matches(/^\d{5}(-\d{4})?$/).withMessage('Invalid ZIP code format'),
+  validate
+];
+
+/**
+ * Admin: User Update Validation
+ */
+exports.adminUserUpdateValidation = [
+  body('role')
+    .optional()
+    .isIn(['buyer', 'seller', 'admin']).withMessage('Role must be buyer, seller, or admin'),
 
-  body('country')
+  body('isActive')
     .optional()
+    .isBoolean().withMessage('isActive must be true or false')
+    .toBoolean(),
+
+  body('taxExempt')
+    .optional()
+    .isBoolean().withMessage('taxExempt must be true or false')
+    .toBoolean(),
+
+  validate
+];
+
+/**
+ * Admin: Product Visibility Validation
+ */
+exports.productVisibilityValidation = [
+  body('isActive')
+    .isBoolean().withMessage('isActive must be true or false')
+    .toBoolean(),
+
+  validate
+];
+
+/**
+ * Admin: Order Action Validation (force-cancel, refund)
+ */
+exports.adminOrderActionValidation = [
+  body('reason')
+    .optional()
+    .isString().withMessage('Invalid reason')
     .trim()
-    .isLength({ max: 100 }).withMessage('Country cannot exceed 100 characters'),
+    .isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters'),
+
+  validate
+];
+
+/**
+ * Address Validation (country-aware, for a request body that is an address)
+ */
+exports.addressValidation = [
+  checkAddress(body()),
 
   validate
 ];
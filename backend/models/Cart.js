@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+
+const MAX_CART_LINES = 100;
+
+/**
+ * A signed-in buyer's cart
+ * Only references are stored; the storefront re-fetches products for prices and stock.
+ * price is the unit price the buyer last saw, used only to flag price changes.
+ */
+const CartItemSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  variant: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [1, 'Quantity must be at least 1']
+  },
+  price: {
+    type: Number,
+    min: 0
+  }
+}, { _id: false });
+
+const CartSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  items: {
+    type: [CartItemSchema],
+    validate: [items => items.length <= MAX_CART_LINES, `A cart cannot hold more than ${MAX_CART_LINES} items`]
+  }
+}, {
+  timestamps: true
+});
+
+// Key identifying a cart line (a product, or one variant of it)
+CartSchema.statics.lineKey = function(item) {
+  return `${item.product}:${item.variant || ''}`;
+};
+
+CartSchema.statics.MAX_LINES = MAX_CART_LINES;
+
+module.exports = mongoose.model('Cart', CartSchema);
@@ -0,0 +1,127 @@
+const mongoose = require('mongoose');
+
+/**
+ * Coupon (promotion code)
+ *
+ * Types:
+ *   - percentage: `value` percent off each eligible item
+ *   - fixed:      `value` dollars off the eligible items as a whole
+ *   - bogo:       buy `buyQuantity`, get `getQuantity` (the cheapest units) `value` percent off
+ *
+ * A coupon applies to every item unless scoped to categories, a seller or
+ * specific products; scopes combine (an item must match all of them).
+ */
+const CouponSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: [true, 'Please provide a coupon code'],
+    unique: true,
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z0-9_-]{3,30}$/, 'Codes are 3-30 letters, digits, dashes or underscores']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['percentage', 'fixed', 'bogo'],
+      message: 'Invalid coupon type'
+    }
+  },
+  value: {
+    type: Number,
+    required: [true, 'Please provide a discount value'],
+    min: [0.01, 'Discount must be positive']
+  },
+  buyQuantity: {
+    type: Number,
+    min: 1,
+    default: 1
+  },
+  getQuantity: {
+    type: Number,
+    min: 1,
+    default: 1
+  },
+  categories: [{
+    type: String,
+    enum: ['virgin-hair', 'remy-hair', 'synthetic', 'closure', 'frontal', 'wig']
+  }],
+  seller: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  products: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product'
+  }],
+  minSubtotal: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  startsAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date
+  },
+  // Total redemptions across all buyers (unlimited when unset)
+  usageLimit: {
+    type: Number,
+    min: 1
+  },
+  perUserLimit: {
+    type: Number,
+    min: 1,
+    default: 1
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+CouponSchema.pre('validate', function() {
+  if (this.type === 'percentage' || this.type === 'bogo') {
+    if (this.value > 100) {
+      this.invalidate('value', 'Percentage discounts cannot exceed 100');
+    }
+  }
+  if (this.startsAt && this.expiresAt && this.startsAt >= this.expiresAt) {
+    this.invalidate('expiresAt', 'Coupon must expire after it starts');
+  }
+});
+
+CouponSchema.index({ createdBy: 1 });
+
+// Fields a buyer may see once they have entered the code
+CouponSchema.methods.toPublic = function() {
+  return {
+    code: this.code,
+    description: this.description,
+    type: this.type,
+    value: this.value,
+    buyQuantity: this.buyQuantity,
+    getQuantity: this.getQuantity,
+    categories: this.categories,
+    seller: this.seller,
+    products: this.products,
+    minSubtotal: this.minSubtotal,
+    expiresAt: this.expiresAt
+  };
+};
+
+module.exports = mongoose.model('Coupon', CouponSchema);
@@ -6,6 +6,13 @@ const OrderItemSchema = new mongoose.Schema({
     ref: 'Product',
     required: true
   },
+  // Chosen SKU for products with variants
+  variant: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  variantLabel: {
+    type: String
+  },
   productName: {
     type: String,
     required: true
@@ -28,6 +35,40 @@ const OrderItemSchema = new mongoose.Schema({
     type: Number,
     required: true,
     min: 0
+  },
+  // Share of the order's coupon discount taken off this line
+  discount: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, { _id: false });
+
+// One jurisdiction's share of the order's sales tax (see utils/tax.js)
+const TaxLineSchema = new mongoose.Schema({
+  jurisdiction: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  // Percent
+  rate: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  taxableAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
   }
 }, { _id: false });
 
@@ -60,18 +101,16 @@ const OrderSchema = new mongoose.Schema({
       type: String,
       required: true
     },
-    state: {
-      type: String,
-      required: true
-    },
+    state: String, // Required where the country has states or provinces (utils/address.js)
     zipCode: {
       type: String,
       required: true
     },
     country: {
       type: String,
-      default: 'USA'
-    }
+      default: 'US'
+    },
+    phone: String
   },
   billingAddress: {
     street: {
@@ -82,34 +121,57 @@ const OrderSchema = new mongoose.Schema({
       type: String,
       required: true
     },
-    state: {
-      type: String,
-      required: true
-    },
+    state: String, // Required where the country has states or provinces (utils/address.js)
     zipCode: {
       type: String,
       required: true
     },
     country: {
       type: String,
-      default: 'USA'
-    }
+      default: 'US'
+    },
+    phone: String
   },
   subtotal: {
     type: Number,
     required: true,
     min: 0
   },
+  discount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  couponCode: {
+    type: String
+  },
   shipping: {
     type: Number,
     required: true,
     min: 0
   },
+  // Service level chosen at checkout (see utils/shipping.js)
+  shippingMethod: {
+    service: {
+      type: String,
+      enum: ['standard', 'express', 'overnight'],
+      default: 'standard'
+    },
+    name: {
+      type: String
+    }
+  },
   tax: {
     type: Number,
     required: true,
     min: 0
   },
+  taxBreakdown: [TaxLineSchema],
+  // Buyer was tax-exempt when the order was placed
+  taxExempt: {
+    type: Boolean,
+    default: false
+  },
   total: {
     type: Number,
     required: true,
@@ -139,6 +201,10 @@ const OrderSchema = new mongoose.Schema({
   paidAt: {
     type: Date
   },
+  // Unpaid orders hold their stock until then; see utils/reservations.js
+  reservedUntil: {
+    type: Date
+  },
   orderStatus: {
     type: String,
     enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled'],
@@ -163,6 +229,10 @@ const OrderSchema = new mongoose.Schema({
     type: String,
     maxlength: 1000
   },
+  // Delivery window quoted at checkout; sellers may update estimatedDelivery when shipping
+  earliestDelivery: {
+    type: Date
+  },
   estimatedDelivery: {
     type: Date
   }
@@ -177,9 +247,11 @@ OrderSchema.index({ orderStatus: 1 });
 OrderSchema.index({ paymentStatus: 1 });
 OrderSchema.index({ stripePaymentIntentId: 1 });
 OrderSchema.index({ stripeCheckoutSessionId: 1 });
+OrderSchema.index({ reservedUntil: 1 }, { sparse: true });
+OrderSchema.index({ couponCode: 1, user: 1 }, { sparse: true });
 
-// Pre-save middleware to generate order number
-OrderSchema.pre('save', async function(next) {
+// Generate the order number before validation, which requires it
+OrderSchema.pre('validate', function() {
   if (this.isNew && !this.orderNumber) {
     // Generate order number: ORD-YYYYMMDD-XXXXX
     const date = new Date();
@@ -187,23 +259,14 @@ OrderSchema.pre('save', async function(next) {
     const randomStr = Math.random().toString(36).substring(2, 7).toUpperCase();
     this.orderNumber = `ORD-${dateStr}-${randomStr}`;
   }
-  next();
-});
-
-// Pre-save middleware to calculate estimated delivery
-OrderSchema.pre('save', function(next) {
-  if (this.isNew && !this.estimatedDelivery) {
-    // Estimate 3-5 business days
-    const days = Math.floor(Math.random() * 3) + 3;
-    this.estimatedDelivery = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
-  }
-  next();
 });
 
 // Method to mark as paid
 OrderSchema.methods.markAsPaid = function(paymentIntent) {
   this.paymentStatus = 'paid';
   this.paidAt = new Date();
+  // The reserved stock is now sold
+  this.reservedUntil = undefined;
   if (paymentIntent) {
     this.transactionId = paymentIntent.id;
     this.stripePaymentIntentId = paymentIntent.id;
@@ -236,6 +299,7 @@ OrderSchema.methods.cancelOrder = function(reason) {
   }
   this.orderStatus = 'cancelled';
   this.cancelledAt = new Date();
+  this.reservedUntil = undefined;
   this.cancellationReason = reason;
   return this.save();
 };
@@ -1,5 +1,54 @@
 const mongoose = require('mongoose');
 
+// Lace dimensions offered for closures and frontals
+const LACE_SIZES = ['2x6', '4x4', '5x5', '6x6', '13x4', '13x6'];
+
+/**
+ * Variant (SKU) of a product: one length/color/lace size combination
+ * with its own price, stock and image
+ */
+const VariantSchema = new mongoose.Schema({
+  sku: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'SKU cannot exceed 50 characters']
+  },
+  length: {
+    type: Number,
+    required: [true, 'Please provide variant length'],
+    min: [8, 'Length must be at least 8 inches'],
+    max: [40, 'Length cannot exceed 40 inches']
+  },
+  color: {
+    type: String,
+    required: [true, 'Please provide variant color'],
+    trim: true
+  },
+  laceSize: {
+    type: String,
+    enum: {
+      values: LACE_SIZES,
+      message: 'Invalid lace size'
+    }
+  },
+  price: {
+    type: Number,
+    required: [true, 'Please provide variant price'],
+    min: [0, 'Price cannot be negative'],
+    max: [100000, 'Price cannot exceed $100,000']
+  },
+  stock: {
+    type: Number,
+    required: [true, 'Please provide variant stock'],
+    min: [0, 'Stock cannot be negative'],
+    default: 0
+  },
+  imageUrl: {
+    type: String,
+    trim: true
+  }
+});
+
 const ProductSchema = new mongoose.Schema({
   name: {
     type: String,
@@ -59,6 +108,8 @@ const ProductSchema = new mongoose.Schema({
     required: [true, 'Please provide product image URL'],
     trim: true
   },
+  variants: [VariantSchema],
+  // Gallery in display order; images[0] is the primary image (mirrored into imageUrl)
   images: [{
     type: String,
     trim: true
@@ -135,13 +186,30 @@ ProductSchema.virtual('lowStock').get(function() {
   return this.stock > 0 && this.stock <= 5;
 });
 
-// Pre-save middleware to validate price
-ProductSchema.pre('save', function(next) {
+/**
+ * Listing-level price and stock for a set of variants:
+ * the lowest variant price ("from $X") and the combined stock
+ */
+const summarizeVariants = (variants) => ({
+  price: Math.min(...variants.map(v => v.price)),
+  stock: variants.reduce((sum, v) => sum + v.stock, 0)
+});
+
+// Derive the listing price, stock and primary image before validation, which requires them
+ProductSchema.pre('validate', function() {
+  // Keep the listing price and stock in step with its variants
+  if (this.variants.length > 0) {
+    Object.assign(this, summarizeVariants(this.variants));
+  }
+
+  if (this.images.length > 0) {
+    this.imageUrl = this.images[0];
+  }
+
   // Round price to 2 decimal places
   if (this.isModified('price')) {
     this.price = Math.round(this.price * 100) / 100;
   }
-  next();
 });
 
 // Static method to get products by category
@@ -164,19 +232,46 @@ ProductSchema.statics.searchProducts = function(searchTerm) {
   ).sort({ score: { $meta: 'textScore' } });
 };
 
-// Method to update stock
-ProductSchema.methods.updateStock = async function(quantity, operation = 'subtract') {
-  if (operation === 'subtract') {
-    if (this.stock < quantity) {
-      throw new Error('Insufficient stock');
-    }
-    this.stock -= quantity;
-  } else if (operation === 'add') {
-    this.stock += quantity;
+// Static method to derive listing price and stock from variants
+ProductSchema.statics.summarizeVariants = summarizeVariants;
+
+// Method to update stock (of a single variant when variantId is given)
+// A single conditional $inc, so concurrent checkouts cannot both take the last unit
+ProductSchema.methods.updateStock = async function(quantity, operation = 'subtract', variantId = null) {
+  if (variantId && !this.variants.id(variantId)) {
+    throw new Error('Variant not found');
+  }
+
+  const delta = operation === 'subtract' ? -quantity : quantity;
+  const filter = { _id: this._id };
+  const update = { stock: delta };
+
+  if (variantId) {
+    // Listing stock is the sum of the variants, so both move together
+    filter.variants = { $elemMatch: { _id: variantId, ...(delta < 0 && { stock: { $gte: quantity } }) } };
+    update['variants.$.stock'] = delta;
+  } else if (delta < 0) {
+    filter.stock = { $gte: quantity };
+  }
+
+  const updated = await this.constructor.findOneAndUpdate(filter, { $inc: update }, { new: true });
+  if (!updated) {
+    throw new Error('Insufficient stock');
   }
 
-  await this.save();
+  this.stock = updated.stock;
+  this.variants = updated.variants;
   return this;
 };
 
+// Method to describe a variant for order snapshots, e.g. '18" · Natural Black · 13x4 lace'
+ProductSchema.methods.describeVariant = function(variant) {
+  const parts = [`${variant.length}"`, variant.color];
+  if (variant.laceSize) {
+    parts.push(`${variant.laceSize} lace`);
+  }
+  return parts.join(' · ');
+};
+
 module.exports = mongoose.model('Product', ProductSchema);
+module.exports.LACE_SIZES = LACE_SIZES;
@@ -0,0 +1,90 @@
+const mongoose = require('mongoose');
+
+const ReviewSchema = new mongoose.Schema({
+  product: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  userName: {
+    type: String,
+    required: true
+  },
+  order: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  rating: {
+    type: Number,
+    required: [true, 'Please provide a rating'],
+    min: [1, 'Rating must be at least 1'],
+    max: [5, 'Rating cannot exceed 5']
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Title cannot exceed 100 characters']
+  },
+  comment: {
+    type: String,
+    required: [true, 'Please provide a comment'],
+    trim: true,
+    maxlength: [1000, 'Comment cannot exceed 1000 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// One review per buyer per product
+ReviewSchema.index({ product: 1, user: 1 }, { unique: true });
+ReviewSchema.index({ product: 1, createdAt: -1 });
+
+// Static method to recompute a product's rating and review count
+ReviewSchema.statics.calculateProductRating = async function(productId) {
+  const [stats] = await this.aggregate([
+    { $match: { product: productId } },
+    {
+      $group: {
+        _id: '$product',
+        average: { $avg: '$rating' },
+        count: { $sum: 1 }
+      }
+    }
+  ]);
+
+  await mongoose.model('Product').findByIdAndUpdate(productId, {
+    rating: stats ? Math.round(stats.average * 10) / 10 : 0,
+    numReviews: stats ? stats.count : 0
+  });
+};
+
+// Static method to count reviews per star rating
+ReviewSchema.statics.getRatingBreakdown = async function(productId) {
+  const counts = await this.aggregate([
+    { $match: { product: productId } },
+    { $group: { _id: '$rating', count: { $sum: 1 } } }
+  ]);
+
+  const breakdown = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const { _id, count } of counts) {
+    breakdown[_id] = count;
+  }
+  return breakdown;
+};
+
+// Keep Product.rating and Product.numReviews in sync with the reviews
+ReviewSchema.post('save', function() {
+  return this.constructor.calculateProductRating(this.product);
+});
+
+ReviewSchema.post('deleteOne', { document: true, query: false }, function() {
+  return this.constructor.calculateProductRating(this.product);
+});
+
+module.exports = mongoose.model('Review', ReviewSchema);
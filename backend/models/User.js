@@ -1,7 +1,39 @@
+const crypto = require('crypto');
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
 
+const MAX_SAVED_ADDRESSES = 20;
+const EMAIL_VERIFICATION_HOURS = 24;
+const RESET_PASSWORD_MINUTES = 30;
+
+// An entry in the buyer's address book
+const SavedAddressSchema = new mongoose.Schema({
+  label: {
+    type: String,
+    required: [true, 'Please provide an address label'],
+    trim: true,
+    maxlength: [50, 'Address label cannot exceed 50 characters']
+  },
+  street: { type: String, required: true, trim: true },
+  city: { type: String, required: true, trim: true },
+  state: { type: String, trim: true },
+  zipCode: { type: String, required: true, trim: true },
+  country: {
+    type: String,
+    default: 'US'
+  },
+  phone: String,
+  isDefaultShipping: {
+    type: Boolean,
+    default: false
+  },
+  isDefaultBilling: {
+    type: Boolean,
+    default: false
+  }
+});
+
 const UserSchema = new mongoose.Schema({
   firstName: {
     type: String,
@@ -48,13 +80,27 @@ const UserSchema = new mongoose.Schema({
     zipCode: String,
     country: {
       type: String,
-      default: 'USA'
-    }
+      default: 'US'
+    },
+    phone: String
+  },
+  // Address book; `address` mirrors the default shipping entry
+  addresses: {
+    type: [SavedAddressSchema],
+    validate: [
+      addresses => addresses.length <= MAX_SAVED_ADDRESSES,
+      `You can save up to ${MAX_SAVED_ADDRESSES} addresses`
+    ]
   },
   isActive: {
     type: Boolean,
     default: true
   },
+  // Set by an admin for resellers and other buyers with an exemption certificate
+  taxExempt: {
+    type: Boolean,
+    default: false
+  },
   isEmailVerified: {
     type: Boolean,
     default: false
@@ -75,15 +121,14 @@ const UserSchema = new mongoose.Schema({
 });
 
 // Encrypt password before saving
-UserSchema.pre('save', async function(next) {
+UserSchema.pre('save', async function() {
   // Only hash password if it has been modified
   if (!this.isModified('password')) {
-    return next();
+    return;
   }
 
   const salt = await bcrypt.genSalt(parseInt(process.env.BCRYPT_ROUNDS) || 12);
   this.password = await bcrypt.hash(this.password, salt);
-  next();
 });
 
 // Compare entered password with hashed password
@@ -135,6 +180,26 @@ UserSchema.methods.resetLoginAttempts = function() {
   });
 };
 
+// Generate an email verification token (only its hash is stored)
+UserSchema.methods.getEmailVerificationToken = function() {
+  const token = crypto.randomBytes(20).toString('hex');
+
+  this.emailVerificationToken = crypto.createHash('sha256').update(token).digest('hex');
+  this.emailVerificationExpire = Date.now() + EMAIL_VERIFICATION_HOURS * 60 * 60 * 1000;
+
+  return token;
+};
+
+// Generate a password reset token (only its hash is stored)
+UserSchema.methods.getResetPasswordToken = function() {
+  const token = crypto.randomBytes(20).toString('hex');
+
+  this.resetPasswordToken = crypto.createHash('sha256').update(token).digest('hex');
+  this.resetPasswordExpire = Date.now() + RESET_PASSWORD_MINUTES * 60 * 1000;
+
+  return token;
+};
+
 // Remove sensitive data when converting to JSON
 UserSchema.methods.toJSON = function() {
   const user = this.toObject();
@@ -149,3 +214,4 @@ UserSchema.methods.toJSON = function() {
 };
 
 module.exports = mongoose.model('User', UserSchema);
+module.exports.MAX_SAVED_ADDRESSES = MAX_SAVED_ADDRESSES;
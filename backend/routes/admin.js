@@ -0,0 +1,32 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getUsers,
+  updateUser,
+  getProducts,
+  updateProductVisibility,
+  forceCancelOrder,
+  refundOrder
+} = require('../controllers/adminController');
+const { protect, authorize } = require('../middleware/auth');
+const {
+  adminUserUpdateValidation,
+  productVisibilityValidation,
+  adminOrderActionValidation,
+  mongoIdValidation,
+  paginationValidation
+} = require('../middleware/validators');
+
+// Every admin route requires an authenticated admin
+router.use(protect, authorize('admin'));
+
+router.get('/users', paginationValidation, getUsers);
+router.put('/users/:id', mongoIdValidation('id'), adminUserUpdateValidation, updateUser);
+
+router.get('/products', paginationValidation, getProducts);
+router.put('/products/:id/visibility', mongoIdValidation('id'), productVisibilityValidation, updateProductVisibility);
+
+router.put('/orders/:id/cancel', mongoIdValidation('id'), adminOrderActionValidation, forceCancelOrder);
+router.post('/orders/:id/refund', mongoIdValidation('id'), adminOrderActionValidation, refundOrder);
+
+module.exports = router;
@@ -1,4 +1,5 @@
 const express = require('express');
+const rateLimit = require('express-rate-limit');
 const router = express.Router();
 const {
   register,
@@ -6,16 +7,44 @@ const {
   getMe,
   updateDetails,
   updatePassword,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
   logout
 } = require('../controllers/authController');
 const { protect } = require('../middleware/auth');
-const { registerValidation, loginValidation } = require('../middleware/validators');
+const {
+  registerValidation,
+  loginValidation,
+  updateDetailsValidation,
+  updatePasswordValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation
+} = require('../middleware/validators');
+
+// Reset emails per address (after validation normalizes it), whichever IP asks
+const forgotPasswordLimiter = rateLimit({
+  windowMs: (parseInt(process.env.PASSWORD_RESET_WINDOW) || 60) * 60 * 1000,
+  max: parseInt(process.env.PASSWORD_RESET_MAX_REQUESTS) || 3,
+  keyGenerator: (req) => req.body.email,
+  message: {
+    success: false,
+    message: 'Too many password reset requests for this email. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
 
 router.post('/register', registerValidation, register);
 router.post('/login', loginValidation, login);
 router.post('/logout', protect, logout);
 router.get('/me', protect, getMe);
-router.put('/updatedetails', protect, updateDetails);
-router.put('/updatepassword', protect, updatePassword);
+router.put('/updatedetails', protect, updateDetailsValidation, updateDetails);
+router.put('/updatepassword', protect, updatePasswordValidation, updatePassword);
+router.post('/verifyemail', protect, resendVerification);
+router.put('/verifyemail/:token', verifyEmail);
+router.post('/forgotpassword', forgotPasswordValidation, forgotPasswordLimiter, forgotPassword);
+router.put('/resetpassword/:token', resetPasswordValidation, resetPassword);
 
 module.exports = router;
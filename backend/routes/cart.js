@@ -0,0 +1,17 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getCart,
+  updateCart,
+  mergeCart
+} = require('../controllers/cartController');
+const { protect } = require('../middleware/auth');
+const { cartValidation } = require('../middleware/validators');
+
+router.route('/')
+  .get(protect, getCart)
+  .put(protect, cartValidation, updateCart);
+
+router.post('/merge', protect, cartValidation, mergeCart);
+
+module.exports = router;
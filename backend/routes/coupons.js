@@ -0,0 +1,23 @@
+const express = require('express');
+const router = express.Router();
+const {
+  validateCoupon,
+  getCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon
+} = require('../controllers/couponController');
+const { protect, authorize } = require('../middleware/auth');
+const { couponValidation, couponCodeValidation, mongoIdValidation } = require('../middleware/validators');
+
+router.post('/validate', protect, couponCodeValidation, validateCoupon);
+
+router.route('/')
+  .get(protect, authorize('seller', 'admin'), getCoupons)
+  .post(protect, authorize('seller', 'admin'), couponValidation, createCoupon);
+
+router.route('/:id')
+  .put(protect, authorize('seller', 'admin'), mongoIdValidation('id'), couponValidation, updateCoupon)
+  .delete(protect, authorize('seller', 'admin'), mongoIdValidation('id'), deleteCoupon);
+
+module.exports = router;
@@ -2,23 +2,41 @@ const express = require('express');
 const router = express.Router();
 const {
   getOrders,
+  getSellerOrders,
   getOrder,
   createOrder,
   updateOrderStatus,
+  updatePaymentStatus,
+  abandonCheckout,
   cancelOrder
 } = require('../controllers/orderController');
 const { protect, authorize } = require('../middleware/auth');
-const { orderValidation, mongoIdValidation } = require('../middleware/validators');
+const {
+  orderValidation,
+  orderStatusValidation,
+  paymentStatusValidation,
+  abandonCheckoutValidation,
+  mongoIdValidation
+} = require('../middleware/validators');
 
 router.route('/')
   .get(protect, getOrders)
   .post(protect, orderValidation, createOrder);
 
+router.route('/seller')
+  .get(protect, authorize('seller', 'admin'), getSellerOrders);
+
 router.route('/:id')
   .get(protect, mongoIdValidation('id'), getOrder);
 
 router.route('/:id/status')
-  .put(protect, authorize('admin', 'seller'), mongoIdValidation('id'), updateOrderStatus);
+  .put(protect, authorize('admin', 'seller'), mongoIdValidation('id'), orderStatusValidation, updateOrderStatus);
+
+router.route('/:id/payment')
+  .put(protect, mongoIdValidation('id'), paymentStatusValidation, updatePaymentStatus);
+
+router.route('/:id/abandon')
+  .put(protect, mongoIdValidation('id'), abandonCheckoutValidation, abandonCheckout);
 
 router.route('/:id/cancel')
   .put(protect, mongoIdValidation('id'), cancelOrder);
@@ -3,7 +3,8 @@ const router = express.Router();
 const {
   createCheckoutSession,
   webhookHandler,
-  createPaymentIntent
+  createPaymentIntent,
+  verifyCheckoutSession
 } = require('../controllers/paymentController');
 const { protect } = require('../middleware/auth');
 
@@ -12,5 +13,6 @@ router.post('/webhook', express.raw({ type: 'application/json' }), webhookHandle
 
 router.post('/create-checkout-session', protect, createCheckoutSession);
 router.post('/create-payment-intent', protect, createPaymentIntent);
+router.get('/checkout-session/:sessionId', protect, verifyCheckoutSession);
 
 module.exports = router;
@@ -3,19 +3,26 @@ const router = express.Router();
 const {
   getProducts,
   getProduct,
+  getProductStock,
   createProduct,
   updateProduct,
   deleteProduct
 } = require('../controllers/productController');
-const { protect, authorize } = require('../middleware/auth');
-const { productValidation, mongoIdValidation, paginationValidation } = require('../middleware/validators');
+const { protect, authorize, optionalAuth } = require('../middleware/auth');
+const { productValidation, productSearchValidation, stockQueryValidation, mongoIdValidation, paginationValidation } = require('../middleware/validators');
+
+// Re-route into review router
+router.use('/:productId/reviews', require('./reviews'));
 
 router.route('/')
-  .get(paginationValidation, getProducts)
+  .get(optionalAuth, paginationValidation, productSearchValidation, getProducts)
   .post(protect, authorize('seller', 'admin'), productValidation, createProduct);
 
+router.route('/stock')
+  .get(stockQueryValidation, getProductStock);
+
 router.route('/:id')
-  .get(mongoIdValidation('id'), getProduct)
+  .get(optionalAuth, mongoIdValidation('id'), getProduct)
   .put(protect, authorize('seller', 'admin'), mongoIdValidation('id'), productValidation, updateProduct)
   .delete(protect, authorize('seller', 'admin'), mongoIdValidation('id'), deleteProduct);
 
@@ -0,0 +1,18 @@
+const express = require('express');
+// mergeParams exposes :productId from the parent products router
+const router = express.Router({ mergeParams: true });
+const {
+  getProductReviews,
+  getReviewEligibility,
+  createReview
+} = require('../controllers/reviewController');
+const { protect } = require('../middleware/auth');
+const { reviewValidation, mongoIdValidation, paginationValidation } = require('../middleware/validators');
+
+router.route('/')
+  .get(mongoIdValidation('productId'), paginationValidation, getProductReviews)
+  .post(protect, mongoIdValidation('productId'), reviewValidation, createReview);
+
+router.get('/eligibility', protect, mongoIdValidation('productId'), getReviewEligibility);
+
+module.exports = router;
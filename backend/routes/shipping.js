@@ -0,0 +1,8 @@
+const express = require('express');
+const router = express.Router();
+const { getRates } = require('../controllers/shippingController');
+const { shippingRatesValidation } = require('../middleware/validators');
+
+router.post('/rates', shippingRatesValidation, getRates);
+
+module.exports = router;
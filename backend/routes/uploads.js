@@ -0,0 +1,9 @@
+const express = require('express');
+const router = express.Router();
+const { uploadImage } = require('../controllers/uploadController');
+const { protect, authorize } = require('../middleware/auth');
+const { imageUpload } = require('../middleware/upload');
+
+router.post('/images', protect, authorize('seller', 'admin'), imageUpload, uploadImage);
+
+module.exports = router;
@@ -1,4 +1,5 @@
 const express = require('express');
+const path = require('path');
 const dotenv = require('dotenv');
 
 // Load environment variables FIRST
@@ -36,6 +37,7 @@ const rateLimit = require('express-rate-limit');
 const connectDB = require('./config/database');
 const { errorHandler } = require('./middleware/errorHandler');
 const httpsRedirect = require('./middleware/httpsRedirect');
+const { startReservationSweeper } = require('./utils/reservations');
 
 // Connect to database
 connectDB();
@@ -154,8 +156,19 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Routes
 app.use('/api/auth', require('./routes/auth'));
 app.use('/api/products', require('./routes/products'));
+app.use('/api/cart', require('./routes/cart'));
 app.use('/api/orders', require('./routes/orders'));
+app.use('/api/coupons', require('./routes/coupons'));
+app.use('/api/shipping', require('./routes/shipping'));
 app.use('/api/payments', require('./routes/payments'));
+app.use('/api/admin', require('./routes/admin'));
+app.use('/api/uploads', require('./routes/uploads'));
+
+// Uploaded product images
+app.use('/uploads', express.static(path.resolve(process.env.UPLOAD_PATH || './uploads'), {
+  index: false,
+  maxAge: '30d'
+}));
 
 // Health check route
 app.get('/health', (req, res) => {
@@ -178,6 +191,7 @@ app.get('/', (req, res) => {
       products: '/api/products',
       orders: '/api/orders',
       payments: '/api/payments',
+      uploads: '/api/uploads',
       health: '/health'
     }
   });
@@ -217,6 +231,9 @@ const server = app.listen(PORT, () => {
   `);
 });
 
+// Release stock held by orders that were never paid
+startReservationSweeper();
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (err) => {
   console.error('❌ Unhandled Promise Rejection:', err);
@@ -0,0 +1,180 @@
+jest.mock('../utils/orderItems', () => ({
+  ...jest.requireActual('../utils/orderItems'),
+  restoreStock: jest.fn().mockResolvedValue()
+}));
+
+const Order = require('../models/Order');
+const User = require('../models/User');
+const Product = require('../models/Product');
+const { stripe } = require('../config/stripe');
+const { restoreStock } = require('../utils/orderItems');
+const {
+  forceCancelOrder,
+  refundOrder,
+  updateUser,
+  updateProductVisibility
+} = require('../controllers/adminController');
+const { authorize } = require('../middleware/auth');
+const { stubWrites, buildOrder, runHandler, asUser, mockQuery } = require('./helpers');
+
+describe('adminController', () => {
+  beforeEach(() => stubWrites(Order));
+  afterEach(() => {
+    jest.restoreAllMocks();
+    restoreStock.mockClear();
+  });
+
+  describe('forceCancelOrder', () => {
+    const forceCancel = (order) => {
+      jest.spyOn(Order, 'findById').mockResolvedValue(order);
+      return runHandler(forceCancelOrder, { params: { id: order.id }, user: asUser('admin') });
+    };
+
+    it('closes the Checkout Session of an unpaid order and releases its stock', async () => {
+      jest.spyOn(stripe.checkout.sessions, 'retrieve')
+        .mockResolvedValue({ id: 'cs_123', status: 'open', payment_status: 'unpaid' });
+      const expire = jest.spyOn(stripe.checkout.sessions, 'expire').mockResolvedValue({});
+      const order = buildOrder({ stripeCheckoutSessionId: 'cs_123', reservedUntil: new Date(Date.now() + 60000) });
+
+      const { status, body } = await forceCancel(order);
+
+      expect(status).toBe(200);
+      expect(expire).toHaveBeenCalledWith('cs_123');
+      expect(body.data.orderStatus).toBe('cancelled');
+      expect(body.data.reservedUntil).toBeUndefined();
+      expect(restoreStock).toHaveBeenCalledWith(order);
+    });
+
+    it('cancels the PaymentIntent of an unpaid order', async () => {
+      jest.spyOn(stripe.paymentIntents, 'retrieve')
+        .mockResolvedValue({ id: 'pi_123', status: 'requires_payment_method' });
+      const cancelIntent = jest.spyOn(stripe.paymentIntents, 'cancel').mockResolvedValue({});
+      const order = buildOrder({ stripePaymentIntentId: 'pi_123' });
+
+      const { status } = await forceCancel(order);
+
+      expect(status).toBe(200);
+      expect(cancelIntent).toHaveBeenCalledWith('pi_123');
+    });
+
+    it('waits while a payment is still settling', async () => {
+      jest.spyOn(stripe.paymentIntents, 'retrieve').mockResolvedValue({ id: 'pi_123', status: 'processing' });
+      const order = buildOrder({ stripePaymentIntentId: 'pi_123' });
+
+      const { error } = await forceCancel(order);
+
+      expect(error.statusCode).toBe(409);
+      expect(order.orderStatus).toBe('pending');
+      expect(restoreStock).not.toHaveBeenCalled();
+    });
+
+    it('cancels shipped orders without restocking them', async () => {
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'shipped' });
+
+      const { body } = await forceCancel(order);
+
+      expect(body.data.orderStatus).toBe('cancelled');
+      expect(restoreStock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundOrder', () => {
+    const refund = (order) => {
+      jest.spyOn(Order, 'findById').mockResolvedValue(order);
+      return runHandler(refundOrder, { params: { id: order.id }, user: asUser('admin'), body: { reason: 'Damaged in transit' } });
+    };
+
+    it('refunds and cancels a paid order that has not shipped, restocking it', async () => {
+      const create = jest.spyOn(stripe.refunds, 'create').mockResolvedValue({ id: 're_123' });
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'processing', stripePaymentIntentId: 'pi_123' });
+
+      const { status, body } = await refund(order);
+
+      expect(status).toBe(200);
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ payment_intent: 'pi_123' }), expect.anything());
+      expect(body.data.paymentStatus).toBe('refunded');
+      expect(body.data.orderStatus).toBe('cancelled');
+      expect(body.data.cancellationReason).toBe('Damaged in transit');
+      expect(restoreStock).toHaveBeenCalledWith(order);
+    });
+
+    it('keeps a delivered order delivered and does not restock it', async () => {
+      jest.spyOn(stripe.refunds, 'create').mockResolvedValue({ id: 're_123' });
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'delivered', stripePaymentIntentId: 'pi_123' });
+
+      const { body } = await refund(order);
+
+      expect(body.data.paymentStatus).toBe('refunded');
+      expect(body.data.orderStatus).toBe('delivered');
+      expect(restoreStock).not.toHaveBeenCalled();
+    });
+
+    it('refuses orders that were never paid', async () => {
+      const create = jest.spyOn(stripe.refunds, 'create');
+
+      const { error } = await refund(buildOrder());
+
+      expect(error.statusCode).toBe(400);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateUser', () => {
+    const admin = asUser('admin');
+
+    it('suspends an account and changes its role', async () => {
+      const user = new User({ firstName: 'Sam', lastName: 'Seller', email: 'sam@example.com', role: 'buyer' });
+      jest.spyOn(User, 'findById').mockResolvedValue(user);
+      jest.spyOn(user, 'save').mockResolvedValue(user);
+
+      const { body } = await runHandler(updateUser, {
+        params: { id: user.id },
+        user: admin,
+        body: { role: 'seller', isActive: false }
+      });
+
+      expect(body.data.role).toBe('seller');
+      expect(body.data.isActive).toBe(false);
+    });
+
+    it("refuses to change the admin's own account", async () => {
+      const findById = jest.spyOn(User, 'findById');
+
+      const { error } = await runHandler(updateUser, {
+        params: { id: admin.id },
+        user: admin,
+        body: { isActive: false }
+      });
+
+      expect(error.statusCode).toBe(400);
+      expect(findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateProductVisibility', () => {
+    it("hides any seller's product", async () => {
+      const update = jest.spyOn(Product, 'findByIdAndUpdate').mockReturnValue(mockQuery({ isActive: false }));
+
+      const { status } = await runHandler(updateProductVisibility, {
+        params: { id: 'product123' },
+        user: asUser('admin'),
+        body: { isActive: false }
+      });
+
+      expect(status).toBe(200);
+      expect(update).toHaveBeenCalledWith('product123', { isActive: false }, { new: true });
+    });
+  });
+
+  describe('admin routes', () => {
+    it.each(['buyer', 'seller'])('are closed to %ss', (role) => {
+      const res = { status: jest.fn(() => res), json: jest.fn() };
+      const next = jest.fn();
+
+      authorize('admin')({ user: asUser(role) }, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
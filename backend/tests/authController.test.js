@@ -0,0 +1,71 @@
+const User = require('../models/User');
+const logger = require('../utils/logger');
+const { setEmailTransport } = require('../utils/email');
+const { forgotPassword } = require('../controllers/authController');
+const { runHandler } = require('./helpers');
+
+describe('authController', () => {
+  describe('forgotPassword', () => {
+    const genericAnswer = {
+      success: true,
+      message: 'If an account exists for that email, we have sent a link to reset the password'
+    };
+
+    let send;
+    let user;
+
+    beforeEach(() => {
+      send = jest.fn().mockResolvedValue();
+      setEmailTransport({ send });
+
+      user = new User({
+        firstName: 'Jane',
+        lastName: 'Buyer',
+        email: 'buyer@example.com',
+        password: 'Password123!'
+      });
+      jest.spyOn(user, 'save').mockResolvedValue(user);
+      jest.spyOn(User, 'findOne').mockImplementation(async ({ email }) => (email === user.email ? user : null));
+      jest.spyOn(logger, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      setEmailTransport(null);
+      jest.restoreAllMocks();
+    });
+
+    const requestReset = (email) => runHandler(forgotPassword, { body: { email } });
+
+    it('emails a reset link to an existing account', async () => {
+      const { status, body } = await requestReset('buyer@example.com');
+
+      expect(status).toBe(200);
+      expect(body).toEqual(genericAnswer);
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ to: 'buyer@example.com' }));
+      expect(user.resetPasswordToken).toBeDefined();
+    });
+
+    it('answers unknown addresses the same way without sending anything', async () => {
+      const { status, body } = await requestReset('nobody@example.com');
+
+      expect(status).toBe(200);
+      expect(body).toEqual(genericAnswer);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('logs a failed send and still gives the generic answer', async () => {
+      const failure = new Error('SMTP unavailable');
+      send.mockRejectedValue(failure);
+
+      const { status, body, error } = await requestReset('buyer@example.com');
+
+      expect(error).toBeUndefined();
+      expect(status).toBe(200);
+      expect(body).toEqual(genericAnswer);
+      expect(logger.error).toHaveBeenCalledWith('Could not send password reset email', failure);
+      // The link that was never delivered must not stay usable
+      expect(user.resetPasswordToken).toBeUndefined();
+      expect(user.resetPasswordExpire).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+const mongoose = require('mongoose');
+const Cart = require('../models/Cart');
+const Product = require('../models/Product');
+const { mergeCart, updateCart } = require('../controllers/cartController');
+const { runHandler, asUser } = require('./helpers');
+
+describe('cartController', () => {
+  const user = asUser('buyer');
+  const productId = new mongoose.Types.ObjectId();
+  const variantId = new mongoose.Types.ObjectId();
+  const variantProductId = new mongoose.Types.ObjectId();
+
+  let accountCart;
+
+  beforeEach(() => {
+    const products = [
+      new Product({ _id: productId, stock: 5 }),
+      new Product({ _id: variantProductId, variants: [{ _id: variantId, length: 18, color: 'Natural Black', price: 89.99, stock: 2 }] })
+    ];
+    // Only active listings come back from the query
+    jest.spyOn(Product, 'find').mockReturnValue({ select: () => Promise.resolve(products) });
+
+    accountCart = null;
+    jest.spyOn(Cart, 'findOne').mockImplementation(async () => accountCart);
+    jest.spyOn(Cart, 'findOneAndUpdate').mockImplementation(async (filter, { items }) => {
+      accountCart = new Cart({ user: filter.user, items });
+      return accountCart;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const merge = (items) => runHandler(mergeCart, { user, body: { items } });
+  const quantities = (body) => body.data.items.map(item => item.quantity);
+
+  describe('mergeCart', () => {
+    it('keeps the larger quantity of a line in both carts rather than adding them', async () => {
+      await runHandler(updateCart, { user, body: { items: [{ product: productId, quantity: 3 }] } });
+
+      const { status, body } = await merge([{ product: productId, quantity: 2 }]);
+
+      expect(status).toBe(200);
+      expect(quantities(body)).toEqual([3]);
+    });
+
+    it('never doubles a cart that is merged twice', async () => {
+      const items = [{ product: productId, quantity: 2 }, { product: variantProductId, variant: variantId, quantity: 1 }];
+
+      await merge(items);
+      const { body } = await merge(items);
+
+      expect(quantities(body)).toEqual([2, 1]);
+    });
+
+    it('caps merged quantities at the live stock', async () => {
+      const { body } = await merge([
+        { product: productId, quantity: 9 },
+        { product: variantProductId, variant: variantId, quantity: 4 }
+      ]);
+
+      expect(quantities(body)).toEqual([5, 2]);
+    });
+
+    it('drops removed listings and variants that are no longer sold', async () => {
+      const { body } = await merge([
+        { product: new mongoose.Types.ObjectId(), quantity: 1 },
+        { product: variantProductId, variant: new mongoose.Types.ObjectId(), quantity: 1 },
+        { product: variantProductId, quantity: 1 },
+        { product: productId, quantity: 1 }
+      ]);
+
+      expect(body.data.items.map(item => String(item.product))).toEqual([String(productId)]);
+    });
+  });
+});
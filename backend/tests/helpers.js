@@ -0,0 +1,102 @@
+/**
+ * Test helpers
+ *
+ * Models are exercised without a database: writes are stubbed on the
+ * model's collection, so defaults, validation and middleware still run.
+ */
+
+const mongoose = require('mongoose');
+const Order = require('../models/Order');
+
+/**
+ * Stub the collection writes document.save() makes
+ */
+const stubWrites = (Model) => ({
+  insertOne: jest.spyOn(Model.collection, 'insertOne')
+    .mockResolvedValue({ acknowledged: true }),
+  updateOne: jest.spyOn(Model.collection, 'updateOne')
+    .mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 1 })
+});
+
+const address = (overrides = {}) => ({
+  street: '123 Main St',
+  city: 'Atlanta',
+  state: 'GA',
+  zipCode: '30301',
+  country: 'US',
+  ...overrides
+});
+
+/**
+ * Unsaved order with one line, paid for nothing yet
+ */
+const buildOrder = (overrides = {}) => new Order({
+  user: new mongoose.Types.ObjectId(),
+  userEmail: 'buyer@example.com',
+  userName: 'Jane Buyer',
+  items: [{
+    product: new mongoose.Types.ObjectId(),
+    productName: 'Brazilian Body Wave',
+    productImage: 'https://example.com/bundle.jpg',
+    price: 89.99,
+    quantity: 1,
+    subtotal: 89.99
+  }],
+  shippingAddress: address(),
+  billingAddress: address(),
+  subtotal: 89.99,
+  tax: 7.2,
+  shipping: 0,
+  total: 97.19,
+  ...overrides
+});
+
+/**
+ * Stand-in for a find()/findById() query chain that resolves to result
+ */
+const mockQuery = (result) => {
+  const chain = {
+    populate: () => chain,
+    select: () => chain,
+    sort: () => chain,
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject)
+  };
+  return chain;
+};
+
+/**
+ * Call an Express handler with a fake request
+ * Resolves with the response status and body, or the error passed to next()
+ */
+const runHandler = async (handler, req = {}) => {
+  const result = {};
+  const res = {
+    status(code) {
+      result.status = code;
+      return res;
+    },
+    json(body) {
+      result.body = body;
+      return res;
+    }
+  };
+
+  await handler({ params: {}, query: {}, body: {}, ...req }, res, error => {
+    result.error = error;
+  });
+  return result;
+};
+
+/**
+ * Signed-in user as set on req.user by the protect middleware
+ */
+const asUser = (role = 'buyer', id = new mongoose.Types.ObjectId().toString()) => ({ id, role });
+
+module.exports = {
+  stubWrites,
+  address,
+  buildOrder,
+  mockQuery,
+  runHandler,
+  asUser
+};
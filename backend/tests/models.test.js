@@ -0,0 +1,137 @@
+const mongoose = require('mongoose');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const User = require('../models/User');
+const Coupon = require('../models/Coupon');
+const { stubWrites, buildOrder } = require('./helpers');
+
+describe('model middleware', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('Order', () => {
+    it('generates an order number when it is created', async () => {
+      const { insertOne } = stubWrites(Order);
+      const order = buildOrder();
+
+      await order.save();
+
+      expect(order.orderNumber).toMatch(/^ORD-\d{8}-[A-Z0-9]{5}$/);
+      expect(insertOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps its order number through status changes', async () => {
+      const { updateOne } = stubWrites(Order);
+      const order = buildOrder();
+      await order.save();
+      const { orderNumber } = order;
+
+      await order.markAsPaid({ id: 'pi_123' });
+      await order.markAsShipped('1Z999');
+      await order.markAsDelivered();
+
+      expect(order.orderNumber).toBe(orderNumber);
+      expect(order.orderStatus).toBe('delivered');
+      expect(updateOne).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Product', () => {
+    const newProduct = (overrides = {}) => new Product({
+      name: 'Peruvian Straight',
+      description: 'Soft, silky bundles',
+      price: 75.555,
+      category: 'virgin-hair',
+      texture: 'straight',
+      length: 18,
+      origin: 'peruvian',
+      stock: 5,
+      imageUrl: 'https://example.com/old.jpg',
+      seller: new mongoose.Types.ObjectId(),
+      ...overrides
+    });
+
+    it('rounds the price to cents', async () => {
+      stubWrites(Product);
+      const product = newProduct();
+
+      await product.save();
+
+      expect(product.price).toBe(75.56);
+    });
+
+    it('takes the listing price and stock from its variants', async () => {
+      stubWrites(Product);
+      const product = newProduct({
+        variants: [
+          { length: 18, color: 'natural black', price: 90, stock: 3 },
+          { length: 22, color: 'natural black', price: 110, stock: 4 }
+        ]
+      });
+
+      await product.save();
+
+      expect(product.price).toBe(90);
+      expect(product.stock).toBe(7);
+    });
+
+    it('uses the first gallery image as the primary image', async () => {
+      stubWrites(Product);
+      const product = newProduct({
+        imageUrl: undefined,
+        images: ['https://example.com/front.jpg', 'https://example.com/back.jpg']
+      });
+
+      await product.save();
+
+      expect(product.imageUrl).toBe('https://example.com/front.jpg');
+    });
+  });
+
+  describe('User', () => {
+    const newUser = () => new User({
+      firstName: 'Jane',
+      lastName: 'Buyer',
+      email: 'jane@example.com',
+      password: 'correct-horse-battery'
+    });
+
+    it('hashes a new password', async () => {
+      stubWrites(User);
+      const user = newUser();
+
+      await user.save();
+
+      expect(user.password).not.toBe('correct-horse-battery');
+      expect(await user.comparePassword('correct-horse-battery')).toBe(true);
+    });
+
+    it('saves other changes without rehashing the password', async () => {
+      stubWrites(User);
+      const user = newUser();
+      await user.save();
+      const hash = user.password;
+
+      user.getResetPasswordToken();
+      await user.save({ validateBeforeSave: false });
+
+      expect(user.password).toBe(hash);
+    });
+  });
+
+  describe('Coupon', () => {
+    it('rejects percentage discounts over 100 and inverted date ranges', async () => {
+      const coupon = new Coupon({
+        code: 'TOOMUCH',
+        type: 'percentage',
+        value: 150,
+        startsAt: new Date('2026-02-01'),
+        expiresAt: new Date('2026-01-01'),
+        createdBy: new mongoose.Types.ObjectId()
+      });
+
+      const error = await coupon.validate().catch(err => err);
+
+      expect(Object.keys(error.errors)).toEqual(expect.arrayContaining(['value', 'expiresAt']));
+    });
+  });
+});
@@ -0,0 +1,228 @@
+jest.mock('../utils/orderItems', () => ({
+  ...jest.requireActual('../utils/orderItems'),
+  restoreStock: jest.fn().mockResolvedValue()
+}));
+
+const mongoose = require('mongoose');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const { stripe } = require('../config/stripe');
+const { restoreStock } = require('../utils/orderItems');
+const { cancelOrder, getOrder, getOrders, getSellerOrders, updateOrderStatus } = require('../controllers/orderController');
+const { stubWrites, buildOrder, runHandler, asUser, mockQuery } = require('./helpers');
+
+describe('orderController', () => {
+  beforeEach(() => stubWrites(Order));
+  afterEach(() => {
+    jest.restoreAllMocks();
+    restoreStock.mockClear();
+  });
+
+  describe('getOrders', () => {
+    it("lists only the buyer's own orders", async () => {
+      const find = jest.spyOn(Order, 'find').mockReturnValue(mockQuery([]));
+      const buyer = asUser('buyer');
+
+      await runHandler(getOrders, { user: buyer });
+
+      expect(find).toHaveBeenCalledWith({ user: buyer.id });
+    });
+
+    it('lists every order for admins', async () => {
+      const find = jest.spyOn(Order, 'find').mockReturnValue(mockQuery([]));
+
+      await runHandler(getOrders, { user: asUser('admin') });
+
+      expect(find).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('getOrder', () => {
+    const view = (order, user) => {
+      jest.spyOn(Order, 'findById').mockReturnValue(mockQuery(order));
+      return runHandler(getOrder, { params: { id: order.id }, user });
+    };
+
+    it('shows buyers their own order', async () => {
+      const order = buildOrder();
+
+      const { status } = await view(order, asUser('buyer', order.user.toString()));
+
+      expect(status).toBe(200);
+    });
+
+    it("refuses other buyers' orders", async () => {
+      const { error } = await view(buildOrder(), asUser('buyer'));
+
+      expect(error.statusCode).toBe(403);
+    });
+  });
+
+  describe('cancelOrder', () => {
+    const cancel = (order, user) => {
+      jest.spyOn(Order, 'findById').mockResolvedValue(order);
+      return runHandler(cancelOrder, { params: { id: order.id }, user });
+    };
+
+    it('refunds a paid order before cancelling it', async () => {
+      const refund = jest.spyOn(stripe.refunds, 'create').mockResolvedValue({ id: 're_123' });
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'processing', stripePaymentIntentId: 'pi_123' });
+      const buyer = asUser('buyer', order.user.toString());
+
+      const { status, body } = await cancel(order, buyer);
+
+      expect(status).toBe(200);
+      expect(refund).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_123' }),
+        { idempotencyKey: `refund-${order._id}` }
+      );
+      expect(body.data.paymentStatus).toBe('refunded');
+      expect(body.data.orderStatus).toBe('cancelled');
+      expect(restoreStock).toHaveBeenCalledWith(order);
+    });
+
+    it('marks mock-paid orders refunded without calling Stripe', async () => {
+      const refund = jest.spyOn(stripe.refunds, 'create');
+      const order = buildOrder({ paymentMethod: 'mock', paymentStatus: 'paid', orderStatus: 'processing' });
+
+      const { body } = await cancel(order, asUser('buyer', order.user.toString()));
+
+      expect(refund).not.toHaveBeenCalled();
+      expect(body.data.paymentStatus).toBe('refunded');
+    });
+
+    it('does not refund when the refund cannot be issued', async () => {
+      jest.spyOn(stripe.refunds, 'create').mockRejectedValue(new Error('Stripe is down'));
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'processing', stripePaymentIntentId: 'pi_123' });
+
+      const { error } = await cancel(order, asUser('buyer', order.user.toString()));
+
+      expect(error.message).toBe('Stripe is down');
+      expect(order.orderStatus).toBe('processing');
+      expect(restoreStock).not.toHaveBeenCalled();
+    });
+
+    it('refuses orders that have shipped', async () => {
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'shipped' });
+
+      const { error } = await cancel(order, asUser('buyer', order.user.toString()));
+
+      expect(error.statusCode).toBe(400);
+    });
+
+    it("refuses other buyers' orders", async () => {
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'processing' });
+
+      const { error } = await cancel(order, asUser('buyer'));
+
+      expect(error.statusCode).toBe(403);
+    });
+  });
+
+  describe('updateOrderStatus', () => {
+    const seller = asUser('seller');
+
+    // sellerProducts: how many of the order's products the seller sells
+    const update = (order, user, body, sellerProducts = order.items.length) => {
+      jest.spyOn(Order, 'findById').mockResolvedValue(order);
+      jest.spyOn(Product, 'countDocuments').mockResolvedValue(sellerProducts);
+      return runHandler(updateOrderStatus, { params: { id: order.id }, user, body });
+    };
+
+    it('lets the seller ship a processing order with its tracking number and delivery estimate', async () => {
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'processing' });
+
+      const { status, body } = await update(order, seller, {
+        status: 'shipped',
+        trackingNumber: '1Z999',
+        estimatedDelivery: '2026-11-02'
+      });
+
+      expect(status).toBe(200);
+      expect(body.data.orderStatus).toBe('shipped');
+      expect(body.data.trackingNumber).toBe('1Z999');
+      expect(body.data.estimatedDelivery).toEqual(new Date('2026-11-02'));
+    });
+
+    it('lets the seller mark a shipped order delivered', async () => {
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'shipped', trackingNumber: '1Z999' });
+
+      const { body } = await update(order, seller, { status: 'delivered' });
+
+      expect(body.data.orderStatus).toBe('delivered');
+      expect(body.data.deliveredAt).toBeInstanceOf(Date);
+    });
+
+    it('requires a tracking number to ship', async () => {
+      const order = buildOrder({ paymentStatus: 'paid', orderStatus: 'processing' });
+
+      const { error } = await update(order, seller, { status: 'shipped' });
+
+      expect(error.statusCode).toBe(400);
+      expect(order.orderStatus).toBe('processing');
+    });
+
+    it.each([
+      ['pending', 'processing'],
+      ['processing', 'delivered'],
+      ['shipped', 'processing'],
+      ['delivered', 'shipped'],
+      ['processing', 'cancelled']
+    ])('does not let sellers move an order from %s to %s', async (from, to) => {
+      const order = buildOrder({ orderStatus: from, trackingNumber: '1Z999' });
+
+      const { error } = await update(order, seller, { status: to });
+
+      expect(error.statusCode).toBe(400);
+      expect(order.orderStatus).toBe(from);
+    });
+
+    it("refuses sellers who sell none of the order's items", async () => {
+      const order = buildOrder({ orderStatus: 'processing' });
+
+      const { error } = await update(order, seller, { status: 'shipped', trackingNumber: '1Z999' }, 0);
+
+      expect(error.statusCode).toBe(403);
+    });
+
+    it('leaves orders shared with other sellers to an admin', async () => {
+      const order = buildOrder({ orderStatus: 'processing' });
+      order.items.push({ ...order.items[0].toObject(), product: new mongoose.Types.ObjectId() });
+
+      const { error } = await update(order, seller, { status: 'shipped', trackingNumber: '1Z999' }, 1);
+
+      expect(error.statusCode).toBe(403);
+      expect(error.message).toMatch(/fulfilled by an admin/);
+    });
+
+    it('refuses buyers', async () => {
+      const order = buildOrder({ orderStatus: 'processing' });
+
+      const { error } = await update(order, asUser('buyer', order.user.toString()), { status: 'shipped', trackingNumber: '1Z999' });
+
+      expect(error.statusCode).toBe(403);
+    });
+
+    it('lets admins set any status', async () => {
+      const order = buildOrder({ orderStatus: 'pending' });
+
+      const { body } = await update(order, asUser('admin'), { status: 'processing' });
+
+      expect(body.data.orderStatus).toBe('processing');
+    });
+  });
+
+  describe('getSellerOrders', () => {
+    it("lists the orders containing the seller's products", async () => {
+      const productIds = [new mongoose.Types.ObjectId()];
+      const seller = asUser('seller');
+      const findProducts = jest.spyOn(Product, 'find').mockReturnValue({ distinct: () => Promise.resolve(productIds) });
+      const findOrders = jest.spyOn(Order, 'find').mockReturnValue(mockQuery([]));
+
+      await runHandler(getSellerOrders, { user: seller });
+
+      expect(findProducts).toHaveBeenCalledWith({ seller: seller.id });
+      expect(findOrders).toHaveBeenCalledWith({ 'items.product': { $in: productIds } });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+const Order = require('../models/Order');
+const { stripe } = require('../config/stripe');
+const { createPaymentIntent, createCheckoutSession } = require('../controllers/paymentController');
+const { stubWrites, buildOrder, runHandler, asUser } = require('./helpers');
+
+describe('paymentController', () => {
+  let order;
+  let buyer;
+
+  beforeEach(() => {
+    stubWrites(Order);
+    order = buildOrder();
+    buyer = { ...asUser('buyer', order.user.toString()), email: 'buyer@example.com' };
+    jest.spyOn(Order, 'findById').mockResolvedValue(order);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('createPaymentIntent', () => {
+    const requestIntent = () => runHandler(createPaymentIntent, { body: { orderId: order.id }, user: buyer });
+    const createIntent = () => jest.spyOn(stripe.paymentIntents, 'create')
+      .mockResolvedValue({ id: 'pi_new', client_secret: 'pi_new_secret', amount: 9719 });
+
+    it("reuses the order's open PaymentIntent", async () => {
+      order.stripePaymentIntentId = 'pi_open';
+      jest.spyOn(stripe.paymentIntents, 'retrieve').mockResolvedValue({
+        id: 'pi_open', status: 'requires_payment_method', amount: 9719, client_secret: 'pi_open_secret'
+      });
+      const create = createIntent();
+
+      const { status, body } = await requestIntent();
+
+      expect(status).toBe(200);
+      expect(body.clientSecret).toBe('pi_open_secret');
+      expect(body.amount).toBe(9719);
+      expect(create).not.toHaveBeenCalled();
+      expect(order.stripePaymentIntentId).toBe('pi_open');
+    });
+
+    it('cancels a PaymentIntent for another amount before creating a new one', async () => {
+      order.stripePaymentIntentId = 'pi_old';
+      jest.spyOn(stripe.paymentIntents, 'retrieve').mockResolvedValue({
+        id: 'pi_old', status: 'requires_payment_method', amount: 5000
+      });
+      const cancel = jest.spyOn(stripe.paymentIntents, 'cancel').mockResolvedValue({});
+      const create = createIntent();
+
+      const { body } = await requestIntent();
+
+      expect(cancel).toHaveBeenCalledWith('pi_old');
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ amount: 9719 }));
+      expect(body.clientSecret).toBe('pi_new_secret');
+      expect(order.stripePaymentIntentId).toBe('pi_new');
+    });
+
+    it('expires an open Checkout Session for the order', async () => {
+      order.stripeCheckoutSessionId = 'cs_open';
+      jest.spyOn(stripe.checkout.sessions, 'retrieve')
+        .mockResolvedValue({ id: 'cs_open', status: 'open', payment_status: 'unpaid' });
+      const expire = jest.spyOn(stripe.checkout.sessions, 'expire').mockResolvedValue({});
+      createIntent();
+
+      const { status } = await requestIntent();
+
+      expect(status).toBe(200);
+      expect(expire).toHaveBeenCalledWith('cs_open');
+    });
+
+    it('refuses a new payment while the last one is settling', async () => {
+      order.stripePaymentIntentId = 'pi_processing';
+      jest.spyOn(stripe.paymentIntents, 'retrieve')
+        .mockResolvedValue({ id: 'pi_processing', status: 'processing', amount: 9719 });
+      const create = createIntent();
+
+      const { error } = await requestIntent();
+
+      expect(error.statusCode).toBe(409);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('confirms an order that was paid through its Checkout Session', async () => {
+      order.stripeCheckoutSessionId = 'cs_paid';
+      jest.spyOn(stripe.checkout.sessions, 'retrieve')
+        .mockResolvedValue({ id: 'cs_paid', status: 'complete', payment_status: 'paid', payment_intent: 'pi_paid' });
+      const create = createIntent();
+
+      const { error } = await requestIntent();
+
+      expect(error.statusCode).toBe(400);
+      expect(order.paymentStatus).toBe('paid');
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createCheckoutSession for a stored order', () => {
+    it('closes the earlier session and PaymentIntent before creating a new session', async () => {
+      order.stripeCheckoutSessionId = 'cs_old';
+      order.stripePaymentIntentId = 'pi_old';
+      jest.spyOn(stripe.checkout.sessions, 'retrieve')
+        .mockResolvedValue({ id: 'cs_old', status: 'open', payment_status: 'unpaid' });
+      const expire = jest.spyOn(stripe.checkout.sessions, 'expire').mockResolvedValue({});
+      jest.spyOn(stripe.paymentIntents, 'retrieve')
+        .mockResolvedValue({ id: 'pi_old', status: 'requires_payment_method', amount: 9719 });
+      const cancel = jest.spyOn(stripe.paymentIntents, 'cancel').mockResolvedValue({});
+      jest.spyOn(stripe.checkout.sessions, 'create')
+        .mockResolvedValue({ id: 'cs_new', url: 'https://checkout.stripe.com/cs_new' });
+
+      const { status, body } = await runHandler(createCheckoutSession, { body: { orderId: order.id }, user: buyer });
+
+      expect(status).toBe(200);
+      expect(expire).toHaveBeenCalledWith('cs_old');
+      expect(cancel).toHaveBeenCalledWith('pi_old');
+      expect(body.sessionId).toBe('cs_new');
+      expect(order.stripeCheckoutSessionId).toBe('cs_new');
+    });
+  });
+});
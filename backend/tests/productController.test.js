@@ -0,0 +1,62 @@
+const Product = require('../models/Product');
+const { getProducts } = require('../controllers/productController');
+const { runHandler } = require('./helpers');
+
+describe('productController', () => {
+  describe('getProducts', () => {
+    let query;
+
+    beforeEach(() => {
+      query = {
+        populate: jest.fn(() => query),
+        sort: jest.fn(() => query),
+        skip: jest.fn(() => query),
+        limit: jest.fn().mockResolvedValue([{ name: 'Peruvian Body Wave' }])
+      };
+      jest.spyOn(Product, 'find').mockReturnValue(query);
+      jest.spyOn(Product, 'countDocuments').mockResolvedValue(45);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    const listProducts = (params) => runHandler(getProducts, { query: params });
+
+    it.each([
+      ['price-asc', 'price'],
+      ['price-desc', '-price'],
+      ['newest', '-createdAt'],
+      ['rating', '-rating -numReviews'],
+      ['most-reviewed', '-numReviews -rating']
+    ])('sorts by %s', async (sort, sortOption) => {
+      await listProducts({ sort });
+
+      expect(query.sort).toHaveBeenCalledWith(sortOption);
+    });
+
+    it('shows the newest products first by default and for unknown sorts', async () => {
+      await listProducts({});
+      await listProducts({ sort: 'cheapest' });
+
+      expect(query.sort.mock.calls).toEqual([['-createdAt'], ['-createdAt']]);
+    });
+
+    it('returns the requested page with totals for the whole result set', async () => {
+      const { status, body } = await listProducts({ page: '2', limit: '20' });
+
+      expect(status).toBe(200);
+      expect(query.skip).toHaveBeenCalledWith(20);
+      expect(query.limit).toHaveBeenCalledWith(20);
+      expect(body).toMatchObject({ count: 1, total: 45, page: 2, pages: 3 });
+    });
+
+    it('counts only the products that match the filters', async () => {
+      await listProducts({ texture: 'curly', inStock: 'true' });
+
+      expect(Product.countDocuments).toHaveBeenCalledWith({
+        isActive: true,
+        texture: 'curly',
+        stock: { $gt: 0 }
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+const mongoose = require('mongoose');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const { stripe } = require('../config/stripe');
+const {
+  reserveItems,
+  releaseReservation,
+  releaseExpiredReservations,
+  startReservationSweeper
+} = require('../utils/reservations');
+const { stubWrites, buildOrder } = require('./helpers');
+
+describe('stock reservations', () => {
+  let product;
+  let stockUpdates;
+
+  beforeEach(() => {
+    stubWrites(Order);
+
+    product = new Product({
+      name: 'Brazilian Body Wave',
+      description: 'Soft, bouncy waves',
+      price: 89.99,
+      category: 'virgin-hair',
+      texture: 'body-wave',
+      length: 18,
+      origin: 'brazilian',
+      stock: 10,
+      imageUrl: 'https://example.com/bundle.jpg',
+      seller: new mongoose.Types.ObjectId()
+    });
+    jest.spyOn(Product, 'findById').mockResolvedValue(product);
+
+    // Record each $inc and apply it, as MongoDB would
+    stockUpdates = [];
+    jest.spyOn(Product, 'findOneAndUpdate').mockImplementation(async (filter, update) => {
+      stockUpdates.push(update.$inc.stock);
+      if (filter.stock && product.stock < filter.stock.$gte) {
+        return null;
+      }
+      return { stock: product.stock + update.$inc.stock, variants: [] };
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const expiredOrder = (overrides = {}) => buildOrder({
+    items: [{
+      product: product._id,
+      productName: product.name,
+      productImage: product.imageUrl,
+      price: 89.99,
+      quantity: 2,
+      subtotal: 179.98
+    }],
+    reservedUntil: new Date(Date.now() - 1000),
+    ...overrides
+  });
+
+  describe('reserveItems', () => {
+    it('takes the ordered quantity out of stock', async () => {
+      const items = await reserveItems([{ product: product.id, quantity: 3 }]);
+
+      expect(items).toEqual([expect.objectContaining({ productName: product.name, quantity: 3 })]);
+      expect(stockUpdates).toEqual([-3]);
+    });
+
+    it('puts back lines already reserved when a later line has sold out', async () => {
+      const soldOut = { ...product.toObject(), _id: new mongoose.Types.ObjectId() };
+      Product.findById.mockImplementation(async (id) => (
+        String(id) === String(soldOut._id) ? Object.assign(new Product(soldOut), { stock: 0 }) : product
+      ));
+
+      await expect(reserveItems([
+        { product: product.id, quantity: 2 },
+        { product: soldOut._id, quantity: 1 }
+      ])).rejects.toMatchObject({ statusCode: 400 });
+
+      expect(stockUpdates).toEqual([-2, 2]);
+    });
+  });
+
+  describe('releaseExpiredReservations', () => {
+    it('only looks at unpaid pending orders whose reservation has run out', async () => {
+      const find = jest.spyOn(Order, 'find').mockResolvedValue([]);
+
+      await releaseExpiredReservations();
+
+      expect(find).toHaveBeenCalledWith({
+        reservedUntil: { $lte: expect.any(Date) },
+        orderStatus: 'pending',
+        paymentStatus: { $ne: 'paid' }
+      });
+    });
+
+    it('closes the Checkout Session, cancels the order and restores its stock', async () => {
+      const order = expiredOrder({ stripeCheckoutSessionId: 'cs_123' });
+      jest.spyOn(Order, 'find').mockResolvedValue([order]);
+      jest.spyOn(stripe.checkout.sessions, 'retrieve')
+        .mockResolvedValue({ id: 'cs_123', status: 'open', payment_status: 'unpaid' });
+      const expire = jest.spyOn(stripe.checkout.sessions, 'expire').mockResolvedValue({});
+
+      const released = await releaseExpiredReservations();
+
+      expect(released).toBe(1);
+      expect(expire).toHaveBeenCalledWith('cs_123');
+      expect(order.orderStatus).toBe('cancelled');
+      expect(order.cancellationReason).toBe('Reservation expired before payment');
+      expect(order.reservedUntil).toBeUndefined();
+      expect(stockUpdates).toEqual([2]);
+    });
+
+    it('confirms an order that was paid through its session instead of releasing it', async () => {
+      const order = expiredOrder({ stripeCheckoutSessionId: 'cs_123' });
+      jest.spyOn(Order, 'find').mockResolvedValue([order]);
+      jest.spyOn(stripe.checkout.sessions, 'retrieve')
+        .mockResolvedValue({ id: 'cs_123', status: 'complete', payment_status: 'paid', payment_intent: 'pi_123' });
+
+      const released = await releaseExpiredReservations();
+
+      expect(released).toBe(0);
+      expect(order.paymentStatus).toBe('paid');
+      expect(order.transactionId).toBe('pi_123');
+      expect(stockUpdates).toEqual([]);
+    });
+
+    it('leaves orders whose payment is still settling, and carries on after a Stripe error', async () => {
+      const settling = expiredOrder({ stripePaymentIntentId: 'pi_settling' });
+      const failing = expiredOrder({ stripePaymentIntentId: 'pi_error' });
+      const expired = expiredOrder({ stripePaymentIntentId: 'pi_open' });
+      jest.spyOn(Order, 'find').mockResolvedValue([settling, failing, expired]);
+      jest.spyOn(stripe.paymentIntents, 'retrieve').mockImplementation(async (id) => {
+        if (id === 'pi_error') {
+          throw new Error('Stripe is unavailable');
+        }
+        return { id, status: id === 'pi_settling' ? 'processing' : 'requires_payment_method' };
+      });
+      const cancel = jest.spyOn(stripe.paymentIntents, 'cancel').mockResolvedValue({});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const released = await releaseExpiredReservations();
+
+      expect(released).toBe(1);
+      expect(settling.orderStatus).toBe('pending');
+      expect(failing.orderStatus).toBe('pending');
+      expect(expired.orderStatus).toBe('cancelled');
+      expect(cancel).toHaveBeenCalledWith('pi_open');
+      expect(stockUpdates).toEqual([2]);
+    });
+  });
+
+  describe('releaseReservation', () => {
+    it('does not touch paid orders', async () => {
+      const order = expiredOrder({ paymentStatus: 'paid', orderStatus: 'processing' });
+
+      expect(await releaseReservation(order, 'Payment failed')).toBe(false);
+      expect(order.orderStatus).toBe('processing');
+      expect(stockUpdates).toEqual([]);
+    });
+  });
+
+  describe('startReservationSweeper', () => {
+    it('sweeps every minute without logging each run', async () => {
+      jest.useFakeTimers();
+      const order = expiredOrder();
+      const find = jest.spyOn(Order, 'find').mockResolvedValue([order]);
+      const log = jest.spyOn(console, 'log');
+
+      const timer = startReservationSweeper();
+      jest.advanceTimersByTime(60 * 1000);
+      clearInterval(timer);
+      jest.useRealTimers();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(find).toHaveBeenCalledTimes(1);
+      expect(order.orderStatus).toBe('cancelled');
+      expect(log).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+const mongoose = require('mongoose');
+const Review = require('../models/Review');
+const Product = require('../models/Product');
+const Order = require('../models/Order');
+const { getReviewEligibility, createReview } = require('../controllers/reviewController');
+const { runHandler, asUser } = require('./helpers');
+
+describe('reviewController', () => {
+  const productId = new mongoose.Types.ObjectId();
+  const orderId = new mongoose.Types.ObjectId();
+  const buyer = { ...asUser('buyer'), firstName: 'Jane', lastName: 'Buyer' };
+
+  let findOrder;
+
+  // deliveredOrder: the order findOne returns for the buyer, if any
+  const stubEligibility = ({ reviewed = false, deliveredOrder = { _id: orderId } } = {}) => {
+    jest.spyOn(Review, 'exists').mockResolvedValue(reviewed ? { _id: new mongoose.Types.ObjectId() } : null);
+    findOrder = jest.spyOn(Order, 'findOne').mockReturnValue({ select: () => Promise.resolve(deliveredOrder) });
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('getReviewEligibility', () => {
+    const checkEligibility = () => runHandler(getReviewEligibility, {
+      params: { productId: String(productId) },
+      user: buyer
+    });
+
+    it('lets a buyer review a product from one of their delivered orders', async () => {
+      stubEligibility();
+
+      const { body } = await checkEligibility();
+
+      expect(body.data.canReview).toBe(true);
+      expect(findOrder).toHaveBeenCalledWith({
+        user: buyer.id,
+        orderStatus: 'delivered',
+        'items.product': String(productId)
+      });
+    });
+
+    it('turns away buyers who have not received the product', async () => {
+      stubEligibility({ deliveredOrder: null });
+
+      const { body } = await checkEligibility();
+
+      expect(body.data).toEqual({
+        canReview: false,
+        reason: 'Only buyers who have received this product can review it'
+      });
+    });
+
+    it('allows one review per buyer', async () => {
+      stubEligibility({ reviewed: true });
+
+      const { body } = await checkEligibility();
+
+      expect(body.data).toEqual({ canReview: false, reason: 'You have already reviewed this product' });
+    });
+  });
+
+  describe('createReview', () => {
+    const postReview = () => runHandler(createReview, {
+      params: { productId: String(productId) },
+      user: buyer,
+      body: { rating: 5, title: 'Lovely', comment: 'Soft and full' }
+    });
+
+    beforeEach(() => {
+      jest.spyOn(Product, 'findById').mockResolvedValue({ _id: productId, isActive: true });
+    });
+
+    it('stores the review against the delivered order', async () => {
+      stubEligibility();
+      const create = jest.spyOn(Review, 'create').mockImplementation(async (data) => data);
+
+      const { status } = await postReview();
+
+      expect(status).toBe(201);
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({
+        product: productId,
+        user: buyer.id,
+        userName: 'Jane B.',
+        order: orderId,
+        rating: 5
+      }));
+    });
+
+    it('rejects buyers who have not received the product', async () => {
+      stubEligibility({ deliveredOrder: null });
+      const create = jest.spyOn(Review, 'create');
+
+      const { error } = await postReview();
+
+      expect(error.statusCode).toBe(403);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a second review of the same product', async () => {
+      stubEligibility({ reviewed: true });
+      const create = jest.spyOn(Review, 'create');
+
+      const { error } = await postReview();
+
+      expect(error.statusCode).toBe(403);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('does not accept reviews for hidden products', async () => {
+      Product.findById.mockResolvedValue({ _id: productId, isActive: false });
+
+      const { error } = await postReview();
+
+      expect(error.statusCode).toBe(404);
+    });
+  });
+});
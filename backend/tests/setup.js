@@ -0,0 +1,6 @@
+// Environment for tests: no real Stripe account or database is used
+process.env.NODE_ENV = process.env.NODE_ENV || 'test';
+process.env.STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || 'sk_test_dummy';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+// Keep password hashing fast
+process.env.BCRYPT_ROUNDS = process.env.BCRYPT_ROUNDS || '4';
@@ -0,0 +1,128 @@
+const { ADDRESS_FORMATS, DEFAULT_COUNTRY } = require('../config/addressFormats');
+
+/**
+ * Country-aware address validation and normalization
+ * Rules per country live in config/addressFormats.js.
+ */
+
+const E164_REGEX = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Country code for a country as written (code or name); no country means the US
+ * Returns null for countries we do not deliver to.
+ */
+function countryCode(country) {
+  const value = String(country || '').trim().toUpperCase();
+  if (!value) {
+    return DEFAULT_COUNTRY;
+  }
+  return Object.keys(ADDRESS_FORMATS).find(code => ADDRESS_FORMATS[code].aliases.includes(value)) || null;
+}
+
+/**
+ * A phone number in E.164 form (+14045550100), or null if it is not a valid number
+ * Numbers without a + are read as national numbers of the given country.
+ */
+function toE164(phone, country) {
+  const digits = String(phone || '').replace(/[\s().-]/g, '');
+  if (digits.startsWith('+') || digits.startsWith('00')) {
+    const international = '+' + digits.replace(/^(\+|00)/, '');
+    return E164_REGEX.test(international) ? international : null;
+  }
+
+  const format = ADDRESS_FORMATS[countryCode(country)];
+  if (!format || !/^\d+$/.test(digits)) {
+    return null;
+  }
+
+  let national = digits;
+  if (national.length > 10 && national.startsWith(format.callingCode)) {
+    national = national.slice(format.callingCode.length);
+  }
+  if (format.trunkPrefix && national.startsWith(format.trunkPrefix)) {
+    national = national.slice(format.trunkPrefix.length);
+  }
+
+  return format.nationalPhonePattern.test(national) ? `+${format.callingCode}${national}` : null;
+}
+
+/**
+ * What is wrong with an address, or null if it is complete and valid for its country
+ */
+function validateAddress(address) {
+  if (!address || typeof address !== 'object') {
+    return 'Address is required';
+  }
+
+  const code = countryCode(address.country);
+  const format = ADDRESS_FORMATS[code];
+  if (!format) {
+    return 'We do not deliver to this country yet';
+  }
+
+  const text = (value) => (typeof value === 'string' ? value.trim() : '');
+
+  if (!text(address.street) || !text(address.city)) {
+    return 'Street address and city are required';
+  }
+  if (text(address.street).length > 200 || text(address.city).length > 100) {
+    return 'Street address or city is too long';
+  }
+
+  const region = text(address.state).toUpperCase();
+  if (format.regionRequired && !region) {
+    return `${format.regionLabel} is required`;
+  }
+  if (format.regions && region && !format.regions.includes(region)) {
+    return `Invalid ${format.regionLabel.toLowerCase()}`;
+  }
+  if (region.length > 50) {
+    return `${format.regionLabel} is too long`;
+  }
+
+  if (!format.postalCodePattern.test(text(address.zipCode).toUpperCase())) {
+    return `Invalid ${format.postalCodeLabel} format`;
+  }
+
+  if (text(address.phone) && !toE164(address.phone, code)) {
+    return 'Invalid phone number';
+  }
+
+  return null;
+}
+
+/**
+ * An address in its stored form: country code, upper-case region and postal code, E.164 phone
+ * Call after validateAddress().
+ */
+function normalizeAddress(address) {
+  const code = countryCode(address.country);
+  const format = ADDRESS_FORMATS[code];
+  if (!format) {
+    return address;
+  }
+
+  const compact = String(address.zipCode || '').trim().toUpperCase().replace(/\s+/g, '');
+  const state = String(address.state || '').trim();
+  const normalized = {
+    street: String(address.street).trim(),
+    city: String(address.city).trim(),
+    state: format.regions ? state.toUpperCase() : state,
+    zipCode: code === 'US' ? compact : `${compact.slice(0, -3)} ${compact.slice(-3)}`,
+    country: code
+  };
+
+  const phone = address.phone && toE164(address.phone, code);
+  if (phone) {
+    normalized.phone = phone;
+  }
+
+  return normalized;
+}
+
+module.exports = {
+  countryCode,
+  toE164,
+  validateAddress,
+  normalizeAddress
+};
@@ -0,0 +1,74 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const logger = require('./logger');
+
+/**
+ * Outbound email
+ *
+ * A transport is any object with
+ *   send({ from, to, subject, text }) -> Promise
+ *
+ * EMAIL_TRANSPORT picks a built-in transport:
+ *   console (default) - log each message (only the recipient and subject in production)
+ *   file              - write each message to EMAIL_OUTBOX_DIR as JSON (tests, local development)
+ * Register a delivery service (SMTP, SES, ...) at startup with setEmailTransport().
+ */
+
+const DEFAULT_OUTBOX_DIR = path.join(__dirname, '..', 'outbox');
+
+const consoleTransport = {
+  async send({ to, subject, text }) {
+    if (process.env.NODE_ENV === 'production') {
+      // Messages carry sign-in links, which must not end up in production logs
+      logger.warn(`No email transport configured; email to ${to} not sent: ${subject}`);
+      return;
+    }
+
+    logger.info(`Email to ${to}: ${subject}\n${text}`);
+  }
+};
+
+/**
+ * Transport that writes each message to a directory, one JSON file per message
+ */
+function createFileTransport(dir = process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR) {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(dir, { recursive: true });
+
+      const file = path.join(dir, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`);
+      await fs.promises.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+      return file;
+    }
+  };
+}
+
+let emailTransport = process.env.EMAIL_TRANSPORT === 'file' ? createFileTransport() : consoleTransport;
+
+/**
+ * Replace the email transport (e.g. with an SMTP or email API client)
+ */
+function setEmailTransport(transport) {
+  emailTransport = transport || consoleTransport;
+}
+
+function getEmailTransport() {
+  return emailTransport;
+}
+
+/**
+ * Send a plain-text email from FROM_NAME <FROM_EMAIL>
+ */
+async function sendEmail({ to, subject, text }) {
+  const from = `${process.env.FROM_NAME || 'Hair Ecommerce'} <${process.env.FROM_EMAIL || 'noreply@hairecommerce.com'}>`;
+  return emailTransport.send({ from, to, subject, text });
+}
+
+module.exports = {
+  consoleTransport,
+  createFileTransport,
+  setEmailTransport,
+  getEmailTransport,
+  sendEmail
+};
@@ -0,0 +1,74 @@
+const Product = require('../models/Product');
+const { ErrorResponse } = require('../middleware/errorHandler');
+
+/**
+ * Price and stock-check one requested order line ({ product, variant?, quantity })
+ * Prices always come from the database, never from the client.
+ * Products with variants must name one, and are priced and stocked per variant.
+ *
+ * Returns the product, the chosen variant (or null) and the order item snapshot.
+ */
+async function buildOrderItem(item) {
+  const product = await Product.findById(item.product);
+
+  if (!product || !product.isActive) {
+    throw new ErrorResponse(`Product ${item.product} not found`, 404);
+  }
+
+  let variant = null;
+  if (product.variants.length > 0) {
+    variant = item.variant ? product.variants.id(item.variant) : null;
+    if (!variant) {
+      throw new ErrorResponse(`Please choose a length and color for ${product.name}`, 400);
+    }
+  }
+
+  const price = variant ? variant.price : product.price;
+  const stock = variant ? variant.stock : product.stock;
+  const name = variant ? `${product.name} (${product.describeVariant(variant)})` : product.name;
+
+  if (stock < item.quantity) {
+    throw new ErrorResponse(`Insufficient stock for ${name}. Available: ${stock}`, 400);
+  }
+
+  return {
+    product,
+    variant,
+    orderItem: {
+      product: product._id,
+      variant: variant ? variant._id : undefined,
+      variantLabel: variant ? product.describeVariant(variant) : undefined,
+      productName: product.name,
+      productImage: (variant && variant.imageUrl) || product.imageUrl,
+      price,
+      quantity: item.quantity,
+      subtotal: price * item.quantity
+    }
+  };
+}
+
+/**
+ * Put the stock of an order's items back (cancellations and refunds)
+ * Variants removed since the order was placed are skipped
+ */
+async function restoreStock(order) {
+  for (const item of order.items) {
+    const product = await Product.findById(item.product);
+    if (!product) {
+      continue;
+    }
+
+    if (item.variant) {
+      if (product.variants.id(item.variant)) {
+        await product.updateStock(item.quantity, 'add', item.variant);
+      }
+    } else {
+      await product.updateStock(item.quantity, 'add');
+    }
+  }
+}
+
+module.exports = {
+  buildOrderItem,
+  restoreStock
+};
@@ -0,0 +1,152 @@
+const Coupon = require('../models/Coupon');
+const Order = require('../models/Order');
+const Product = require('../models/Product');
+const { ErrorResponse } = require('../middleware/errorHandler');
+
+/**
+ * Coupon rules and discount calculation
+ * The storefront mirrors calculateDiscount (PromotionUtil) to preview discounts;
+ * the amounts stored on orders always come from here.
+ */
+
+const round = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Whether an order line is covered by the coupon's scope
+ * line: { product, category, seller, price, quantity, subtotal }
+ */
+function isEligible(coupon, line) {
+  if (coupon.categories && coupon.categories.length > 0 && !coupon.categories.includes(line.category)) {
+    return false;
+  }
+  if (coupon.seller && String(coupon.seller) !== String(line.seller)) {
+    return false;
+  }
+  if (coupon.products && coupon.products.length > 0 && !coupon.products.some(id => String(id) === String(line.product))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Discount a coupon gives on a set of order lines
+ * Returns the total and its split across the lines (same order as `lines`).
+ */
+function calculateDiscount(coupon, lines) {
+  const lineDiscounts = lines.map(() => 0);
+  const eligible = lines.map((line, index) => ({ line, index })).filter(({ line }) => isEligible(coupon, line));
+
+  if (coupon.type === 'percentage') {
+    eligible.forEach(({ line, index }) => {
+      lineDiscounts[index] = round(line.subtotal * coupon.value / 100);
+    });
+  } else if (coupon.type === 'fixed') {
+    // Spread over the eligible lines by value; the last line takes the rounding remainder
+    const eligibleTotal = eligible.reduce((sum, { line }) => sum + line.subtotal, 0);
+    const amount = Math.min(coupon.value, eligibleTotal);
+    let remaining = round(amount);
+
+    eligible.forEach(({ line, index }, position) => {
+      const share = position === eligible.length - 1 ? remaining : round(amount * line.subtotal / eligibleTotal);
+      lineDiscounts[index] = share;
+      remaining = round(remaining - share);
+    });
+  } else if (coupon.type === 'bogo') {
+    // Every group of buy + get units (most expensive first) makes its cheapest `get` units discounted
+    const units = eligible
+      .flatMap(({ line, index }) => Array.from({ length: line.quantity }, () => ({ index, price: line.price })))
+      .sort((a, b) => b.price - a.price);
+    const groupSize = coupon.buyQuantity + coupon.getQuantity;
+    const discounted = Math.floor(units.length / groupSize) * coupon.getQuantity;
+
+    // The discounted units are the cheapest ones in the cart's eligible set
+    units.slice(units.length - discounted).forEach(unit => {
+      lineDiscounts[unit.index] = round(lineDiscounts[unit.index] + unit.price * coupon.value / 100);
+    });
+  }
+
+  return {
+    discount: round(lineDiscounts.reduce((sum, amount) => sum + amount, 0)),
+    lineDiscounts
+  };
+}
+
+/**
+ * Check a coupon can be used by this buyer right now
+ * Throws a 400 explaining why not.
+ */
+async function checkCoupon(coupon, user) {
+  const now = new Date();
+
+  if (!coupon || !coupon.isActive || (coupon.startsAt && coupon.startsAt > now)) {
+    throw new ErrorResponse('This coupon code is not valid', 400);
+  }
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    throw new ErrorResponse(`Coupon ${coupon.code} has expired`, 400);
+  }
+
+  // Cancelled orders give their redemption back
+  const redeemed = { couponCode: coupon.code, orderStatus: { $ne: 'cancelled' } };
+
+  if (coupon.usageLimit && (await Order.countDocuments(redeemed)) >= coupon.usageLimit) {
+    throw new ErrorResponse(`Coupon ${coupon.code} has been fully redeemed`, 400);
+  }
+  if (coupon.perUserLimit && (await Order.countDocuments({ ...redeemed, user: user._id || user.id })) >= coupon.perUserLimit) {
+    throw new ErrorResponse(`You have already used coupon ${coupon.code}`, 400);
+  }
+}
+
+/**
+ * Find a coupon by the code a buyer typed
+ */
+function findCoupon(code) {
+  return Coupon.findOne({ code: String(code).trim().toUpperCase() });
+}
+
+/**
+ * Apply a coupon code to priced order items (see buildOrderItem)
+ * Sets each item's `discount` and returns the coupon code and total discount.
+ * Throws a 400 if the code is unusable or does not cover anything in the order.
+ */
+async function applyCoupon(code, orderItems, user) {
+  const coupon = await findCoupon(code);
+  await checkCoupon(coupon, user);
+
+  const products = await Product.find({ _id: { $in: orderItems.map(item => item.product) } }).select('category seller');
+  const byId = new Map(products.map(product => [String(product._id), product]));
+
+  const lines = orderItems.map(item => {
+    const product = byId.get(String(item.product));
+    return {
+      product: item.product,
+      category: product && product.category,
+      seller: product && product.seller,
+      price: item.price,
+      quantity: item.quantity,
+      subtotal: item.subtotal
+    };
+  });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+  if (subtotal < coupon.minSubtotal) {
+    throw new ErrorResponse(`Coupon ${coupon.code} needs a subtotal of at least $${coupon.minSubtotal.toFixed(2)}`, 400);
+  }
+
+  const { discount, lineDiscounts } = calculateDiscount(coupon, lines);
+  if (discount <= 0) {
+    throw new ErrorResponse(`Coupon ${coupon.code} does not apply to the items in your order`, 400);
+  }
+
+  orderItems.forEach((item, index) => {
+    item.discount = lineDiscounts[index];
+  });
+
+  return { code: coupon.code, discount };
+}
+
+module.exports = {
+  calculateDiscount,
+  checkCoupon,
+  findCoupon,
+  applyCoupon
+};
@@ -0,0 +1,26 @@
+const { stripe } = require('../config/stripe');
+
+/**
+ * Refund a paid order in full and mark it refunded (the caller saves the order)
+ * Orders without a Stripe payment (mock payments) were never charged, so
+ * nothing is sent back. Retries reuse the same Stripe refund.
+ */
+async function refundPayment(order, refundedBy) {
+  if (order.stripePaymentIntentId) {
+    await stripe.refunds.create({
+      payment_intent: order.stripePaymentIntentId,
+      metadata: {
+        orderId: order._id.toString(),
+        refundedBy: refundedBy.toString()
+      }
+    }, {
+      idempotencyKey: `refund-${order._id}`
+    });
+  }
+
+  order.paymentStatus = 'refunded';
+}
+
+module.exports = {
+  refundPayment
+};
@@ -0,0 +1,180 @@
+const Order = require('../models/Order');
+const { stripe } = require('../config/stripe');
+const { ErrorResponse } = require('../middleware/errorHandler');
+const { buildOrderItem, restoreStock } = require('./orderItems');
+
+/**
+ * Stock reservations for unpaid orders
+ *
+ * Creating an order takes its items out of stock straight away, so two buyers
+ * cannot both check out the last unit. An unpaid order holds that stock until
+ * `reservedUntil`:
+ *   - paid       -> the reservation is committed (Order#markAsPaid)
+ *   - failed     -> released: the order is cancelled and its stock restored
+ *   - cancelled  -> released the same way
+ *   - timed out  -> released by the sweeper once Stripe can no longer take payment
+ */
+const RESERVATION_TTL_MS = (parseInt(process.env.RESERVATION_TTL_MINUTES, 10) || 15) * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Price, stock-check and reserve the requested order lines
+ * All or nothing: if any line cannot be reserved, the lines already taken are put back.
+ *
+ * Returns the order item snapshots.
+ */
+async function reserveItems(items) {
+  const reserved = [];
+
+  try {
+    for (const item of items) {
+      const { product, variant, orderItem } = await buildOrderItem(item);
+
+      try {
+        await product.updateStock(item.quantity, 'subtract', variant && variant._id);
+      } catch (error) {
+        // Another checkout took the stock between the check and the update
+        throw new ErrorResponse(`${orderItem.productName} has just sold out. Please update your cart.`, 409);
+      }
+
+      reserved.push(orderItem);
+    }
+  } catch (error) {
+    await restoreStock({ items: reserved });
+    throw error;
+  }
+
+  return reserved;
+}
+
+/**
+ * When a reservation made now expires
+ * Stripe Checkout Sessions must stay open at least 30 minutes, so callers can ask for longer.
+ */
+function reservationExpiry(minimumMs = 0) {
+  return new Date(Date.now() + Math.max(RESERVATION_TTL_MS, minimumMs));
+}
+
+/**
+ * Cancel an unpaid order and put its stock back
+ * Stripe is told to stop taking payment first; an order it turns out to have
+ * charged already (a missed webhook) is confirmed instead.
+ *
+ * Returns true if the stock was released.
+ */
+async function releaseReservation(order, reason) {
+  if (order.paymentStatus === 'paid' || order.orderStatus !== 'pending') {
+    return false;
+  }
+
+  if (!(await closePayment(order))) {
+    return false;
+  }
+
+  await order.cancelOrder(reason);
+  await restoreStock(order);
+  return true;
+}
+
+/**
+ * Make sure Stripe can no longer charge an order
+ * Returns false if the order was paid after all, or payment is still settling.
+ */
+async function closePayment(order) {
+  return await closeCheckoutSession(order) && closePaymentIntent(order);
+}
+
+/**
+ * Expire the order's Checkout Session if it is still open
+ * Returns false if the order was paid through it after all.
+ */
+async function closeCheckoutSession(order) {
+  if (order.stripeCheckoutSessionId) {
+    const session = await stripe.checkout.sessions.retrieve(order.stripeCheckoutSessionId);
+
+    if (session.payment_status === 'paid') {
+      await order.markAsPaid({ id: session.payment_intent });
+      return false;
+    }
+    if (session.status === 'open') {
+      await stripe.checkout.sessions.expire(session.id);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Cancel the order's PaymentIntent unless it has already been charged
+ * Returns false if the order was paid after all, or payment is still settling.
+ */
+async function closePaymentIntent(order) {
+  if (order.stripePaymentIntentId) {
+    const paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+
+    if (paymentIntent.status === 'succeeded') {
+      await order.markAsPaid(paymentIntent);
+      return false;
+    }
+    if (paymentIntent.status === 'processing') {
+      return false;
+    }
+    if (paymentIntent.status !== 'canceled') {
+      await stripe.paymentIntents.cancel(paymentIntent.id);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Release every reservation that has run out
+ * Returns the number of orders released.
+ */
+async function releaseExpiredReservations() {
+  const expired = await Order.find({
+    reservedUntil: { $lte: new Date() },
+    orderStatus: 'pending',
+    paymentStatus: { $ne: 'paid' }
+  });
+
+  let released = 0;
+
+  for (const order of expired) {
+    try {
+      if (await releaseReservation(order, 'Reservation expired before payment')) {
+        released++;
+      }
+    } catch (error) {
+      // Leave the order for the next sweep (payments still settling are skipped the same way)
+      console.error(`Could not release reservation for order ${order.orderNumber}:`, error.message);
+    }
+  }
+
+  return released;
+}
+
+/**
+ * Release expired reservations every minute
+ * The timer does not keep the process alive on shutdown.
+ */
+function startReservationSweeper() {
+  const timer = setInterval(() => {
+    releaseExpiredReservations()
+      .catch(error => console.error('Reservation sweep failed:', error.message));
+  }, SWEEP_INTERVAL_MS);
+
+  timer.unref();
+  return timer;
+}
+
+module.exports = {
+  reserveItems,
+  reservationExpiry,
+  releaseReservation,
+  closePayment,
+  closeCheckoutSession,
+  closePaymentIntent,
+  releaseExpiredReservations,
+  startReservationSweeper
+};
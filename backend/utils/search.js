@@ -0,0 +1,167 @@
+/**
+ * Full-text search utilities
+ * Tokenized, typo-tolerant matching with weighted relevance scoring.
+ *
+ * Mirrors src/app/utils/search.util.ts so demo and API results rank the same way.
+ */
+
+// Score for a query token that matches a document token exactly,
+// is a prefix of it (typeahead), or is within the allowed edit distance
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const TYPO_MATCH = 0.6;
+
+/**
+ * Split text into lowercase, accent-free alphanumeric tokens
+ */
+const tokenize = (text) => {
+  if (!text) {
+    return [];
+  }
+
+  return String(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+};
+
+/**
+ * Number of typos tolerated for a query token of this length
+ */
+const maxTypos = (token) => {
+  if (token.length <= 3) {
+    return 0;
+  }
+  return token.length <= 6 ? 1 : 2;
+};
+
+/**
+ * Levenshtein distance, stopping early once it exceeds max
+ */
+const editDistance = (a, b, max = Infinity) => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const matchToken = (queryToken, docToken) => {
+  if (queryToken === docToken) {
+    return EXACT_MATCH;
+  }
+  if (queryToken.length >= 2 && docToken.startsWith(queryToken)) {
+    return PREFIX_MATCH;
+  }
+
+  const allowed = maxTypos(queryToken);
+  if (allowed > 0 && editDistance(queryToken, docToken, allowed) <= allowed) {
+    return TYPO_MATCH;
+  }
+
+  return 0;
+};
+
+/**
+ * Relevance of a document to a query (0 = not a match)
+ * fields: [{ text, weight }]. Every query token must match somewhere.
+ */
+const score = (fields, query) => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) {
+    return 0;
+  }
+
+  const tokenizedFields = fields.map(field => ({
+    tokens: tokenize(field.text),
+    weight: field.weight
+  }));
+
+  let total = 0;
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    for (const field of tokenizedFields) {
+      for (const docToken of field.tokens) {
+        best = Math.max(best, matchToken(queryToken, docToken) * field.weight);
+      }
+    }
+
+    if (best === 0) {
+      return 0;
+    }
+    total += best;
+  }
+
+  return total;
+};
+
+/**
+ * Searchable fields of a product and their weights
+ */
+const productSearchFields = (product) => [
+  { text: product.name, weight: 5 },
+  { text: product.origin, weight: 3 },
+  { text: product.texture, weight: 3 },
+  { text: product.specifications?.color, weight: 3 },
+  { text: product.description, weight: 1 }
+];
+
+// Product paths searched by productSearchFilters (the fields of productSearchFields)
+const PRODUCT_SEARCH_PATHS = ['name', 'origin', 'texture', 'specifications.color', 'description'];
+
+/**
+ * Split a token into (allowed typos + 1) pieces of near-equal length
+ * A word within the allowed edit distance still contains at least one piece unchanged.
+ */
+const tokenPieces = (token) => {
+  const count = Math.min(maxTypos(token) + 1, token.length);
+  return Array.from({ length: count }, (_, i) =>
+    token.slice(Math.round(i * token.length / count), Math.round((i + 1) * token.length / count)));
+};
+
+/**
+ * MongoDB conditions every product matching the query also meets (one per query token)
+ * Used to narrow the candidates before ranking them with rankProducts.
+ */
+const productSearchFilters = (query) => tokenize(query).map(token => {
+  // Tokens are alphanumeric, so the pieces need no escaping
+  const pattern = new RegExp(tokenPieces(token).join('|'), 'i');
+  return { $or: PRODUCT_SEARCH_PATHS.map(path => ({ [path]: pattern })) };
+});
+
+/**
+ * Filter products to those matching the query, most relevant first
+ */
+const rankProducts = (products, query) => products
+  .map((product, index) => ({ product, index, score: score(productSearchFields(product), query) }))
+  .filter(result => result.score > 0)
+  .sort((a, b) => b.score - a.score || a.index - b.index)
+  .map(result => result.product);
+
+module.exports = {
+  tokenize,
+  editDistance,
+  score,
+  productSearchFilters,
+  rankProducts
+};
@@ -2,6 +2,7 @@ const mongoose = require('mongoose');
 const dotenv = require('dotenv');
 const User = require('../models/User');
 const Product = require('../models/Product');
+const Coupon = require('../models/Coupon');
 
 // Load environment variables
 dotenv.config();
@@ -148,6 +149,36 @@ const sampleProducts = [
   }
 ];
 
+// Sample coupons (match the storefront's demo coupons)
+const sampleCoupons = [
+  {
+    code: 'WELCOME10',
+    description: '10% off your order',
+    type: 'percentage',
+    value: 10,
+    perUserLimit: 1
+  },
+  {
+    code: 'BUNDLE3',
+    description: 'Buy 2 bundles, get the 3rd free',
+    type: 'bogo',
+    value: 100,
+    buyQuantity: 2,
+    getQuantity: 1,
+    categories: ['virgin-hair', 'remy-hair'],
+    perUserLimit: 3
+  },
+  {
+    code: 'CLOSURE15',
+    description: '$15 off closures and frontals over $100',
+    type: 'fixed',
+    value: 15,
+    categories: ['closure', 'frontal'],
+    minSubtotal: 100,
+    perUserLimit: 1
+  }
+];
+
 // Connect to database and seed
 const seedDatabase = async () => {
   try {
@@ -158,6 +189,7 @@ const seedDatabase = async () => {
     // Clear existing data
     await User.deleteMany({});
     await Product.deleteMany({});
+    await Coupon.deleteMany({});
     console.log('🗑️  Cleared existing data');
 
     // Create users
@@ -177,6 +209,11 @@ const seedDatabase = async () => {
     const createdProducts = await Product.create(productsWithSeller);
     console.log(`✅ Created ${createdProducts.length} products`);
 
+    // Create coupons (store-wide, owned by the admin)
+    const admin = createdUsers.find(u => u.role === 'admin');
+    const createdCoupons = await Coupon.create(sampleCoupons.map(coupon => ({ ...coupon, createdBy: admin._id })));
+    console.log(`✅ Created ${createdCoupons.length} coupons`);
+
     console.log('\n📊 Database seeded successfully!');
     console.log('\n🔐 Demo Accounts:');
     console.log('Buyer:  buyer@example.com / DemoPassword123!');
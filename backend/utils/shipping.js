@@ -0,0 +1,206 @@
+const Product = require('../models/Product');
+const { ErrorResponse } = require('../middleware/errorHandler');
+const { countryCode } = require('./address');
+const {
+  SHIPPING_ZONES,
+  INTERNATIONAL_ZONES,
+  DEFAULT_ZONE,
+  SERVICE_LEVELS,
+  CATEGORY_WEIGHTS,
+  PACKAGING_WEIGHT,
+  DISPATCH_CUTOFF_HOUR
+} = require('../config/shipping');
+
+/**
+ * Shipping rates and delivery estimates
+ *
+ * A carrier rate provider is any object with
+ *   getRates({ destination, parcel }) -> Promise<[{ service, name, amount, minDays, maxDays }]>
+ * where destination is the address plus its `zone`, parcel is { weight (ounces), quantity }
+ * and minDays/maxDays are business days in transit.
+ *
+ * The default provider prices from the rate tables in config/shipping.js.
+ * Swap in a carrier API client with setShippingProvider(), or set
+ * SHIPPING_PROVIDER=fixture to use fixed rates (tests, offline development).
+ */
+
+const round = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Provider backed by the zone rate tables
+ */
+const tableRateProvider = {
+  async getRates({ destination, parcel }) {
+    return Object.entries(SERVICE_LEVELS).flatMap(([service, level]) => {
+      const measure = level.rateTable.basis === 'weight' ? parcel.weight : parcel.quantity;
+      const bracket = level.rateTable.brackets.find(b => b.upTo === null || measure <= b.upTo);
+      const amount = bracket.rates[destination.zone - 1];
+      if (amount === null) {
+        return [];
+      }
+
+      const [minDays, maxDays] = level.transitDays[destination.zone - 1];
+      return [{
+        service,
+        name: level.name,
+        amount,
+        minDays,
+        maxDays
+      }];
+    });
+  }
+};
+
+const FIXTURE_RATES = [
+  { service: 'standard', name: 'Standard', amount: 5, minDays: 3, maxDays: 5 },
+  { service: 'express', name: 'Express', amount: 15, minDays: 2, maxDays: 2 },
+  { service: 'overnight', name: 'Overnight', amount: 30, minDays: 1, maxDays: 1 }
+];
+
+/**
+ * Provider returning the same rates for every parcel and destination
+ */
+function createFixtureProvider(rates = FIXTURE_RATES) {
+  return {
+    async getRates() {
+      return rates.map(rate => ({ ...rate }));
+    }
+  };
+}
+
+let shippingProvider = process.env.SHIPPING_PROVIDER === 'fixture' ? createFixtureProvider() : tableRateProvider;
+
+/**
+ * Replace the carrier rate provider (e.g. with a carrier API client)
+ */
+function setShippingProvider(provider) {
+  shippingProvider = provider || tableRateProvider;
+}
+
+function getShippingProvider() {
+  return shippingProvider;
+}
+
+/**
+ * Shipping zone for an address
+ * Returns DEFAULT_ZONE before a US state is entered and null where we do not ship.
+ */
+function findZone(address) {
+  const country = countryCode(address && address.country);
+  if (country !== 'US') {
+    return INTERNATIONAL_ZONES[country] || null;
+  }
+  if (!address || !address.state) {
+    return DEFAULT_ZONE;
+  }
+
+  const state = String(address.state).trim().toUpperCase();
+  const zone = Object.keys(SHIPPING_ZONES).find(key => SHIPPING_ZONES[key].includes(state));
+  return zone ? Number(zone) : null;
+}
+
+/**
+ * Weight and item count of the parcel for a set of order lines ({ product, quantity })
+ */
+async function buildParcel(items) {
+  const products = await Product.find({ _id: { $in: items.map(item => item.product) } }).select('category');
+  const byId = new Map(products.map(product => [String(product._id), product]));
+
+  return items.reduce((parcel, item) => {
+    const product = byId.get(String(item.product));
+    const unitWeight = (product && CATEGORY_WEIGHTS[product.category]) || CATEGORY_WEIGHTS['virgin-hair'];
+    return {
+      weight: parcel.weight + unitWeight * item.quantity,
+      quantity: parcel.quantity + item.quantity
+    };
+  }, { weight: PACKAGING_WEIGHT, quantity: 0 });
+}
+
+const isWeekend = (date) => date.getDay() === 0 || date.getDay() === 6;
+
+function addBusinessDays(date, days) {
+  const result = new Date(date);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1);
+    if (!isWeekend(result)) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * Earliest and latest delivery dates for a transit time
+ * Orders placed on a business day before the cutoff ship the same day, others the next business day.
+ */
+function estimateDelivery(minDays, maxDays, now = new Date()) {
+  let dispatch = new Date(now);
+  if (isWeekend(dispatch) || dispatch.getHours() >= DISPATCH_CUTOFF_HOUR) {
+    dispatch = addBusinessDays(dispatch, 1);
+  }
+  dispatch.setHours(0, 0, 0, 0);
+
+  return {
+    earliest: addBusinessDays(dispatch, minDays),
+    latest: addBusinessDays(dispatch, maxDays)
+  };
+}
+
+/**
+ * Shipping options for order lines going to an address
+ * subtotal is after any coupon discount (it decides free shipping)
+ *
+ * Returns [{ service, name, amount, estimatedDelivery: { earliest, latest } }], cheapest first.
+ */
+async function getShippingOptions({ address, items, subtotal, now = new Date() }) {
+  const zone = findZone(address);
+  if (zone === null) {
+    return [];
+  }
+
+  const domestic = Boolean(SHIPPING_ZONES[zone]);
+  const parcel = await buildParcel(items);
+  const rates = await shippingProvider.getRates({ destination: { ...address, zone }, parcel });
+
+  return rates
+    .map(rate => {
+      const level = SERVICE_LEVELS[rate.service];
+      const free = domestic && level && level.freeOver !== undefined && subtotal >= level.freeOver;
+      return {
+        service: rate.service,
+        name: rate.name,
+        amount: free ? 0 : round(rate.amount),
+        estimatedDelivery: estimateDelivery(rate.minDays, rate.maxDays, now)
+      };
+    })
+    .sort((a, b) => a.amount - b.amount);
+}
+
+/**
+ * The chosen shipping option for an order
+ * Throws a 400 if the service is not available for the address.
+ */
+async function quoteShipping({ address, items, subtotal, service = 'standard' }) {
+  const options = await getShippingOptions({ address, items, subtotal });
+  const option = options.find(o => o.service === service);
+
+  if (!option) {
+    throw new ErrorResponse(
+      options.length > 0 ? `${service} shipping is not available for this address` : 'We do not ship to this address',
+      400
+    );
+  }
+
+  return option;
+}
+
+module.exports = {
+  tableRateProvider,
+  createFixtureProvider,
+  setShippingProvider,
+  getShippingProvider,
+  estimateDelivery,
+  getShippingOptions,
+  quoteShipping
+};
@@ -0,0 +1,101 @@
+const { US_TAX_RATES } = require('../config/taxRates');
+const { countryCode } = require('./address');
+
+/**
+ * Sales tax calculation
+ *
+ * A tax calculator is any object with
+ *   calculate({ address, subtotal, shipping, taxExempt }) -> Promise<{ tax, lines }>
+ * where each line is { jurisdiction, name, rate, taxableAmount, amount }.
+ *
+ * The default calculator uses the bundled rate table (config/taxRates.js).
+ * Swap in a tax service (Stripe Tax, TaxJar, ...) with setTaxCalculator().
+ */
+
+const round = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Whether an address is in the US (addresses without a country are)
+ */
+function isUSAddress(address) {
+  return countryCode(address.country) === 'US';
+}
+
+/**
+ * Tax lines for a destination, before amounts are filled in
+ */
+function findJurisdictions(address) {
+  if (!address || !address.state || !isUSAddress(address)) {
+    return [];
+  }
+
+  const state = String(address.state).trim().toUpperCase();
+  const stateRates = US_TAX_RATES[state];
+  if (!stateRates || stateRates.rate === 0) {
+    return [];
+  }
+
+  const jurisdictions = [{
+    jurisdiction: state,
+    name: `${state} state tax`,
+    rate: stateRates.rate,
+    shippingTaxable: stateRates.shippingTaxable
+  }];
+
+  const prefix = String(address.zipCode || '').trim().slice(0, 3);
+  const localRate = stateRates.local && stateRates.local[prefix];
+  if (localRate) {
+    jurisdictions.push({
+      jurisdiction: `${state}-${prefix}`,
+      name: 'Local tax',
+      rate: localRate,
+      shippingTaxable: stateRates.shippingTaxable
+    });
+  }
+
+  return jurisdictions;
+}
+
+/**
+ * Calculator backed by the bundled per-state and ZIP-prefix rate table
+ */
+const rateTableCalculator = {
+  async calculate({ address, subtotal, shipping = 0, taxExempt = false }) {
+    if (taxExempt) {
+      return { tax: 0, lines: [] };
+    }
+
+    const lines = findJurisdictions(address).map(({ shippingTaxable, ...jurisdiction }) => {
+      const taxableAmount = round(subtotal + (shippingTaxable ? shipping : 0));
+      return {
+        ...jurisdiction,
+        taxableAmount,
+        amount: round(taxableAmount * jurisdiction.rate / 100)
+      };
+    });
+
+    return {
+      tax: round(lines.reduce((sum, line) => sum + line.amount, 0)),
+      lines
+    };
+  }
+};
+
+let taxCalculator = rateTableCalculator;
+
+/**
+ * Replace the tax calculator (e.g. with a tax service client)
+ */
+function setTaxCalculator(calculator) {
+  taxCalculator = calculator || rateTableCalculator;
+}
+
+function getTaxCalculator() {
+  return taxCalculator;
+}
+
+module.exports = {
+  rateTableCalculator,
+  setTaxCalculator,
+  getTaxCalculator
+};
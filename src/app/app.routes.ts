@@ -5,8 +5,17 @@ import { CartComponent } from './components/cart/cart.component';
 import { CheckoutComponent } from './components/checkout/checkout.component';
 import { LoginComponent } from './components/auth/login.component';
 import { RegisterComponent } from './components/auth/register.component';
+import { VerifyEmailComponent } from './components/auth/verify-email.component';
+import { ForgotPasswordComponent } from './components/auth/forgot-password.component';
+import { ResetPasswordComponent } from './components/auth/reset-password.component';
 import { SellerDashboardComponent } from './components/seller-dashboard/seller-dashboard.component';
 import { OrderSuccessComponent } from './components/order-success/order-success.component';
+import { OrderHistoryComponent } from './components/account/order-history.component';
+import { OrderDetailComponent } from './components/account/order-detail.component';
+import { AddressBookComponent } from './components/account/address-book.component';
+import { ProfileComponent } from './components/account/profile.component';
+import { SecurityComponent } from './components/account/security.component';
+import { AdminDashboardComponent } from './components/admin/admin-dashboard.component';
 import { PrivacyPolicyComponent } from './components/legal/privacy-policy.component';
 import { TermsOfServiceComponent } from './components/legal/terms-of-service.component';
 import { RefundPolicyComponent } from './components/legal/refund-policy.component';
@@ -28,14 +37,48 @@ export const routes: Routes = [
     component: OrderSuccessComponent,
     canActivate: [authGuard]
   },
+  {
+    path: 'account/orders',
+    component: OrderHistoryComponent,
+    canActivate: [authGuard]
+  },
+  {
+    path: 'account/orders/:id',
+    component: OrderDetailComponent,
+    canActivate: [authGuard]
+  },
+  {
+    path: 'account/addresses',
+    component: AddressBookComponent,
+    canActivate: [authGuard]
+  },
+  {
+    path: 'account/profile',
+    component: ProfileComponent,
+    canActivate: [authGuard]
+  },
+  {
+    path: 'account/security',
+    component: SecurityComponent,
+    canActivate: [authGuard]
+  },
   { path: 'auth/login', component: LoginComponent },
   { path: 'auth/register', component: RegisterComponent },
+  { path: 'auth/verify-email/:token', component: VerifyEmailComponent },
+  { path: 'auth/forgot-password', component: ForgotPasswordComponent },
+  { path: 'auth/reset-password/:token', component: ResetPasswordComponent },
   {
     path: 'seller/dashboard',
     component: SellerDashboardComponent,
     canActivate: [authGuard, roleGuard],
     data: { role: 'seller' }
   },
+  {
+    path: 'admin',
+    component: AdminDashboardComponent,
+    canActivate: [authGuard, roleGuard],
+    data: { role: 'admin' }
+  },
   // Legal Pages
   { path: 'privacy-policy', component: PrivacyPolicyComponent },
   { path: 'terms-of-service', component: TermsOfServiceComponent },
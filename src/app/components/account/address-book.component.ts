@@ -0,0 +1,131 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { FormsModule } from '@angular/forms';
+import { Observable, Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AddressBookService } from '../../services/address-book.service';
+import { Address, SavedAddress } from '../../models/user.model';
+import { AddressUse } from '../../utils/address-book.util';
+import { AddressFormatUtil } from '../../utils/address-format.util';
+import { AddressFormComponent } from '../checkout/address-form.component';
+
+type AddressForm = Omit<SavedAddress, 'id'> & { id?: string };
+
+@Component({
+  selector: 'app-address-book',
+  standalone: true,
+  imports: [CommonModule, RouterModule, FormsModule, AddressFormComponent],
+  templateUrl: './address-book.component.html',
+  styleUrls: ['./account.component.css']
+})
+export class AddressBookComponent implements OnInit, OnDestroy {
+  addresses: SavedAddress[] = [];
+  editing: AddressForm | null = null; // Address being added (no ID) or edited
+  isSaving: boolean = false;
+  errorMessage: string = '';
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private addressBookService: AddressBookService) {}
+
+  ngOnInit(): void {
+    this.addressBookService.addresses$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(addresses => this.addresses = addresses);
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  startAdd(): void {
+    this.errorMessage = '';
+    this.editing = {
+      label: this.addresses.length === 0 ? 'Home' : '',
+      street: '',
+      city: '',
+      state: '',
+      zipCode: '',
+      country: AddressFormatUtil.DEFAULT_COUNTRY,
+      isDefaultShipping: false,
+      isDefaultBilling: false
+    };
+  }
+
+  startEdit(address: SavedAddress): void {
+    this.errorMessage = '';
+    this.editing = { ...address };
+  }
+
+  updateEditing(address: Address): void {
+    if (this.editing) {
+      this.editing = { ...this.editing, ...address };
+    }
+  }
+
+  cancelEdit(): void {
+    this.editing = null;
+    this.errorMessage = '';
+  }
+
+  saveAddress(): void {
+    if (!this.editing || !this.validateForm(this.editing)) {
+      return;
+    }
+
+    const entry = { ...this.editing, ...AddressFormatUtil.normalize(this.editing), label: this.editing.label.trim() };
+    this.run(this.addressBookService.save(entry), () => this.editing = null);
+  }
+
+  removeAddress(address: SavedAddress): void {
+    if (!confirm(`Remove "${address.label}" from your address book?`)) {
+      return;
+    }
+
+    this.run(this.addressBookService.remove(address.id));
+  }
+
+  setDefault(address: SavedAddress, use: AddressUse): void {
+    this.run(this.addressBookService.setDefault(address.id, use));
+  }
+
+  countryName(country: string): string {
+    return AddressFormatUtil.findFormat(country)?.name ?? country;
+  }
+
+  private run(request: Observable<SavedAddress[]>, onSaved?: () => void): void {
+    this.isSaving = true;
+    this.errorMessage = '';
+
+    request
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.isSaving = false;
+          onSaved?.();
+        },
+        error: (error) => {
+          console.error('Error saving address book:', error);
+          this.isSaving = false;
+          this.errorMessage = error?.message || 'Failed to save your addresses. Please try again.';
+        }
+      });
+  }
+
+  private validateForm(form: AddressForm): boolean {
+    if (!form.label.trim()) {
+      this.errorMessage = 'Please give the address a label';
+      return false;
+    }
+
+    const error = AddressFormatUtil.validate(form);
+    if (error) {
+      this.errorMessage = error;
+      return false;
+    }
+
+    return true;
+  }
+}
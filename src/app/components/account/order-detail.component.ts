@@ -0,0 +1,96 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { OrderService } from '../../services/order.service';
+import { AuthService } from '../../services/auth.service';
+import { Order } from '../../models/order.model';
+
+@Component({
+  selector: 'app-order-detail',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  templateUrl: './order-detail.component.html',
+  styleUrls: ['./account.component.css']
+})
+export class OrderDetailComponent implements OnInit, OnDestroy {
+  order: Order | undefined;
+  loading: boolean = true;
+  isCancelling: boolean = false;
+
+  // Progress steps shown for orders that haven't been cancelled
+  readonly statusSteps: Order['orderStatus'][] = ['pending', 'processing', 'shipped', 'delivered'];
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private route: ActivatedRoute,
+    private orderService: OrderService,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    this.route.paramMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const orderId = params.get('id');
+        if (orderId) {
+          this.loadOrder(orderId);
+        } else {
+          this.loading = false;
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  loadOrder(orderId: string): void {
+    this.loading = true;
+    this.orderService.getOrderById(orderId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (order) => {
+          // The API enforces ownership; demo storage is shared, so check here too
+          const user = this.authService.getCurrentUser();
+          this.order = order && (order.userId === user?.id || this.authService.isAdmin()) ? order : undefined;
+          this.loading = false;
+        },
+        error: (error) => {
+          console.error('Error loading order:', error);
+          this.loading = false;
+        }
+      });
+  }
+
+  canCancel(): boolean {
+    return !!this.order && this.orderService.canCancelOrder(this.order);
+  }
+
+  isStepComplete(step: Order['orderStatus']): boolean {
+    if (!this.order) {
+      return false;
+    }
+    return this.statusSteps.indexOf(step) <= this.statusSteps.indexOf(this.order.orderStatus);
+  }
+
+  async cancelOrder(): Promise<void> {
+    if (!this.order || !confirm(this.orderService.cancelConfirmation(this.order))) {
+      return;
+    }
+
+    this.isCancelling = true;
+    const result = await this.orderService.cancelOrder(this.order.id);
+    this.isCancelling = false;
+
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+
+    this.loadOrder(this.order.id);
+  }
+}
@@ -0,0 +1,88 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { OrderService } from '../../services/order.service';
+import { AuthService } from '../../services/auth.service';
+import { Order } from '../../models/order.model';
+
+@Component({
+  selector: 'app-order-history',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  templateUrl: './order-history.component.html',
+  styleUrls: ['./account.component.css']
+})
+export class OrderHistoryComponent implements OnInit, OnDestroy {
+  orders: Order[] = [];
+  loading: boolean = true;
+  errorMessage: string = '';
+  cancellingId: string | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private orderService: OrderService,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadOrders();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  loadOrders(): void {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      this.loading = false;
+      return;
+    }
+
+    this.orderService.getOrdersByUserId(user.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (orders) => {
+          // Newest first
+          this.orders = [...orders].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          );
+          this.loading = false;
+        },
+        error: (error) => {
+          console.error('Error loading orders:', error);
+          this.errorMessage = error?.message || 'Failed to load your orders. Please try again.';
+          this.loading = false;
+        }
+      });
+  }
+
+  canCancel(order: Order): boolean {
+    return this.orderService.canCancelOrder(order);
+  }
+
+  async cancelOrder(order: Order): Promise<void> {
+    if (!confirm(this.orderService.cancelConfirmation(order))) {
+      return;
+    }
+
+    this.cancellingId = order.id;
+    const result = await this.orderService.cancelOrder(order.id);
+    this.cancellingId = null;
+
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+
+    this.loadOrders();
+  }
+
+  itemCount(order: Order): number {
+    return order.items.reduce((count, item) => count + item.quantity, 0);
+  }
+}
@@ -0,0 +1,149 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from '../../services/auth.service';
+import { User } from '../../models/user.model';
+import { ValidationUtil } from '../../utils/validation.util';
+import { AddressFormatUtil } from '../../utils/address-format.util';
+
+@Component({
+  selector: 'app-profile',
+  standalone: true,
+  imports: [CommonModule, RouterModule, FormsModule],
+  templateUrl: './profile.component.html',
+  styleUrls: ['./account.component.css']
+})
+export class ProfileComponent implements OnInit, OnDestroy {
+  user: User | null = null;
+  firstName: string = '';
+  lastName: string = '';
+  email: string = '';
+  phone: string = '';
+  currentPassword: string = ''; // Only needed to change the email
+  isSaving: boolean = false;
+  isResending: boolean = false;
+  errorMessage: string = '';
+  successMessage: string = '';
+  demoLink: string = ''; // Demo mode has no email, so verification links are shown here
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private authService: AuthService) {}
+
+  ngOnInit(): void {
+    this.authService.currentUser$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(user => {
+        // Fill the form once; later updates (e.g. after saving) shouldn't wipe edits
+        if (user && !this.user) {
+          this.resetForm(user);
+        }
+        this.user = user;
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get emailChanged(): boolean {
+    return !!this.user && this.email.trim().toLowerCase() !== this.user.email.toLowerCase();
+  }
+
+  saveProfile(): void {
+    this.errorMessage = '';
+    this.successMessage = '';
+    this.demoLink = '';
+
+    const firstNameValidation = ValidationUtil.validateName(this.firstName, 'First name');
+    if (!firstNameValidation.valid) {
+      this.errorMessage = firstNameValidation.message;
+      return;
+    }
+
+    const lastNameValidation = ValidationUtil.validateName(this.lastName, 'Last name');
+    if (!lastNameValidation.valid) {
+      this.errorMessage = lastNameValidation.message;
+      return;
+    }
+
+    if (!ValidationUtil.isValidEmail(this.email)) {
+      this.errorMessage = 'Please enter a valid email address';
+      return;
+    }
+
+    // Numbers without a country code are read as US numbers, as on the server
+    const phone = this.phone.trim() ? AddressFormatUtil.toE164(this.phone, AddressFormatUtil.DEFAULT_COUNTRY) : '';
+    if (phone === null) {
+      this.errorMessage = 'Please enter a valid phone number, with the country code for numbers outside the US';
+      return;
+    }
+
+    if (this.emailChanged && !this.currentPassword) {
+      this.errorMessage = 'Please enter your current password to change your email';
+      return;
+    }
+
+    const emailChanged = this.emailChanged;
+    this.isSaving = true;
+
+    this.authService.updateProfile({
+      firstName: firstNameValidation.sanitized,
+      lastName: lastNameValidation.sanitized,
+      email: this.email.trim(),
+      phone,
+      currentPassword: emailChanged ? this.currentPassword : undefined
+    })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (result) => {
+          this.isSaving = false;
+          if (result.success && result.user) {
+            this.resetForm(result.user);
+            this.successMessage = emailChanged
+              ? `Profile saved. We sent a link to ${result.user.email} to verify your new email address.`
+              : 'Profile saved';
+            this.demoLink = result.demoLink || '';
+          } else {
+            this.errorMessage = result.message;
+          }
+        },
+        error: (error) => {
+          console.error('Error updating profile:', error);
+          this.isSaving = false;
+          this.errorMessage = 'Failed to save your profile. Please try again.';
+        }
+      });
+  }
+
+  resendVerification(): void {
+    this.errorMessage = '';
+    this.successMessage = '';
+    this.demoLink = '';
+    this.isResending = true;
+
+    this.authService.resendVerificationEmail()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(result => {
+        this.isResending = false;
+        if (result.success) {
+          this.successMessage = result.message;
+          this.demoLink = result.demoLink || '';
+        } else {
+          this.errorMessage = result.message;
+        }
+      });
+  }
+
+  private resetForm(user: User): void {
+    this.firstName = user.firstName;
+    this.lastName = user.lastName;
+    this.email = user.email;
+    this.phone = user.phone || '';
+    this.currentPassword = '';
+  }
+}
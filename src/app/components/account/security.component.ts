@@ -0,0 +1,78 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AuthService } from '../../services/auth.service';
+import { ValidationUtil } from '../../utils/validation.util';
+import { PasswordStrengthComponent } from '../auth/password-strength.component';
+
+@Component({
+  selector: 'app-security',
+  standalone: true,
+  imports: [CommonModule, RouterModule, FormsModule, PasswordStrengthComponent],
+  templateUrl: './security.component.html',
+  styleUrls: ['./account.component.css']
+})
+export class SecurityComponent implements OnDestroy {
+  currentPassword: string = '';
+  newPassword: string = '';
+  confirmPassword: string = '';
+  isSaving: boolean = false;
+  errorMessage: string = '';
+  successMessage: string = '';
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private authService: AuthService) {}
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  changePassword(): void {
+    this.errorMessage = '';
+    this.successMessage = '';
+
+    if (!this.currentPassword || !this.newPassword) {
+      this.errorMessage = 'Please fill in all fields';
+      return;
+    }
+
+    if (this.newPassword !== this.confirmPassword) {
+      this.errorMessage = 'Passwords do not match';
+      return;
+    }
+
+    const passwordValidation = ValidationUtil.isStrongPassword(this.newPassword);
+    if (!passwordValidation.valid) {
+      this.errorMessage = passwordValidation.message;
+      return;
+    }
+
+    this.isSaving = true;
+
+    this.authService.changePassword(this.currentPassword, this.newPassword)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (result) => {
+          this.isSaving = false;
+          if (result.success) {
+            this.currentPassword = '';
+            this.newPassword = '';
+            this.confirmPassword = '';
+            this.successMessage = 'Your password has been changed';
+          } else {
+            this.errorMessage = result.message;
+          }
+        },
+        error: (error) => {
+          console.error('Error changing password:', error);
+          this.isSaving = false;
+          this.errorMessage = 'Failed to change your password. Please try again.';
+        }
+      });
+  }
+}
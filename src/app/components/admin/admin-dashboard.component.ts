@@ -0,0 +1,273 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AdminService } from '../../services/admin.service';
+import { ProductService } from '../../services/product.service';
+import { OrderService } from '../../services/order.service';
+import { AuthService } from '../../services/auth.service';
+import { User } from '../../models/user.model';
+import { Product } from '../../models/product.model';
+import { Order } from '../../models/order.model';
+import { ErrorUtil } from '../../utils/error.util';
+
+/**
+ * Admin Console
+ * User management, product moderation and order interventions
+ */
+@Component({
+  selector: 'app-admin-dashboard',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './admin-dashboard.component.html',
+  styleUrls: ['./admin-dashboard.component.css']
+})
+export class AdminDashboardComponent implements OnInit, OnDestroy {
+  activeTab: 'users' | 'products' | 'orders' = 'users';
+  currentUserId: string = '';
+  isDemoMode: boolean = false;
+
+  // Users
+  users: User[] = [];
+  userSearch: string = '';
+  userRoleFilter: '' | User['role'] = '';
+  readonly roles: User['role'][] = ['buyer', 'seller', 'admin'];
+
+  // Products
+  products: Product[] = [];
+  productSearch: string = '';
+
+  // Orders
+  orders: Order[] = [];
+  orderSearch: string = '';
+  orderStatusFilter: '' | Order['orderStatus'] = '';
+  readonly orderStatuses: Order['orderStatus'][] = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+  loading: boolean = false;
+  busyId: string | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private adminService: AdminService,
+    private productService: ProductService,
+    private orderService: OrderService,
+    private authService: AuthService
+  ) {}
+
+  ngOnInit(): void {
+    this.currentUserId = this.authService.getCurrentUser()?.id ?? '';
+
+    this.authService.demoMode$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(isDemo => this.isDemoMode = isDemo);
+
+    this.loadUsers();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  selectTab(tab: 'users' | 'products' | 'orders'): void {
+    this.activeTab = tab;
+    if (tab === 'users') {
+      this.loadUsers();
+    } else if (tab === 'products') {
+      this.loadProducts();
+    } else {
+      this.loadOrders();
+    }
+  }
+
+  // ---- Users ----
+
+  loadUsers(): void {
+    this.loading = true;
+    this.adminService.getUsers(this.userSearch.trim(), this.userRoleFilter || undefined)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (users) => {
+          this.users = users;
+          this.loading = false;
+        },
+        error: (error) => this.handleError('Failed to load users', error)
+      });
+  }
+
+  changeRole(user: User, select: HTMLSelectElement): void {
+    const role = select.value as User['role'];
+    if (role === user.role) {
+      return;
+    }
+
+    if (!confirm(`Change ${user.email} from ${user.role} to ${role}?`)) {
+      // Reset the select back to the saved role
+      select.value = user.role;
+      return;
+    }
+
+    this.busyId = user.id;
+    this.adminService.setUserRole(user.id, role).subscribe({
+      next: (updated) => this.replaceUser(updated),
+      error: (error) => this.handleError('Failed to change role', error)
+    });
+  }
+
+  toggleSuspended(user: User): void {
+    const suspend = user.isActive !== false;
+    if (!confirm(`${suspend ? 'Suspend' : 'Reactivate'} ${user.email}?`)) {
+      return;
+    }
+
+    this.busyId = user.id;
+    this.adminService.setUserActive(user.id, !suspend).subscribe({
+      next: (updated) => this.replaceUser(updated),
+      error: (error) => this.handleError('Failed to update account', error)
+    });
+  }
+
+  toggleTaxExempt(user: User): void {
+    this.busyId = user.id;
+    this.adminService.setTaxExempt(user.id, !user.taxExempt).subscribe({
+      next: (updated) => this.replaceUser(updated),
+      error: (error) => this.handleError('Failed to update tax exemption', error)
+    });
+  }
+
+  // ---- Products ----
+
+  loadProducts(): void {
+    this.loading = true;
+    this.productService.getAllProductsForAdmin(this.productSearch.trim())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (products) => {
+          this.products = products;
+          this.loading = false;
+        },
+        error: (error) => this.handleError('Failed to load products', error)
+      });
+  }
+
+  toggleVisibility(product: Product): void {
+    const hide = product.isActive !== false;
+    if (hide && !confirm(`Hide "${product.name}" from the store?`)) {
+      return;
+    }
+
+    this.busyId = product.id;
+    this.productService.setProductVisibility(product.id, !hide).subscribe({
+      next: (updated) => {
+        this.products = this.products.map(p => p.id === updated.id ? updated : p);
+        this.busyId = null;
+      },
+      error: (error) => this.handleError('Failed to update product', error)
+    });
+  }
+
+  // ---- Orders ----
+
+  loadOrders(): void {
+    this.loading = true;
+    this.orderService.getAllOrders()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (orders) => {
+          this.orders = orders;
+          this.loading = false;
+        },
+        error: (error) => this.handleError('Failed to load orders', error)
+      });
+  }
+
+  get filteredOrders(): Order[] {
+    const term = this.orderSearch.trim().toLowerCase();
+
+    return this.orders.filter(order => {
+      if (this.orderStatusFilter && order.orderStatus !== this.orderStatusFilter) {
+        return false;
+      }
+      if (!term) {
+        return true;
+      }
+      return [order.orderNumber, order.id, order.userEmail, order.userName]
+        .some(value => value?.toLowerCase().includes(term));
+    });
+  }
+
+  /**
+   * Orders shared between sellers are shipped by an admin (sellers only fulfil their own orders)
+   */
+  async markShipped(order: Order): Promise<void> {
+    const trackingNumber = prompt(`Mark order ${order.orderNumber || order.id} as shipped? Enter the tracking number:`, order.trackingNumber || '');
+    if (trackingNumber === null) {
+      return;
+    }
+    if (!trackingNumber.trim()) {
+      alert('Please enter a tracking number');
+      return;
+    }
+
+    await this.runOrderAction(order, () => this.updateOrderStatus(order, 'shipped', trackingNumber.trim()));
+  }
+
+  async markDelivered(order: Order): Promise<void> {
+    if (confirm(`Mark order ${order.orderNumber || order.id} as delivered?`)) {
+      await this.runOrderAction(order, () => this.updateOrderStatus(order, 'delivered'));
+    }
+  }
+
+  async forceCancel(order: Order): Promise<void> {
+    const reason = prompt(`Force-cancel order ${order.orderNumber || order.id}? Enter a reason:`);
+    if (reason === null) {
+      return;
+    }
+
+    await this.runOrderAction(order, () => this.orderService.forceCancelOrder(order.id, reason || undefined));
+  }
+
+  async refund(order: Order): Promise<void> {
+    const reason = prompt(`Refund $${order.total.toFixed(2)} for order ${order.orderNumber || order.id}? Enter a reason:`);
+    if (reason === null) {
+      return;
+    }
+
+    await this.runOrderAction(order, () => this.orderService.refundOrder(order.id, reason || undefined));
+  }
+
+  private async runOrderAction(order: Order, action: () => Promise<Order>): Promise<void> {
+    this.busyId = order.id;
+    try {
+      const updated = await action();
+      this.orders = this.orders.map(o => o.id === updated.id ? updated : o);
+    } catch (error) {
+      console.error('Admin order action failed:', error);
+      alert(ErrorUtil.message(error, 'Failed to update order. Please try again.'));
+    } finally {
+      this.busyId = null;
+    }
+  }
+
+  private async updateOrderStatus(order: Order, status: Order['orderStatus'], trackingNumber?: string): Promise<Order> {
+    const updated = await this.orderService.updateOrderStatus(order.id, status, { trackingNumber });
+    if (!updated) {
+      throw new Error('Order not found');
+    }
+    return updated;
+  }
+
+  private replaceUser(updated: User): void {
+    this.users = this.users.map(u => u.id === updated.id ? updated : u);
+    this.busyId = null;
+  }
+
+  private handleError(message: string, error: unknown): void {
+    console.error(`${message}:`, error);
+    this.loading = false;
+    this.busyId = null;
+    alert(ErrorUtil.message(error, `${message}. Please try again.`));
+  }
+}
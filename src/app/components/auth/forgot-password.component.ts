@@ -0,0 +1,53 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { FormsModule } from '@angular/forms';
+import { AuthService } from '../../services/auth.service';
+import { ValidationUtil } from '../../utils/validation.util';
+
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  imports: [CommonModule, RouterModule, FormsModule],
+  templateUrl: './forgot-password.component.html',
+  styleUrls: ['./auth.component.css']
+})
+export class ForgotPasswordComponent {
+  email: string = '';
+  isLoading: boolean = false;
+  errorMessage: string = '';
+  successMessage: string = '';
+  demoLink: string = ''; // Demo mode has no email, so the reset link is shown here
+
+  constructor(private authService: AuthService) {}
+
+  requestReset(): void {
+    this.errorMessage = '';
+    this.successMessage = '';
+    this.demoLink = '';
+
+    if (!ValidationUtil.isValidEmail(this.email)) {
+      this.errorMessage = 'Please enter a valid email address';
+      return;
+    }
+
+    this.isLoading = true;
+
+    this.authService.requestPasswordReset(this.email.trim()).subscribe({
+      next: (result) => {
+        this.isLoading = false;
+        if (result.success) {
+          this.successMessage = result.message;
+          this.demoLink = result.demoLink || '';
+        } else {
+          this.errorMessage = result.message;
+        }
+      },
+      error: (error) => {
+        this.isLoading = false;
+        this.errorMessage = 'An error occurred. Please try again.';
+        console.error('Password reset request error:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ValidationUtil } from '../../utils/validation.util';
+
+/**
+ * Password Strength Meter
+ * Shows how much of ValidationUtil.isStrongPassword a password meets, and the next requirement to fix.
+ */
+@Component({
+  selector: 'app-password-strength',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './password-strength.component.html',
+  styleUrls: ['./password-strength.component.css']
+})
+export class PasswordStrengthComponent {
+  @Input() password: string = '';
+
+  get strength(): number {
+    return ValidationUtil.passwordStrength(this.password);
+  }
+
+  get message(): string {
+    return ValidationUtil.isStrongPassword(this.password).message;
+  }
+
+  get level(): 'weak' | 'fair' | 'strong' {
+    if (this.strength === 1) {
+      return 'strong';
+    }
+    return this.strength >= 0.6 ? 'fair' : 'weak';
+  }
+}
@@ -4,11 +4,12 @@ import { Router, RouterModule } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { AuthService } from '../../services/auth.service';
 import { ValidationUtil } from '../../utils/validation.util';
+import { PasswordStrengthComponent } from './password-strength.component';
 
 @Component({
   selector: 'app-register',
   standalone: true,
-  imports: [CommonModule, RouterModule, FormsModule],
+  imports: [CommonModule, RouterModule, FormsModule, PasswordStrengthComponent],
   templateUrl: './register.component.html',
   styleUrls: ['./auth.component.css']
 })
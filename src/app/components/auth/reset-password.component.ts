@@ -0,0 +1,65 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { FormsModule } from '@angular/forms';
+import { AuthService } from '../../services/auth.service';
+import { ValidationUtil } from '../../utils/validation.util';
+import { PasswordStrengthComponent } from './password-strength.component';
+
+/**
+ * Landing page for password reset links (/auth/reset-password/:token)
+ */
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [CommonModule, RouterModule, FormsModule, PasswordStrengthComponent],
+  templateUrl: './reset-password.component.html',
+  styleUrls: ['./auth.component.css']
+})
+export class ResetPasswordComponent {
+  password: string = '';
+  confirmPassword: string = '';
+  isLoading: boolean = false;
+  errorMessage: string = '';
+
+  constructor(
+    private authService: AuthService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
+
+  resetPassword(): void {
+    this.errorMessage = '';
+
+    if (this.password !== this.confirmPassword) {
+      this.errorMessage = 'Passwords do not match';
+      return;
+    }
+
+    // Validate password strength
+    const passwordValidation = ValidationUtil.isStrongPassword(this.password);
+    if (!passwordValidation.valid) {
+      this.errorMessage = passwordValidation.message;
+      return;
+    }
+
+    const token = this.route.snapshot.paramMap.get('token') || '';
+    this.isLoading = true;
+
+    this.authService.resetPassword(token, this.password).subscribe({
+      next: (result) => {
+        this.isLoading = false;
+        if (result.success) {
+          this.router.navigate(['/']);
+        } else {
+          this.errorMessage = result.message;
+        }
+      },
+      error: (error) => {
+        this.isLoading = false;
+        this.errorMessage = 'An error occurred while resetting your password. Please try again.';
+        console.error('Password reset error:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { AuthService } from '../../services/auth.service';
+
+/**
+ * Landing page for email verification links (/auth/verify-email/:token)
+ */
+@Component({
+  selector: 'app-verify-email',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  templateUrl: './verify-email.component.html',
+  styleUrls: ['./auth.component.css']
+})
+export class VerifyEmailComponent implements OnInit {
+  isLoading: boolean = true;
+  verified: boolean = false;
+  message: string = '';
+
+  constructor(
+    private authService: AuthService,
+    private route: ActivatedRoute
+  ) {}
+
+  ngOnInit(): void {
+    const token = this.route.snapshot.paramMap.get('token') || '';
+
+    this.authService.verifyEmail(token).subscribe(result => {
+      this.isLoading = false;
+      this.verified = result.success;
+      this.message = result.message;
+    });
+  }
+
+  get isAuthenticated(): boolean {
+    return this.authService.isAuthenticated();
+  }
+}
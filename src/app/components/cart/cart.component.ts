@@ -5,17 +5,19 @@ import { FormsModule } from '@angular/forms';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { CartService } from '../../services/cart.service';
-import { Cart, CartItem } from '../../models/cart.model';
+import { Cart, CartChange, CartItem } from '../../models/cart.model';
+import { CouponCodeComponent } from './coupon-code.component';
 
 @Component({
   selector: 'app-cart',
   standalone: true,
-  imports: [CommonModule, RouterModule, FormsModule],
+  imports: [CommonModule, RouterModule, FormsModule, CouponCodeComponent],
   templateUrl: './cart.component.html',
   styleUrls: ['./cart.component.css']
 })
 export class CartComponent implements OnInit, OnDestroy {
   cart: Cart = { items: [], totalItems: 0, totalPrice: 0 };
+  changes: CartChange[] = [];
   private destroy$ = new Subject<void>();
 
   constructor(private cartService: CartService) {}
@@ -32,6 +34,17 @@ export class CartComponent implements OnInit, OnDestroy {
           alert('Failed to load cart. Please refresh the page.');
         }
       });
+
+    this.cartService.changes$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(changes => {
+        this.changes = changes;
+      });
+
+    // Prices and stock may have moved since the items were added
+    this.cartService.revalidate().catch(error => {
+      console.error('Error refreshing cart:', error);
+    });
   }
 
   ngOnDestroy(): void {
@@ -39,8 +52,8 @@ export class CartComponent implements OnInit, OnDestroy {
     this.destroy$.complete();
   }
 
-  updateQuantity(productId: string, quantity: number): void {
-    const result = this.cartService.updateQuantity(productId, quantity);
+  updateQuantity(item: CartItem, quantity: number): void {
+    const result = this.cartService.updateQuantity(item.product.id, quantity, item.variant?.id);
     if (!result.success) {
       alert(result.message);
       // Reload cart to reflect actual quantities
@@ -50,9 +63,13 @@ export class CartComponent implements OnInit, OnDestroy {
     }
   }
 
-  removeItem(productId: string): void {
+  dismissChanges(): void {
+    this.cartService.dismissChanges();
+  }
+
+  removeItem(item: CartItem): void {
     if (confirm('Are you sure you want to remove this item?')) {
-      this.cartService.removeFromCart(productId);
+      this.cartService.removeFromCart(item.product.id, item.variant?.id);
     }
   }
 
@@ -62,7 +79,19 @@ export class CartComponent implements OnInit, OnDestroy {
     }
   }
 
+  getUnitPrice(item: CartItem): number {
+    return this.cartService.getUnitPrice(item);
+  }
+
+  getAvailableStock(item: CartItem): number {
+    return this.cartService.getAvailableStock(item);
+  }
+
   getItemSubtotal(item: CartItem): number {
-    return item.product.price * item.quantity;
+    return this.getUnitPrice(item) * item.quantity;
+  }
+
+  getDiscount(): number {
+    return this.cart.discount?.discount ?? 0;
   }
 }
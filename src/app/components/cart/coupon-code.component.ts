@@ -0,0 +1,63 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { CartService } from '../../services/cart.service';
+import { Cart } from '../../models/cart.model';
+import { PromotionUtil } from '../../utils/promotion.util';
+
+/**
+ * Coupon Code
+ * Enter or remove the cart's coupon code (shown in the cart and at checkout)
+ */
+@Component({
+  selector: 'app-coupon-code',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './coupon-code.component.html',
+  styleUrls: ['./coupon-code.component.css']
+})
+export class CouponCodeComponent implements OnInit, OnDestroy {
+  cart: Cart | null = null;
+  code: string = '';
+  errorMessage: string = '';
+  isApplying: boolean = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private cartService: CartService) {}
+
+  ngOnInit(): void {
+    this.cartService.cart$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(cart => this.cart = cart);
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  async apply(): Promise<void> {
+    this.isApplying = true;
+    this.errorMessage = '';
+
+    const result = await this.cartService.applyCoupon(this.code);
+
+    this.isApplying = false;
+    if (result.success) {
+      this.code = '';
+    } else {
+      this.errorMessage = result.message;
+    }
+  }
+
+  remove(): void {
+    this.cartService.removeCoupon();
+  }
+
+  describe(): string {
+    return this.cart?.coupon ? PromotionUtil.describe(this.cart.coupon) : '';
+  }
+}
@@ -0,0 +1,53 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Address } from '../../models/user.model';
+import { AddressFormat, AddressFormatUtil } from '../../utils/address-format.util';
+
+export type AddressField = keyof Address;
+
+/**
+ * Address Form
+ * Address fields laid out for the selected country: a state/province list or
+ * free-text county, and the country's postal code label and example.
+ * Used at checkout and in the address book via [(address)].
+ */
+@Component({
+  selector: 'app-address-form',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './address-form.component.html',
+  styleUrls: ['./address-form.component.css']
+})
+export class AddressFormComponent {
+  @Input() address: Address = { street: '', city: '', state: '', zipCode: '', country: AddressFormatUtil.DEFAULT_COUNTRY };
+  @Input() showPhone: boolean = false;
+  @Output() addressChange = new EventEmitter<Address>();
+  // Emitted after addressChange, with the field that was edited
+  @Output() edited = new EventEmitter<AddressField>();
+
+  readonly formats = AddressFormatUtil.formats();
+
+  get format(): AddressFormat {
+    return AddressFormatUtil.findFormat(this.address.country) ?? this.formats[0];
+  }
+
+  /**
+   * Switching country keeps the region only if it is valid there
+   */
+  changeCountry(country: string): void {
+    const format = AddressFormatUtil.findFormat(country);
+    const keepRegion = !format?.regions || format.regions.some(r => r.code === this.address.state?.toUpperCase());
+    this.emit({ ...this.address, country, state: keepRegion ? this.address.state : '' }, 'country');
+  }
+
+  update(field: AddressField, value: string): void {
+    this.emit({ ...this.address, [field]: value }, field);
+  }
+
+  private emit(address: Address, field: AddressField): void {
+    this.address = address;
+    this.addressChange.emit(address);
+    this.edited.emit(field);
+  }
+}
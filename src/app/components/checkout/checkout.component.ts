@@ -1,21 +1,33 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Router, RouterModule } from '@angular/router';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
 import { FormsModule } from '@angular/forms';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { Subject, firstValueFrom, of } from 'rxjs';
+import { catchError, debounceTime, switchMap, takeUntil } from 'rxjs/operators';
+import { StripeElements, StripePaymentElement } from '@stripe/stripe-js';
 import { CartService } from '../../services/cart.service';
 import { AuthService } from '../../services/auth.service';
 import { PaymentService } from '../../services/payment.service';
 import { OrderService } from '../../services/order.service';
-import { Cart } from '../../models/cart.model';
-import { Address, User } from '../../models/user.model';
-import { ValidationUtil } from '../../utils/validation.util';
+import { ProductService } from '../../services/product.service';
+import { ShippingService } from '../../services/shipping.service';
+import { AddressBookService } from '../../services/address-book.service';
+import { Cart, CartChange, CartItem } from '../../models/cart.model';
+import { ProductVariant, StockLevel } from '../../models/product.model';
+import { Order } from '../../models/order.model';
+import { Address, SavedAddress, User } from '../../models/user.model';
+import { ShippingOption } from '../../models/shipping.model';
+import { AddressBookUtil } from '../../utils/address-book.util';
+import { VariantUtil } from '../../utils/variant.util';
+import { AddressFormatUtil } from '../../utils/address-format.util';
+import { ErrorUtil } from '../../utils/error.util';
+import { CouponCodeComponent } from '../cart/coupon-code.component';
+import { AddressField, AddressFormComponent } from './address-form.component';
 
 @Component({
   selector: 'app-checkout',
   standalone: true,
-  imports: [CommonModule, RouterModule, FormsModule],
+  imports: [CommonModule, RouterModule, FormsModule, CouponCodeComponent, AddressFormComponent],
   templateUrl: './checkout.component.html',
   styleUrls: ['./checkout.component.css']
 })
@@ -30,7 +42,7 @@ export class CheckoutComponent implements OnInit, OnDestroy {
     city: '',
     state: '',
     zipCode: '',
-    country: 'USA'
+    country: AddressFormatUtil.DEFAULT_COUNTRY
   };
 
   billingAddress: Address = {
@@ -38,20 +50,51 @@ export class CheckoutComponent implements OnInit, OnDestroy {
     city: '',
     state: '',
     zipCode: '',
-    country: 'USA'
+    country: AddressFormatUtil.DEFAULT_COUNTRY
   };
 
   sameAsShipping: boolean = true;
-  paymentMethod: 'stripe' | 'mock' = 'stripe';
+  paymentMethod: 'stripe' | 'card' | 'mock' = 'stripe';
+
+  // Address book: the picker shows the saved entry matching each form ('' = a new address)
+  savedAddresses: SavedAddress[] = [];
+  selectedShippingAddressId: string = '';
+  selectedBillingAddressId: string = '';
+  saveShippingAddress: boolean = false;
+  newAddressLabel: string = '';
+  private addressPrefilled: boolean = false;
+
+  // Shipping options are re-quoted when the address or cart changes
+  shippingOptions: ShippingOption[] = [];
+  selectedShipping: ShippingOption['service'] = 'standard';
+  loadingShipping: boolean = false;
+  private shippingQuote$ = new Subject<void>();
+
+  // In-page card entry (Stripe Payment Element)
+  private cardElements: StripeElements | null = null;
+  private paymentElement: StripePaymentElement | null = null;
+  cardFormReady: boolean = false;
+  cardError: string = '';
+
+  // Unpaid order holding the reserved stock while the card is charged
+  // A declined card releases it, so the next attempt places a new order; so does
+  // changing the cart, addresses, shipping or payment method before retrying
+  private pendingCardOrder: Order | null = null;
+  private pendingCardOrderKey: string = '';
 
   isProcessing: boolean = false;
   errorMessage: string = '';
+  cartChanges: CartChange[] = [];
+  isDemoMode: boolean = false;
 
   // Order totals
-  orderTotals = {
+  orderTotals: ReturnType<PaymentService['calculateOrderTotal']> = {
     subtotal: 0,
+    discount: 0,
     shipping: 0,
     tax: 0,
+    taxBreakdown: [],
+    taxExempt: false,
     total: 0
   };
 
@@ -60,10 +103,54 @@ export class CheckoutComponent implements OnInit, OnDestroy {
     private authService: AuthService,
     private paymentService: PaymentService,
     private orderService: OrderService,
-    private router: Router
+    private productService: ProductService,
+    private shippingService: ShippingService,
+    private addressBookService: AddressBookService,
+    private router: Router,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit(): void {
+    this.authService.demoMode$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(isDemo => {
+        this.isDemoMode = isDemo;
+        // Mock payments are only offered without a backend
+        if (!isDemo && this.paymentMethod === 'mock') {
+          this.paymentMethod = 'stripe';
+        }
+      });
+
+    // Stripe sends buyers back here when they abandon the hosted checkout
+    const cancelledOrderId = this.route.snapshot.queryParamMap.get('cancelled');
+    if (cancelledOrderId) {
+      this.releaseCancelledOrder(cancelledOrderId);
+    }
+
+    this.shippingQuote$
+      .pipe(
+        debounceTime(300),
+        switchMap(() => {
+          this.loadingShipping = true;
+          return this.shippingService.getOptions(this.shippingAddress, this.cart.items, this.discountedSubtotal()).pipe(
+            catchError(error => {
+              console.error('Error loading shipping options:', error);
+              return of([] as ShippingOption[]);
+            })
+          );
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(options => {
+        this.loadingShipping = false;
+        this.shippingOptions = options;
+        // Keep the buyer's choice where it is still offered
+        if (options.length > 0 && !options.some(o => o.service === this.selectedShipping)) {
+          this.selectedShipping = options[0].service;
+        }
+        this.calculateOrderTotals();
+      });
+
     this.cartService.cart$
       .pipe(takeUntil(this.destroy$))
       .subscribe({
@@ -73,6 +160,7 @@ export class CheckoutComponent implements OnInit, OnDestroy {
             this.router.navigate(['/cart']);
           } else {
             this.calculateOrderTotals();
+            this.shippingQuote$.next();
           }
         },
         error: (error) => {
@@ -81,41 +169,201 @@ export class CheckoutComponent implements OnInit, OnDestroy {
         }
       });
 
+    this.cartService.changes$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(changes => this.cartChanges = changes);
+
+    // Charge today's prices for what is actually in stock
+    this.cartService.revalidate().catch(error => {
+      console.error('Error refreshing cart:', error);
+    });
+
     this.authService.currentUser$
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: (user) => {
           this.currentUser = user;
           this.isAuthenticated = !!user;
+          this.prefillAddresses();
 
-          // Pre-fill address if user has one
-          if (user?.address) {
-            this.shippingAddress = { ...user.address };
-          }
+          // Tax depends on the address and on whether the buyer is tax-exempt
+          this.onShippingAddressChange();
         },
         error: (error) => {
           console.error('Error checking authentication:', error);
         }
       });
+
+    this.addressBookService.addresses$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(addresses => {
+        this.savedAddresses = addresses;
+        if (!this.addressPrefilled) {
+          this.prefillAddresses();
+          this.onShippingAddressChange();
+        }
+        this.syncAddressSelection();
+      });
   }
 
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
+    this.paymentElement?.destroy();
+
+    // Buyer left without completing card payment - release the reserved stock
+    this.discardPendingCardOrder();
+  }
+
+  dismissCartChanges(): void {
+    this.cartService.dismissChanges();
+  }
+
+  /**
+   * Mount the Payment Element when the card form is rendered
+   */
+  @ViewChild('paymentElementHost')
+  set paymentElementHost(host: ElementRef<HTMLElement> | undefined) {
+    if (host) {
+      this.mountPaymentElement(host.nativeElement);
+    }
   }
 
   toggleBillingAddress(): void {
     if (this.sameAsShipping) {
       this.billingAddress = { ...this.shippingAddress };
     }
+    this.syncAddressSelection();
+  }
+
+  /**
+   * Fill the form from a saved address, or clear it for a new one ('')
+   */
+  chooseShippingAddress(id: string): void {
+    const saved = this.savedAddresses.find(address => address.id === id);
+    this.shippingAddress = saved ? AddressBookUtil.toAddress(saved) : this.emptyAddress();
+    this.onShippingAddressChange();
+  }
+
+  chooseBillingAddress(id: string): void {
+    const saved = this.savedAddresses.find(address => address.id === id);
+    this.billingAddress = saved ? AddressBookUtil.toAddress(saved) : this.emptyAddress();
+    this.syncAddressSelection();
+  }
+
+  /**
+   * Point the pickers at the saved entries matching what is in the forms
+   */
+  syncAddressSelection(): void {
+    this.selectedShippingAddressId = AddressBookUtil.findMatch(this.savedAddresses, this.shippingAddress)?.id ?? '';
+    this.selectedBillingAddressId = AddressBookUtil.findMatch(this.savedAddresses, this.billingAddress)?.id ?? '';
+  }
+
+  /**
+   * Start from the default shipping and billing addresses, or the profile address
+   * Only done once, so later address book updates never overwrite what the buyer typed
+   */
+  private prefillAddresses(): void {
+    if (this.addressPrefilled) {
+      return;
+    }
+
+    const defaultShipping = AddressBookUtil.findDefault(this.savedAddresses, 'shipping');
+    const defaultBilling = AddressBookUtil.findDefault(this.savedAddresses, 'billing');
+
+    if (defaultShipping) {
+      this.shippingAddress = AddressBookUtil.toAddress(defaultShipping);
+      if (defaultBilling && defaultBilling.id !== defaultShipping.id) {
+        this.sameAsShipping = false;
+        this.billingAddress = AddressBookUtil.toAddress(defaultBilling);
+      }
+      this.addressPrefilled = true;
+    } else if (this.currentUser?.address) {
+      this.shippingAddress = { ...this.currentUser.address };
+    }
+
+    this.syncAddressSelection();
+  }
+
+  private emptyAddress(): Address {
+    return { street: '', city: '', state: '', zipCode: '', country: AddressFormatUtil.DEFAULT_COUNTRY };
+  }
+
+  /**
+   * Add the typed shipping address to the address book when the buyer asked to
+   * Saving is best-effort and never holds up the order.
+   */
+  private saveNewAddress(address: Address): void {
+    if (!this.saveShippingAddress || this.selectedShippingAddressId) {
+      return;
+    }
+
+    const label = this.newAddressLabel.trim() || (this.savedAddresses.length === 0 ? 'Home' : `Address ${this.savedAddresses.length + 1}`);
+    this.addressBookService.saveFromCheckout(address, label).subscribe({
+      error: (error) => console.warn('Could not save address:', error)
+    });
   }
 
+  private discountedSubtotal(): number {
+    return Math.max(this.cart.totalPrice - (this.cart.discount?.discount ?? 0), 0);
+  }
+
+  getUnitPrice(item: CartItem): number {
+    return this.cartService.getUnitPrice(item);
+  }
+
+  variantLabel(variant: ProductVariant): string {
+    return VariantUtil.label(variant);
+  }
+
+  /**
+   * Re-tax the order now and re-quote shipping for the new address
+   */
+  onShippingAddressChange(): void {
+    this.syncAddressSelection();
+    this.calculateOrderTotals();
+    this.shippingQuote$.next();
+  }
+
+  /**
+   * Only the country, region and postal code change prices and tax
+   */
+  onShippingAddressEdited(field: AddressField): void {
+    if (field === 'country' || field === 'state' || field === 'zipCode') {
+      this.onShippingAddressChange();
+    } else {
+      this.syncAddressSelection();
+    }
+  }
+
+  isDomestic(): boolean {
+    return AddressFormatUtil.countryCode(this.shippingAddress.country) === 'US';
+  }
+
+  selectShipping(service: ShippingOption['service']): void {
+    this.selectedShipping = service;
+    this.calculateOrderTotals();
+  }
+
+  /**
+   * Recalculate the summary; called whenever the cart, shipping option or shipping address changes
+   */
   calculateOrderTotals(): void {
-    this.orderTotals = this.paymentService.calculateOrderTotal(this.cart.totalPrice);
+    this.orderTotals = this.paymentService.calculateOrderTotal(
+      this.cart.totalPrice,
+      this.cart.discount?.discount ?? 0,
+      {
+        shipping: this.shippingOptions.find(o => o.service === this.selectedShipping),
+        address: this.shippingAddress,
+        taxExempt: this.currentUser?.taxExempt ?? false
+      }
+    );
+    this.cardElements?.update({ amount: this.paymentService.formatAmountForStripe(this.orderTotals.total) });
   }
 
-  placeOrder(): void {
+  async placeOrder(): Promise<void> {
     this.errorMessage = '';
+    this.cardError = '';
 
     if (!this.validateForm()) {
       return;
@@ -126,16 +374,43 @@ export class CheckoutComponent implements OnInit, OnDestroy {
       return;
     }
 
+    if (!this.orderTotals.shippingMethod) {
+      this.errorMessage = this.loadingShipping
+        ? 'Shipping options are still loading. Please wait a moment.'
+        : 'We cannot ship to this address. Please check it and try again.';
+      return;
+    }
+
+    if (this.paymentMethod === 'card' && !this.cardFormReady) {
+      this.errorMessage = 'The card form is still loading. Please wait a moment.';
+      return;
+    }
+
     this.isProcessing = true;
 
+    if (this.pendingCardOrder && this.checkoutKey() !== this.pendingCardOrderKey) {
+      await this.discardPendingCardOrder();
+    }
+
+    // The cart holds product snapshots - check the stock is still there before paying
+    // (a retried card payment already holds its stock)
+    if (!this.pendingCardOrder && !(await this.verifyStock())) {
+      this.isProcessing = false;
+      return;
+    }
+
+    // Stored form: country code, upper-case region and postal code, E.164 phone
+    const shippingAddress = AddressFormatUtil.normalize(this.shippingAddress);
+    this.saveNewAddress(shippingAddress);
+
     // Use billing address same as shipping if checkbox is selected
-    const finalBillingAddress = this.sameAsShipping ? this.shippingAddress : this.billingAddress;
+    const finalBillingAddress = this.sameAsShipping ? shippingAddress : AddressFormatUtil.normalize(this.billingAddress);
 
     // Create order
     const order = this.orderService.createOrder(
       this.currentUser,
       this.cart,
-      this.shippingAddress,
+      shippingAddress,
       finalBillingAddress,
       this.paymentMethod,
       this.orderTotals
@@ -143,55 +418,261 @@ export class CheckoutComponent implements OnInit, OnDestroy {
 
     if (this.paymentMethod === 'stripe') {
       this.processStripePayment(order);
+    } else if (this.paymentMethod === 'card') {
+      this.processCardPayment(order, this.checkoutKey());
     } else {
       this.processMockPayment(order);
     }
   }
 
-  private processStripePayment(order: any): void {
-    // In production, this would create a Stripe Checkout Session via backend API
-    const orderData = {
-      amount: this.paymentService.formatAmountForStripe(this.orderTotals.total),
-      currency: 'usd',
-      customerEmail: this.currentUser?.email || '',
-      orderItems: this.cart.items.map(item => ({
-        name: item.product.name,
-        quantity: item.quantity,
-        price: item.product.price
+  /**
+   * Pay with Stripe Checkout
+   * The order is stored unpaid first; it becomes paid only once the backend
+   * confirms the Checkout Session (webhook or return-page verification)
+   */
+  private async processStripePayment(order: Order): Promise<void> {
+    if (this.authService.isDemoMode()) {
+      this.isProcessing = false;
+      this.errorMessage = 'Stripe payments require the backend API. Please use Mock Payment in demo mode.';
+      return;
+    }
+
+    let savedOrder: Order;
+    try {
+      savedOrder = await this.orderService.saveOrder(order);
+    } catch (error) {
+      console.error('Error saving order:', error);
+      this.isProcessing = false;
+      this.errorMessage = ErrorUtil.message(error, 'Failed to save order. Please try again.');
+      return;
+    }
+
+    const session = await firstValueFrom(this.paymentService.createCheckoutSession({
+      orderId: savedOrder.id,
+      items: this.cart.items.map(item => ({
+        product: item.product.id,
+        variant: item.variant?.id,
+        quantity: item.quantity
       })),
-      shippingAddress: this.shippingAddress
-    };
-
-    // NOTE: In production, call backend API to create checkout session
-    console.warn('⚠️  Stripe Integration: Backend API required');
-    console.log('📦 Order data ready for Stripe:', orderData);
-    console.log('💰 Total amount (cents):', orderData.amount);
-
-    this.isProcessing = false;
-
-    // Show information about Stripe integration
-    alert(
-      `Stripe Payment Integration\n\n` +
-      `This demo requires a backend API to:\n` +
-      `1. Create Stripe Checkout Session\n` +
-      `2. Handle payment webhooks\n` +
-      `3. Confirm payment server-side\n\n` +
-      `Order Total: $${this.orderTotals.total.toFixed(2)}\n\n` +
-      `See PAYMENT_INTEGRATION.md for setup instructions.`
-    );
+      shippingAddress: savedOrder.shippingAddress,
+      billingAddress: savedOrder.billingAddress
+    }));
+
+    if (session.error || !session.sessionId) {
+      await this.orderService.cancelOrder(savedOrder.id);
+      this.isProcessing = false;
+      this.errorMessage = session.error || 'Failed to start payment. Please try again.';
+      return;
+    }
+
+    // Leaves the app - the cart is cleared on the success page once payment is confirmed
+    this.orderService.rememberCheckoutSession(savedOrder.id, session.sessionId);
+    const result = this.paymentService.redirectToCheckout(session.url);
+    if (result.error) {
+      await this.orderService.cancelOrder(savedOrder.id);
+      this.isProcessing = false;
+      this.errorMessage = result.error;
+    }
+  }
+
+  /**
+   * Create and mount the Payment Element into the card form container
+   */
+  private async mountPaymentElement(container: HTMLElement): Promise<void> {
+    if (this.authService.isDemoMode()) {
+      return;
+    }
 
-    // For demo, save order and redirect to mock success page
-    this.orderService.saveOrder(order).then(() => {
+    if (!this.cardElements) {
+      this.cardElements = await this.paymentService.createElements(this.orderTotals.total);
+      if (!this.cardElements) {
+        this.cardError = 'Card payments are unavailable right now. Please use Stripe Checkout.';
+        return;
+      }
+      this.paymentElement = this.cardElements.create('payment');
+      this.paymentElement.on('ready', () => this.cardFormReady = true);
+      this.paymentElement.on('change', () => this.cardError = '');
+    }
+
+    // The container is re-created whenever the card option is re-selected
+    this.paymentElement?.unmount();
+    this.paymentElement?.mount(container);
+  }
+
+  /**
+   * Pay by card without leaving the page
+   * The order is stored unpaid, charged through a Payment Intent for its stored
+   * total, then marked paid with the resulting transaction ID
+   */
+  private async processCardPayment(order: Order, checkoutKey: string): Promise<void> {
+    if (this.authService.isDemoMode() || !this.cardElements) {
+      this.isProcessing = false;
+      this.errorMessage = 'Card payments require the backend API. Please use Mock Payment in demo mode.';
+      return;
+    }
+
+    // Field-level validation; the Payment Element highlights invalid fields itself
+    const { error: submitError } = await this.cardElements.submit();
+    if (submitError) {
+      this.isProcessing = false;
+      this.cardError = submitError.message || 'Please check your card details';
+      return;
+    }
+
+    if (!this.pendingCardOrder) {
+      try {
+        this.pendingCardOrder = await this.orderService.saveOrder(order);
+        this.pendingCardOrderKey = checkoutKey;
+      } catch (error) {
+        console.error('Error saving order:', error);
+        this.isProcessing = false;
+        this.errorMessage = ErrorUtil.message(error, 'Failed to save order. Please try again.');
+        return;
+      }
+    }
+    const savedOrder = this.pendingCardOrder;
+
+    const intent = await firstValueFrom(this.paymentService.createPaymentIntent(savedOrder.id));
+    if (intent.error || !intent.clientSecret) {
+      this.isProcessing = false;
+      this.errorMessage = intent.error || 'Failed to start payment. Please try again.';
+      return;
+    }
+
+    // Show the amount the server will charge, which may differ from the estimate on the page
+    if (intent.amount) {
+      this.cardElements.update({ amount: intent.amount });
+    }
+
+    const result = await this.paymentService.confirmCardPayment(intent.clientSecret, this.cardElements);
+
+    // Stripe finishes the charge in the background - the webhook marks the order paid
+    if (result.processing) {
+      this.pendingCardOrder = null;
+      this.cartService.clearCart();
       this.router.navigate(['/order-success'], {
-        queryParams: { orderId: order.id, demo: 'true' }
+        queryParams: { orderId: savedOrder.id }
       });
-    }).catch((error) => {
-      console.error('Error saving order:', error);
-      this.errorMessage = 'Failed to save order. Please try again.';
+      return;
+    }
+
+    if (!result.success || !result.transactionId) {
+      this.isProcessing = false;
+
+      // Nothing was charged and the order still holds its stock, so the buyer can try again
+      if (!result.declined) {
+        this.cardError = result.error || 'Payment not completed. Please try again.';
+        return;
+      }
+
+      this.cardError = result.error || 'Payment failed. Please try another card.';
+      this.pendingCardOrder = null;
+      await this.orderService.updatePaymentStatus(savedOrder.id, 'failed').catch(error => {
+        console.warn('Could not record failed payment:', error);
+      });
+      return;
+    }
+
+    try {
+      const paidOrder = await this.orderService.updatePaymentStatus(savedOrder.id, 'paid', result.transactionId);
+      this.pendingCardOrder = null;
+      this.cartService.clearCart();
+      this.router.navigate(['/order-success'], {
+        queryParams: { orderId: paidOrder?.id ?? savedOrder.id }
+      });
+    } catch (error) {
+      // The card was charged - the webhook will still mark the order paid
+      console.error('Error confirming order payment:', error);
+      this.pendingCardOrder = null;
+      this.cartService.clearCart();
+      this.router.navigate(['/order-success'], {
+        queryParams: { orderId: savedOrder.id }
+      });
+    }
+  }
+
+  /**
+   * What the pending card order was placed for; a retry with anything else places a new order
+   */
+  private checkoutKey(): string {
+    return JSON.stringify({
+      items: this.cart.items.map(item => [item.product.id, item.variant?.id, item.quantity]),
+      coupon: this.cart.coupon?.code,
+      shippingAddress: this.shippingAddress,
+      billingAddress: this.sameAsShipping ? null : this.billingAddress,
+      shipping: this.selectedShipping,
+      paymentMethod: this.paymentMethod,
+      total: this.orderTotals.total
+    });
+  }
+
+  /**
+   * Cancel the unpaid card order, releasing its reserved stock
+   */
+  private async discardPendingCardOrder(): Promise<void> {
+    const order = this.pendingCardOrder;
+    if (!order) {
+      return;
+    }
+
+    this.pendingCardOrder = null;
+    await this.orderService.cancelOrder(order.id).catch(error => {
+      console.warn('Could not cancel unpaid order:', error);
+    });
+  }
+
+  /**
+   * Release the unpaid order left behind by an abandoned Stripe Checkout
+   * The server checks the order is still unpaid and was sent to the session started here
+   */
+  private async releaseCancelledOrder(orderId: string): Promise<void> {
+    this.errorMessage = 'Payment was cancelled. Your card has not been charged.';
+
+    const result = await this.orderService.abandonCheckout(orderId);
+    if (!result.success) {
+      console.warn('Could not release abandoned order:', result.message);
+    }
+  }
+
+  /**
+   * Compare the cart with live stock, explaining any shortfall in errorMessage
+   */
+  private async verifyStock(): Promise<boolean> {
+    let levels: StockLevel[];
+    try {
+      levels = await firstValueFrom(this.productService.getLiveStock(this.cart.items.map(item => item.product.id)));
+    } catch (error) {
+      // The order request checks stock again, so a failed lookup need not block checkout
+      console.warn('Could not check live stock:', error);
+      return true;
+    }
+
+    const shortfalls = this.cart.items.flatMap(item => {
+      const level = levels.find(l => l.productId === item.product.id);
+      const available = !level ? 0 : item.variant ? level.variants[item.variant.id] ?? 0 : level.stock;
+      if (available >= item.quantity) {
+        return [];
+      }
+
+      const name = item.variant ? `${item.product.name} (${this.variantLabel(item.variant)})` : item.product.name;
+      return [available > 0 ? `${name}: only ${available} left` : `${name}: sold out`];
     });
+
+    if (shortfalls.length > 0) {
+      this.errorMessage = `Some items are no longer available in the quantity you chose. ${shortfalls.join('; ')}. Please update your cart.`;
+      return false;
+    }
+
+    return true;
   }
 
-  private processMockPayment(order: any): void {
+  private processMockPayment(order: Order): void {
+    if (!this.authService.isDemoMode()) {
+      this.isProcessing = false;
+      this.errorMessage = 'Mock payments are only available in demo mode. Please choose another payment method.';
+      return;
+    }
+
     console.warn('⚠️  Using mock payment processing');
 
     this.paymentService.processMockPayment(order).subscribe({
@@ -206,17 +687,17 @@ export class CheckoutComponent implements OnInit, OnDestroy {
           order.paidAt = new Date();
 
           // Save order
-          this.orderService.saveOrder(order).then(() => {
+          this.orderService.saveOrder(order).then((savedOrder) => {
             // Clear cart
             this.cartService.clearCart();
 
-            // Navigate to success page
+            // Navigate to success page (API mode assigns its own order ID)
             this.router.navigate(['/order-success'], {
-              queryParams: { orderId: order.id }
+              queryParams: { orderId: savedOrder.id }
             });
           }).catch((error) => {
             console.error('Error saving order:', error);
-            this.errorMessage = 'Failed to save order. Please try again.';
+            this.errorMessage = error?.message || 'Failed to save order. Please try again.';
             this.isProcessing = false;
           });
         } else {
@@ -232,29 +713,18 @@ export class CheckoutComponent implements OnInit, OnDestroy {
   }
 
   validateForm(): boolean {
-    // Validate shipping address
-    if (!this.shippingAddress.street || !this.shippingAddress.city ||
-        !this.shippingAddress.state || !this.shippingAddress.zipCode) {
-      this.errorMessage = 'Please fill in all shipping address fields';
-      return false;
-    }
-
-    // Validate ZIP code format
-    if (!ValidationUtil.isValidZipCode(this.shippingAddress.zipCode)) {
-      this.errorMessage = 'Please enter a valid ZIP code';
+    // Validate shipping address against its country's rules
+    const shippingError = AddressFormatUtil.validate(this.shippingAddress);
+    if (shippingError) {
+      this.errorMessage = `Shipping address: ${shippingError}`;
       return false;
     }
 
     // Validate billing address if different from shipping
     if (!this.sameAsShipping) {
-      if (!this.billingAddress.street || !this.billingAddress.city ||
-          !this.billingAddress.state || !this.billingAddress.zipCode) {
-        this.errorMessage = 'Please fill in all billing address fields';
-        return false;
-      }
-
-      if (!ValidationUtil.isValidZipCode(this.billingAddress.zipCode)) {
-        this.errorMessage = 'Please enter a valid ZIP code for billing address';
+      const billingError = AddressFormatUtil.validate(this.billingAddress);
+      if (billingError) {
+        this.errorMessage = `Billing address: ${billingError}`;
         return false;
       }
     }
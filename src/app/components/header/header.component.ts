@@ -1,16 +1,19 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterModule } from '@angular/router';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { FormsModule } from '@angular/forms';
+import { Router, RouterModule } from '@angular/router';
+import { Subject, of } from 'rxjs';
+import { catchError, debounceTime, distinctUntilChanged, switchMap, takeUntil } from 'rxjs/operators';
 import { AuthService } from '../../services/auth.service';
 import { CartService } from '../../services/cart.service';
+import { ProductService } from '../../services/product.service';
 import { User } from '../../models/user.model';
+import { Product } from '../../models/product.model';
 
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [CommonModule, RouterModule],
+  imports: [CommonModule, FormsModule, RouterModule],
   templateUrl: './header.component.html',
   styleUrls: ['./header.component.css']
 })
@@ -18,11 +21,22 @@ export class HeaderComponent implements OnInit, OnDestroy {
   currentUser: User | null = null;
   cartItemCount: number = 0;
   isAuthenticated: boolean = false;
+
+  // Search typeahead
+  searchQuery: string = '';
+  suggestions: Product[] = [];
+  showSuggestions: boolean = false;
+  activeSuggestion: number = -1;
+  private searchTerms = new Subject<string>();
+  private readonly MIN_QUERY_LENGTH = 2;
+
   private destroy$ = new Subject<void>();
 
   constructor(
     private authService: AuthService,
-    private cartService: CartService
+    private cartService: CartService,
+    private productService: ProductService,
+    private router: Router
   ) {}
 
   ngOnInit(): void {
@@ -48,6 +62,25 @@ export class HeaderComponent implements OnInit, OnDestroy {
           console.error('Error loading cart count:', error);
         }
       });
+
+    this.searchTerms
+      .pipe(
+        debounceTime(200),
+        distinctUntilChanged(),
+        switchMap(term => term.length < this.MIN_QUERY_LENGTH
+          ? of([])
+          : this.productService.searchProducts(term).pipe(
+            catchError(error => {
+              console.error('Error loading search suggestions:', error);
+              return of([]);
+            })
+          )),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(products => {
+        this.suggestions = products;
+        this.activeSuggestion = -1;
+      });
   }
 
   ngOnDestroy(): void {
@@ -55,6 +88,56 @@ export class HeaderComponent implements OnInit, OnDestroy {
     this.destroy$.complete();
   }
 
+  onSearchInput(): void {
+    this.showSuggestions = true;
+    this.searchTerms.next(this.searchQuery.trim());
+  }
+
+  /**
+   * Arrow keys move through suggestions, Escape closes them
+   */
+  onSearchKeydown(event: KeyboardEvent): void {
+    if (!this.showSuggestions || this.suggestions.length === 0) {
+      return;
+    }
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.activeSuggestion = (this.activeSuggestion + 1) % this.suggestions.length;
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      this.activeSuggestion = this.activeSuggestion <= 0 ? this.suggestions.length - 1 : this.activeSuggestion - 1;
+    } else if (event.key === 'Escape') {
+      this.showSuggestions = false;
+    }
+  }
+
+  submitSearch(): void {
+    if (this.activeSuggestion >= 0 && this.suggestions[this.activeSuggestion]) {
+      this.openSuggestion(this.suggestions[this.activeSuggestion]);
+      return;
+    }
+
+    const query = this.searchQuery.trim();
+    if (!query) {
+      return;
+    }
+
+    this.showSuggestions = false;
+    this.router.navigate(['/products'], { queryParams: { q: query } });
+  }
+
+  openSuggestion(product: Product): void {
+    this.showSuggestions = false;
+    this.searchQuery = '';
+    this.searchTerms.next('');
+    this.router.navigate(['/products', product.id]);
+  }
+
+  hideSuggestions(): void {
+    this.showSuggestions = false;
+  }
+
   logout(): void {
     this.authService.logout();
   }
@@ -62,4 +145,8 @@ export class HeaderComponent implements OnInit, OnDestroy {
   isSeller(): boolean {
     return this.authService.isSeller();
   }
+
+  isAdmin(): boolean {
+    return this.authService.isAdmin();
+  }
 }
@@ -4,6 +4,8 @@ import { ActivatedRoute, Router, RouterModule } from '@angular/router';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { OrderService } from '../../services/order.service';
+import { PaymentService } from '../../services/payment.service';
+import { CartService } from '../../services/cart.service';
 import { Order } from '../../models/order.model';
 
 @Component({
@@ -18,13 +20,16 @@ export class OrderSuccessComponent implements OnInit, OnDestroy {
   orderId: string = '';
   isDemo: boolean = false;
   loading: boolean = true;
+  paymentError: string = '';
 
   private destroy$ = new Subject<void>();
 
   constructor(
     private route: ActivatedRoute,
     private router: Router,
-    private orderService: OrderService
+    private orderService: OrderService,
+    private paymentService: PaymentService,
+    private cartService: CartService
   ) {}
 
   ngOnInit(): void {
@@ -33,8 +38,11 @@ export class OrderSuccessComponent implements OnInit, OnDestroy {
       .subscribe(params => {
         this.orderId = params['orderId'];
         this.isDemo = params['demo'] === 'true';
+        const sessionId = params['session_id'];
 
-        if (this.orderId) {
+        if (this.orderId && sessionId) {
+          this.confirmCheckoutSession(sessionId, this.orderId);
+        } else if (this.orderId) {
           this.loadOrder(this.orderId);
         } else {
           this.loading = false;
@@ -62,12 +70,27 @@ export class OrderSuccessComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Returning from Stripe Checkout - confirm the session before showing the order
+   */
+  confirmCheckoutSession(sessionId: string, orderId: string): void {
+    this.paymentService.verifyCheckoutSession(sessionId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(result => {
+        if (result.paid) {
+          this.cartService.clearCart();
+        } else {
+          this.paymentError = result.error || 'Your payment is still being processed. Refresh this page in a moment to see the update.';
+        }
+        this.loadOrder(orderId);
+      });
+  }
+
   continueShopping(): void {
     this.router.navigate(['/']);
   }
 
   viewOrderHistory(): void {
-    // Navigate to order history page (to be implemented)
-    this.router.navigate(['/']);
+    this.router.navigate(['/account/orders']);
   }
 }
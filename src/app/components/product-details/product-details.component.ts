@@ -6,12 +6,22 @@ import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { ProductService } from '../../services/product.service';
 import { CartService } from '../../services/cart.service';
-import { Product } from '../../models/product.model';
+import { ReviewService, ReviewInput } from '../../services/review.service';
+import { Product, ProductVariant } from '../../models/product.model';
+import { ReviewEligibility, ReviewPage } from '../../models/review.model';
+import { VariantUtil } from '../../utils/variant.util';
+import { ProductGalleryComponent } from './product-gallery.component';
+
+/**
+ * Attributes a shopper picks between when a product has variants
+ */
+type VariantOption = 'length' | 'color' | 'laceSize';
+type VariantSelection = Partial<Pick<ProductVariant, VariantOption>>;
 
 @Component({
   selector: 'app-product-details',
   standalone: true,
-  imports: [CommonModule, RouterModule, FormsModule],
+  imports: [CommonModule, RouterModule, FormsModule, ProductGalleryComponent],
   templateUrl: './product-details.component.html',
   styleUrls: ['./product-details.component.css']
 })
@@ -20,19 +30,41 @@ export class ProductDetailsComponent implements OnInit, OnDestroy {
   quantity: number = 1;
   loading: boolean = true;
 
+  // Gallery, led by the chosen variant's image when it has one
+  galleryImages: string[] = [];
+
+  // Variants
+  selection: VariantSelection = {};
+  readonly variantOptionLabels: { option: VariantOption; label: string }[] = [
+    { option: 'length', label: 'Length' },
+    { option: 'color', label: 'Color' },
+    { option: 'laceSize', label: 'Lace Size' }
+  ];
+
+  // Reviews
+  reviewPage: ReviewPage | null = null;
+  reviewEligibility: ReviewEligibility | null = null;
+  reviewForm: ReviewInput = { rating: 0, title: '', comment: '' };
+  submittingReview: boolean = false;
+  readonly stars = [5, 4, 3, 2, 1];
+  private readonly REVIEWS_PER_PAGE = 5;
+
   private destroy$ = new Subject<void>();
 
   constructor(
     private route: ActivatedRoute,
     private router: Router,
     private productService: ProductService,
-    private cartService: CartService
+    private cartService: CartService,
+    private reviewService: ReviewService
   ) {}
 
   ngOnInit(): void {
     const id = this.route.snapshot.paramMap.get('id');
     if (id) {
       this.loadProduct(id);
+      this.loadReviews(id);
+      this.loadReviewEligibility(id);
     }
   }
 
@@ -47,6 +79,8 @@ export class ProductDetailsComponent implements OnInit, OnDestroy {
       .subscribe({
         next: (product) => {
           this.product = product;
+          this.resetSelection();
+          this.updateGallery();
           this.loading = false;
         },
         error: (error) => {
@@ -56,9 +90,154 @@ export class ProductDetailsComponent implements OnInit, OnDestroy {
       });
   }
 
+  loadReviews(productId: string, page: number = 1): void {
+    this.reviewService.getReviews(productId, page, this.REVIEWS_PER_PAGE)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (reviewPage) => this.reviewPage = reviewPage,
+        error: (error) => console.error('Error loading reviews:', error)
+      });
+  }
+
+  loadReviewEligibility(productId: string): void {
+    this.reviewService.getEligibility(productId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (eligibility) => this.reviewEligibility = eligibility,
+        error: (error) => console.error('Error checking review eligibility:', error)
+      });
+  }
+
+  goToReviewPage(page: number): void {
+    if (this.product && this.reviewPage && page >= 1 && page <= this.reviewPage.pages) {
+      this.loadReviews(this.product.id, page);
+    }
+  }
+
+  /**
+   * Share of reviews with the given star rating, as a percentage (for the breakdown bars)
+   */
+  starPercent(star: number): number {
+    const summary = this.reviewPage?.summary;
+    if (!summary || summary.total === 0) {
+      return 0;
+    }
+    return Math.round((summary.breakdown[star] / summary.total) * 100);
+  }
+
+  setReviewRating(rating: number): void {
+    this.reviewForm.rating = rating;
+  }
+
+  submitReview(): void {
+    if (!this.product) return;
+
+    if (this.reviewForm.rating < 1) {
+      alert('Please select a star rating.');
+      return;
+    }
+    if (!this.reviewForm.comment.trim()) {
+      alert('Please write a comment.');
+      return;
+    }
+
+    const productId = this.product.id;
+    this.submittingReview = true;
+
+    this.reviewService.createReview(productId, this.reviewForm).subscribe({
+      next: () => {
+        this.submittingReview = false;
+        this.reviewForm = { rating: 0, title: '', comment: '' };
+        this.reviewEligibility = { canReview: false, reason: 'You have already reviewed this product' };
+        // Refresh the recomputed rating and the first page of reviews
+        this.loadProduct(productId);
+        this.loadReviews(productId);
+        alert('Thank you for your review!');
+      },
+      error: (error) => {
+        console.error('Error posting review:', error);
+        this.submittingReview = false;
+        alert(error?.message || 'Failed to post review. Please try again.');
+      }
+    });
+  }
+
+  get hasVariants(): boolean {
+    return !!this.product && VariantUtil.hasVariants(this.product);
+  }
+
+  /**
+   * The variant matching every picked option, once the shopper has chosen one
+   */
+  get selectedVariant(): ProductVariant | undefined {
+    if (!this.product?.variants) {
+      return undefined;
+    }
+
+    const options = this.variantOptionLabels
+      .map(({ option }) => option)
+      .filter(option => this.optionValues(option).length > 0);
+
+    if (options.some(option => this.selection[option] === undefined)) {
+      return undefined;
+    }
+    return this.product.variants.find(variant => options.every(option => variant[option] === this.selection[option]));
+  }
+
+  get displayPrice(): number {
+    return this.selectedVariant?.price ?? this.product?.price ?? 0;
+  }
+
+  /**
+   * Stock of the chosen variant, or of the whole listing until one is chosen
+   */
+  get availableStock(): number {
+    return this.selectedVariant?.stock ?? this.product?.stock ?? 0;
+  }
+
+  /**
+   * Distinct values offered for an option, e.g. the lengths [14, 18, 22]
+   */
+  optionValues(option: VariantOption): (string | number)[] {
+    const values = (this.product?.variants ?? [])
+      .map(variant => variant[option])
+      .filter((value): value is string | number => value !== undefined && value !== '');
+
+    const unique = Array.from(new Set(values));
+    return option === 'length' ? unique.sort((a, b) => Number(a) - Number(b)) : unique;
+  }
+
+  /**
+   * Whether an in-stock variant has this value alongside the other options already picked
+   */
+  isOptionAvailable(option: VariantOption, value: string | number): boolean {
+    return (this.product?.variants ?? []).some(variant =>
+      variant.stock > 0 &&
+      variant[option] === value &&
+      this.variantOptionLabels.every(({ option: other }) =>
+        other === option || this.selection[other] === undefined || variant[other] === this.selection[other]
+      )
+    );
+  }
+
+  selectOption(option: VariantOption, value: string | number): void {
+    this.selection = { ...this.selection, [option]: value };
+
+    // Drop earlier picks that no variant combines with the new one
+    for (const { option: other } of this.variantOptionLabels) {
+      if (other !== option && this.selection[other] !== undefined &&
+          !this.isOptionAvailable(other, this.selection[other]!)) {
+        delete this.selection[other];
+      }
+    }
+
+    this.quantity = Math.max(1, Math.min(this.quantity, this.availableStock));
+    this.updateGallery();
+  }
+
   addToCart(): void {
-    if (this.product) {
-      const result = this.cartService.addToCart(this.product, this.quantity);
+    if (this.product && this.checkVariantChosen()) {
+      const result = this.cartService.addToCart(this.product, this.quantity, this.selectedVariant);
       if (result.success) {
         alert(`${this.quantity} x ${this.product.name} added to cart!`);
       } else {
@@ -68,8 +247,8 @@ export class ProductDetailsComponent implements OnInit, OnDestroy {
   }
 
   buyNow(): void {
-    if (this.product) {
-      const result = this.cartService.addToCart(this.product, this.quantity);
+    if (this.product && this.checkVariantChosen()) {
+      const result = this.cartService.addToCart(this.product, this.quantity, this.selectedVariant);
       if (result.success) {
         this.router.navigate(['/cart']);
       } else {
@@ -79,7 +258,7 @@ export class ProductDetailsComponent implements OnInit, OnDestroy {
   }
 
   incrementQuantity(): void {
-    if (this.product && this.quantity < this.product.stock) {
+    if (this.product && this.quantity < this.availableStock) {
       this.quantity++;
     }
   }
@@ -89,4 +268,37 @@ export class ProductDetailsComponent implements OnInit, OnDestroy {
       this.quantity--;
     }
   }
+
+  private checkVariantChosen(): boolean {
+    if (this.hasVariants && !this.selectedVariant) {
+      alert('Please choose your options first.');
+      return false;
+    }
+    return true;
+  }
+
+  private updateGallery(): void {
+    if (!this.product) {
+      return;
+    }
+
+    const images = this.product.images?.length ? this.product.images : [this.product.imageUrl];
+    const variantImage = this.selectedVariant?.imageUrl;
+    this.galleryImages = variantImage
+      ? [variantImage, ...images.filter(image => image !== variantImage)]
+      : images;
+  }
+
+  /**
+   * Pre-pick options that only have one value (e.g. a single color)
+   */
+  private resetSelection(): void {
+    this.selection = {};
+    for (const { option } of this.variantOptionLabels) {
+      const values = this.optionValues(option);
+      if (values.length === 1) {
+        this.selection = { ...this.selection, [option]: values[0] };
+      }
+    }
+  }
 }
@@ -0,0 +1,105 @@
+import { Component, Input, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+/**
+ * Product Gallery
+ * Main image with thumbnails. Swipe (touch) or arrow keys step through the
+ * images; clicking the main image toggles a zoom that follows the pointer.
+ */
+@Component({
+  selector: 'app-product-gallery',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './product-gallery.component.html',
+  styleUrls: ['./product-gallery.component.css']
+})
+export class ProductGalleryComponent implements OnChanges {
+  @Input() images: string[] = [];
+  @Input() alt: string = '';
+
+  activeIndex: number = 0;
+  zoomed: boolean = false;
+  zoomOrigin: string = '50% 50%';
+
+  // Minimum horizontal travel (px) for a touch to count as a swipe
+  private readonly SWIPE_THRESHOLD = 50;
+  private touchStart: { x: number; y: number } | null = null;
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const change = changes['images'];
+    // Start over only when the set of images really changed (e.g. a new variant was picked)
+    if (change && change.previousValue?.join() !== change.currentValue?.join()) {
+      this.activeIndex = 0;
+      this.zoomed = false;
+    }
+  }
+
+  get activeImage(): string {
+    return this.images[this.activeIndex] ?? '';
+  }
+
+  select(index: number): void {
+    this.activeIndex = index;
+    this.zoomed = false;
+  }
+
+  next(): void {
+    if (this.images.length > 1) {
+      this.select((this.activeIndex + 1) % this.images.length);
+    }
+  }
+
+  previous(): void {
+    if (this.images.length > 1) {
+      this.select((this.activeIndex - 1 + this.images.length) % this.images.length);
+    }
+  }
+
+  toggleZoom(event: MouseEvent): void {
+    this.zoomed = !this.zoomed;
+    if (this.zoomed) {
+      this.moveZoom(event);
+    }
+  }
+
+  /**
+   * Magnify around the pointer position
+   */
+  moveZoom(event: MouseEvent): void {
+    if (!this.zoomed) {
+      return;
+    }
+
+    const bounds = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((event.clientY - bounds.top) / bounds.height) * 100;
+    this.zoomOrigin = `${x}% ${y}%`;
+  }
+
+  onTouchStart(event: TouchEvent): void {
+    const touch = event.changedTouches[0];
+    this.touchStart = { x: touch.clientX, y: touch.clientY };
+  }
+
+  onTouchEnd(event: TouchEvent): void {
+    if (!this.touchStart || this.zoomed) {
+      this.touchStart = null;
+      return;
+    }
+
+    const touch = event.changedTouches[0];
+    const dx = touch.clientX - this.touchStart.x;
+    const dy = touch.clientY - this.touchStart.y;
+    this.touchStart = null;
+
+    // Ignore mostly-vertical movement so the page can still scroll
+    if (Math.abs(dx) < this.SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) {
+      return;
+    }
+    if (dx < 0) {
+      this.next();
+    } else {
+      this.previous();
+    }
+  }
+}
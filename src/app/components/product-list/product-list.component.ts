@@ -1,12 +1,13 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterModule } from '@angular/router';
+import { ActivatedRoute, ParamMap, Params, Router, RouterModule } from '@angular/router';
 import { FormsModule } from '@angular/forms';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { Subject, of } from 'rxjs';
+import { catchError, switchMap, takeUntil } from 'rxjs/operators';
 import { ProductService } from '../../services/product.service';
 import { CartService } from '../../services/cart.service';
-import { Product, ProductFilter } from '../../models/product.model';
+import { Product, ProductFilter, ProductSort } from '../../models/product.model';
+import { VariantUtil } from '../../utils/variant.util';
 
 @Component({
   selector: 'app-product-list',
@@ -17,22 +18,66 @@ import { Product, ProductFilter } from '../../models/product.model';
 })
 export class ProductListComponent implements OnInit, OnDestroy {
   products: Product[] = [];
-  filteredProducts: Product[] = [];
   filter: ProductFilter = {};
+  loading: boolean = true;
+
+  // Pagination
+  page: number = 1;
+  pages: number = 0;
+  total: number = 0;
+  readonly pageSize = 12;
+
   private destroy$ = new Subject<void>();
 
   categories = ['virgin-hair', 'remy-hair', 'synthetic', 'closure', 'frontal'];
   textures = ['straight', 'body-wave', 'deep-wave', 'curly', 'kinky'];
   origins = ['Brazilian', 'Peruvian', 'Malaysian', 'Indian'];
+  colors = ['Natural Black', 'Jet Black', 'Dark Brown', 'Honey Blonde', 'Blonde', 'Ombre'];
   lengths = [12, 14, 16, 18, 20, 22, 24, 26];
+  sortOptions: { value: ProductSort; label: string }[] = [
+    { value: 'newest', label: 'Newest' },
+    { value: 'price-asc', label: 'Price: Low to High' },
+    { value: 'price-desc', label: 'Price: High to Low' },
+    { value: 'rating', label: 'Top Rated' },
+    { value: 'most-reviewed', label: 'Most Reviewed' }
+  ];
+
+  // Filter fields mirrored into the URL, e.g. /products?q=wave&texture=curly&sort=price-asc&page=2
+  private readonly TEXT_PARAMS = ['q', 'category', 'texture', 'origin', 'color', 'sort'] as const;
+  private readonly NUMBER_PARAMS = ['length', 'minPrice', 'maxPrice'] as const;
 
   constructor(
+    private route: ActivatedRoute,
+    private router: Router,
     private productService: ProductService,
     private cartService: CartService
   ) {}
 
   ngOnInit(): void {
-    this.loadProducts();
+    // Filter, sort and page state live in the query string so result pages can be shared
+    this.route.queryParamMap
+      .pipe(
+        switchMap(params => {
+          this.readQueryParams(params);
+          this.loading = true;
+          return this.productService.getProductPage(this.filter, this.page, this.pageSize).pipe(
+            catchError(error => {
+              console.error('Error loading products:', error);
+              alert('Failed to load products. Please try again.');
+              return of(null);
+            })
+          );
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(result => {
+        this.loading = false;
+        if (result) {
+          this.products = result.products;
+          this.total = result.total;
+          this.pages = result.pages;
+        }
+      });
   }
 
   ngOnDestroy(): void {
@@ -40,38 +85,72 @@ export class ProductListComponent implements OnInit, OnDestroy {
     this.destroy$.complete();
   }
 
-  loadProducts(): void {
-    this.productService.getAllProducts()
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (products) => {
-          this.products = products;
-          this.filteredProducts = products;
-        },
-        error: (error) => {
-          console.error('Error loading products:', error);
-          alert('Failed to load products. Please try again.');
-        }
-      });
+  /**
+   * Push the current filter into the URL, starting again from the first page
+   */
+  applyFilter(): void {
+    this.navigate(this.toQueryParams(this.filter));
   }
 
-  applyFilter(): void {
-    this.productService.filterProducts(this.filter)
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (products) => {
-          this.filteredProducts = products;
-        },
-        error: (error) => {
-          console.error('Error filtering products:', error);
-          alert('Failed to filter products. Please try again.');
-        }
-      });
+  /**
+   * Selected sort; searches default to relevance ('') and browsing to newest
+   */
+  get sortValue(): ProductSort | '' {
+    return this.filter.sort ?? (this.filter.q ? '' : 'newest');
+  }
+
+  changeSort(value: ProductSort | ''): void {
+    // Leave the default out of the URL
+    const isDefault = value === '' || (value === 'newest' && !this.filter.q);
+    this.filter.sort = isDefault ? undefined : value;
+    this.applyFilter();
   }
 
   clearFilter(): void {
-    this.filter = {};
-    this.filteredProducts = this.products;
+    this.navigate({});
+  }
+
+  clearSearch(): void {
+    this.navigate(this.toQueryParams({ ...this.filter, q: undefined }));
+  }
+
+  goToPage(page: number): void {
+    if (page < 1 || page > this.pages || page === this.page) {
+      return;
+    }
+
+    this.navigate({ ...this.toQueryParams(this.filter), page: page > 1 ? page : null });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  get pageNumbers(): number[] {
+    return Array.from({ length: this.pages }, (_, i) => i + 1);
+  }
+
+  get firstShown(): number {
+    return this.total === 0 ? 0 : (this.page - 1) * this.pageSize + 1;
+  }
+
+  get lastShown(): number {
+    return Math.min(this.page * this.pageSize, this.total);
+  }
+
+  hasVariants(product: Product): boolean {
+    return VariantUtil.hasVariants(product);
+  }
+
+  /**
+   * Length badge; products with variants show their range, e.g. 14-22"
+   */
+  lengthLabel(product: Product): string {
+    const lengths = product.variants?.map(v => v.length) ?? [];
+    if (lengths.length === 0) {
+      return `${product.length}"`;
+    }
+
+    const min = Math.min(...lengths);
+    const max = Math.max(...lengths);
+    return min === max ? `${min}"` : `${min}-${max}"`;
   }
 
   addToCart(product: Product): void {
@@ -82,4 +161,44 @@ export class ProductListComponent implements OnInit, OnDestroy {
       alert(result.message);
     }
   }
+
+  private navigate(queryParams: Params): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams });
+  }
+
+  private readQueryParams(params: ParamMap): void {
+    const filter: ProductFilter = {};
+
+    for (const key of this.TEXT_PARAMS) {
+      const value = params.get(key)?.trim();
+      if (value) {
+        (filter as Record<string, string>)[key] = value;
+      }
+    }
+    for (const key of this.NUMBER_PARAMS) {
+      const value = params.get(key);
+      if (value && !isNaN(Number(value))) {
+        filter[key] = Number(value);
+      }
+    }
+    if (filter.sort && !this.sortOptions.some(option => option.value === filter.sort)) {
+      delete filter.sort;
+    }
+
+    this.filter = filter;
+    this.page = Math.max(1, parseInt(params.get('page') ?? '1', 10) || 1);
+  }
+
+  /**
+   * Drop empty fields so the URL only carries active filters
+   */
+  private toQueryParams(filter: ProductFilter): Params {
+    const params: Params = {};
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params[key] = value;
+      }
+    }
+    return params;
+  }
 }
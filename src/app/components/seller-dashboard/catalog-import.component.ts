@@ -0,0 +1,169 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable, from, of } from 'rxjs';
+import { catchError, concatMap, map, toArray } from 'rxjs/operators';
+import { ProductService } from '../../services/product.service';
+import { AuthService } from '../../services/auth.service';
+import { Product } from '../../models/product.model';
+import { CatalogFileUtil, CatalogImportPlan } from '../../utils/catalog-file.util';
+
+/**
+ * Catalog Import / Export
+ * Bulk edits a seller's products through CSV or XLSX files.
+ * Imports are validated and shown as a dry run (creates, updates, errors)
+ * before anything is saved.
+ */
+@Component({
+  selector: 'app-catalog-import',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './catalog-import.component.html',
+  styleUrls: ['./catalog-import.component.css']
+})
+export class CatalogImportComponent {
+  @Input() products: Product[] = [];
+  // False while the seller's catalog is loading or failed to load (a partial list would duplicate products on import)
+  @Input() complete: boolean = true;
+  @Output() imported = new EventEmitter<void>();
+
+  plan: CatalogImportPlan | null = null;
+  fileName: string = '';
+  reading: boolean = false;
+  applying: boolean = false;
+
+  // Written as numbers in XLSX exports so spreadsheets can sort and sum them
+  private readonly NUMERIC_COLUMNS = new Set(['length', 'price', 'stock']);
+
+  constructor(
+    private productService: ProductService,
+    private authService: AuthService
+  ) {}
+
+  get changeCount(): number {
+    return this.plan ? this.plan.creates.length + this.plan.updates.length : 0;
+  }
+
+  exportCsv(): void {
+    const csv = CatalogFileUtil.toCsv(CatalogFileUtil.toRows(this.products));
+    this.download(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${this.exportName()}.csv`);
+  }
+
+  async exportXlsx(): Promise<void> {
+    const rows = CatalogFileUtil.toRows(this.products).map((row, index) => index === 0
+      ? row
+      : row.map((cell, column) =>
+          this.NUMERIC_COLUMNS.has(CatalogFileUtil.COLUMNS[column]) && cell !== '' ? Number(cell) : cell
+        )
+    );
+
+    try {
+      // Loaded on demand to keep the spreadsheet writer out of the main bundle
+      const { default: writeXlsxFile } = await import('write-excel-file/browser');
+      await writeXlsxFile(rows).toFile(`${this.exportName()}.xlsx`);
+    } catch (error) {
+      console.error('Error exporting products:', error);
+      alert('Failed to export products. Please try again.');
+    }
+  }
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Allow choosing the same file again after fixing it
+    input.value = '';
+    if (!file || !this.complete) return;
+
+    this.fileName = file.name;
+    this.reading = true;
+    this.plan = null;
+
+    try {
+      const rows = await this.readRows(file);
+      this.plan = CatalogFileUtil.plan(rows, this.products);
+    } catch (error) {
+      console.error('Error reading catalog file:', error);
+      alert('Could not read that file. Please upload a CSV or XLSX file exported from the dashboard.');
+    } finally {
+      this.reading = false;
+    }
+  }
+
+  /**
+   * Save the valid rows of the dry run; rows with errors are skipped
+   */
+  applyImport(): void {
+    const user = this.authService.getCurrentUser();
+    if (!this.plan || !user || this.changeCount === 0) return;
+
+    const operations: { row: number; save: () => Observable<unknown> }[] = [
+      ...this.plan.creates.map(({ row, values }) => ({
+        row,
+        save: () => this.productService.addProduct({
+          ...values,
+          id: `prod_${Date.now()}_${row}`,
+          imageUrl: values.images[0],
+          sellerId: user.id,
+          rating: 0,
+          reviews: 0,
+          createdAt: new Date()
+        })
+      })),
+      ...this.plan.updates.map(({ row, product, values }) => ({
+        row,
+        save: () => this.productService.updateProduct(product.id, values)
+      }))
+    ];
+
+    this.applying = true;
+
+    // One request at a time, collecting failures instead of stopping at the first
+    from(operations).pipe(
+      concatMap(({ row, save }) => save().pipe(
+        map(() => null),
+        catchError(error => of(`Row ${row}: ${error?.message || 'failed to save'}`))
+      )),
+      toArray()
+    ).subscribe(results => {
+      const failures = results.filter((result): result is string => result !== null);
+      this.applying = false;
+      this.plan = null;
+      this.imported.emit();
+
+      if (failures.length > 0) {
+        alert(`Imported ${operations.length - failures.length} of ${operations.length} products.\n\n${failures.join('\n')}`);
+      } else {
+        alert(`Imported ${operations.length} products successfully!`);
+      }
+    });
+  }
+
+  cancelImport(): void {
+    this.plan = null;
+  }
+
+  private async readRows(file: File): Promise<string[][]> {
+    if (!file.name.toLowerCase().endsWith('.xlsx')) {
+      return CatalogFileUtil.parseCsv(await file.text());
+    }
+
+    const { readSheet } = await import('read-excel-file/browser');
+    const sheet = await readSheet(file);
+    return sheet.map(row => row.map(cell => {
+      if (cell === null || cell === undefined) return '';
+      return cell instanceof Date ? cell.toISOString() : String(cell);
+    }));
+  }
+
+  private exportName(): string {
+    return `products-${new Date().toISOString().slice(0, 10)}`;
+  }
+
+  private download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
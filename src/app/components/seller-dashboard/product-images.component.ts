@@ -0,0 +1,192 @@
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, Subscription } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { UploadService } from '../../services/upload.service';
+import { ValidationUtil } from '../../utils/validation.util';
+
+/**
+ * A photo being processed or uploaded (or waiting for a retry)
+ */
+interface PendingUpload {
+  id: string;
+  file: File;
+  state: 'processing' | 'uploading' | 'failed';
+  progress: number;
+  error?: string;
+  subscription?: Subscription;
+}
+
+/**
+ * Product Images
+ * Manages a product's gallery in the seller forms via [(images)].
+ * Order is display order; the first image is the primary image used in listings.
+ * Photos can be dropped or picked from disk (uploaded via UploadService) or added by URL.
+ */
+@Component({
+  selector: 'app-product-images',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './product-images.component.html',
+  styleUrls: ['./product-images.component.css']
+})
+export class ProductImagesComponent implements OnDestroy {
+  @Input() images: string[] = [];
+  @Output() imagesChange = new EventEmitter<string[]>();
+
+  // Matches the backend limit on Product.images
+  readonly maxImages = 10;
+  newImageUrl: string = '';
+  uploads: PendingUpload[] = [];
+  dragging: boolean = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private uploadService: UploadService) {}
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Images in the gallery plus uploads still in flight count against the limit
+   */
+  get remainingSlots(): number {
+    return this.maxImages - this.images.length - this.uploads.filter(u => u.state !== 'failed').length;
+  }
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.dragging = true;
+  }
+
+  onDragLeave(event: DragEvent): void {
+    event.preventDefault();
+    this.dragging = false;
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.dragging = false;
+    this.queueFiles(Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.queueFiles(Array.from(input.files ?? []));
+    // Allow picking the same file again after removing it
+    input.value = '';
+  }
+
+  retryUpload(upload: PendingUpload): void {
+    if (this.remainingSlots <= 0) {
+      alert(`A product can have at most ${this.maxImages} images.`);
+      return;
+    }
+    this.startUpload(upload);
+  }
+
+  dismissUpload(upload: PendingUpload): void {
+    upload.subscription?.unsubscribe();
+    this.uploads = this.uploads.filter(u => u.id !== upload.id);
+  }
+
+  addImage(): void {
+    const url = this.newImageUrl.trim();
+
+    if (!ValidationUtil.isValidUrl(url)) {
+      alert('Please enter a valid image URL.');
+      return;
+    }
+    if (this.images.includes(url)) {
+      alert('That image is already in the gallery.');
+      return;
+    }
+    if (this.remainingSlots <= 0) {
+      alert(`A product can have at most ${this.maxImages} images.`);
+      return;
+    }
+
+    this.newImageUrl = '';
+    this.emit([...this.images, url]);
+  }
+
+  removeImage(index: number): void {
+    this.emit(this.images.filter((_, i) => i !== index));
+  }
+
+  /**
+   * Move an image one place earlier (-1) or later (+1)
+   */
+  moveImage(index: number, offset: -1 | 1): void {
+    const target = index + offset;
+    if (target < 0 || target >= this.images.length) {
+      return;
+    }
+
+    const images = [...this.images];
+    [images[index], images[target]] = [images[target], images[index]];
+    this.emit(images);
+  }
+
+  makePrimary(index: number): void {
+    const images = [...this.images];
+    const [primary] = images.splice(index, 1);
+    this.emit([primary, ...images]);
+  }
+
+  private queueFiles(files: File[]): void {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length < files.length) {
+      alert('Only image files can be uploaded.');
+    }
+
+    const accepted = images.slice(0, Math.max(0, this.remainingSlots));
+    if (accepted.length < images.length) {
+      alert(`A product can have at most ${this.maxImages} images.`);
+    }
+
+    for (const file of accepted) {
+      const upload: PendingUpload = {
+        id: ValidationUtil.generateSecureId('UPL'),
+        file,
+        state: 'processing',
+        progress: 0
+      };
+      this.uploads = [...this.uploads, upload];
+      this.startUpload(upload);
+    }
+  }
+
+  private startUpload(upload: PendingUpload): void {
+    upload.state = 'processing';
+    upload.progress = 0;
+    upload.error = undefined;
+
+    upload.subscription = this.uploadService.uploadImage(upload.file)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (progress) => {
+          if (progress.state === 'done' && progress.url) {
+            this.uploads = this.uploads.filter(u => u.id !== upload.id);
+            this.emit([...this.images, progress.url]);
+          } else if (progress.state !== 'done') {
+            upload.state = progress.state;
+            upload.progress = progress.progress;
+          }
+        },
+        error: (error) => {
+          console.error('Error uploading image:', error);
+          upload.state = 'failed';
+          upload.error = error?.message || 'Upload failed';
+        }
+      });
+  }
+
+  private emit(images: string[]): void {
+    this.images = images;
+    this.imagesChange.emit(images);
+  }
+}
@@ -0,0 +1,172 @@
+import { Component, Input, OnChanges, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { OrderService } from '../../services/order.service';
+import { Order } from '../../models/order.model';
+import { Product } from '../../models/product.model';
+import { AnalyticsUtil, DateRange, SalesShare, SalesSummary } from '../../utils/analytics.util';
+import { CatalogFileUtil } from '../../utils/catalog-file.util';
+
+type CsvExport = 'revenue' | 'products' | 'orders';
+
+/**
+ * Seller Analytics
+ * Revenue, units and order metrics for the seller's products over a
+ * selectable date range, with CSV exports for spreadsheets
+ */
+@Component({
+  selector: 'app-seller-analytics',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './seller-analytics.component.html',
+  styleUrls: ['./seller-analytics.component.css']
+})
+export class SellerAnalyticsComponent implements OnChanges, OnDestroy {
+  @Input() products: Product[] = [];
+
+  orders: Order[] = [];
+  summary: SalesSummary | null = null;
+  loading: boolean = false;
+
+  // yyyy-mm-dd values bound to the date inputs
+  fromDate: string = '';
+  toDate: string = '';
+  activePreset: number | null = null;
+  readonly presets = [
+    { days: 7, label: '7 days' },
+    { days: 30, label: '30 days' },
+    { days: 90, label: '90 days' },
+    { days: 365, label: '12 months' }
+  ];
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private orderService: OrderService) {
+    this.selectPreset(30);
+  }
+
+  ngOnChanges(): void {
+    this.loadOrders();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  loadOrders(): void {
+    if (this.products.length === 0) {
+      this.orders = [];
+      this.refresh();
+      return;
+    }
+
+    this.loading = true;
+    this.orderService.getOrdersForProducts(this.products.map(p => p.id))
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (orders) => {
+          this.orders = orders;
+          this.loading = false;
+          this.refresh();
+        },
+        error: (error) => {
+          console.error('Error loading seller orders:', error);
+          this.loading = false;
+          alert(error?.message || 'Failed to load sales data. Please try again.');
+        }
+      });
+  }
+
+  /**
+   * Range ending today, e.g. the last 30 days including today
+   */
+  selectPreset(days: number): void {
+    const today = new Date();
+    this.toDate = this.toInputDate(today);
+    this.fromDate = this.toInputDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - days + 1));
+    this.activePreset = days;
+    this.refresh();
+  }
+
+  /**
+   * Dates typed in by hand no longer match a preset
+   */
+  changeRange(): void {
+    this.activePreset = null;
+    this.refresh();
+  }
+
+  /**
+   * Recompute the summary for the selected range
+   */
+  refresh(): void {
+    const range = this.range;
+    this.summary = range ? AnalyticsUtil.summarize(this.orders, this.products, range) : null;
+  }
+
+  get range(): DateRange | null {
+    const from = this.fromInputDate(this.fromDate);
+    const to = this.fromInputDate(this.toDate);
+    return from && to && from <= to ? { from, to } : null;
+  }
+
+  /**
+   * Bar height or width as a share of the largest value, in percent
+   */
+  barSize(value: number, values: number[]): number {
+    const max = Math.max(...values, 0);
+    return max > 0 ? (value / max) * 100 : 0;
+  }
+
+  revenueValues(summary: SalesSummary): number[] {
+    return summary.revenueSeries.map(bucket => bucket.revenue);
+  }
+
+  unitValues(summary: SalesSummary): number[] {
+    return summary.products.map(sales => sales.units);
+  }
+
+  shareValues(shares: SalesShare[]): number[] {
+    return shares.map(share => share.revenue);
+  }
+
+  exportCsv(kind: CsvExport): void {
+    const range = this.range;
+    if (!this.summary || !range) return;
+
+    const rows = kind === 'revenue'
+      ? AnalyticsUtil.revenueRows(this.summary)
+      : kind === 'products'
+        ? AnalyticsUtil.productRows(this.summary)
+        : AnalyticsUtil.orderLineRows(this.orders, this.products, range);
+
+    const csv = CatalogFileUtil.toCsv(rows);
+    this.download(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `sales-${kind}-${this.fromDate}-to-${this.toDate}.csv`);
+  }
+
+  private toInputDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Date inputs give yyyy-mm-dd; parse as a local date rather than UTC midnight
+   */
+  private fromInputDate(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+  }
+
+  private download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -4,17 +4,28 @@ import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { ProductService } from '../../services/product.service';
 import { AuthService } from '../../services/auth.service';
-import { Product } from '../../models/product.model';
+import { Product, ProductVariant } from '../../models/product.model';
+import { VariantUtil } from '../../utils/variant.util';
+import { SellerFulfillmentComponent } from './seller-fulfillment.component';
+import { VariantGridComponent } from './variant-grid.component';
+import { ProductImagesComponent } from './product-images.component';
+import { CatalogImportComponent } from './catalog-import.component';
+import { SellerAnalyticsComponent } from './seller-analytics.component';
 
 @Component({
   selector: 'app-seller-dashboard',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, SellerFulfillmentComponent, VariantGridComponent, ProductImagesComponent, CatalogImportComponent, SellerAnalyticsComponent],
   templateUrl: './seller-dashboard.component.html',
   styleUrls: ['./seller-dashboard.component.css']
 })
 export class SellerDashboardComponent implements OnInit {
   products: Product[] = [];
+  productIds: string[] = [];
+  // Only true once the whole catalog has loaded; imports and analytics rely on it being complete
+  productsLoaded: boolean = false;
+  productsLoadFailed: boolean = false;
+  activeTab: 'products' | 'orders' | 'analytics' = 'products';
   showAddForm: boolean = false;
   editingProduct: Product | null = null;
 
@@ -28,7 +39,9 @@ export class SellerDashboardComponent implements OnInit {
     color: 'Natural Black',
     origin: 'Brazilian',
     stock: 0,
-    imageUrl: 'https://via.placeholder.com/300x400?text=Hair+Bundle',
+    imageUrl: '',
+    images: [],
+    variants: [],
     rating: 0,
     reviews: 0
   };
@@ -56,11 +69,30 @@ export class SellerDashboardComponent implements OnInit {
   }
 
   loadSellerProducts(sellerId: string): void {
-    this.productService.getProductsBySeller(sellerId).subscribe(products => {
-      this.products = products;
+    this.productsLoaded = false;
+    this.productsLoadFailed = false;
+
+    this.productService.getProductsBySeller(sellerId).subscribe({
+      next: (products) => {
+        this.products = products;
+        this.productIds = products.map(p => p.id);
+        this.productsLoaded = true;
+      },
+      error: (error) => {
+        console.error('Error loading seller products:', error);
+        this.productsLoadFailed = true;
+        alert('Failed to load your products. Please try again.');
+      }
     });
   }
 
+  reloadProducts(): void {
+    const user = this.authService.getCurrentUser();
+    if (user) {
+      this.loadSellerProducts(user.id);
+    }
+  }
+
   toggleAddForm(): void {
     this.showAddForm = !this.showAddForm;
     if (!this.showAddForm) {
@@ -70,7 +102,12 @@ export class SellerDashboardComponent implements OnInit {
 
   addProduct(): void {
     const user = this.authService.getCurrentUser();
-    if (!user) return;
+    if (!user || !this.checkVariants(this.newProduct.variants)) return;
+
+    if (!this.newProduct.images?.length) {
+      alert('Please add at least one product image.');
+      return;
+    }
 
     const product: Product = {
       id: 'prod_' + Date.now(),
@@ -83,49 +120,100 @@ export class SellerDashboardComponent implements OnInit {
       color: this.newProduct.color || 'Natural Black',
       origin: this.newProduct.origin || 'Brazilian',
       stock: this.newProduct.stock || 0,
-      imageUrl: this.newProduct.imageUrl || 'https://via.placeholder.com/300x400?text=Hair+Bundle',
+      imageUrl: this.newProduct.images[0],
+      images: this.newProduct.images,
+      variants: this.newProduct.variants?.length ? this.newProduct.variants : undefined,
       sellerId: user.id,
       rating: 0,
       reviews: 0,
       createdAt: new Date()
     };
 
-    this.productService.addProduct(product).subscribe(() => {
-      this.loadSellerProducts(user.id);
-      this.toggleAddForm();
-      alert('Product added successfully!');
+    this.productService.addProduct(product).subscribe({
+      next: () => {
+        this.loadSellerProducts(user.id);
+        this.toggleAddForm();
+        alert('Product added successfully!');
+      },
+      error: (error) => {
+        console.error('Error adding product:', error);
+        alert(error?.message || 'Failed to add product. Please try again.');
+      }
     });
   }
 
   editProduct(product: Product): void {
-    this.editingProduct = { ...product };
+    this.editingProduct = {
+      ...product,
+      images: product.images?.length ? [...product.images] : [product.imageUrl]
+    };
   }
 
   saveProduct(): void {
-    if (!this.editingProduct) return;
+    if (!this.editingProduct || !this.checkVariants(this.editingProduct.variants)) return;
 
-    this.productService.updateProduct(this.editingProduct.id, this.editingProduct).subscribe(() => {
-      const user = this.authService.getCurrentUser();
-      if (user) {
-        this.loadSellerProducts(user.id);
+    if (!this.editingProduct.images?.length) {
+      alert('Please keep at least one product image.');
+      return;
+    }
+
+    // Rating and review count are recomputed from reviews, never edited
+    const { rating, reviews, ...changes } = this.editingProduct;
+
+    this.productService.updateProduct(this.editingProduct.id, changes).subscribe({
+      next: () => {
+        const user = this.authService.getCurrentUser();
+        if (user) {
+          this.loadSellerProducts(user.id);
+        }
+        this.editingProduct = null;
+        alert('Product updated successfully!');
+      },
+      error: (error) => {
+        console.error('Error updating product:', error);
+        alert(error?.message || 'Failed to update product. Please try again.');
       }
-      this.editingProduct = null;
-      alert('Product updated successfully!');
     });
   }
 
+  /**
+   * The first gallery image is the product's primary image
+   */
+  setImages(product: Partial<Product>, images: string[]): void {
+    product.images = images;
+    if (images.length > 0) {
+      product.imageUrl = images[0];
+    }
+  }
+
+  /**
+   * Keep the listing's price and stock fields showing the variant summary
+   */
+  setVariants(product: Partial<Product>, variants: ProductVariant[]): void {
+    product.variants = variants;
+    if (variants.length > 0) {
+      Object.assign(product, VariantUtil.summarize(variants));
+    }
+  }
+
   cancelEdit(): void {
     this.editingProduct = null;
   }
 
   deleteProduct(id: string): void {
     if (confirm('Are you sure you want to delete this product?')) {
-      this.productService.deleteProduct(id).subscribe(() => {
-        const user = this.authService.getCurrentUser();
-        if (user) {
-          this.loadSellerProducts(user.id);
+      this.productService.deleteProduct(id).subscribe({
+        next: () => {
+          const user = this.authService.getCurrentUser();
+          if (user) {
+            this.loadSellerProducts(user.id);
+          }
+          alert('Product deleted successfully!');
+        },
+        error: (error) => {
+          console.error('Error deleting product:', error);
+          alert(error?.message || 'Failed to delete product. Please try again.');
         }
-        alert('Product deleted successfully!');
       });
     }
   }
@@ -141,9 +229,19 @@ export class SellerDashboardComponent implements OnInit {
       color: 'Natural Black',
       origin: 'Brazilian',
       stock: 0,
-      imageUrl: 'https://via.placeholder.com/300x400?text=Hair+Bundle',
+      imageUrl: '',
+      images: [],
+      variants: [],
       rating: 0,
       reviews: 0
     };
   }
+
+  private checkVariants(variants: ProductVariant[] | undefined): boolean {
+    const result = VariantUtil.validate(variants ?? []);
+    if (!result.valid) {
+      alert(result.message);
+    }
+    return result.valid;
+  }
 }
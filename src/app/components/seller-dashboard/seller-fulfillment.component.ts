@@ -0,0 +1,169 @@
+import { Component, Input, OnChanges, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { OrderService } from '../../services/order.service';
+import { Order, OrderItem } from '../../models/order.model';
+import { ErrorUtil } from '../../utils/error.util';
+
+type StatusFilter = 'all' | Order['orderStatus'];
+
+/**
+ * Seller Fulfillment
+ * Lists orders containing the seller's products and moves them
+ * through processing -> shipped -> delivered
+ */
+@Component({
+  selector: 'app-seller-fulfillment',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './seller-fulfillment.component.html',
+  styleUrls: ['./seller-fulfillment.component.css']
+})
+export class SellerFulfillmentComponent implements OnChanges, OnDestroy {
+  @Input() productIds: string[] = [];
+
+  orders: Order[] = [];
+  loading: boolean = false;
+  statusFilter: StatusFilter = 'processing';
+  readonly statusFilters: StatusFilter[] = ['all', 'pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+  // Inline "mark as shipped" form
+  shippingOrderId: string | null = null;
+  trackingNumber: string = '';
+  estimatedDelivery: string = '';
+  isUpdating: boolean = false;
+
+  // Order rendered into the printable packing slip
+  slipOrder: Order | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private orderService: OrderService) {}
+
+  ngOnChanges(): void {
+    this.loadOrders();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  loadOrders(): void {
+    if (this.productIds.length === 0) {
+      this.orders = [];
+      return;
+    }
+
+    this.loading = true;
+    this.orderService.getOrdersForProducts(this.productIds)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (orders) => {
+          this.orders = orders;
+          this.loading = false;
+        },
+        error: (error) => {
+          console.error('Error loading seller orders:', error);
+          this.loading = false;
+          alert(error?.message || 'Failed to load orders. Please try again.');
+        }
+      });
+  }
+
+  get filteredOrders(): Order[] {
+    if (this.statusFilter === 'all') {
+      return this.orders;
+    }
+    return this.orders.filter(order => order.orderStatus === this.statusFilter);
+  }
+
+  countByStatus(status: StatusFilter): number {
+    return status === 'all'
+      ? this.orders.length
+      : this.orders.filter(order => order.orderStatus === status).length;
+  }
+
+  /**
+   * Only the seller's own items are shown and packed
+   */
+  sellerItems(order: Order): OrderItem[] {
+    return order.items.filter(item => this.productIds.includes(item.productId));
+  }
+
+  /**
+   * Orders shared with other sellers ship as one parcel and are fulfilled by an admin
+   */
+  canFulfil(order: Order): boolean {
+    return order.items.every(item => this.productIds.includes(item.productId));
+  }
+
+  startShipping(order: Order): void {
+    this.shippingOrderId = order.id;
+    this.trackingNumber = order.trackingNumber || '';
+    this.estimatedDelivery = order.estimatedDelivery
+      ? new Date(order.estimatedDelivery).toISOString().slice(0, 10)
+      : '';
+  }
+
+  cancelShipping(): void {
+    this.shippingOrderId = null;
+    this.trackingNumber = '';
+    this.estimatedDelivery = '';
+  }
+
+  async markAsShipped(order: Order): Promise<void> {
+    const trackingNumber = this.trackingNumber.trim();
+    if (!trackingNumber) {
+      alert('Please enter a tracking number');
+      return;
+    }
+
+    const updated = await this.updateStatus(order, 'shipped', {
+      trackingNumber,
+      estimatedDelivery: this.estimatedDelivery ? new Date(this.estimatedDelivery) : undefined
+    });
+
+    if (updated) {
+      this.cancelShipping();
+    }
+  }
+
+  async markAsDelivered(order: Order): Promise<void> {
+    if (confirm(`Mark order ${order.orderNumber || order.id} as delivered?`)) {
+      await this.updateStatus(order, 'delivered');
+    }
+  }
+
+  printPackingSlip(order: Order): void {
+    this.slipOrder = order;
+    document.body.classList.add('printing-slip');
+
+    // Let the slip render before opening the print dialog
+    setTimeout(() => {
+      window.print();
+      document.body.classList.remove('printing-slip');
+    });
+  }
+
+  private async updateStatus(
+    order: Order,
+    status: Order['orderStatus'],
+    details?: { trackingNumber?: string; estimatedDelivery?: Date }
+  ): Promise<boolean> {
+    this.isUpdating = true;
+    try {
+      await this.orderService.updateOrderStatus(order.id, status, details);
+      this.loadOrders();
+      return true;
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      alert(ErrorUtil.message(error, 'Failed to update order. Please try again.'));
+      return false;
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+}
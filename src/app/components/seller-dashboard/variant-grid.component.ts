@@ -0,0 +1,67 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ProductVariant } from '../../models/product.model';
+import { ValidationUtil } from '../../utils/validation.util';
+import { VariantUtil } from '../../utils/variant.util';
+
+/**
+ * Variant Grid
+ * Editable table of a product's length / color / lace size combinations,
+ * each with its own SKU, price, stock and optional image.
+ * Used by both the add and edit product forms via [(variants)].
+ */
+@Component({
+  selector: 'app-variant-grid',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './variant-grid.component.html',
+  styleUrls: ['./variant-grid.component.css']
+})
+export class VariantGridComponent {
+  @Input() variants: ProductVariant[] = [];
+  @Input() lengths: number[] = [];
+  // New rows start from the product's own attributes
+  @Input() defaults: Pick<ProductVariant, 'length' | 'color' | 'price'> = { length: 18, color: 'Natural Black', price: 0 };
+  @Output() variantsChange = new EventEmitter<ProductVariant[]>();
+
+  readonly laceSizes = VariantUtil.LACE_SIZES;
+
+  addVariant(): void {
+    const previous = this.variants[this.variants.length - 1];
+    const variant: ProductVariant = {
+      id: ValidationUtil.generateSecureId('VAR'),
+      sku: '',
+      length: previous?.length ?? Number(this.defaults.length),
+      color: previous?.color ?? this.defaults.color,
+      laceSize: previous?.laceSize,
+      price: previous?.price ?? this.defaults.price,
+      stock: 0,
+      imageUrl: ''
+    };
+    this.emit([...this.variants, variant]);
+  }
+
+  removeVariant(id: string): void {
+    this.emit(this.variants.filter(v => v.id !== id));
+  }
+
+  /**
+   * Write a single cell back, keeping numeric columns numeric
+   */
+  updateVariant(id: string, field: keyof ProductVariant, value: string | number): void {
+    const numeric = field === 'length' || field === 'price' || field === 'stock';
+    this.emit(this.variants.map(v =>
+      v.id === id ? { ...v, [field]: numeric ? Number(value) : value || undefined } : v
+    ));
+  }
+
+  trackById(_: number, variant: ProductVariant): string {
+    return variant.id;
+  }
+
+  private emit(variants: ProductVariant[]): void {
+    this.variants = variants;
+    this.variantsChange.emit(variants);
+  }
+}
@@ -1,8 +1,14 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpInterceptorFn, HttpErrorResponse, HttpContextToken } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { Router } from '@angular/router';
 import { catchError, retry, throwError, timer } from 'rxjs';
 
+/**
+ * Marks a request as a background probe (e.g. backend availability check)
+ * Probes are not retried and never redirect to the login page
+ */
+export const BACKGROUND_REQUEST = new HttpContextToken<boolean>(() => false);
+
 /**
  * Global HTTP Error Interceptor
  *
@@ -14,12 +20,18 @@ import { catchError, retry, throwError, timer } from 'rxjs';
  */
 export const errorInterceptor: HttpInterceptorFn = (req, next) => {
   const router = inject(Router);
+  const isBackground = req.context.get(BACKGROUND_REQUEST);
 
   return next(req).pipe(
     // Retry strategy with exponential backoff
     retry({
       count: 2,
       delay: (error: HttpErrorResponse, retryCount: number) => {
+        // Background probes should fail fast
+        if (isBackground) {
+          throw error;
+        }
+
         // Don't retry client errors (4xx) - they won't succeed on retry
         if (error.status >= 400 && error.status < 500) {
           throw error;
@@ -68,6 +80,11 @@ export const errorInterceptor: HttpInterceptorFn = (req, next) => {
             errorMessage = 'Your session has expired. Please login again.';
             console.warn('401 Unauthorized - Redirecting to login');
 
+            // Background probes (e.g. anonymous visitors) stay on the current page
+            if (isBackground) {
+              break;
+            }
+
             // Save current URL for redirect after login
             const returnUrl = router.url;
             router.navigate(['/auth/login'], {
@@ -0,0 +1,27 @@
+/**
+ * Standard backend response envelope
+ * All /api endpoints respond with { success, data } (or { success, message } on error)
+ */
+export interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+/**
+ * Backend response for actions that only report a message (e.g. "email sent")
+ */
+export interface ApiMessageResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Backend response envelope for list endpoints
+ */
+export interface ApiListResponse<T> extends ApiResponse<T[]> {
+  count: number;
+  total?: number;
+  page?: number;
+  pages?: number;
+}
@@ -1,12 +1,38 @@
-import { Product } from './product.model';
+import { Product, ProductVariant } from './product.model';
+import { Coupon, CouponDiscount } from './coupon.model';
 
 export interface CartItem {
   product: Product;
+  variant?: ProductVariant; // chosen SKU for products with variants
   quantity: number;
 }
 
 export interface Cart {
   items: CartItem[];
   totalItems: number;
-  totalPrice: number;
+  totalPrice: number; // before any coupon discount
+  coupon?: Coupon;
+  discount?: CouponDiscount; // what the coupon takes off the current items
+}
+
+/**
+ * What the cart keeps in storage for each line
+ * Products are re-fetched on load, so prices and stock never go stale.
+ * price is the unit price the buyer last saw, kept only to tell them when it changes.
+ */
+export interface StoredCartItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  price?: number;
+}
+
+/**
+ * A change made to the cart when it was checked against live product data
+ */
+export interface CartChange {
+  productId: string;
+  variantId?: string;
+  type: 'price' | 'quantity' | 'removed';
+  message: string;
 }
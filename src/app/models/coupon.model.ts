@@ -0,0 +1,36 @@
+import { Product } from './product.model';
+
+/**
+ * Coupon Interface
+ * The rules of a promotion code, as shown to a buyer who entered it
+ *
+ *   - percentage: value percent off each eligible item
+ *   - fixed:      value dollars off the eligible items as a whole
+ *   - bogo:       buy buyQuantity, get getQuantity (the cheapest units) value percent off
+ */
+export interface Coupon {
+  code: string;
+  description?: string;
+  type: 'percentage' | 'fixed' | 'bogo';
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+
+  // Scope - an item must match every scope that is set
+  categories?: Product['category'][];
+  sellerId?: string;
+  productIds?: string[];
+
+  minSubtotal?: number;
+  expiresAt?: Date;
+}
+
+/**
+ * What a coupon takes off a cart
+ * lineDiscounts follows the order of the cart items
+ */
+export interface CouponDiscount {
+  discount: number;
+  lineDiscounts: number[];
+  message?: string; // Why the coupon gives nothing right now, e.g. a minimum not yet reached
+}
@@ -1,4 +1,6 @@
 import { Address } from './user.model';
+import { TaxLine } from './tax.model';
+import { ShippingMethod } from './shipping.model';
 
 /**
  * Order Item Interface
@@ -6,11 +8,14 @@ import { Address } from './user.model';
  */
 export interface OrderItem {
   productId: string;
+  variantId?: string;
+  variantLabel?: string; // e.g. 18" · Natural Black · 13x4 lace
   productName: string;
   productImage: string;
   price: number;
   quantity: number;
   subtotal: number;
+  discount?: number; // This line's share of the order's coupon discount
 }
 
 /**
@@ -20,6 +25,7 @@ export interface OrderItem {
 export interface Order {
   // Identification
   id: string;
+  orderNumber?: string; // Human-readable number assigned by the backend
   userId: string;
   userEmail: string;
   userName: string;
@@ -33,15 +39,21 @@ export interface Order {
 
   // Pricing Breakdown
   subtotal: number;
+  discount?: number; // Coupon discount, taken off before shipping and tax
+  couponCode?: string;
   shipping: number;
+  shippingMethod?: ShippingMethod;
   tax: number;
+  taxBreakdown?: TaxLine[]; // Tax per jurisdiction (state, local)
+  taxExempt?: boolean; // Buyer was tax-exempt when the order was placed
   total: number;
 
   // Payment Information
   paymentMethod: string;
-  paymentStatus: 'pending' | 'paid' | 'failed';
+  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
   transactionId?: string;
   paidAt?: Date;
+  reservedUntil?: Date; // Unpaid orders hold their stock until then
 
   // Order Status
   orderStatus: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
@@ -51,6 +63,7 @@ export interface Order {
   updatedAt: Date;
 
   // Optional Fields
-  estimatedDelivery?: Date;
+  earliestDelivery?: Date; // Delivery window quoted at checkout
+  estimatedDelivery?: Date; // Latest date in that window, unless the seller updates it
   trackingNumber?: string;
 }
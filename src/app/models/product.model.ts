@@ -1,3 +1,18 @@
+/**
+ * Product Variant (SKU)
+ * One length/color/lace size combination with its own price, stock and image
+ */
+export interface ProductVariant {
+  id: string;
+  sku?: string;
+  length: number; // in inches
+  color: string;
+  laceSize?: string; // closures and frontals, e.g. 4x4, 13x4
+  price: number;
+  stock: number;
+  imageUrl?: string; // falls back to the product image
+}
+
 export interface Product {
   id: string;
   name: string;
@@ -9,14 +24,21 @@ export interface Product {
   color: string;
   origin: string; // e.g., Brazilian, Peruvian, Malaysian
   stock: number;
-  imageUrl: string;
+  imageUrl: string; // primary image, always images[0] when a gallery is set
+  images?: string[]; // gallery in display order
   sellerId: string;
   rating: number;
   reviews: number;
+  isActive?: boolean; // false when hidden by an admin
+  variants?: ProductVariant[]; // when present, price is the lowest variant price and stock the total
   createdAt: Date;
 }
 
+export type ProductSort = 'price-asc' | 'price-desc' | 'newest' | 'rating' | 'most-reviewed';
+
 export interface ProductFilter {
+  q?: string; // Full-text search over name, description, origin, texture and color
+  sort?: ProductSort; // Defaults to relevance when searching, newest otherwise
   category?: string;
   minPrice?: number;
   maxPrice?: number;
@@ -25,3 +47,22 @@ export interface ProductFilter {
   color?: string;
   origin?: string;
 }
+
+/**
+ * One page of catalog results, with totals for the whole result set
+ */
+export interface ProductPage {
+  products: Product[];
+  total: number;
+  page: number;
+  pages: number;
+}
+
+/**
+ * Current stock of a product, and of each variant by variant ID
+ */
+export interface StockLevel {
+  productId: string;
+  stock: number;
+  variants: Record<string, number>;
+}
@@ -0,0 +1,43 @@
+/**
+ * Review Interface
+ * A buyer's rating of a product they received
+ */
+export interface Review {
+  id: string;
+  productId: string;
+  userId: string;
+  userName: string; // First name and last initial, shown publicly
+  orderId: string; // Delivered order that made the buyer eligible
+  rating: number; // 1-5 stars
+  title?: string;
+  comment: string;
+  createdAt: Date;
+}
+
+/**
+ * Rating summary for a product
+ * breakdown maps each star value (1-5) to its review count
+ */
+export interface ReviewSummary {
+  average: number;
+  total: number;
+  breakdown: Record<number, number>;
+}
+
+/**
+ * One page of a product's reviews
+ */
+export interface ReviewPage {
+  reviews: Review[];
+  page: number;
+  pages: number;
+  summary: ReviewSummary;
+}
+
+/**
+ * Whether the current user may post a review, and why not
+ */
+export interface ReviewEligibility {
+  canReview: boolean;
+  reason?: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * Shipping service levels offered at checkout
+ */
+export type ShippingService = 'standard' | 'express' | 'overnight';
+
+/**
+ * Service level an order was shipped with
+ */
+export interface ShippingMethod {
+  service: ShippingService;
+  name: string;
+}
+
+/**
+ * A priced shipping option with its delivery window
+ */
+export interface ShippingOption extends ShippingMethod {
+  amount: number;
+  estimatedDelivery: {
+    earliest: Date;
+    latest: Date;
+  };
+}
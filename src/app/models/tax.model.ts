@@ -0,0 +1,28 @@
+import { Address } from './user.model';
+
+/**
+ * One jurisdiction's share of an order's sales tax
+ */
+export interface TaxLine {
+  jurisdiction: string; // e.g. 'NY' or 'NY-100' for a local (ZIP prefix) rate
+  name: string;
+  rate: number; // Percent
+  taxableAmount: number;
+  amount: number;
+}
+
+/**
+ * What a tax calculator needs to price an order's tax
+ * subtotal is after any coupon discount
+ */
+export interface TaxRequest {
+  address?: Partial<Address>;
+  subtotal: number;
+  shipping: number;
+  taxExempt?: boolean;
+}
+
+export interface TaxResult {
+  tax: number;
+  lines: TaxLine[];
+}
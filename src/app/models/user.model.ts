@@ -5,10 +5,26 @@ export interface User {
   lastName: string;
   role: 'buyer' | 'seller' | 'admin';
   phone?: string;
-  address?: Address;
+  address?: Address; // Default shipping address
+  addresses?: SavedAddress[]; // Address book
+  isActive?: boolean; // false when suspended by an admin
+  taxExempt?: boolean; // Set by an admin; no sales tax is charged
+  isEmailVerified?: boolean; // false until the emailed link is followed (again after an email change)
   createdAt: Date;
 }
 
+/**
+ * Profile fields a user can edit themselves
+ * currentPassword is required only when the email changes.
+ */
+export interface ProfileUpdate {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  currentPassword?: string;
+}
+
 /**
  * Internal user data with password credentials
  * Used only for authentication, never exposed to UI
@@ -16,12 +32,27 @@ export interface User {
 export interface UserCredentials extends User {
   passwordHash: string;
   passwordSalt: string;
+  emailVerificationToken?: string; // Demo mode only
+  resetPasswordToken?: string; // Demo mode only
+  resetPasswordExpire?: number; // Demo mode only (epoch ms)
 }
 
 export interface Address {
   street: string;
   city: string;
-  state: string;
-  zipCode: string;
-  country: string;
+  state: string; // State, province or county, depending on the country
+  zipCode: string; // ZIP or postal code
+  country: string; // Country code (US, CA, GB); older addresses may hold a name such as 'USA'
+  phone?: string; // E.164, for the courier
+}
+
+/**
+ * An entry in the buyer's address book
+ * Exactly one entry is the default shipping address and one the default billing address.
+ */
+export interface SavedAddress extends Address {
+  id: string;
+  label: string; // e.g. 'Home', 'Salon'
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
 }
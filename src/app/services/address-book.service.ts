@@ -0,0 +1,123 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, from, of } from 'rxjs';
+import { map, switchMap, tap } from 'rxjs/operators';
+import { Address, SavedAddress } from '../models/user.model';
+import { ApiResponse } from '../models/api.model';
+import { AddressBookUtil, AddressUse } from '../utils/address-book.util';
+import { ValidationUtil } from '../utils/validation.util';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { SecureStorageService } from './secure-storage.service';
+
+/**
+ * Address book entry shape sent to and returned by PUT /api/auth/updatedetails
+ */
+interface ApiSavedAddress extends Omit<SavedAddress, 'id'> {
+  _id?: string;
+}
+
+/**
+ * Address Book Service with Dual Mode Support
+ * The signed-in buyer's saved addresses and their default shipping and billing choices.
+ *
+ * API mode: stored on the user (PUT /api/auth/updatedetails with `addresses`)
+ * Demo mode: encrypted storage, per user
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AddressBookService {
+  private readonly apiUrl = `${environment.apiUrl}/auth`;
+  private readonly ADDRESS_BOOK_KEY = 'encrypted_address_book';
+
+  private addressesSubject = new BehaviorSubject<SavedAddress[]>([]);
+  addresses$ = this.addressesSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private secureStorage: SecureStorageService
+  ) {
+    this.authService.currentUser$
+      .pipe(
+        switchMap(user => !user ? of([]) : this.authService.whenBackend(
+          () => of(user.addresses ?? []),
+          () => from(this.secureStorage.getItem<SavedAddress[]>(this.storageKey(user.id))).pipe(map(saved => saved ?? []))
+        ))
+      )
+      .subscribe(addresses => this.addressesSubject.next(addresses));
+  }
+
+  getAddresses(): SavedAddress[] {
+    return this.addressesSubject.value;
+  }
+
+  /**
+   * Add an address (no ID yet) or update a saved one
+   */
+  save(entry: Omit<SavedAddress, 'id'> & { id?: string }): Observable<SavedAddress[]> {
+    return this.persist(AddressBookUtil.upsert(this.getAddresses(), { ...entry, id: entry.id ?? '' }));
+  }
+
+  /**
+   * Save an address typed at checkout unless it is already in the book
+   * The first saved address becomes the default for shipping and billing.
+   */
+  saveFromCheckout(address: Address, label: string): Observable<SavedAddress[]> {
+    if (AddressBookUtil.findMatch(this.getAddresses(), address)) {
+      return of(this.getAddresses());
+    }
+    return this.save({ ...address, label, isDefaultShipping: false, isDefaultBilling: false });
+  }
+
+  remove(id: string): Observable<SavedAddress[]> {
+    return this.persist(AddressBookUtil.remove(this.getAddresses(), id));
+  }
+
+  setDefault(id: string, use: AddressUse): Observable<SavedAddress[]> {
+    return this.persist(AddressBookUtil.setDefault(this.getAddresses(), id, use));
+  }
+
+  private persist(addresses: SavedAddress[]): Observable<SavedAddress[]> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return of([]);
+    }
+
+    return this.authService.whenBackend(
+      () => this.http.put<ApiResponse<{ addresses: ApiSavedAddress[] }>>(
+        `${this.apiUrl}/updatedetails`,
+        { addresses: addresses.map(address => this.toApi(address)) },
+        { withCredentials: true }
+      ).pipe(
+        map(response => response.data.addresses.map(address => this.fromApi(address)))
+      ),
+      () => {
+        // New entries get their ID here, as the backend would
+        const saved = addresses.map(address => address.id ? address : { ...address, id: ValidationUtil.generateSecureId('address') });
+        return from(this.secureStorage.setItem(this.storageKey(user.id), saved)).pipe(map(() => saved));
+      }
+    ).pipe(
+      tap(saved => {
+        const defaultShipping = AddressBookUtil.findDefault(saved, 'shipping');
+        this.authService.updateCurrentUser({
+          addresses: saved,
+          address: defaultShipping ? AddressBookUtil.toAddress(defaultShipping) : user.address
+        });
+      })
+    );
+  }
+
+  private storageKey(userId: string): string {
+    return `${this.ADDRESS_BOOK_KEY}_${userId}`;
+  }
+
+  private toApi({ id, ...address }: SavedAddress): ApiSavedAddress {
+    return id ? { ...address, _id: id } : address;
+  }
+
+  private fromApi({ _id, ...address }: ApiSavedAddress): SavedAddress {
+    return { ...address, id: _id ?? '' };
+  }
+}
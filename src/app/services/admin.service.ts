@@ -0,0 +1,109 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { User } from '../models/user.model';
+import { ApiListResponse, ApiResponse } from '../models/api.model';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+
+/**
+ * User shape returned by the admin API (Mongoose document)
+ */
+interface ApiUser {
+  _id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: User['role'];
+  phone?: string;
+  isActive: boolean;
+  taxExempt?: boolean;
+  createdAt: string;
+}
+
+/**
+ * Admin Service
+ * User management for the admin console (/api/admin/users).
+ * Product and order moderation live in ProductService and OrderService,
+ * next to their model mapping.
+ *
+ * Demo mode has no admin accounts, so every call requires the backend.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AdminService {
+  private readonly apiUrl = `${environment.apiUrl}/admin/users`;
+  private readonly DEMO_MODE_ERROR = 'The admin console requires the backend API';
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService
+  ) {}
+
+  /**
+   * Search users by name or email
+   */
+  getUsers(search?: string, role?: User['role']): Observable<User[]> {
+    let params = new HttpParams().set('limit', 100);
+    if (search) {
+      params = params.set('search', search);
+    }
+    if (role) {
+      params = params.set('role', role);
+    }
+
+    return this.authService.whenBackend(
+      () => this.http.get<ApiListResponse<ApiUser>>(this.apiUrl, { params }).pipe(
+        map(response => response.data.map(u => this.fromApi(u)))
+      ),
+      () => throwError(() => ({ message: this.DEMO_MODE_ERROR }))
+    );
+  }
+
+  /**
+   * Change a user's role (e.g. promote a buyer to seller)
+   */
+  setUserRole(userId: string, role: User['role']): Observable<User> {
+    return this.updateUser(userId, { role });
+  }
+
+  /**
+   * Suspend or reactivate an account
+   * Suspended users can no longer log in or use existing sessions
+   */
+  setUserActive(userId: string, isActive: boolean): Observable<User> {
+    return this.updateUser(userId, { isActive });
+  }
+
+  /**
+   * Mark a buyer as tax-exempt (e.g. a reseller with an exemption certificate)
+   */
+  setTaxExempt(userId: string, taxExempt: boolean): Observable<User> {
+    return this.updateUser(userId, { taxExempt });
+  }
+
+  private updateUser(userId: string, changes: { role?: User['role']; isActive?: boolean; taxExempt?: boolean }): Observable<User> {
+    return this.authService.whenBackend(
+      () => this.http.put<ApiResponse<ApiUser>>(`${this.apiUrl}/${userId}`, changes).pipe(
+        map(response => this.fromApi(response.data))
+      ),
+      () => throwError(() => ({ message: this.DEMO_MODE_ERROR }))
+    );
+  }
+
+  private fromApi(apiUser: ApiUser): User {
+    return {
+      id: apiUser._id,
+      email: apiUser.email,
+      firstName: apiUser.firstName,
+      lastName: apiUser.lastName,
+      role: apiUser.role,
+      phone: apiUser.phone,
+      isActive: apiUser.isActive,
+      taxExempt: apiUser.taxExempt,
+      createdAt: new Date(apiUser.createdAt)
+    };
+  }
+}
@@ -35,9 +35,9 @@ describe('AuthService', () => {
     secureStorageService = TestBed.inject(SecureStorageService) as jasmine.SpyObj<SecureStorageService>;
 
     // Handle the initial checkAuthStatus call made in constructor
-    // This will fail, putting the service in demo mode
+    // Backend is unreachable (network error), putting the service in demo mode
     const req = httpMock.expectOne((request) => request.url.includes('/auth/me'));
-    req.flush({ success: false }, { status: 401, statusText: 'Unauthorized' });
+    req.error(new ProgressEvent('error'));
   });
 
   afterEach(() => {
@@ -61,6 +61,15 @@ describe('AuthService', () => {
     });
   });
 
+  describe('Backend Detection', () => {
+    it('should use demo mode when the backend is unreachable', async () => {
+      const isDemo = await firstValueFrom(service.demoMode$);
+
+      expect(isDemo).toBe(true);
+      expect(service.isDemoMode()).toBe(true);
+    });
+  });
+
   describe('Login', () => {
     it('should successfully login with correct buyer credentials', async () => {
       const result = await firstValueFrom(
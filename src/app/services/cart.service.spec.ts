@@ -0,0 +1,261 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { BehaviorSubject, firstValueFrom, of, throwError } from 'rxjs';
+import { CartService } from './cart.service';
+import { AuthService } from './auth.service';
+import { CouponService } from './coupon.service';
+import { ProductService } from './product.service';
+import { SecureStorageService } from './secure-storage.service';
+import { Product } from '../models/product.model';
+import { StoredCartItem } from '../models/cart.model';
+import { User } from '../models/user.model';
+
+describe('CartService', () => {
+  let service: CartService;
+  let httpMock: HttpTestingController;
+  let secureStorage: jasmine.SpyObj<SecureStorageService>;
+  let productService: jasmine.SpyObj<ProductService>;
+  let products: Record<string, Product | undefined>;
+  let currentUser: BehaviorSubject<User | null>;
+
+  const buyer = { id: 'u1', email: 'buyer@example.com', firstName: 'Jane', lastName: 'Buyer', role: 'buyer' } as User;
+
+  const buildProduct = (overrides: Partial<Product> = {}): Product => ({
+    id: 'p1',
+    name: 'Brazilian Straight',
+    description: 'Silky straight bundle',
+    price: 89.99,
+    category: 'virgin-hair',
+    length: 18,
+    texture: 'straight',
+    color: 'Natural Black',
+    origin: 'Brazilian',
+    stock: 10,
+    imageUrl: 'image.jpg',
+    sellerId: 's1',
+    rating: 5,
+    reviews: 0,
+    createdAt: new Date(),
+    ...overrides
+  });
+
+  // Settle the storage read and product look-ups
+  const settle = () => new Promise(resolve => setTimeout(resolve));
+
+  const createService = async (stored: StoredCartItem[] = [], userId?: string) => {
+    secureStorage.getItem.and.resolveTo(stored.length > 0 ? { items: stored, userId } : null);
+    service = TestBed.inject(CartService);
+    httpMock = TestBed.inject(HttpTestingController);
+    await settle();
+  };
+
+  beforeEach(() => {
+    products = { p1: buildProduct() };
+    currentUser = new BehaviorSubject<User | null>(null);
+
+    secureStorage = jasmine.createSpyObj<SecureStorageService>('SecureStorageService', ['getItem', 'setItem']);
+    secureStorage.setItem.and.resolveTo();
+
+    productService = jasmine.createSpyObj<ProductService>('ProductService', ['getProductById']);
+    productService.getProductById.and.callFake(id => of(products[id]));
+
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        CartService,
+        { provide: SecureStorageService, useValue: secureStorage },
+        { provide: ProductService, useValue: productService },
+        { provide: CouponService, useValue: {} },
+        {
+          provide: AuthService,
+          useValue: {
+            currentUser$: currentUser.asObservable(),
+            getCurrentUser: () => currentUser.value,
+            isDemoMode: () => false
+          }
+        }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    // Keep services from earlier tests out of the cross-tab channel
+    service['channel']?.close();
+  });
+
+  const reportedChanges = async () => (await firstValueFrom(service.changes$)).map(change => change.type);
+
+  describe('revalidation', () => {
+    it('should price a stored cart from the live product', async () => {
+      products['p1'] = buildProduct({ price: 79.99 });
+      await createService([{ productId: 'p1', quantity: 2, price: 79.99 }]);
+
+      expect(service.getItemCount()).toBe(2);
+      expect(service.getTotalPrice()).toBe(159.98);
+    });
+
+    it('should flag a price change since the buyer last saw the item', async () => {
+      await createService([{ productId: 'p1', quantity: 1, price: 99.99 }]);
+
+      expect(await reportedChanges()).toEqual(['price']);
+      expect(service.getTotalPrice()).toBe(89.99);
+    });
+
+    it('should remove listings that no longer exist or were hidden', async () => {
+      products['p2'] = buildProduct({ id: 'p2', isActive: false });
+      await createService([
+        { productId: 'p1', quantity: 1, price: 89.99 },
+        { productId: 'p2', quantity: 1, price: 89.99 },
+        { productId: 'gone', quantity: 1, price: 89.99 }
+      ]);
+
+      expect(await reportedChanges()).toEqual(['removed', 'removed']);
+      expect(service.getItemCount()).toBe(1);
+    });
+
+    it('should remove items that sold out since the last check', async () => {
+      await createService([{ productId: 'p1', quantity: 1, price: 89.99 }]);
+      products['p1'] = buildProduct({ stock: 0 });
+
+      const changes = await service.revalidate();
+
+      expect(changes.map(change => change.type)).toEqual(['removed']);
+      expect(service.getItemCount()).toBe(0);
+    });
+
+    it('should cap quantities at the live stock', async () => {
+      await createService([{ productId: 'p1', quantity: 5, price: 89.99 }]);
+      products['p1'] = buildProduct({ stock: 3 });
+
+      const changes = await service.revalidate();
+
+      expect(changes.map(change => change.type)).toEqual(['quantity']);
+      expect(service.getItemCount()).toBe(3);
+    });
+
+    it('should remove a variant that is no longer sold', async () => {
+      products['p1'] = buildProduct({
+        variants: [{ id: 'v18', length: 18, color: 'Natural Black', price: 89.99, stock: 4 }]
+      });
+      await createService([{ productId: 'p1', variantId: 'v22', quantity: 1, price: 109.99 }]);
+
+      expect(await reportedChanges()).toEqual(['removed']);
+      expect(service.getItemCount()).toBe(0);
+    });
+
+    it('should keep lines whose product could not be fetched until the next revalidation', async () => {
+      productService.getProductById.and.returnValue(throwError(() => ({ status: 0 })));
+      await createService([{ productId: 'p1', quantity: 2, price: 89.99 }]);
+      expect(service.getItemCount()).toBe(0);
+
+      productService.getProductById.and.callFake(id => of(products[id]));
+      await service.revalidate();
+
+      expect(service.getItemCount()).toBe(2);
+    });
+
+    it('should store only product references, quantities and the price shown', async () => {
+      await createService();
+
+      service.addToCart(buildProduct(), 2);
+      await settle();
+
+      expect(secureStorage.setItem).toHaveBeenCalledWith('encrypted_cart', {
+        items: [{ productId: 'p1', variantId: undefined, quantity: 2, price: 89.99 }],
+        userId: undefined
+      });
+    });
+  });
+
+  describe('account sync', () => {
+    const cartUrl = (request: { url: string }) => request.url.endsWith('/cart');
+    const mergeUrl = (request: { url: string }) => request.url.endsWith('/cart/merge');
+
+    const signIn = async () => {
+      currentUser.next(buyer);
+      await settle();
+    };
+
+    it('should merge a signed-out cart into the account cart at sign-in', async () => {
+      await createService([{ productId: 'p1', quantity: 1, price: 89.99 }]);
+      await signIn();
+
+      const req = httpMock.expectOne(mergeUrl);
+      expect(req.request.body.items).toEqual([{ product: 'p1', variant: undefined, quantity: 1, price: 89.99 }]);
+      req.flush({ success: true, data: { items: [{ product: 'p1', quantity: 3, price: 89.99 }] } });
+      await settle();
+
+      expect(service.getItemCount()).toBe(3);
+      expect(secureStorage.setItem).toHaveBeenCalledWith('encrypted_cart', jasmine.objectContaining({ userId: 'u1' }));
+    });
+
+    it('should load the account cart over a cart already synced with the account', async () => {
+      await createService([{ productId: 'p1', quantity: 1, price: 89.99 }], 'u1');
+      await signIn();
+
+      httpMock.expectOne(request => cartUrl(request) && request.method === 'GET')
+        .flush({ success: true, data: { items: [{ product: 'p1', quantity: 2, price: 89.99 }] } });
+      await settle();
+
+      expect(service.getItemCount()).toBe(2);
+    });
+
+    it('should merge again when the buyer changed the cart while it was loading', async () => {
+      await createService([{ productId: 'p1', quantity: 1, price: 89.99 }]);
+      await signIn();
+
+      service.updateQuantity('p1', 4);
+      httpMock.expectOne(mergeUrl).flush({ success: true, data: { items: [{ product: 'p1', quantity: 1, price: 89.99 }] } });
+      await settle();
+
+      const retry = httpMock.expectOne(mergeUrl);
+      expect(retry.request.body.items[0].quantity).toBe(4);
+      retry.flush({ success: true, data: { items: [{ product: 'p1', quantity: 4, price: 89.99 }] } });
+      await settle();
+
+      expect(service.getItemCount()).toBe(4);
+    });
+
+    it('should send the account only the settled cart after quick changes', async () => {
+      await createService([{ productId: 'p1', quantity: 1, price: 89.99 }], 'u1');
+      await signIn();
+      httpMock.expectOne(cartUrl).flush({ success: true, data: { items: [{ product: 'p1', quantity: 1, price: 89.99 }] } });
+      await settle();
+
+      service.updateQuantity('p1', 2);
+      service.updateQuantity('p1', 3);
+      await new Promise(resolve => setTimeout(resolve, 350));
+
+      const req = httpMock.expectOne(request => cartUrl(request) && request.method === 'PUT');
+      expect(req.request.body.items[0].quantity).toBe(3);
+      req.flush({ success: true, data: { items: req.request.body.items } });
+    });
+
+    it('should clear the local cart at sign-out', async () => {
+      await createService([{ productId: 'p1', quantity: 1, price: 89.99 }], 'u1');
+      await signIn();
+      httpMock.expectOne(cartUrl).flush({ success: true, data: { items: [{ product: 'p1', quantity: 1, price: 89.99 }] } });
+      await settle();
+
+      currentUser.next(null);
+      await settle();
+
+      expect(service.getItemCount()).toBe(0);
+      expect(secureStorage.setItem).toHaveBeenCalledWith('encrypted_cart', { items: [], userId: undefined });
+    });
+
+    it('should show a cart another tab saved without saving it again', async () => {
+      await createService();
+      secureStorage.setItem.calls.reset();
+
+      const otherTab = new BroadcastChannel('cart');
+      otherTab.postMessage({ items: [{ productId: 'p1', quantity: 4, price: 89.99 }] });
+      otherTab.close();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(service.getItemCount()).toBe(4);
+      expect(secureStorage.setItem).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,21 +1,76 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
-import { Cart, CartItem } from '../models/cart.model';
-import { Product } from '../models/product.model';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, Subject, firstValueFrom, forkJoin, of } from 'rxjs';
+import { catchError, concatMap, debounceTime, distinctUntilChanged, map, pairwise } from 'rxjs/operators';
+import { Cart, CartChange, CartItem, StoredCartItem } from '../models/cart.model';
+import { Product, ProductVariant } from '../models/product.model';
+import { ApiResponse } from '../models/api.model';
 import { ValidationUtil } from '../utils/validation.util';
+import { VariantUtil } from '../utils/variant.util';
+import { PromotionUtil } from '../utils/promotion.util';
+import { ErrorUtil } from '../utils/error.util';
+import { environment } from '../../environments/environment';
 import { SecureStorageService } from './secure-storage.service';
+import { ProductService } from './product.service';
+import { AuthService } from './auth.service';
+import { CouponService } from './coupon.service';
+
+/**
+ * Cart line shape used by the backend cart API
+ */
+interface ApiCartItem {
+  product: string;
+  variant?: string;
+  quantity: number;
+  price?: number;
+}
+
+interface ApiCart {
+  items: ApiCartItem[];
+}
+
+/**
+ * What the cart keeps in storage, and what tabs send each other
+ * userId is the account the cart was last synced with (none for a signed-out cart)
+ */
+interface StoredCart {
+  items: (StoredCartItem | CartItem)[];
+  userId?: string;
+}
+
+/**
+ * Where a cart update came from, which decides where it is sent on to
+ *   buyer - changed in this tab: saved, pushed to the account and shared with other tabs
+ *   sync  - from the account or a revalidation: saved and shared with other tabs
+ *   tab   - another tab already saved it: only shown
+ */
+type CartUpdateSource = 'buyer' | 'sync' | 'tab';
 
 /**
  * Cart Service with Encrypted Storage
  *
  * SECURITY: Cart data is now encrypted in IndexedDB using non-extractable keys.
  * This prevents XSS attacks from reading or modifying cart contents/prices.
+ *
+ * Only product references and quantities are stored. On load, and whenever
+ * revalidate() is called (e.g. entering checkout), every product is re-fetched:
+ * removed listings and sold-out items are dropped, quantities are capped at the
+ * live stock, and each adjustment is reported through changes$.
+ *
+ * Signed-in buyers (API mode) also keep their cart on the server, so it follows
+ * them across devices. At sign-in a signed-out cart is merged into the account
+ * cart (see POST /api/cart/merge); at sign-out the local copy is cleared. Open
+ * tabs stay in step through a BroadcastChannel.
+ *
+ * A coupon code applies to this browser session's cart only; its discount is
+ * recalculated whenever the items change.
  */
 @Injectable({
   providedIn: 'root'
 })
 export class CartService {
   private readonly CART_KEY = 'encrypted_cart';
+  private readonly apiUrl = `${environment.apiUrl}/cart`;
 
   private cart: Cart = {
     items: [],
@@ -26,21 +81,61 @@ export class CartService {
   private cartSubject = new BehaviorSubject<Cart>(this.cart);
   cart$ = this.cartSubject.asObservable();
 
-  constructor(private secureStorage: SecureStorageService) {
+  private changesSubject = new BehaviorSubject<CartChange[]>([]);
+  changes$ = this.changesSubject.asObservable();
+
+  // Lines whose product could not be fetched (e.g. offline); kept until the next revalidation
+  private unresolvedItems: StoredCartItem[] = [];
+
+  // Account the cart was last synced with
+  private ownerId: string | undefined;
+
+  // Bumped by every change the buyer makes, so slower refreshes don't overwrite it
+  private version = 0;
+
+  private ready: Promise<void>;
+  private channel: BroadcastChannel | null = null;
+  private pushQueue = new Subject<ApiCartItem[]>();
+
+  constructor(
+    private http: HttpClient,
+    private secureStorage: SecureStorageService,
+    private productService: ProductService,
+    private authService: AuthService,
+    private couponService: CouponService
+  ) {
     // Load cart from encrypted storage
-    this.loadCart();
+    this.ready = this.loadCart();
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel('cart');
+      this.channel.onmessage = (event: MessageEvent<StoredCart>) => this.receiveFromTab(event.data);
+    }
+
+    // Quantity steppers fire quickly; send the account only the settled cart, in order
+    this.pushQueue.pipe(
+      debounceTime(300),
+      concatMap(items => this.http.put<ApiResponse<ApiCart>>(this.apiUrl, { items }).pipe(
+        catchError(error => {
+          console.error('Error saving cart to your account:', error);
+          return of(null);
+        })
+      ))
+    ).subscribe();
+
+    this.watchSignIn();
   }
 
   /**
-   * Load cart from encrypted IndexedDB storage
+   * Load cart from encrypted IndexedDB storage and re-fetch its products
    * SECURITY: Uses AES-GCM encryption with non-extractable keys
    */
   private async loadCart(): Promise<void> {
     try {
-      const savedCart = await this.secureStorage.getItem<Cart>(this.CART_KEY);
-      if (savedCart) {
-        this.cart = savedCart;
-        this.cartSubject.next(this.cart);
+      const savedCart = await this.secureStorage.getItem<StoredCart>(this.CART_KEY);
+      this.ownerId = savedCart?.userId;
+      if (savedCart?.items?.length) {
+        await this.refresh(savedCart.items.map(item => this.toStoredItem(item)), 'sync');
       }
     } catch (error) {
       console.error('Error loading cart from secure storage:', error);
@@ -51,12 +146,26 @@ export class CartService {
   }
 
   /**
-   * Save cart to encrypted IndexedDB storage
+   * Save cart to encrypted IndexedDB storage, then pass it on (see CartUpdateSource)
    * SECURITY: Uses AES-GCM encryption with non-extractable keys
    */
-  private async saveCart(): Promise<void> {
+  private async saveCart(source: CartUpdateSource = 'buyer'): Promise<void> {
+    if (source === 'tab') {
+      this.cartSubject.next(this.cart);
+      return;
+    }
+
+    const items = this.storedItems();
+
+    if (source === 'buyer') {
+      this.version++;
+      this.pushToAccount(items);
+    }
+
     try {
-      await this.secureStorage.setItem(this.CART_KEY, this.cart);
+      const savedCart: StoredCart = { items, userId: this.ownerId };
+      await this.secureStorage.setItem(this.CART_KEY, savedCart);
+      this.channel?.postMessage(savedCart);
       this.cartSubject.next(this.cart);
     } catch (error) {
       console.error('Error saving cart to secure storage:', error);
@@ -70,54 +179,119 @@ export class CartService {
 
     // Calculate price and validate each product price
     this.cart.totalPrice = this.cart.items.reduce((sum, item) => {
-      // Validate price from product
-      const priceValidation = ValidationUtil.validatePrice(item.product.price);
+      // Validate price from product (or chosen variant)
+      const price = this.getUnitPrice(item);
+      const priceValidation = ValidationUtil.validatePrice(price);
       if (!priceValidation.valid) {
-        console.error('Invalid product price detected:', item.product.name, item.product.price);
+        console.error('Invalid product price detected:', item.product.name, price);
         return sum;
       }
-      return sum + (item.product.price * item.quantity);
+      return sum + (price * item.quantity);
     }, 0);
 
     // Round to 2 decimal places to avoid floating point errors
     this.cart.totalPrice = Math.round(this.cart.totalPrice * 100) / 100;
+
+    this.cart.discount = this.cart.coupon
+      ? PromotionUtil.calculate(this.cart.coupon, this.cart.items.map(item => ({
+        product: item.product,
+        price: this.getUnitPrice(item),
+        quantity: item.quantity
+      })))
+      : undefined;
   }
 
   getCart(): Observable<Cart> {
     return this.cart$;
   }
 
-  addToCart(product: Product, quantity: number = 1): { success: boolean; message: string } {
+  /**
+   * Re-fetch every product in the cart and bring the cart in line with it
+   * @returns the changes made (also published on changes$)
+   */
+  revalidate(): Promise<CartChange[]> {
+    return this.refresh(this.storedItems(), 'sync');
+  }
+
+  /**
+   * Forget the changes reported so far (the buyer has seen them)
+   */
+  dismissChanges(): void {
+    this.changesSubject.next([]);
+  }
+
+  /**
+   * Apply a coupon code to the cart (replacing any other)
+   * The code is accepted even if it gives nothing yet, e.g. below its minimum;
+   * cart.discount.message then says what is missing.
+   */
+  async applyCoupon(code: string): Promise<{ success: boolean; message: string }> {
+    if (!code.trim()) {
+      return { success: false, message: 'Please enter a coupon code.' };
+    }
+
+    try {
+      const coupon = await firstValueFrom(this.couponService.findCoupon(code));
+      this.cart.coupon = coupon;
+      this.calculateTotals();
+      this.cartSubject.next(this.cart);
+
+      return {
+        success: true,
+        message: this.cart.discount?.message || `${coupon.code} applied: ${PromotionUtil.describe(coupon)}.`
+      };
+    } catch (error) {
+      return { success: false, message: ErrorUtil.message(error, 'Could not apply this coupon. Please try again.') };
+    }
+  }
+
+  removeCoupon(): void {
+    this.cart.coupon = undefined;
+    this.calculateTotals();
+    this.cartSubject.next(this.cart);
+  }
+
+  /**
+   * Add a product to the cart
+   * Products with variants need the chosen variant; each variant is its own cart line
+   */
+  addToCart(product: Product, quantity: number = 1, variant?: ProductVariant): { success: boolean; message: string } {
+    if (VariantUtil.hasVariants(product) && !variant) {
+      return { success: false, message: 'Please choose a length and color first.' };
+    }
+
+    const stock = variant ? variant.stock : product.stock;
+
     // Validate quantity
-    const quantityValidation = ValidationUtil.validateQuantity(quantity, product.stock);
+    const quantityValidation = ValidationUtil.validateQuantity(quantity, stock);
     if (!quantityValidation.valid) {
       return { success: false, message: quantityValidation.message };
     }
 
-    const existingItem = this.cart.items.find(item => item.product.id === product.id);
+    const existingItem = this.findItem(product.id, variant?.id);
 
     if (existingItem) {
       const newQuantity = existingItem.quantity + quantity;
 
       // Check stock availability
-      if (newQuantity > product.stock) {
+      if (newQuantity > stock) {
         return {
           success: false,
-          message: `Cannot add ${quantity} more. Only ${product.stock - existingItem.quantity} items available.`
+          message: `Cannot add ${quantity} more. Only ${stock - existingItem.quantity} items available.`
         };
       }
 
       existingItem.quantity = newQuantity;
     } else {
       // Verify product stock is available
-      if (quantity > product.stock) {
+      if (quantity > stock) {
         return {
           success: false,
-          message: `Only ${product.stock} items available in stock.`
+          message: `Only ${stock} items available in stock.`
         };
       }
 
-      this.cart.items.push({ product, quantity });
+      this.cart.items.push(variant ? { product, variant, quantity } : { product, quantity });
     }
 
     this.calculateTotals();
@@ -126,25 +300,25 @@ export class CartService {
     return { success: true, message: 'Product added to cart' };
   }
 
-  removeFromCart(productId: string): void {
-    this.cart.items = this.cart.items.filter(item => item.product.id !== productId);
+  removeFromCart(productId: string, variantId?: string): void {
+    this.cart.items = this.cart.items.filter(item => item !== this.findItem(productId, variantId));
     this.calculateTotals();
     this.saveCart().catch(err => console.error('Failed to persist cart:', err));
   }
 
-  updateQuantity(productId: string, quantity: number): { success: boolean; message: string } {
-    const item = this.cart.items.find(item => item.product.id === productId);
+  updateQuantity(productId: string, quantity: number, variantId?: string): { success: boolean; message: string } {
+    const item = this.findItem(productId, variantId);
     if (!item) {
       return { success: false, message: 'Item not found in cart' };
     }
 
     if (quantity <= 0) {
-      this.removeFromCart(productId);
+      this.removeFromCart(productId, variantId);
       return { success: true, message: 'Item removed from cart' };
     }
 
     // Validate quantity
-    const quantityValidation = ValidationUtil.validateQuantity(quantity, item.product.stock);
+    const quantityValidation = ValidationUtil.validateQuantity(quantity, this.getAvailableStock(item));
     if (!quantityValidation.valid) {
       return { success: false, message: quantityValidation.message };
     }
@@ -155,12 +329,25 @@ export class CartService {
     return { success: true, message: 'Quantity updated' };
   }
 
+  /**
+   * Price of one unit of a cart line (the variant price when a variant was chosen)
+   */
+  getUnitPrice(item: CartItem): number {
+    return item.variant ? item.variant.price : item.product.price;
+  }
+
+  getAvailableStock(item: CartItem): number {
+    return item.variant ? item.variant.stock : item.product.stock;
+  }
+
   clearCart(): void {
     this.cart = {
       items: [],
       totalItems: 0,
       totalPrice: 0
     };
+    this.unresolvedItems = [];
+    this.changesSubject.next([]);
     this.saveCart().catch(err => console.error('Failed to persist cart:', err));
   }
 
@@ -171,4 +358,217 @@ export class CartService {
   getTotalPrice(): number {
     return this.cart.totalPrice;
   }
+
+  private findItem(productId: string, variantId?: string): CartItem | undefined {
+    return this.cart.items.find(item => item.product.id === productId && item.variant?.id === variantId);
+  }
+
+  /**
+   * Rebuild the cart from stored lines and freshly fetched products
+   */
+  private async refresh(stored: StoredCartItem[], source: CartUpdateSource): Promise<CartChange[]> {
+    const version = this.version;
+
+    // undefined: the product is gone; null: it could not be fetched right now
+    const products = stored.length === 0 ? [] : await firstValueFrom(forkJoin(stored.map(line =>
+      this.productService.getProductById(line.productId).pipe(
+        map(product => product && product.isActive !== false ? product : undefined),
+        catchError(() => of(null))
+      )
+    )));
+
+    // The buyer changed the cart while products were loading; theirs is newer
+    if (version !== this.version) {
+      return [];
+    }
+
+    const items: CartItem[] = [];
+    const changes: CartChange[] = [];
+    this.unresolvedItems = [];
+
+    stored.forEach((line, index) => {
+      const product = products[index];
+      if (product === null) {
+        this.unresolvedItems.push(line);
+        return;
+      }
+
+      const result = this.reconcile(line, product);
+      changes.push(...result.changes);
+      if (result.item) {
+        items.push(result.item);
+      }
+    });
+
+    this.cart.items = items;
+    this.calculateTotals();
+    await this.saveCart(source);
+
+    // The tab that made the change has already told the buyer
+    if (changes.length > 0 && source !== 'tab') {
+      this.changesSubject.next(changes);
+    }
+    return changes;
+  }
+
+  /**
+   * Compare one stored line with the live product
+   * Returns the cart line to keep (if any) and what changed
+   */
+  private reconcile(line: StoredCartItem, product: Product | undefined): { item?: CartItem; changes: CartChange[] } {
+    const change = (type: CartChange['type'], message: string): CartChange =>
+      ({ productId: line.productId, variantId: line.variantId, type, message });
+
+    if (!product) {
+      return { changes: [change('removed', 'An item in your cart is no longer sold and was removed.')] };
+    }
+
+    const variant = VariantUtil.find(product, line.variantId);
+    if (VariantUtil.hasVariants(product) ? !variant : line.variantId) {
+      return { changes: [change('removed', `The option you chose for ${product.name} is no longer sold and was removed.`)] };
+    }
+
+    const name = variant ? `${product.name} (${VariantUtil.label(variant)})` : product.name;
+    const stock = variant ? variant.stock : product.stock;
+    const price = variant ? variant.price : product.price;
+
+    if (stock <= 0) {
+      return { changes: [change('removed', `${name} is out of stock and was removed.`)] };
+    }
+
+    const changes: CartChange[] = [];
+    let quantity = line.quantity;
+
+    if (quantity > stock) {
+      changes.push(change('quantity', `Only ${stock} of ${name} left - quantity reduced from ${quantity} to ${stock}.`));
+      quantity = stock;
+    }
+
+    if (line.price !== undefined && Math.abs(line.price - price) >= 0.005) {
+      const direction = price > line.price ? 'went up' : 'dropped';
+      changes.push(change('price', `The price of ${name} ${direction} from $${line.price.toFixed(2)} to $${price.toFixed(2)}.`));
+    }
+
+    return {
+      item: variant ? { product, variant, quantity } : { product, quantity },
+      changes
+    };
+  }
+
+  /**
+   * Follow sign-ins and sign-outs (changes of the signed-in account)
+   */
+  private watchSignIn(): void {
+    this.authService.currentUser$.pipe(
+      map(user => user?.id),
+      distinctUntilChanged(),
+      pairwise()
+    ).subscribe(([previousId, userId]) => {
+      if (userId) {
+        this.syncWithAccount(userId);
+      } else if (previousId) {
+        this.clearForSignOut();
+      }
+    });
+  }
+
+  /**
+   * Bring the account cart into this browser
+   * A signed-out cart is merged into it; a cart already synced with an account
+   * is replaced by it, since the account copy is the newer one.
+   */
+  private async syncWithAccount(userId: string): Promise<void> {
+    await this.ready;
+    if (this.authService.isDemoMode()) {
+      // Demo accounts live in this browser only
+      return;
+    }
+
+    try {
+      const version = this.version;
+      let response = await firstValueFrom(this.ownerId === undefined
+        ? this.mergeRequest()
+        : this.http.get<ApiResponse<ApiCart>>(this.apiUrl));
+
+      if (version !== this.version) {
+        // Changed while loading - merging again is safe, it never doubles quantities
+        response = await firstValueFrom(this.mergeRequest());
+      }
+
+      this.ownerId = userId;
+      await this.refresh(response.data.items.map(item => this.fromApiItem(item)), 'sync');
+    } catch (error) {
+      console.error('Error syncing cart with your account:', error);
+    }
+  }
+
+  private mergeRequest(): Observable<ApiResponse<ApiCart>> {
+    const items = this.storedItems().map(item => this.toApiItem(item));
+    return this.http.post<ApiResponse<ApiCart>>(`${this.apiUrl}/merge`, { items });
+  }
+
+  /**
+   * The cart belongs to the account, so it does not stay behind after sign-out
+   */
+  private clearForSignOut(): void {
+    this.cart = { items: [], totalItems: 0, totalPrice: 0 };
+    this.unresolvedItems = [];
+    this.ownerId = undefined;
+    this.changesSubject.next([]);
+    this.saveCart('sync').catch(err => console.error('Failed to persist cart:', err));
+  }
+
+  /**
+   * Send a change the buyer made to their account cart
+   * A cart edited while signed out is no longer the account's; it is merged at the next sign-in.
+   */
+  private pushToAccount(items: StoredCartItem[]): void {
+    const userId = this.authService.getCurrentUser()?.id;
+    if (!userId || this.authService.isDemoMode()) {
+      this.ownerId = undefined;
+      return;
+    }
+
+    // Not synced yet: the pending sign-in sync will merge this change
+    if (this.ownerId === userId) {
+      this.pushQueue.next(items.map(item => this.toApiItem(item)));
+    }
+  }
+
+  /**
+   * Another tab changed the cart (it has already saved it)
+   */
+  private receiveFromTab(savedCart: StoredCart): void {
+    this.ownerId = savedCart.userId;
+    this.refresh(savedCart.items.map(item => this.toStoredItem(item)), 'tab')
+      .catch(error => console.error('Error updating cart from another tab:', error));
+  }
+
+  private storedItems(): StoredCartItem[] {
+    return [...this.cart.items.map(item => this.toStoredItem(item)), ...this.unresolvedItems];
+  }
+
+  private toApiItem(item: StoredCartItem): ApiCartItem {
+    return { product: item.productId, variant: item.variantId, quantity: item.quantity, price: item.price };
+  }
+
+  private fromApiItem(item: ApiCartItem): StoredCartItem {
+    return { productId: item.product, variantId: item.variant, quantity: item.quantity, price: item.price };
+  }
+
+  /**
+   * Storage shape of a cart line (older carts stored whole CartItems)
+   */
+  private toStoredItem(item: StoredCartItem | CartItem): StoredCartItem {
+    if ('productId' in item) {
+      return item;
+    }
+
+    return {
+      productId: item.product.id,
+      variantId: item.variant?.id,
+      quantity: item.quantity,
+      price: this.getUnitPrice(item)
+    };
+  }
 }
@@ -0,0 +1,116 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import { Coupon } from '../models/coupon.model';
+import { ApiResponse } from '../models/api.model';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { OrderService } from './order.service';
+
+/**
+ * Coupon shape returned by POST /api/coupons/validate
+ */
+interface ApiCoupon extends Omit<Coupon, 'sellerId' | 'productIds' | 'expiresAt'> {
+  seller?: string;
+  products?: string[];
+  expiresAt?: string;
+}
+
+/**
+ * Demo coupons (same codes as the backend seed data)
+ */
+const DEMO_COUPONS: (Coupon & { perUserLimit: number })[] = [
+  {
+    code: 'WELCOME10',
+    description: '10% off your order',
+    type: 'percentage',
+    value: 10,
+    perUserLimit: 1
+  },
+  {
+    code: 'BUNDLE3',
+    description: 'Buy 2 bundles, get the 3rd free',
+    type: 'bogo',
+    value: 100,
+    buyQuantity: 2,
+    getQuantity: 1,
+    categories: ['virgin-hair', 'remy-hair'],
+    perUserLimit: 3
+  },
+  {
+    code: 'CLOSURE15',
+    description: '$15 off closures and frontals over $100',
+    type: 'fixed',
+    value: 15,
+    categories: ['closure', 'frontal'],
+    minSubtotal: 100,
+    perUserLimit: 1
+  }
+];
+
+/**
+ * Coupon Service with Dual Mode Support
+ * Looks up a code the buyer entered and checks they may use it (active, not
+ * expired, usage limits). The discount itself is worked out by PromotionUtil.
+ *
+ * API mode: POST /api/coupons/validate (orders recompute the discount server-side)
+ * Demo mode: built-in demo coupons; usage is counted from the buyer's demo orders
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CouponService {
+  private readonly apiUrl = `${environment.apiUrl}/coupons`;
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private orderService: OrderService
+  ) {}
+
+  /**
+   * Find a usable coupon by code
+   * Errors are { status, message } with a message the buyer can read
+   */
+  findCoupon(code: string): Observable<Coupon> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return throwError(() => ({ status: 401, message: 'Log in to use a coupon code' }));
+    }
+
+    const normalized = code.trim().toUpperCase();
+
+    return this.authService.whenBackend(
+      () => this.http.post<ApiResponse<ApiCoupon>>(`${this.apiUrl}/validate`, { code: normalized }).pipe(
+        map(response => this.fromApi(response.data))
+      ),
+      () => this.orderService.getOrdersByUserId(user.id).pipe(
+        switchMap(orders => {
+          const coupon = DEMO_COUPONS.find(c => c.code === normalized);
+          if (!coupon) {
+            return throwError(() => ({ status: 400, message: 'This coupon code is not valid' }));
+          }
+
+          const uses = orders.filter(o => o.couponCode === coupon.code && o.orderStatus !== 'cancelled').length;
+          if (uses >= coupon.perUserLimit) {
+            return throwError(() => ({ status: 400, message: `You have already used coupon ${coupon.code}` }));
+          }
+
+          const { perUserLimit, ...rules } = coupon;
+          return of(rules);
+        })
+      )
+    );
+  }
+
+  private fromApi(apiCoupon: ApiCoupon): Coupon {
+    const { seller, products, expiresAt, ...rules } = apiCoupon;
+    return {
+      ...rules,
+      sellerId: seller,
+      productIds: products,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined
+    };
+  }
+}
@@ -0,0 +1,257 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { BehaviorSubject, firstValueFrom } from 'rxjs';
+import { OrderService } from './order.service';
+import { AuthService } from './auth.service';
+import { ProductService } from './product.service';
+import { SecureStorageService } from './secure-storage.service';
+import { Order } from '../models/order.model';
+import { User } from '../models/user.model';
+
+describe('OrderService', () => {
+  let service: OrderService;
+  let httpMock: HttpTestingController;
+  let secureStorage: jasmine.SpyObj<SecureStorageService>;
+  let productService: jasmine.SpyObj<ProductService>;
+  let demoMode: BehaviorSubject<boolean>;
+  let currentUser: BehaviorSubject<User | null>;
+
+  const address = {
+    street: '123 Main St',
+    city: 'New York',
+    state: 'NY',
+    zipCode: '10001',
+    country: 'USA'
+  };
+
+  const buildOrder = (overrides: Partial<Order> = {}): Order => ({
+    id: 'ORD-1',
+    userId: '1',
+    userEmail: 'buyer@example.com',
+    userName: 'Demo Buyer',
+    items: [{
+      productId: '1',
+      productName: 'Brazilian Straight Hair Bundle',
+      productImage: 'image.jpg',
+      price: 89.99,
+      quantity: 1,
+      subtotal: 89.99
+    }],
+    shippingAddress: address,
+    billingAddress: address,
+    subtotal: 89.99,
+    shipping: 0,
+    tax: 0,
+    total: 89.99,
+    paymentMethod: 'mock',
+    paymentStatus: 'pending',
+    orderStatus: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    demoMode = new BehaviorSubject<boolean>(true);
+    currentUser = new BehaviorSubject<User | null>(null);
+
+    secureStorage = jasmine.createSpyObj<SecureStorageService>('SecureStorageService', ['getItem', 'setItem', 'removeItem']);
+    secureStorage.getItem.and.resolveTo(null);
+    secureStorage.setItem.and.resolveTo();
+    secureStorage.removeItem.and.resolveTo();
+
+    productService = jasmine.createSpyObj<ProductService>('ProductService', ['reserveDemoStock', 'releaseDemoStock']);
+    productService.reserveDemoStock.and.returnValue({ success: true, message: 'Stock reserved' });
+
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        OrderService,
+        {
+          provide: AuthService,
+          useValue: {
+            demoMode$: demoMode.asObservable(),
+            currentUser$: currentUser.asObservable(),
+            whenBackend: <T>(api: () => T, demo: () => T) => demoMode.value ? demo() : api()
+          }
+        },
+        { provide: SecureStorageService, useValue: secureStorage },
+        { provide: ProductService, useValue: productService }
+      ]
+    });
+
+    service = TestBed.inject(OrderService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  describe('demo mode', () => {
+    it('should keep orders in encrypted storage and reserve demo stock', async () => {
+      const order = await service.saveOrder(buildOrder());
+
+      expect(order.reservedUntil).toBeDefined();
+      expect(productService.reserveDemoStock).toHaveBeenCalledWith(order.items);
+      expect(secureStorage.setItem).toHaveBeenCalledWith('encrypted_orders', [order]);
+    });
+
+    it('should not upload demo orders when a user signs in with the backend reachable', async () => {
+      await service.saveOrder(buildOrder());
+
+      demoMode.next(false);
+      currentUser.next({ id: 'server-user', email: 'buyer@example.com', firstName: 'Demo', lastName: 'Buyer', role: 'buyer' } as User);
+      await new Promise(resolve => setTimeout(resolve));
+
+      httpMock.expectNone(request => request.method === 'POST' && request.url.endsWith('/orders'));
+    });
+
+    it('should remove the upload queue left by earlier versions', () => {
+      expect(secureStorage.removeItem).toHaveBeenCalledWith('encrypted_pending_orders');
+    });
+  });
+
+  describe('API mode', () => {
+    it('should post only product IDs and quantities and keep the order the server returns', async () => {
+      demoMode.next(false);
+
+      const result = service.saveOrder(buildOrder());
+      await new Promise(resolve => setTimeout(resolve));
+
+      const req = httpMock.expectOne(request => request.url.endsWith('/orders'));
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body.items).toEqual([{ product: '1', variant: undefined, quantity: 1 }]);
+      req.flush({ success: true, data: { _id: 'server-order', user: 'server-user', items: [], createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() } });
+
+      const saved = await result;
+      expect(saved.id).toBe('server-order');
+      expect(productService.reserveDemoStock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buyer cancellation', () => {
+    it('should allow cancelling only before the order ships', () => {
+      const statuses: Order['orderStatus'][] = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+      expect(statuses.map(orderStatus => service.canCancelOrder(buildOrder({ orderStatus }))))
+        .toEqual([true, true, false, false, false]);
+    });
+
+    it('should tell buyers of paid orders they will be refunded', () => {
+      expect(service.cancelConfirmation(buildOrder({ orderNumber: 'ORD-7' }))).toBe('Cancel order ORD-7?');
+      expect(service.cancelConfirmation(buildOrder({ orderNumber: 'ORD-7', paymentStatus: 'paid' })))
+        .toBe('Cancel order ORD-7? Your payment of $89.99 will be refunded to your card.');
+    });
+
+    it('should refund a paid demo order and put its stock back', async () => {
+      const order = await service.saveOrder(buildOrder({ paymentStatus: 'paid', orderStatus: 'processing' }));
+
+      const result = await service.cancelOrder(order.id);
+
+      expect(result.success).toBeTrue();
+      expect(order.orderStatus).toBe('cancelled');
+      expect(order.paymentStatus).toBe('refunded');
+      expect(productService.releaseDemoStock).toHaveBeenCalledWith(order.items);
+    });
+
+    it('should refuse to cancel a demo order that has shipped', async () => {
+      const order = await service.saveOrder(buildOrder({ paymentStatus: 'paid', orderStatus: 'shipped' }));
+
+      const result = await service.cancelOrder(order.id);
+
+      expect(result).toEqual({ success: false, message: 'Cannot cancel an order that is shipped' });
+      expect(productService.releaseDemoStock).not.toHaveBeenCalled();
+    });
+
+    it("should list only the buyer's own demo orders", async () => {
+      await service.saveOrder(buildOrder({ id: 'ORD-1', paymentStatus: 'paid' }));
+      await service.saveOrder(buildOrder({ id: 'ORD-2', userId: '2', paymentStatus: 'paid' }));
+
+      const orders = await firstValueFrom(service.getOrdersByUserId('1'));
+
+      expect(orders.map(order => order.id)).toEqual(['ORD-1']);
+    });
+
+    it("should show the server's reason when it refuses a cancellation", async () => {
+      demoMode.next(false);
+
+      const result = service.cancelOrder('server-order');
+      await new Promise(resolve => setTimeout(resolve));
+
+      httpMock.expectOne(request => request.url.endsWith('/orders/server-order/cancel'))
+        .flush({ message: 'Cannot cancel order that has been shipped or delivered' }, { status: 400, statusText: 'Bad Request' });
+
+      expect((await result).success).toBeFalse();
+    });
+  });
+
+  describe('seller fulfilment', () => {
+    it("should list only demo orders containing the seller's products", async () => {
+      await service.saveOrder(buildOrder({ id: 'ORD-1', paymentStatus: 'paid' }));
+      await service.saveOrder(buildOrder({
+        id: 'ORD-2',
+        paymentStatus: 'paid',
+        items: [{ productId: '5', productName: 'Kinky Straight', productImage: 'image.jpg', price: 99.99, quantity: 1, subtotal: 99.99 }]
+      }));
+
+      const orders = await firstValueFrom(service.getOrdersForProducts(['5', '6']));
+
+      expect(orders.map(order => order.id)).toEqual(['ORD-2']);
+    });
+
+    it('should send the tracking number and delivery estimate when shipping', async () => {
+      demoMode.next(false);
+      const estimatedDelivery = new Date('2026-11-02T00:00:00Z');
+
+      const result = service.updateOrderStatus('server-order', 'shipped', { trackingNumber: '1Z999', estimatedDelivery });
+      await new Promise(resolve => setTimeout(resolve));
+
+      const req = httpMock.expectOne(request => request.url.endsWith('/orders/server-order/status'));
+      expect(req.request.method).toBe('PUT');
+      expect(req.request.body).toEqual({
+        status: 'shipped',
+        trackingNumber: '1Z999',
+        estimatedDelivery: '2026-11-02T00:00:00.000Z'
+      });
+      req.flush({ message: 'Not authorized to update this order' }, { status: 403, statusText: 'Forbidden' });
+
+      await expectAsync(result).toBeRejected();
+    });
+  });
+
+  describe('admin actions', () => {
+    const apiOrder = (overrides: object) => ({
+      _id: 'server-order',
+      user: 'server-user',
+      items: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      ...overrides
+    });
+
+    it('should force-cancel through the admin endpoint with the reason given', async () => {
+      const result = service.forceCancelOrder('server-order', 'Fraudulent order');
+
+      const req = httpMock.expectOne(request => request.url.endsWith('/admin/orders/server-order/cancel'));
+      expect(req.request.method).toBe('PUT');
+      expect(req.request.body).toEqual({ reason: 'Fraudulent order' });
+      req.flush({ success: true, data: apiOrder({ orderStatus: 'cancelled' }) });
+
+      expect((await result).orderStatus).toBe('cancelled');
+    });
+
+    it('should refund through the admin endpoint and keep the refunded order', async () => {
+      const result = service.refundOrder('server-order', 'Damaged in transit');
+
+      const req = httpMock.expectOne(request => request.url.endsWith('/admin/orders/server-order/refund'));
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual({ reason: 'Damaged in transit' });
+      req.flush({ success: true, data: apiOrder({ orderStatus: 'cancelled', paymentStatus: 'refunded' }) });
+
+      expect((await result).paymentStatus).toBe('refunded');
+      const cached = await firstValueFrom(service.orders$);
+      expect(cached.find(order => order.id === 'server-order')?.paymentStatus).toBe('refunded');
+    });
+  });
+});
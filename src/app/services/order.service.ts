@@ -1,17 +1,68 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, of } from 'rxjs';
-import { Order } from '../models/order.model';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable, firstValueFrom, of, throwError } from 'rxjs';
+import { map, tap, catchError } from 'rxjs/operators';
+import { Order, OrderItem } from '../models/order.model';
 import { Cart } from '../models/cart.model';
-import { User } from '../models/user.model';
+import { Address, User } from '../models/user.model';
+import { TaxLine } from '../models/tax.model';
+import { ShippingMethod, ShippingOption } from '../models/shipping.model';
+import { ApiListResponse, ApiResponse } from '../models/api.model';
 import { ValidationUtil } from '../utils/validation.util';
+import { AddressFormatUtil } from '../utils/address-format.util';
+import { VariantUtil } from '../utils/variant.util';
+import { ErrorUtil } from '../utils/error.util';
+import { environment } from '../../environments/environment';
 import { SecureStorageService } from './secure-storage.service';
+import { AuthService } from './auth.service';
+import { ProductService } from './product.service';
 
 /**
- * Order Service
+ * Order shape returned by the backend (Mongoose document)
+ */
+interface ApiOrder {
+  _id: string;
+  orderNumber: string;
+  user: string | { _id: string };
+  userEmail: string;
+  userName: string;
+  items: Array<Omit<OrderItem, 'productId' | 'variantId'> & { product: string | { _id: string }; variant?: string }>;
+  shippingAddress: Address;
+  billingAddress: Address;
+  subtotal: number;
+  discount?: number;
+  couponCode?: string;
+  shipping: number;
+  shippingMethod?: ShippingMethod;
+  tax: number;
+  taxBreakdown?: TaxLine[];
+  taxExempt?: boolean;
+  total: number;
+  paymentMethod: string;
+  paymentStatus: Order['paymentStatus'];
+  transactionId?: string;
+  paidAt?: string;
+  reservedUntil?: string;
+  orderStatus: Order['orderStatus'];
+  createdAt: string;
+  updatedAt: string;
+  earliestDelivery?: string;
+  estimatedDelivery?: string;
+  trackingNumber?: string;
+}
+
+/**
+ * Order Service with Dual Mode Support
  * Manages order creation and history
  *
- * SECURITY: Orders now use encrypted storage (SecureStorageService) to protect customer PII
- * NOTE: In production, orders should be stored server-side only
+ * API mode: orders are stored server-side through /api/orders
+ * Demo mode: orders use encrypted storage (SecureStorageService) to protect customer PII.
+ * They stay in this browser: they reference demo users and demo catalog products that the
+ * backend doesn't know, so they are never uploaded to it.
+ *
+ * Unpaid orders hold their items' stock for a limited time: paying commits the
+ * reservation, while a failed payment, cancellation or timeout releases it.
+ * The backend does this in API mode; demo mode mirrors it against the demo catalog.
  */
 @Injectable({
   providedIn: 'root'
@@ -21,10 +72,26 @@ export class OrderService {
   orders$ = this.ordersSubject.asObservable();
 
   private orders: Order[] = [];
+  private readonly apiUrl = `${environment.apiUrl}/orders`;
+  private readonly adminUrl = `${environment.apiUrl}/admin/orders`;
   private readonly ORDERS_KEY = 'encrypted_orders';
+  // Upload queue written by earlier versions, which tried to send demo orders to the backend
+  private readonly PENDING_ORDERS_KEY = 'encrypted_pending_orders';
+  private readonly CHECKOUT_SESSION_KEY = 'checkout_session';
+
+  // Demo mode reservations; matches the backend's default RESERVATION_TTL_MINUTES
+  private readonly RESERVATION_TTL_MS = 15 * 60 * 1000;
+  private releaseTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
-  constructor(private secureStorage: SecureStorageService) {
+  constructor(
+    private http: HttpClient,
+    private secureStorage: SecureStorageService,
+    private authService: AuthService,
+    private productService: ProductService
+  ) {
     this.loadOrders();
+    this.secureStorage.removeItem(this.PENDING_ORDERS_KEY)
+      .catch(err => console.error('Failed to remove the old order upload queue:', err));
   }
 
   /**
@@ -37,6 +104,7 @@ export class OrderService {
       if (savedOrders && Array.isArray(savedOrders)) {
         this.orders = savedOrders;
         this.ordersSubject.next(this.orders);
+        await this.closeStaleReservations();
       }
     } catch (error) {
       console.error('Error loading orders from secure storage:', error);
@@ -61,6 +129,10 @@ export class OrderService {
     }
   }
 
+  private isDemoMode(): Promise<boolean> {
+    return firstValueFrom(this.authService.demoMode$);
+  }
+
   /**
    * Create a new order
    */
@@ -72,8 +144,13 @@ export class OrderService {
     paymentMethod: string,
     orderTotal: {
       subtotal: number;
+      discount: number;
       shipping: number;
+      shippingMethod?: ShippingMethod;
+      estimatedDelivery?: ShippingOption['estimatedDelivery'];
       tax: number;
+      taxBreakdown: TaxLine[];
+      taxExempt: boolean;
       total: number;
     }
   ): Order {
@@ -82,47 +159,83 @@ export class OrderService {
       userId: user.id,
       userEmail: user.email,
       userName: `${user.firstName} ${user.lastName}`,
-      items: cart.items.map(item => ({
-        productId: item.product.id,
-        productName: item.product.name,
-        productImage: item.product.imageUrl,
-        price: item.product.price,
-        quantity: item.quantity,
-        subtotal: item.product.price * item.quantity
-      })),
+      items: cart.items.map((item, index) => {
+        const price = item.variant ? item.variant.price : item.product.price;
+        const discount = cart.discount?.lineDiscounts[index] ?? 0;
+        return {
+          productId: item.product.id,
+          variantId: item.variant?.id,
+          variantLabel: item.variant ? VariantUtil.label(item.variant) : undefined,
+          productName: item.product.name,
+          productImage: item.variant?.imageUrl || item.product.imageUrl,
+          price,
+          quantity: item.quantity,
+          subtotal: price * item.quantity,
+          discount: discount > 0 ? discount : undefined
+        };
+      }),
       shippingAddress: {
         street: shippingAddress.street,
         city: shippingAddress.city,
         state: shippingAddress.state,
         zipCode: shippingAddress.zipCode,
-        country: shippingAddress.country || 'USA'
+        country: shippingAddress.country || AddressFormatUtil.DEFAULT_COUNTRY,
+        phone: shippingAddress.phone || undefined
       },
       billingAddress: {
         street: billingAddress.street,
         city: billingAddress.city,
         state: billingAddress.state,
         zipCode: billingAddress.zipCode,
-        country: billingAddress.country || 'USA'
+        country: billingAddress.country || AddressFormatUtil.DEFAULT_COUNTRY,
+        phone: billingAddress.phone || undefined
       },
       subtotal: orderTotal.subtotal,
+      discount: orderTotal.discount > 0 ? orderTotal.discount : undefined,
+      couponCode: orderTotal.discount > 0 ? cart.coupon?.code : undefined,
       shipping: orderTotal.shipping,
+      shippingMethod: orderTotal.shippingMethod,
       tax: orderTotal.tax,
+      taxBreakdown: orderTotal.taxBreakdown,
+      taxExempt: orderTotal.taxExempt || undefined,
       total: orderTotal.total,
       paymentMethod: paymentMethod,
       paymentStatus: 'pending',
       orderStatus: 'pending',
       createdAt: new Date(),
-      updatedAt: new Date()
+      updatedAt: new Date(),
+      earliestDelivery: orderTotal.estimatedDelivery?.earliest,
+      estimatedDelivery: orderTotal.estimatedDelivery?.latest
     };
 
     return order;
   }
 
   /**
-   * Save order after successful payment
-   * SECURITY: Now uses encrypted storage to protect customer data
+   * Save an order, taking its items out of stock
+   * Unpaid orders only reserve the stock until they are paid, released or time out.
+   * Rejects with status 409 if an item has sold out since it was added to the cart.
+   *
+   * API mode: the server re-prices the items and returns the stored order (with its own ID)
+   * Demo mode: uses encrypted storage only
    */
   async saveOrder(order: Order): Promise<Order> {
+    if (!(await this.isDemoMode())) {
+      const savedOrder = await firstValueFrom(this.postOrder(order));
+      this.cacheOrder(savedOrder);
+      return savedOrder;
+    }
+
+    const reservation = this.productService.reserveDemoStock(order.items);
+    if (!reservation.success) {
+      throw { status: 409, message: reservation.message };
+    }
+
+    if (order.paymentStatus !== 'paid') {
+      order.reservedUntil = new Date(Date.now() + this.RESERVATION_TTL_MS);
+      this.scheduleRelease(order);
+    }
+
     this.orders.push(order);
     await this.saveOrders();
     return order;
@@ -130,9 +243,23 @@ export class OrderService {
 
   /**
    * Update order payment status
-   * SECURITY: Uses encrypted storage
+   * Paying commits the stock reservation; a failed payment cancels the order and
+   * releases it, so trying again means placing a new order.
+   *
+   * API mode: the server verifies the transaction with Stripe before marking the order paid
+   * Demo mode: uses encrypted storage
    */
   async updatePaymentStatus(orderId: string, status: 'pending' | 'paid' | 'failed', transactionId?: string): Promise<Order | undefined> {
+    if (!(await this.isDemoMode())) {
+      const updatedOrder = await firstValueFrom(
+        this.http.put<ApiResponse<ApiOrder>>(`${this.apiUrl}/${orderId}/payment`, { status, transactionId }).pipe(
+          map(response => this.fromApi(response.data))
+        )
+      );
+      this.cacheOrder(updatedOrder);
+      return updatedOrder;
+    }
+
     const order = this.orders.find(o => o.id === orderId);
 
     if (order) {
@@ -146,6 +273,12 @@ export class OrderService {
       if (status === 'paid') {
         order.orderStatus = 'processing';
         order.paidAt = new Date();
+        order.reservedUntil = undefined;
+        this.clearReleaseTimer(order.id);
+      }
+
+      if (status === 'failed') {
+        await this.releaseReservation(order);
       }
 
       await this.saveOrders();
@@ -159,47 +292,373 @@ export class OrderService {
    * Get order by ID
    */
   getOrderById(orderId: string): Observable<Order | undefined> {
-    const order = this.orders.find(o => o.id === orderId);
-    return of(order);
+    return this.authService.whenBackend(
+      () => this.http.get<ApiResponse<ApiOrder>>(`${this.apiUrl}/${orderId}`).pipe(
+        map(response => this.fromApi(response.data)),
+        catchError(error => {
+          // Unknown or malformed IDs resolve to "not found"
+          if (error?.status === 404 || error?.status === 400) {
+            return of(undefined);
+          }
+          return throwError(() => error);
+        })
+      ),
+      () => of(this.orders.find(o => o.id === orderId))
+    );
   }
 
   /**
    * Get orders by user ID
+   * The API already scopes GET /orders to the signed-in user (admins receive every order)
    */
   getOrdersByUserId(userId: string): Observable<Order[]> {
-    const userOrders = this.orders.filter(o => o.userId === userId);
-    return of(userOrders);
+    return this.authService.whenBackend(
+      () => this.fetchOrders().pipe(
+        map(orders => orders.filter(o => o.userId === userId))
+      ),
+      () => of(this.orders.filter(o => o.userId === userId))
+    );
   }
 
   /**
    * Get all orders (for admin)
    */
   getAllOrders(): Observable<Order[]> {
-    return of(this.orders);
+    return this.authService.whenBackend(
+      () => this.fetchOrders(),
+      () => of(this.orders)
+    );
+  }
+
+  /**
+   * Get orders containing any of the given products (for seller fulfillment)
+   * API mode: the server returns orders containing the signed-in seller's products
+   */
+  getOrdersForProducts(productIds: string[]): Observable<Order[]> {
+    const ids = new Set(productIds);
+    const containsProduct = (order: Order) => order.items.some(item => ids.has(item.productId));
+
+    return this.authService.whenBackend(
+      () => this.http.get<ApiListResponse<ApiOrder>>(`${this.apiUrl}/seller`).pipe(
+        map(response => response.data.map(o => this.fromApi(o)).filter(containsProduct))
+      ),
+      () => of(this.orders.filter(containsProduct))
+    );
+  }
+
+  /**
+   * Update fulfillment status (seller/admin)
+   * API mode: the server only allows sellers to move orders processing -> shipped -> delivered
+   * Demo mode: uses encrypted storage
+   */
+  async updateOrderStatus(
+    orderId: string,
+    status: Order['orderStatus'],
+    details: { trackingNumber?: string; estimatedDelivery?: Date } = {}
+  ): Promise<Order | undefined> {
+    if (!(await this.isDemoMode())) {
+      const updatedOrder = await firstValueFrom(
+        this.http.put<ApiResponse<ApiOrder>>(`${this.apiUrl}/${orderId}/status`, {
+          status,
+          trackingNumber: details.trackingNumber,
+          estimatedDelivery: details.estimatedDelivery?.toISOString()
+        }).pipe(
+          map(response => this.fromApi(response.data))
+        )
+      );
+      this.cacheOrder(updatedOrder);
+      return updatedOrder;
+    }
+
+    const order = this.orders.find(o => o.id === orderId);
+
+    if (order) {
+      order.orderStatus = status;
+      order.updatedAt = new Date();
+
+      if (details.trackingNumber) {
+        order.trackingNumber = details.trackingNumber;
+      }
+
+      if (details.estimatedDelivery) {
+        order.estimatedDelivery = details.estimatedDelivery;
+      }
+
+      await this.saveOrders();
+      return order;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Remember the Stripe Checkout Session an order was sent to, for abandonCheckout()
+   * Kept for this browser tab only; a copied or reloaded link has nothing to match.
+   */
+  rememberCheckoutSession(orderId: string, sessionId: string): void {
+    sessionStorage.setItem(`${this.CHECKOUT_SESSION_KEY}_${orderId}`, sessionId);
+  }
+
+  /**
+   * Release an order whose Stripe Checkout the buyer left
+   * The server only releases it while it is unpaid and the session is the one started in this tab.
+   */
+  async abandonCheckout(orderId: string): Promise<{ success: boolean; message: string }> {
+    const key = `${this.CHECKOUT_SESSION_KEY}_${orderId}`;
+    const sessionId = sessionStorage.getItem(key);
+    sessionStorage.removeItem(key);
+
+    if (!sessionId || await this.isDemoMode()) {
+      return { success: false, message: 'No checkout was started for this order here' };
+    }
+
+    try {
+      const order = await firstValueFrom(
+        this.http.put<ApiResponse<ApiOrder>>(`${this.apiUrl}/${orderId}/abandon`, { sessionId }).pipe(
+          map(response => this.fromApi(response.data))
+        )
+      );
+      this.cacheOrder(order);
+      return { success: true, message: 'Order released' };
+    } catch (error) {
+      return { success: false, message: ErrorUtil.message(error, 'Failed to release order') };
+    }
   }
 
   /**
    * Cancel order
-   * SECURITY: Uses encrypted storage
+   * API mode: the server also restores product stock, stops Stripe taking payment for unpaid orders
+   * and refunds paid ones
+   * Demo mode: uses encrypted storage and restores the demo catalog's stock
    */
   async cancelOrder(orderId: string): Promise<{ success: boolean; message: string }> {
+    if (!(await this.isDemoMode())) {
+      try {
+        const cancelledOrder = await firstValueFrom(
+          this.http.put<ApiResponse<ApiOrder>>(`${this.apiUrl}/${orderId}/cancel`, {}).pipe(
+            map(response => this.fromApi(response.data))
+          )
+        );
+        this.cacheOrder(cancelledOrder);
+        return { success: true, message: 'Order cancelled successfully' };
+      } catch (error) {
+        return { success: false, message: ErrorUtil.message(error, 'Failed to cancel order') };
+      }
+    }
+
     const order = this.orders.find(o => o.id === orderId);
 
     if (!order) {
       return { success: false, message: 'Order not found' };
     }
 
-    if (order.orderStatus === 'shipped' || order.orderStatus === 'delivered') {
-      return { success: false, message: 'Cannot cancel order that has been shipped' };
+    if (!this.canCancelOrder(order)) {
+      return { success: false, message: `Cannot cancel an order that is ${order.orderStatus}` };
     }
 
     order.orderStatus = 'cancelled';
+    if (order.paymentStatus === 'paid') {
+      order.paymentStatus = 'refunded';
+    }
     order.updatedAt = new Date();
+    order.reservedUntil = undefined;
+    this.clearReleaseTimer(orderId);
+    this.productService.releaseDemoStock(order.items);
     await this.saveOrders();
 
     return { success: true, message: 'Order cancelled successfully' };
   }
 
+  /**
+   * Cancel an order whatever its fulfillment status (admin only)
+   * Demo mode has no admin accounts, so this requires the backend
+   */
+  async forceCancelOrder(orderId: string, reason?: string): Promise<Order> {
+    const cancelledOrder = await firstValueFrom(
+      this.http.put<ApiResponse<ApiOrder>>(`${this.adminUrl}/${orderId}/cancel`, { reason }).pipe(
+        map(response => this.fromApi(response.data))
+      )
+    );
+    this.cacheOrder(cancelledOrder);
+    return cancelledOrder;
+  }
+
+  /**
+   * Refund a paid order in full (admin only)
+   */
+  async refundOrder(orderId: string, reason?: string): Promise<Order> {
+    const refundedOrder = await firstValueFrom(
+      this.http.post<ApiResponse<ApiOrder>>(`${this.adminUrl}/${orderId}/refund`, { reason }).pipe(
+        map(response => this.fromApi(response.data))
+      )
+    );
+    this.cacheOrder(refundedOrder);
+    return refundedOrder;
+  }
+
+  /**
+   * Buyers can cancel until the order ships
+   */
+  canCancelOrder(order: Order): boolean {
+    return order.orderStatus === 'pending' || order.orderStatus === 'processing';
+  }
+
+  /**
+   * Question asked before a buyer cancels; paid orders are refunded in full
+   */
+  cancelConfirmation(order: Order): string {
+    const question = `Cancel order ${order.orderNumber || order.id}?`;
+    return order.paymentStatus === 'paid'
+      ? `${question} Your payment of $${order.total.toFixed(2)} will be refunded to your card.`
+      : question;
+  }
+
+  /**
+   * Release the stock of a demo order that was never paid when its reservation runs out
+   */
+  private scheduleRelease(order: Order): void {
+    this.clearReleaseTimer(order.id);
+
+    const delay = new Date(order.reservedUntil!).getTime() - Date.now();
+    this.releaseTimers.set(order.id, setTimeout(async () => {
+      this.releaseTimers.delete(order.id);
+      if (await this.releaseReservation(order)) {
+        await this.saveOrders();
+      }
+    }, Math.max(delay, 0)));
+  }
+
+  private clearReleaseTimer(orderId: string): void {
+    clearTimeout(this.releaseTimers.get(orderId));
+    this.releaseTimers.delete(orderId);
+  }
+
+  /**
+   * Cancel an unpaid demo order and put its stock back (the caller saves)
+   */
+  private async releaseReservation(order: Order): Promise<boolean> {
+    if (order.paymentStatus === 'paid' || order.orderStatus !== 'pending') {
+      return false;
+    }
+
+    this.clearReleaseTimer(order.id);
+    order.orderStatus = 'cancelled';
+    order.reservedUntil = undefined;
+    order.updatedAt = new Date();
+    this.productService.releaseDemoStock(order.items);
+    return true;
+  }
+
+  /**
+   * Close reservations left over from an earlier visit
+   * The demo catalog starts at full stock on every page load, so only the orders need closing.
+   */
+  private async closeStaleReservations(): Promise<void> {
+    const stale = this.orders.filter(o => o.reservedUntil && o.paymentStatus !== 'paid' && o.orderStatus === 'pending');
+    if (stale.length === 0) {
+      return;
+    }
+
+    for (const order of stale) {
+      order.orderStatus = 'cancelled';
+      order.reservedUntil = undefined;
+      order.updatedAt = new Date();
+    }
+    await this.saveOrders();
+  }
+
+  /**
+   * POST an order to the API
+   * Only product IDs and quantities are sent - the server looks up current prices
+   */
+  private postOrder(order: Order): Observable<Order> {
+    return this.http.post<ApiResponse<ApiOrder>>(this.apiUrl, {
+      items: order.items.map(item => ({
+        product: item.productId,
+        variant: item.variantId,
+        quantity: item.quantity
+      })),
+      shippingAddress: order.shippingAddress,
+      billingAddress: order.billingAddress,
+      paymentMethod: order.paymentMethod,
+      couponCode: order.couponCode,
+      shippingService: order.shippingMethod?.service
+    }).pipe(
+      map(response => this.fromApi(response.data))
+    );
+  }
+
+  private fetchOrders(): Observable<Order[]> {
+    return this.http.get<ApiListResponse<ApiOrder>>(this.apiUrl).pipe(
+      map(response => response.data.map(o => this.fromApi(o))),
+      tap(orders => {
+        this.orders = orders;
+        this.ordersSubject.next(this.orders);
+      })
+    );
+  }
+
+  /**
+   * Insert or replace an order in the in-memory cache (API mode keeps no local copy)
+   */
+  private cacheOrder(order: Order): void {
+    const index = this.orders.findIndex(o => o.id === order.id);
+    if (index !== -1) {
+      this.orders[index] = order;
+    } else {
+      this.orders.push(order);
+    }
+    this.ordersSubject.next(this.orders);
+  }
+
+  /**
+   * Convert a backend order into the frontend model
+   */
+  private fromApi(apiOrder: ApiOrder): Order {
+    const refId = (ref: string | { _id: string }) => typeof ref === 'string' ? ref : ref?._id ?? '';
+
+    return {
+      id: apiOrder._id,
+      orderNumber: apiOrder.orderNumber,
+      userId: refId(apiOrder.user),
+      userEmail: apiOrder.userEmail,
+      userName: apiOrder.userName,
+      items: apiOrder.items.map(item => ({
+        productId: refId(item.product),
+        variantId: item.variant,
+        variantLabel: item.variantLabel,
+        productName: item.productName,
+        productImage: item.productImage,
+        price: item.price,
+        quantity: item.quantity,
+        subtotal: item.subtotal,
+        discount: item.discount || undefined
+      })),
+      shippingAddress: apiOrder.shippingAddress,
+      billingAddress: apiOrder.billingAddress,
+      subtotal: apiOrder.subtotal,
+      discount: apiOrder.discount || undefined,
+      couponCode: apiOrder.couponCode,
+      shipping: apiOrder.shipping,
+      shippingMethod: apiOrder.shippingMethod,
+      tax: apiOrder.tax,
+      taxBreakdown: apiOrder.taxBreakdown,
+      taxExempt: apiOrder.taxExempt || undefined,
+      total: apiOrder.total,
+      paymentMethod: apiOrder.paymentMethod,
+      paymentStatus: apiOrder.paymentStatus,
+      transactionId: apiOrder.transactionId,
+      paidAt: apiOrder.paidAt ? new Date(apiOrder.paidAt) : undefined,
+      reservedUntil: apiOrder.reservedUntil ? new Date(apiOrder.reservedUntil) : undefined,
+      orderStatus: apiOrder.orderStatus,
+      createdAt: new Date(apiOrder.createdAt),
+      updatedAt: new Date(apiOrder.updatedAt),
+      earliestDelivery: apiOrder.earliestDelivery ? new Date(apiOrder.earliestDelivery) : undefined,
+      estimatedDelivery: apiOrder.estimatedDelivery ? new Date(apiOrder.estimatedDelivery) : undefined,
+      trackingNumber: apiOrder.trackingNumber
+    };
+  }
+
   /**
    * Clear all orders (for testing)
    * SECURITY: Uses encrypted storage
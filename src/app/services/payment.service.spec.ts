@@ -0,0 +1,191 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { firstValueFrom } from 'rxjs';
+import { StripeElements } from '@stripe/stripe-js';
+import { PaymentService } from './payment.service';
+import { AuthService } from './auth.service';
+import { createAuthServiceSpy, useDemoMode } from '../testing/auth-service.stub';
+import { Address } from '../models/user.model';
+import { ShippingOption } from '../models/shipping.model';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let httpMock: HttpTestingController;
+  let authService: jasmine.SpyObj<AuthService>;
+
+  const address: Address = {
+    street: '123 Main St',
+    city: 'New York',
+    state: 'NY',
+    zipCode: '10001',
+    country: 'USA'
+  };
+
+  const checkoutRequest = {
+    orderId: 'order123',
+    items: [{ product: 'prod1', quantity: 2 }],
+    shippingAddress: address,
+    billingAddress: address
+  };
+
+  beforeEach(() => {
+    const authServiceSpy = createAuthServiceSpy();
+
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        PaymentService,
+        { provide: AuthService, useValue: authServiceSpy }
+      ]
+    });
+
+    service = TestBed.inject(PaymentService);
+    httpMock = TestBed.inject(HttpTestingController);
+    authService = TestBed.inject(AuthService) as jasmine.SpyObj<AuthService>;
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  describe('createCheckoutSession', () => {
+    it('should post the order to the payment API and return the session', async () => {
+      const result = firstValueFrom(service.createCheckoutSession(checkoutRequest));
+
+      const req = httpMock.expectOne((request) => request.url.endsWith('/payments/create-checkout-session'));
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body.orderId).toBe('order123');
+      req.flush({ success: true, sessionId: 'cs_test_123', url: 'https://checkout.stripe.com/c/pay/cs_test_123' });
+
+      expect(await result).toEqual({
+        sessionId: 'cs_test_123',
+        url: 'https://checkout.stripe.com/c/pay/cs_test_123'
+      });
+    });
+
+    it('should return the API error message when session creation fails', async () => {
+      const result = firstValueFrom(service.createCheckoutSession(checkoutRequest));
+
+      const req = httpMock.expectOne((request) => request.url.endsWith('/payments/create-checkout-session'));
+      req.flush({ message: 'Order has already been paid' }, { status: 400, statusText: 'Bad Request' });
+
+      const response = await result;
+      expect(response.sessionId).toBeUndefined();
+      expect(response.error).toBeTruthy();
+    });
+
+    it('should not call the API in demo mode', async () => {
+      useDemoMode(authService);
+
+      const response = await firstValueFrom(service.createCheckoutSession(checkoutRequest));
+
+      httpMock.expectNone((request) => request.url.includes('/payments'));
+      expect(response.error).toContain('backend API');
+    });
+  });
+
+  describe('createPaymentIntent', () => {
+    it('should request an intent for the order and return the client secret', async () => {
+      const result = firstValueFrom(service.createPaymentIntent('order123'));
+
+      const req = httpMock.expectOne((request) => request.url.endsWith('/payments/create-payment-intent'));
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual({ orderId: 'order123' });
+      req.flush({ success: true, clientSecret: 'pi_123_secret_456', amount: 9719 });
+
+      expect(await result).toEqual({ clientSecret: 'pi_123_secret_456', amount: 9719 });
+    });
+  });
+
+  describe('confirmCardPayment', () => {
+    const elements = {} as StripeElements;
+
+    const confirmWith = (result: unknown) => {
+      const stripeLoader = service as unknown as { getStripe(): Promise<unknown> };
+      spyOn(stripeLoader, 'getStripe').and.resolveTo({ confirmPayment: () => Promise.resolve(result) });
+      return service.confirmCardPayment('pi_123_secret_456', elements);
+    };
+
+    it('should return the transaction ID of a successful payment', async () => {
+      const result = await confirmWith({ paymentIntent: { id: 'pi_123', status: 'succeeded' } });
+      expect(result).toEqual({ success: true, transactionId: 'pi_123' });
+    });
+
+    it('should report a payment that is still processing without declining it', async () => {
+      const result = await confirmWith({ paymentIntent: { id: 'pi_123', status: 'processing' } });
+      expect(result.success).toBeFalse();
+      expect(result.processing).toBeTrue();
+      expect(result.declined).toBeFalsy();
+    });
+
+    it('should not treat an unfinished authentication as a declined card', async () => {
+      const result = await confirmWith({ paymentIntent: { id: 'pi_123', status: 'requires_action' } });
+      expect(result.success).toBeFalse();
+      expect(result.declined).toBeFalsy();
+      expect(result.processing).toBeFalsy();
+    });
+
+    it('should report a declined card', async () => {
+      const result = await confirmWith({ error: { type: 'card_error', message: 'Your card was declined.' } });
+      expect(result).toEqual({ success: false, declined: true, error: 'Your card was declined.' });
+    });
+
+    it('should not treat a connection error as a declined card', async () => {
+      const result = await confirmWith({ error: { type: 'api_connection_error', message: 'Network error' } });
+      expect(result.declined).toBeFalse();
+    });
+  });
+
+  describe('verifyCheckoutSession', () => {
+    it('should report a paid session', async () => {
+      const result = firstValueFrom(service.verifyCheckoutSession('cs_test_123'));
+
+      const req = httpMock.expectOne((request) => request.url.endsWith('/payments/checkout-session/cs_test_123'));
+      expect(req.request.method).toBe('GET');
+      req.flush({ success: true, paid: true, orderId: 'order123' });
+
+      expect(await result).toEqual({ paid: true, orderId: 'order123' });
+    });
+
+    it('should treat a failed verification as unpaid', async () => {
+      const result = firstValueFrom(service.verifyCheckoutSession('cs_test_123'));
+
+      const req = httpMock.expectOne((request) => request.url.endsWith('/payments/checkout-session/cs_test_123'));
+      req.flush({ message: 'Not authorized' }, { status: 403, statusText: 'Forbidden' });
+
+      const response = await result;
+      expect(response.paid).toBe(false);
+      expect(response.error).toBeTruthy();
+    });
+  });
+
+  describe('calculateOrderTotal', () => {
+    const standard: ShippingOption = {
+      service: 'standard',
+      name: 'Standard',
+      amount: 10,
+      estimatedDelivery: { earliest: new Date(2026, 9, 20), latest: new Date(2026, 9, 21) }
+    };
+
+    it('should take the coupon discount off before tax', () => {
+      // New York City taxes the $90 of items and the $10 shipping at 8.875%
+      const totals = service.calculateOrderTotal(120, 30, { shipping: standard, address });
+
+      expect(totals.subtotal).toBe(120);
+      expect(totals.discount).toBe(30);
+      expect(totals.shipping).toBe(10);
+      expect(totals.tax).toBe(8.88);
+      expect(totals.total).toBe(108.88);
+      expect(totals.taxBreakdown.map(line => line.jurisdiction)).toEqual(['NY', 'NY-100']);
+      expect(totals.shippingMethod).toEqual({ service: 'standard', name: 'Standard' });
+    });
+
+    it('should not charge tax to tax-exempt buyers', () => {
+      const totals = service.calculateOrderTotal(50, 0, { shipping: standard, address, taxExempt: true });
+
+      expect(totals.tax).toBe(0);
+      expect(totals.taxBreakdown).toEqual([]);
+      expect(totals.total).toBe(60);
+    });
+  });
+});
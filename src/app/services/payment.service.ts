@@ -1,152 +1,184 @@
 import { Injectable } from '@angular/core';
-import { loadStripe, Stripe, StripeElements, StripeCardElement } from '@stripe/stripe-js';
+import { HttpClient } from '@angular/common/http';
+import { loadStripe, Stripe, StripeElements } from '@stripe/stripe-js';
 import { environment } from '../../environments/environment';
-import { Observable, from, of } from 'rxjs';
+import { Observable, of } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
+import { Address } from '../models/user.model';
+import { TaxLine } from '../models/tax.model';
+import { ShippingMethod, ShippingOption } from '../models/shipping.model';
+import { AuthService } from './auth.service';
+import { TaxCalculator } from './tax-calculator.service';
 
 /**
  * Payment Service using Stripe
  *
- * IMPORTANT: This demonstrates client-side Stripe integration.
- * In production, you MUST:
- * 1. Create payment intents on your backend server
- * 2. Handle webhooks for payment confirmation
- * 3. Store order data server-side
- * 4. Never expose secret keys client-side
+ * Payment sessions and intents are created by the backend (/api/payments),
+ * which prices the order server-side. Secret keys never reach the browser.
+ * Orders only become paid once the backend has confirmed the payment with Stripe
+ * (webhook or session verification).
  */
 @Injectable({
   providedIn: 'root'
 })
 export class PaymentService {
-  private stripePromise: Promise<Stripe | null>;
-  private stripe: Stripe | null = null;
+  private readonly apiUrl = `${environment.apiUrl}/payments`;
+  private readonly DEMO_MODE_ERROR = 'Stripe payments require the backend API. Use Mock Payment in demo mode.';
 
-  constructor() {
-    this.stripePromise = loadStripe(environment.stripePublishableKey);
-    this.initializeStripe();
-  }
+  // Stripe.js is loaded on first use so pages without payments never fetch it
+  private stripePromise: Promise<Stripe | null> | null = null;
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private taxCalculator: TaxCalculator
+  ) {}
 
-  private async initializeStripe(): Promise<void> {
-    this.stripe = await this.stripePromise;
+  private getStripe(): Promise<Stripe | null> {
+    if (!this.stripePromise) {
+      this.stripePromise = loadStripe(environment.stripePublishableKey).catch(error => {
+        console.error('Failed to load Stripe.js:', error);
+        this.stripePromise = null;
+        return null;
+      });
+    }
+    return this.stripePromise;
   }
 
   /**
-   * Create Stripe Checkout Session
-   * NOTE: In production, this should call your backend API to create the session
+   * Create Stripe Checkout Session for an existing (unpaid) order
+   * The backend builds line items from the stored order, so prices can't be tampered with
    */
   createCheckoutSession(orderData: {
-    amount: number;
-    currency: string;
-    customerEmail: string;
-    orderItems: Array<{ name: string; quantity: number; price: number }>;
-    shippingAddress: any;
-  }): Observable<{ sessionId?: string; error?: string }> {
-    // In production, this would be an HTTP call to your backend:
-    // return this.http.post<{sessionId: string}>('/api/create-checkout-session', orderData);
-
-    // For demo purposes, we'll simulate the session creation
-    console.warn('⚠️  DEMO MODE: In production, create checkout session on backend');
-    console.log('Order data that would be sent to backend:', orderData);
-
-    // Simulate API call
-    return of({
-      error: 'Backend API required. See implementation notes in payment.service.ts'
-    });
+    orderId: string;
+    items: Array<{ product: string; variant?: string; quantity: number }>;
+    shippingAddress: Address;
+    billingAddress: Address;
+  }): Observable<{ sessionId?: string; url?: string; error?: string }> {
+    return this.authService.whenBackend(
+      () => this.http.post<{ success: boolean; sessionId: string; url: string }>(
+        `${this.apiUrl}/create-checkout-session`,
+        orderData
+      ).pipe(
+        map(response => ({ sessionId: response.sessionId, url: response.url })),
+        catchError(error => of({ error: error?.message || 'Failed to create checkout session' }))
+      ),
+      () => of({ error: this.DEMO_MODE_ERROR })
+    );
   }
 
   /**
    * Redirect to Stripe Checkout
    * This is the secure, PCI-compliant way to accept payments
-   * NOTE: redirectToCheckout is deprecated but kept for backward compatibility
+   * Stripe.js no longer redirects by session ID, so this needs the session URL from the backend
    */
-  async redirectToCheckout(sessionId: string): Promise<{ error?: any }> {
-    if (!this.stripe) {
-      await this.initializeStripe();
-    }
-
-    if (!this.stripe) {
-      return { error: 'Stripe failed to initialize' };
-    }
-
-    // Type assertion needed because redirectToCheckout is deprecated in newer Stripe types
-    const result = await (this.stripe as any).redirectToCheckout({
-      sessionId: sessionId
-    });
-
-    if (result.error) {
-      console.error('Stripe checkout error:', result.error);
-      return { error: result.error.message };
+  redirectToCheckout(url?: string): { error?: string } {
+    if (!url) {
+      return { error: 'Failed to redirect to payment page.' };
     }
 
+    window.location.assign(url);
     return {};
   }
 
   /**
-   * Create Stripe Elements for custom payment form
-   * Use this if you want a custom payment form instead of Stripe Checkout
+   * Confirm a completed Checkout Session with the backend
+   * Called when Stripe redirects back; marks the order paid if the webhook hasn't yet
    */
-  async createElements(): Promise<StripeElements | null> {
-    if (!this.stripe) {
-      await this.initializeStripe();
-    }
+  verifyCheckoutSession(sessionId: string): Observable<{ paid: boolean; orderId?: string; error?: string }> {
+    return this.http.get<{ success: boolean; paid: boolean; orderId?: string }>(
+      `${this.apiUrl}/checkout-session/${encodeURIComponent(sessionId)}`
+    ).pipe(
+      map(response => ({ paid: response.paid, orderId: response.orderId })),
+      catchError(error => of({ paid: false, error: error?.message || 'Failed to verify payment' }))
+    );
+  }
+
+  /**
+   * Create Stripe Elements for the in-page card form (Payment Element)
+   * Uses deferred intent creation: the form is mounted with the expected amount,
+   * and the Payment Intent is only created once the buyer places the order
+   */
+  async createElements(amount: number): Promise<StripeElements | null> {
+    const stripe = await this.getStripe();
 
-    if (!this.stripe) {
+    if (!stripe) {
       return null;
     }
 
-    return this.stripe.elements();
+    return stripe.elements({
+      mode: 'payment',
+      amount: this.formatAmountForStripe(amount),
+      currency: 'usd',
+      paymentMethodTypes: ['card']
+    });
   }
 
   /**
-   * Create Payment Intent (requires backend)
-   * In production, call your backend API to create a payment intent
+   * Create Payment Intent for an existing (unpaid) order
+   * The backend charges the stored order total, not a client-supplied amount;
+   * the returned amount (in cents) is what the card will be charged
    */
-  createPaymentIntent(amount: number, currency: string = 'usd'): Observable<{ clientSecret?: string; error?: string }> {
-    // In production:
-    // return this.http.post<{clientSecret: string}>('/api/create-payment-intent', { amount, currency });
-
-    console.warn('⚠️  DEMO MODE: Backend required to create payment intent');
-
-    return of({
-      error: 'Backend API required for payment intent creation'
-    });
+  createPaymentIntent(orderId: string): Observable<{ clientSecret?: string; amount?: number; error?: string }> {
+    return this.authService.whenBackend(
+      () => this.http.post<{ success: boolean; clientSecret: string; amount: number }>(
+        `${this.apiUrl}/create-payment-intent`,
+        { orderId }
+      ).pipe(
+        map(response => ({ clientSecret: response.clientSecret, amount: response.amount })),
+        catchError(error => of({ error: error?.message || 'Failed to create payment intent' }))
+      ),
+      () => of({ error: this.DEMO_MODE_ERROR })
+    );
   }
 
   /**
    * Confirm Card Payment using Payment Intent
+   * Stripe shows the 3-D Secure challenge in a modal when the card requires it,
+   * so the buyer stays on the page
+   *
+   * `declined` is set only when the card was refused. A payment that is still
+   * processing (`processing`), was left unauthenticated or could not reach Stripe
+   * has not failed, and can be confirmed again for the same Payment Intent.
    */
   async confirmCardPayment(
     clientSecret: string,
-    cardElement: StripeCardElement
-  ): Promise<{ success: boolean; error?: string }> {
-    if (!this.stripe) {
-      await this.initializeStripe();
-    }
+    elements: StripeElements
+  ): Promise<{ success: boolean; declined?: boolean; processing?: boolean; transactionId?: string; error?: string }> {
+    const stripe = await this.getStripe();
 
-    if (!this.stripe) {
+    if (!stripe) {
       return { success: false, error: 'Stripe not initialized' };
     }
 
-    const result = await this.stripe.confirmCardPayment(clientSecret, {
-      payment_method: {
-        card: cardElement
-      }
+    const result = await stripe.confirmPayment({
+      elements,
+      clientSecret,
+      confirmParams: {
+        return_url: `${window.location.origin}/checkout`
+      },
+      redirect: 'if_required'
     });
 
     if (result.error) {
       return {
         success: false,
+        declined: result.error.type === 'card_error',
         error: result.error.message
       };
     }
 
-    if (result.paymentIntent?.status === 'succeeded') {
-      return { success: true };
+    if (result.paymentIntent.status === 'succeeded') {
+      return { success: true, transactionId: result.paymentIntent.id };
+    }
+
+    if (result.paymentIntent.status === 'processing') {
+      return { success: false, processing: true, transactionId: result.paymentIntent.id };
     }
 
     return {
       success: false,
-      error: 'Payment not completed'
+      error: 'Payment not completed. Please finish verifying your card and try again.'
     };
   }
 
@@ -191,21 +223,40 @@ export class PaymentService {
 
   /**
    * Calculate order total with tax and shipping
+   * A coupon discount comes off before tax is applied. The shipping option is
+   * quoted by ShippingService (which applies free shipping); until one is chosen
+   * shipping counts as zero. Tax depends on the shipping address; tax-exempt buyers pay none.
    */
-  calculateOrderTotal(subtotal: number): {
+  calculateOrderTotal(
+    subtotal: number,
+    discount: number = 0,
+    options: { shipping?: ShippingOption; address?: Partial<Address>; taxExempt?: boolean } = {}
+  ): {
     subtotal: number;
+    discount: number;
     shipping: number;
+    shippingMethod?: ShippingMethod;
+    estimatedDelivery?: ShippingOption['estimatedDelivery'];
     tax: number;
+    taxBreakdown: TaxLine[];
+    taxExempt: boolean;
     total: number;
   } {
-    const shipping = subtotal >= environment.freeShippingThreshold ? 0 : environment.shippingCost;
-    const tax = subtotal * environment.taxRate;
-    const total = subtotal + shipping + tax;
+    const { shipping: shippingOption, address, taxExempt = false } = options;
+    const discounted = Math.max(subtotal - discount, 0);
+    const shipping = shippingOption?.amount ?? 0;
+    const { tax, lines } = this.taxCalculator.calculate({ address, subtotal: discounted, shipping, taxExempt });
+    const total = discounted + shipping + tax;
 
     return {
       subtotal: Math.round(subtotal * 100) / 100,
+      discount: Math.round(Math.min(discount, subtotal) * 100) / 100,
       shipping: Math.round(shipping * 100) / 100,
+      shippingMethod: shippingOption ? { service: shippingOption.service, name: shippingOption.name } : undefined,
+      estimatedDelivery: shippingOption?.estimatedDelivery,
       tax: Math.round(tax * 100) / 100,
+      taxBreakdown: lines,
+      taxExempt,
       total: Math.round(total * 100) / 100
     };
   }
@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { firstValueFrom } from 'rxjs';
+import { ProductService } from './product.service';
+import { AuthService } from './auth.service';
+import { createAuthServiceSpy, useDemoMode } from '../testing/auth-service.stub';
+import { ProductSort } from '../models/product.model';
+
+describe('ProductService', () => {
+  let service: ProductService;
+  let httpMock: HttpTestingController;
+  let authService: jasmine.SpyObj<AuthService>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        ProductService,
+        { provide: AuthService, useValue: createAuthServiceSpy() }
+      ]
+    });
+
+    service = TestBed.inject(ProductService);
+    httpMock = TestBed.inject(HttpTestingController);
+    authService = TestBed.inject(AuthService) as jasmine.SpyObj<AuthService>;
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  describe('getProductPage', () => {
+    it('should request the sort and page and return the totals from the API', async () => {
+      const result = firstValueFrom(service.getProductPage({ sort: 'price-desc', texture: 'curly' }, 2, 12));
+
+      const req = httpMock.expectOne(request => request.url.endsWith('/products'));
+      expect(req.request.params.get('sort')).toBe('price-desc');
+      expect(req.request.params.get('texture')).toBe('curly');
+      expect(req.request.params.get('page')).toBe('2');
+      expect(req.request.params.get('limit')).toBe('12');
+      req.flush({ success: true, count: 0, total: 30, page: 2, pages: 3, data: [] });
+
+      expect(await result).toEqual({ products: [], total: 30, page: 2, pages: 3 });
+    });
+
+    describe('demo mode', () => {
+      const allProducts = async (sort?: ProductSort) =>
+        (await firstValueFrom(service.getProductPage({ sort }, 1, 100))).products;
+
+      beforeEach(() => useDemoMode(authService));
+
+      it('should sort by price in either direction', async () => {
+        const ascending = (await allProducts('price-asc')).map(p => p.price);
+        const descending = (await allProducts('price-desc')).map(p => p.price);
+
+        expect(ascending).toEqual([...ascending].sort((a, b) => a - b));
+        expect(descending).toEqual([...ascending].reverse());
+      });
+
+      it('should sort by rating and by review count', async () => {
+        const byRating = (await allProducts('rating')).map(p => p.rating);
+        const byReviews = (await allProducts('most-reviewed')).map(p => p.reviews);
+
+        expect(byRating).toEqual([...byRating].sort((a, b) => b - a));
+        expect(byReviews).toEqual([...byReviews].sort((a, b) => b - a));
+      });
+
+      it('should show the newest products first by default', async () => {
+        const dates = (await allProducts()).map(p => p.createdAt.getTime());
+
+        expect(dates).toEqual([...dates].sort((a, b) => b - a));
+      });
+
+      it('should return one page with totals for the whole catalog', async () => {
+        const all = await allProducts();
+
+        const page = await firstValueFrom(service.getProductPage({}, 2, 4));
+
+        expect(page.products).toEqual(all.slice(4, 8));
+        expect(page.total).toBe(all.length);
+        expect(page.page).toBe(2);
+        expect(page.pages).toBe(Math.ceil(all.length / 4));
+      });
+    });
+  });
+});
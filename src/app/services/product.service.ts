@@ -1,17 +1,85 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, of } from 'rxjs';
-import { Product, ProductFilter } from '../models/product.model';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { BehaviorSubject, EMPTY, Observable, of, throwError } from 'rxjs';
+import { map, tap, catchError, switchMap, expand, reduce } from 'rxjs/operators';
+import { Product, ProductFilter, ProductPage, ProductSort, ProductVariant, StockLevel } from '../models/product.model';
+import { OrderItem } from '../models/order.model';
+import { ApiListResponse, ApiResponse } from '../models/api.model';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { SearchField, SearchUtil } from '../utils/search.util';
+import { VariantUtil } from '../utils/variant.util';
 
+/**
+ * Product shape returned by the backend (Mongoose document)
+ */
+interface ApiProduct {
+  _id: string;
+  name: string;
+  description: string;
+  price: number;
+  category: Product['category'];
+  length: number;
+  texture: Product['texture'];
+  origin: string;
+  stock: number;
+  imageUrl: string;
+  images?: string[];
+  seller: string | { _id: string };
+  rating: number;
+  numReviews: number;
+  specifications?: { color?: string };
+  variants?: ApiVariant[];
+  isActive?: boolean;
+  createdAt: string;
+}
+
+type ApiVariant = Omit<ProductVariant, 'id'> & { _id: string };
+
+/**
+ * Stock-only product shape returned by GET /api/products/stock
+ */
+interface ApiStockLevel {
+  _id: string;
+  stock: number;
+  variants?: { _id: string; stock: number }[];
+}
+
+/**
+ * Demo mode equivalents of the backend sort options
+ */
+const DEMO_SORT_COMPARATORS: Record<ProductSort, (a: Product, b: Product) => number> = {
+  'price-asc': (a, b) => a.price - b.price,
+  'price-desc': (a, b) => b.price - a.price,
+  'newest': (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  'rating': (a, b) => b.rating - a.rating || b.reviews - a.reviews,
+  'most-reviewed': (a, b) => b.reviews - a.reviews || b.rating - a.rating
+};
+
+/**
+ * Product Service with Dual Mode Support
+ *
+ * API mode: reads and writes go through /api/products
+ * Demo mode: uses the in-memory catalog below (when backend not available)
+ */
 @Injectable({
   providedIn: 'root'
 })
 export class ProductService {
+  private readonly apiUrl = `${environment.apiUrl}/products`;
+  private readonly adminUrl = `${environment.apiUrl}/admin/products`;
+
+  // Backend caps page size at 100
+  private readonly API_PAGE_LIMIT = 100;
+  private readonly OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+  // Demo mode catalog
   private products: Product[] = [
     {
       id: '1',
       name: 'Brazilian Straight Hair Bundle',
       description: '100% Virgin Brazilian straight hair, soft and silky texture',
-      price: 89.99,
+      price: 79.99,
       category: 'virgin-hair',
       length: 18,
       texture: 'straight',
@@ -19,9 +87,23 @@ export class ProductService {
       origin: 'Brazilian',
       stock: 25,
       imageUrl: 'https://via.placeholder.com/300x400?text=Brazilian+Straight',
+      images: [
+        'https://via.placeholder.com/300x400?text=Brazilian+Straight',
+        'https://via.placeholder.com/300x400?text=Brazilian+Straight+Texture+Closeup',
+        'https://via.placeholder.com/300x400?text=Brazilian+Straight+Installed'
+      ],
+      variants: [
+        { id: '1-14-nb', sku: 'BRZ-ST-14-NB', length: 14, color: 'Natural Black', price: 79.99, stock: 8 },
+        { id: '1-18-nb', sku: 'BRZ-ST-18-NB', length: 18, color: 'Natural Black', price: 89.99, stock: 10 },
+        { id: '1-22-nb', sku: 'BRZ-ST-22-NB', length: 22, color: 'Natural Black', price: 109.99, stock: 5 },
+        {
+          id: '1-18-jb', sku: 'BRZ-ST-18-JB', length: 18, color: 'Jet Black', price: 94.99, stock: 2,
+          imageUrl: 'https://via.placeholder.com/300x400?text=Brazilian+Straight+Jet+Black'
+        }
+      ],
       sellerId: 'seller1',
-      rating: 4.8,
-      reviews: 124,
+      rating: 0,
+      reviews: 0,
       createdAt: new Date('2024-01-15')
     },
     {
@@ -36,9 +118,14 @@ export class ProductService {
       origin: 'Peruvian',
       stock: 30,
       imageUrl: 'https://via.placeholder.com/300x400?text=Peruvian+Body+Wave',
+      images: [
+        'https://via.placeholder.com/300x400?text=Peruvian+Body+Wave',
+        'https://via.placeholder.com/300x400?text=Peruvian+Body+Wave+Texture+Closeup',
+        'https://via.placeholder.com/300x400?text=Peruvian+Body+Wave+Installed'
+      ],
       sellerId: 'seller2',
-      rating: 4.9,
-      reviews: 98,
+      rating: 0,
+      reviews: 0,
       createdAt: new Date('2024-02-10')
     },
     {
@@ -53,9 +140,14 @@ export class ProductService {
       origin: 'Malaysian',
       stock: 20,
       imageUrl: 'https://via.placeholder.com/300x400?text=Malaysian+Deep+Wave',
+      images: [
+        'https://via.placeholder.com/300x400?text=Malaysian+Deep+Wave',
+        'https://via.placeholder.com/300x400?text=Malaysian+Deep+Wave+Texture+Closeup',
+        'https://via.placeholder.com/300x400?text=Malaysian+Deep+Wave+Installed'
+      ],
       sellerId: 'seller1',
-      rating: 4.7,
-      reviews: 76,
+      rating: 0,
+      reviews: 0,
       createdAt: new Date('2024-03-05')
     },
     {
@@ -70,9 +162,14 @@ export class ProductService {
       origin: 'Indian',
       stock: 15,
       imageUrl: 'https://via.placeholder.com/300x400?text=Indian+Curly',
+      images: [
+        'https://via.placeholder.com/300x400?text=Indian+Curly',
+        'https://via.placeholder.com/300x400?text=Indian+Curly+Texture+Closeup',
+        'https://via.placeholder.com/300x400?text=Indian+Curly+Installed'
+      ],
       sellerId: 'seller3',
-      rating: 4.6,
-      reviews: 54,
+      rating: 0,
+      reviews: 0,
       createdAt: new Date('2024-04-20')
     },
     {
@@ -88,14 +185,14 @@ export class ProductService {
       stock: 22,
       imageUrl: 'https://via.placeholder.com/300x400?text=Kinky+Straight',
       sellerId: 'seller2',
-      rating: 4.8,
-      reviews: 89,
+      rating: 0,
+      reviews: 0,
       createdAt: new Date('2024-05-15')
     },
     {
       id: '6',
       name: 'HD Lace Frontal Closure',
-      description: '13x4 HD lace frontal, pre-plucked with baby hair',
+      description: 'HD lace frontal, pre-plucked with baby hair',
       price: 79.99,
       category: 'frontal',
       length: 18,
@@ -104,9 +201,19 @@ export class ProductService {
       origin: 'Brazilian',
       stock: 18,
       imageUrl: 'https://via.placeholder.com/300x400?text=Lace+Frontal',
+      images: [
+        'https://via.placeholder.com/300x400?text=Lace+Frontal',
+        'https://via.placeholder.com/300x400?text=Lace+Frontal+Texture+Closeup',
+        'https://via.placeholder.com/300x400?text=Lace+Frontal+Installed'
+      ],
+      variants: [
+        { id: '6-18-134', sku: 'HD-FR-18-134', length: 18, color: 'Natural Black', laceSize: '13x4', price: 79.99, stock: 10 },
+        { id: '6-18-136', sku: 'HD-FR-18-136', length: 18, color: 'Natural Black', laceSize: '13x6', price: 94.99, stock: 5 },
+        { id: '6-20-134', sku: 'HD-FR-20-134', length: 20, color: 'Natural Black', laceSize: '13x4', price: 89.99, stock: 3 }
+      ],
       sellerId: 'seller1',
-      rating: 4.9,
-      reviews: 142,
+      rating: 0,
+      reviews: 0,
       createdAt: new Date('2024-06-01')
     }
   ];
@@ -114,23 +221,256 @@ export class ProductService {
   private productsSubject = new BehaviorSubject<Product[]>(this.products);
   products$ = this.productsSubject.asObservable();
 
-  constructor() { }
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService
+  ) { }
 
   getAllProducts(): Observable<Product[]> {
-    return this.products$;
+    return this.authService.whenBackend(
+      () => this.fetchProducts(new HttpParams()).pipe(
+        tap(products => this.productsSubject.next(products)),
+        switchMap(() => this.products$)
+      ),
+      () => this.products$
+    );
   }
 
   getProductById(id: string): Observable<Product | undefined> {
-    const product = this.products.find(p => p.id === id);
-    return of(product);
+    return this.authService.whenBackend(
+      () => this.http.get<ApiResponse<ApiProduct>>(`${this.apiUrl}/${id}`).pipe(
+        map(response => this.fromApi(response.data)),
+        catchError(error => {
+          // Unknown or malformed IDs resolve to "not found"
+          if (error?.status === 404 || error?.status === 400) {
+            return of(undefined);
+          }
+          return throwError(() => error);
+        })
+      ),
+      () => of(this.products.find(p => p.id === id))
+    );
   }
 
   getProductsBySeller(sellerId: string): Observable<Product[]> {
-    const sellerProducts = this.products.filter(p => p.sellerId === sellerId);
-    return of(sellerProducts);
+    return this.authService.whenBackend(
+      () => this.fetchProducts(new HttpParams().set('seller', sellerId)),
+      () => of(this.products.filter(p => p.sellerId === sellerId))
+    );
   }
 
   filterProducts(filter: ProductFilter): Observable<Product[]> {
+    return this.authService.whenBackend(
+      () => this.fetchProducts(this.toApiParams(filter)),
+      () => of(this.filterDemoProducts(filter))
+    );
+  }
+
+  /**
+   * Get one page of filtered, sorted products with total counts
+   */
+  getProductPage(filter: ProductFilter, page: number = 1, limit: number = 12): Observable<ProductPage> {
+    return this.authService.whenBackend(
+      () => this.http.get<ApiListResponse<ApiProduct>>(this.apiUrl, {
+        params: this.toApiParams(filter).set('page', page).set('limit', limit)
+      }).pipe(
+        map(response => ({
+          products: response.data.map(p => this.fromApi(p)),
+          total: response.total ?? response.count,
+          page: response.page ?? page,
+          pages: response.pages ?? 1
+        }))
+      ),
+      () => {
+        const filtered = this.filterDemoProducts(filter);
+        const start = (page - 1) * limit;
+
+        return of({
+          products: filtered.slice(start, start + limit),
+          total: filtered.length,
+          page,
+          pages: Math.ceil(filtered.length / limit)
+        });
+      }
+    );
+  }
+
+  /**
+   * Typeahead suggestions: the most relevant products for a partial query
+   */
+  searchProducts(query: string, limit: number = 5): Observable<Product[]> {
+    return this.authService.whenBackend(
+      () => this.http.get<ApiListResponse<ApiProduct>>(this.apiUrl, {
+        params: new HttpParams().set('q', query).set('limit', limit)
+      }).pipe(
+        map(response => response.data.map(p => this.fromApi(p)))
+      ),
+      () => of(this.filterDemoProducts({ q: query }).slice(0, limit))
+    );
+  }
+
+  addProduct(product: Product): Observable<Product> {
+    return this.authService.whenBackend(
+      () => this.http.post<ApiResponse<ApiProduct>>(this.apiUrl, this.toApi(product)).pipe(
+        map(response => this.fromApi(response.data)),
+        tap(created => this.productsSubject.next([...this.productsSubject.value, created]))
+      ),
+      () => {
+        const stored = this.withDerivedFields(product);
+        this.products.push(stored);
+        this.productsSubject.next(this.products);
+        return of(stored);
+      }
+    );
+  }
+
+  updateProduct(id: string, updates: Partial<Product>): Observable<Product | undefined> {
+    return this.authService.whenBackend(
+      () => this.http.put<ApiResponse<ApiProduct>>(`${this.apiUrl}/${id}`, this.toApi(updates)).pipe(
+        map(response => this.fromApi(response.data)),
+        tap(updated => this.productsSubject.next(
+          this.productsSubject.value.map(p => p.id === id ? updated : p)
+        ))
+      ),
+      () => {
+        const index = this.products.findIndex(p => p.id === id);
+        if (index !== -1) {
+          this.products[index] = this.withDerivedFields({ ...this.products[index], ...updates });
+          this.productsSubject.next(this.products);
+          return of(this.products[index]);
+        }
+        return of(undefined);
+      }
+    );
+  }
+
+  deleteProduct(id: string): Observable<boolean> {
+    return this.authService.whenBackend(
+      () => this.http.delete<{ success: boolean }>(`${this.apiUrl}/${id}`).pipe(
+        map(response => response.success),
+        tap(() => this.productsSubject.next(this.productsSubject.value.filter(p => p.id !== id)))
+      ),
+      () => {
+        const index = this.products.findIndex(p => p.id === id);
+        if (index !== -1) {
+          this.products.splice(index, 1);
+          this.productsSubject.next(this.products);
+          return of(true);
+        }
+        return of(false);
+      }
+    );
+  }
+
+  /**
+   * Current stock of the given products and their variants
+   * Cart snapshots go stale, so checkout asks again right before payment.
+   *
+   * API mode: stock held by other buyers' unpaid orders is already taken off
+   * Demo mode: reads the in-memory catalog, which demo orders reserve from
+   */
+  getLiveStock(productIds: string[]): Observable<StockLevel[]> {
+    const ids = [...new Set(productIds)];
+
+    return this.authService.whenBackend(
+      () => this.http.get<ApiListResponse<ApiStockLevel>>(`${this.apiUrl}/stock`, {
+        params: new HttpParams().set('ids', ids.join(','))
+      }).pipe(
+        map(response => response.data.map(level => ({
+          productId: level._id,
+          stock: level.stock,
+          variants: Object.fromEntries((level.variants ?? []).map(v => [v._id, v.stock]))
+        })))
+      ),
+      () => of(this.products
+        .filter(p => ids.includes(p.id))
+        .map(p => ({
+          productId: p.id,
+          stock: p.stock,
+          variants: Object.fromEntries((p.variants ?? []).map(v => [v.id, v.stock]))
+        })))
+    );
+  }
+
+  /**
+   * Take order items out of the demo catalog's stock
+   * All or nothing: nothing changes if any item is short.
+   * API mode has no equivalent - the server reserves stock when the order is created.
+   */
+  reserveDemoStock(items: OrderItem[]): { success: boolean; message: string } {
+    for (const item of items) {
+      const available = this.demoStock(item);
+      if (available < item.quantity) {
+        return {
+          success: false,
+          message: `${item.productName} has just sold out. Only ${Math.max(available, 0)} left - please update your cart.`
+        };
+      }
+    }
+
+    this.adjustDemoStock(items, -1);
+    return { success: true, message: 'Stock reserved' };
+  }
+
+  /**
+   * Put order items back into the demo catalog's stock (released reservations and cancellations)
+   */
+  releaseDemoStock(items: OrderItem[]): void {
+    this.adjustDemoStock(items, 1);
+  }
+
+  /**
+   * List every product, including hidden ones (admin only)
+   * Demo mode has no admin accounts, so moderation requires the backend
+   */
+  getAllProductsForAdmin(search?: string): Observable<Product[]> {
+    let params = new HttpParams().set('limit', this.API_PAGE_LIMIT);
+    if (search) {
+      params = params.set('search', search);
+    }
+
+    return this.authService.whenBackend(
+      () => this.http.get<ApiListResponse<ApiProduct>>(this.adminUrl, { params }).pipe(
+        map(response => response.data.map(p => this.fromApi(p)))
+      ),
+      () => throwError(() => ({ message: 'Product moderation requires the backend API' }))
+    );
+  }
+
+  /**
+   * Hide (unpublish) or republish a product (admin only)
+   */
+  setProductVisibility(id: string, isActive: boolean): Observable<Product> {
+    return this.authService.whenBackend(
+      () => this.http.put<ApiResponse<ApiProduct>>(`${this.adminUrl}/${id}/visibility`, { isActive }).pipe(
+        map(response => this.fromApi(response.data)),
+        tap(updated => this.productsSubject.next(
+          isActive
+            ? this.productsSubject.value.map(p => p.id === id ? updated : p)
+            : this.productsSubject.value.filter(p => p.id !== id)
+        ))
+      ),
+      () => throwError(() => ({ message: 'Product moderation requires the backend API' }))
+    );
+  }
+
+  /**
+   * Fetch a whole product list from the API, one page (API_PAGE_LIMIT products) at a time
+   */
+  private fetchProducts(params: HttpParams): Observable<Product[]> {
+    const fetchPage = (page: number) => this.http.get<ApiListResponse<ApiProduct>>(this.apiUrl, {
+      params: params.set('page', page).set('limit', this.API_PAGE_LIMIT)
+    }).pipe(
+      map(response => ({ page, pages: response.pages ?? 1, products: response.data.map(p => this.fromApi(p)) }))
+    );
+
+    return fetchPage(1).pipe(
+      expand(result => result.page < result.pages ? fetchPage(result.page + 1) : EMPTY),
+      reduce((products, result) => products.concat(result.products), [] as Product[])
+    );
+  }
+
+  private filterDemoProducts(filter: ProductFilter): Product[] {
     let filtered = [...this.products];
 
     if (filter.category) {
@@ -143,7 +483,8 @@ export class ProductService {
       filtered = filtered.filter(p => p.price <= filter.maxPrice!);
     }
     if (filter.length) {
-      filtered = filtered.filter(p => p.length === filter.length);
+      const length = Number(filter.length);
+      filtered = filtered.filter(p => p.length === length || !!p.variants?.some(v => v.length === length));
     }
     if (filter.texture) {
       filtered = filtered.filter(p => p.texture === filter.texture);
@@ -151,33 +492,190 @@ export class ProductService {
     if (filter.origin) {
       filtered = filtered.filter(p => p.origin === filter.origin);
     }
+    if (filter.color) {
+      const color = filter.color.toLowerCase();
+      filtered = filtered.filter(p =>
+        p.color.toLowerCase() === color || !!p.variants?.some(v => v.color.toLowerCase() === color)
+      );
+    }
+    if (filter.q?.trim()) {
+      filtered = SearchUtil.rank(filtered, filter.q, p => this.searchFields(p));
+    }
+
+    // Search results stay in relevance order unless a sort is chosen
+    const sort = filter.sort ?? (filter.q?.trim() ? undefined : 'newest');
+    if (sort) {
+      filtered.sort(DEMO_SORT_COMPARATORS[sort]);
+    }
 
-    return of(filtered);
+    return filtered;
   }
 
-  addProduct(product: Product): Observable<Product> {
-    this.products.push(product);
+  /**
+   * Searchable product fields, weighted by how strongly a match signals relevance
+   * Keep in step with productSearchFields in backend/utils/search.js
+   */
+  private searchFields(product: Product): SearchField[] {
+    return [
+      { text: product.name, weight: 5 },
+      { text: product.origin, weight: 3 },
+      { text: product.texture, weight: 3 },
+      { text: product.color, weight: 3 },
+      { text: product.description, weight: 1 }
+    ];
+  }
+
+  /**
+   * Map filter fields to /api/products query parameters
+   */
+  private toApiParams(filter: ProductFilter): HttpParams {
+    let params = new HttpParams();
+
+    if (filter.category) {
+      params = params.set('category', filter.category);
+    }
+    if (filter.minPrice !== undefined && filter.minPrice !== null) {
+      params = params.set('minPrice', filter.minPrice);
+    }
+    if (filter.maxPrice !== undefined && filter.maxPrice !== null) {
+      params = params.set('maxPrice', filter.maxPrice);
+    }
+    if (filter.length) {
+      params = params.set('minLength', filter.length).set('maxLength', filter.length);
+    }
+    if (filter.texture) {
+      params = params.set('texture', filter.texture);
+    }
+    if (filter.origin) {
+      params = params.set('origin', filter.origin.toLowerCase());
+    }
+    if (filter.color) {
+      params = params.set('color', filter.color);
+    }
+    if (filter.q?.trim()) {
+      params = params.set('q', filter.q.trim());
+    }
+    if (filter.sort) {
+      params = params.set('sort', filter.sort);
+    }
+
+    return params;
+  }
+
+  private demoStock(item: OrderItem): number {
+    const product = this.products.find(p => p.id === item.productId);
+    if (!product) {
+      return 0;
+    }
+    return item.variantId
+      ? product.variants?.find(v => v.id === item.variantId)?.stock ?? 0
+      : product.stock;
+  }
+
+  private adjustDemoStock(items: OrderItem[], direction: 1 | -1): void {
+    for (const item of items) {
+      const index = this.products.findIndex(p => p.id === item.productId);
+      if (index === -1) continue;
+
+      const product = this.products[index];
+      const change = direction * item.quantity;
+      this.products[index] = this.withDerivedFields(item.variantId
+        ? { ...product, variants: product.variants?.map(v => v.id === item.variantId ? { ...v, stock: v.stock + change } : v) }
+        : { ...product, stock: product.stock + change });
+    }
     this.productsSubject.next(this.products);
-    return of(product);
   }
 
-  updateProduct(id: string, updates: Partial<Product>): Observable<Product | undefined> {
-    const index = this.products.findIndex(p => p.id === id);
-    if (index !== -1) {
-      this.products[index] = { ...this.products[index], ...updates };
-      this.productsSubject.next(this.products);
-      return of(this.products[index]);
+  /**
+   * Listing price and stock follow the variants, and the primary image is the
+   * first gallery image, mirroring the backend pre-save hook
+   */
+  private withDerivedFields(product: Product): Product {
+    const derived = { ...product };
+    if (VariantUtil.hasVariants(derived)) {
+      Object.assign(derived, VariantUtil.summarize(derived.variants!));
     }
-    return of(undefined);
+    if (derived.images?.length) {
+      derived.imageUrl = derived.images[0];
+    }
+    return derived;
   }
 
-  deleteProduct(id: string): Observable<boolean> {
-    const index = this.products.findIndex(p => p.id === id);
-    if (index !== -1) {
-      this.products.splice(index, 1);
-      this.productsSubject.next(this.products);
-      return of(true);
+  /**
+   * Convert a backend product into the frontend model
+   * Backend stores origin in lowercase and color under specifications
+   */
+  private fromApi(apiProduct: ApiProduct): Product {
+    const sellerId = typeof apiProduct.seller === 'string' ? apiProduct.seller : apiProduct.seller?._id ?? '';
+
+    return {
+      id: apiProduct._id,
+      name: apiProduct.name,
+      description: apiProduct.description,
+      price: apiProduct.price,
+      category: apiProduct.category,
+      length: apiProduct.length,
+      texture: apiProduct.texture,
+      color: apiProduct.specifications?.color || 'Natural Black',
+      origin: apiProduct.origin.charAt(0).toUpperCase() + apiProduct.origin.slice(1),
+      stock: apiProduct.stock,
+      imageUrl: apiProduct.imageUrl,
+      images: apiProduct.images?.length ? apiProduct.images : [apiProduct.imageUrl],
+      sellerId,
+      rating: apiProduct.rating,
+      reviews: apiProduct.numReviews,
+      isActive: apiProduct.isActive,
+      variants: apiProduct.variants?.length
+        ? apiProduct.variants.map(({ _id, ...variant }) => ({ id: _id, ...variant }))
+        : undefined,
+      createdAt: new Date(apiProduct.createdAt)
+    };
+  }
+
+  /**
+   * Convert frontend product fields into a backend request body
+   * Server-managed fields (id, seller, rating, reviews) are never sent
+   */
+  private toApi(product: Partial<Product>): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      name: product.name,
+      description: product.description,
+      price: product.price,
+      category: product.category,
+      length: product.length !== undefined ? Number(product.length) : undefined,
+      texture: product.texture,
+      origin: product.origin?.toLowerCase(),
+      stock: product.stock,
+      imageUrl: product.imageUrl
+    };
+
+    if (product.color !== undefined) {
+      body['specifications'] = { color: product.color };
+    }
+
+    if (product.images !== undefined) {
+      body['images'] = product.images;
+      if (product.images.length > 0) {
+        body['imageUrl'] = product.images[0];
+      }
     }
-    return of(false);
+
+    if (product.variants !== undefined) {
+      // The server assigns IDs to new variants; existing ones keep theirs so carts stay valid
+      body['variants'] = product.variants.map(({ id, ...variant }) => ({
+        ...(this.OBJECT_ID_PATTERN.test(id) ? { _id: id } : {}),
+        ...variant,
+        length: Number(variant.length),
+        laceSize: variant.laceSize || undefined,
+        imageUrl: variant.imageUrl || undefined
+      }));
+
+      if (product.variants.length > 0) {
+        Object.assign(body, VariantUtil.summarize(product.variants));
+      }
+    }
+
+    Object.keys(body).forEach(key => body[key] === undefined && delete body[key]);
+    return body;
   }
 }
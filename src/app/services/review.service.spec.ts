@@ -0,0 +1,113 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { firstValueFrom, of } from 'rxjs';
+import { ReviewService } from './review.service';
+import { AuthService } from './auth.service';
+import { OrderService } from './order.service';
+import { ProductService } from './product.service';
+import { createAuthServiceSpy, useDemoMode } from '../testing/auth-service.stub';
+import { Order } from '../models/order.model';
+import { User } from '../models/user.model';
+
+describe('ReviewService', () => {
+  let service: ReviewService;
+  let httpMock: HttpTestingController;
+  let authService: jasmine.SpyObj<AuthService>;
+  let orderService: jasmine.SpyObj<OrderService>;
+  let currentUser: User | null;
+
+  const buyer = { id: 'u1', email: 'buyer@example.com', firstName: 'Jane', lastName: 'Buyer', role: 'buyer' } as User;
+
+  const orderWith = (productId: string, orderStatus: Order['orderStatus']) => ({
+    id: `order-${orderStatus}`,
+    userId: buyer.id,
+    orderStatus,
+    items: [{ productId }]
+  } as Order);
+
+  beforeEach(() => {
+    currentUser = buyer;
+    const authServiceSpy = createAuthServiceSpy();
+    authServiceSpy.getCurrentUser = jasmine.createSpy('getCurrentUser').and.callFake(() => currentUser);
+
+    const orderServiceSpy = jasmine.createSpyObj<OrderService>('OrderService', ['getOrdersByUserId']);
+    const productServiceSpy = jasmine.createSpyObj<ProductService>('ProductService', ['updateProduct']);
+    productServiceSpy.updateProduct.and.returnValue(of(undefined));
+
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        ReviewService,
+        { provide: AuthService, useValue: authServiceSpy },
+        { provide: OrderService, useValue: orderServiceSpy },
+        { provide: ProductService, useValue: productServiceSpy }
+      ]
+    });
+
+    service = TestBed.inject(ReviewService);
+    httpMock = TestBed.inject(HttpTestingController);
+    authService = TestBed.inject(AuthService) as jasmine.SpyObj<AuthService>;
+    orderService = TestBed.inject(OrderService) as jasmine.SpyObj<OrderService>;
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  describe('getEligibility', () => {
+    it('should ask the server whether the buyer may review the product', async () => {
+      const result = firstValueFrom(service.getEligibility('p1'));
+
+      const req = httpMock.expectOne(request => request.url.endsWith('/products/p1/reviews/eligibility'));
+      req.flush({ success: true, data: { canReview: false, reason: 'Only buyers who have received this product can review it' } });
+
+      expect((await result).canReview).toBeFalse();
+    });
+
+    it('should ask signed-out visitors to log in', async () => {
+      currentUser = null;
+
+      const eligibility = await firstValueFrom(service.getEligibility('p1'));
+
+      expect(eligibility).toEqual({ canReview: false, reason: 'Log in to review this product' });
+    });
+  });
+
+  describe('demo mode', () => {
+    beforeEach(() => useDemoMode(authService));
+
+    it('should let buyers review a product from a delivered order', async () => {
+      orderService.getOrdersByUserId.and.returnValue(of([orderWith('p1', 'delivered')]));
+
+      const eligibility = await firstValueFrom(service.getEligibility('p1'));
+
+      expect(eligibility.canReview).toBeTrue();
+    });
+
+    it('should not let buyers review a product that has not been delivered yet', async () => {
+      orderService.getOrdersByUserId.and.returnValue(of([orderWith('p1', 'shipped'), orderWith('p2', 'delivered')]));
+
+      const eligibility = await firstValueFrom(service.getEligibility('p1'));
+
+      expect(eligibility).toEqual({ canReview: false, reason: 'Only buyers who have received this product can review it' });
+    });
+
+    it('should refuse to post a review for a product the buyer has not received', async () => {
+      orderService.getOrdersByUserId.and.returnValue(of([orderWith('p1', 'processing')]));
+
+      await expectAsync(firstValueFrom(service.createReview('p1', { rating: 5, comment: 'Great' })))
+        .toBeRejectedWith(jasmine.objectContaining({ status: 403 }));
+    });
+
+    it('should accept one review per buyer and product', async () => {
+      orderService.getOrdersByUserId.and.returnValue(of([orderWith('p1', 'delivered')]));
+
+      const review = await firstValueFrom(service.createReview('p1', { rating: 4, comment: 'Soft and full' }));
+      expect(review.orderId).toBe('order-delivered');
+      expect(review.userName).toBe('Jane B.');
+
+      const eligibility = await firstValueFrom(service.getEligibility('p1'));
+      expect(eligibility).toEqual({ canReview: false, reason: 'You have already reviewed this product' });
+    });
+  });
+});
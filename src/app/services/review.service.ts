@@ -0,0 +1,211 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import { Review, ReviewEligibility, ReviewPage, ReviewSummary } from '../models/review.model';
+import { Order } from '../models/order.model';
+import { ApiListResponse, ApiResponse } from '../models/api.model';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ProductService } from './product.service';
+import { OrderService } from './order.service';
+
+/**
+ * Review shape returned by the backend (Mongoose document)
+ */
+interface ApiReview {
+  _id: string;
+  product: string;
+  user: string;
+  userName: string;
+  order: string;
+  rating: number;
+  title?: string;
+  comment: string;
+  createdAt: string;
+}
+
+interface ApiReviewListResponse extends ApiListResponse<ApiReview> {
+  summary: ReviewSummary;
+}
+
+export interface ReviewInput {
+  rating: number;
+  title?: string;
+  comment: string;
+}
+
+/**
+ * Review Service with Dual Mode Support
+ * Only buyers with a delivered order containing the product may post,
+ * and each buyer may review a product once.
+ *
+ * API mode: /api/products/:productId/reviews (the server recomputes product ratings)
+ * Demo mode: reviews are kept in memory like demo products, and the product's
+ * rating and review count are recomputed locally after each post
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReviewService {
+  private readonly productsUrl = `${environment.apiUrl}/products`;
+  private demoReviews: Review[] = [];
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private productService: ProductService,
+    private orderService: OrderService
+  ) {}
+
+  /**
+   * Get one page of a product's reviews (newest first) with its star breakdown
+   */
+  getReviews(productId: string, page: number = 1, limit: number = 5): Observable<ReviewPage> {
+    const params = new HttpParams().set('page', page).set('limit', limit);
+
+    return this.authService.whenBackend(
+      () => this.http.get<ApiReviewListResponse>(`${this.productsUrl}/${productId}/reviews`, { params }).pipe(
+        map(response => ({
+          reviews: response.data.map(r => this.fromApi(r)),
+          page: response.page ?? page,
+          pages: response.pages ?? 1,
+          summary: response.summary
+        }))
+      ),
+      () => {
+        const reviews = this.getDemoReviews(productId);
+        const start = (page - 1) * limit;
+
+        return of({
+          reviews: reviews.slice(start, start + limit),
+          page,
+          pages: Math.ceil(reviews.length / limit),
+          summary: this.summarize(reviews)
+        });
+      }
+    );
+  }
+
+  /**
+   * Check whether the current user may review a product
+   */
+  getEligibility(productId: string): Observable<ReviewEligibility> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return of({ canReview: false, reason: 'Log in to review this product' });
+    }
+
+    return this.authService.whenBackend(
+      () => this.http.get<ApiResponse<ReviewEligibility>>(`${this.productsUrl}/${productId}/reviews/eligibility`).pipe(
+        map(response => response.data)
+      ),
+      () => this.orderService.getOrdersByUserId(user.id).pipe(
+        map(orders => {
+          const { canReview, reason } = this.checkDemoEligibility(productId, user.id, orders);
+          return { canReview, reason };
+        })
+      )
+    );
+  }
+
+  /**
+   * Post a review for a product
+   */
+  createReview(productId: string, input: ReviewInput): Observable<Review> {
+    const user = this.authService.getCurrentUser();
+    if (!user) {
+      return throwError(() => ({ status: 401, message: 'Log in to review this product' }));
+    }
+
+    return this.authService.whenBackend(
+      () => this.http.post<ApiResponse<ApiReview>>(`${this.productsUrl}/${productId}/reviews`, input).pipe(
+        map(response => this.fromApi(response.data))
+      ),
+      () => this.orderService.getOrdersByUserId(user.id).pipe(
+        switchMap(orders => {
+          const eligibility = this.checkDemoEligibility(productId, user.id, orders);
+          if (!eligibility.canReview) {
+            return throwError(() => ({ status: 403, message: eligibility.reason }));
+          }
+
+          const review: Review = {
+            id: 'review_' + Date.now(),
+            productId,
+            userId: user.id,
+            userName: `${user.firstName} ${user.lastName.charAt(0)}.`,
+            orderId: eligibility.orderId!,
+            rating: input.rating,
+            title: input.title?.trim() || undefined,
+            comment: input.comment.trim(),
+            createdAt: new Date()
+          };
+          this.demoReviews.unshift(review);
+
+          // Keep the product's counters in step with the stored reviews
+          const summary = this.summarize(this.getDemoReviews(productId));
+          return this.productService.updateProduct(productId, {
+            rating: summary.average,
+            reviews: summary.total
+          }).pipe(map(() => review));
+        })
+      )
+    );
+  }
+
+  private getDemoReviews(productId: string): Review[] {
+    return this.demoReviews.filter(r => r.productId === productId);
+  }
+
+  private checkDemoEligibility(
+    productId: string,
+    userId: string,
+    orders: Order[]
+  ): ReviewEligibility & { orderId?: string } {
+    if (this.demoReviews.some(r => r.productId === productId && r.userId === userId)) {
+      return { canReview: false, reason: 'You have already reviewed this product' };
+    }
+
+    const order = orders.find(o =>
+      o.orderStatus === 'delivered' && o.items.some(item => item.productId === productId)
+    );
+    if (!order) {
+      return { canReview: false, reason: 'Only buyers who have received this product can review it' };
+    }
+
+    return { canReview: true, orderId: order.id };
+  }
+
+  /**
+   * Average rating (one decimal place), total and per-star counts
+   */
+  private summarize(reviews: Review[]): ReviewSummary {
+    const breakdown: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let sum = 0;
+
+    for (const review of reviews) {
+      breakdown[review.rating]++;
+      sum += review.rating;
+    }
+
+    return {
+      average: reviews.length > 0 ? Math.round((sum / reviews.length) * 10) / 10 : 0,
+      total: reviews.length,
+      breakdown
+    };
+  }
+
+  private fromApi(apiReview: ApiReview): Review {
+    return {
+      id: apiReview._id,
+      productId: apiReview.product,
+      userId: apiReview.user,
+      userName: apiReview.userName,
+      orderId: apiReview.order,
+      rating: apiReview.rating,
+      title: apiReview.title,
+      comment: apiReview.comment,
+      createdAt: new Date(apiReview.createdAt)
+    };
+  }
+}
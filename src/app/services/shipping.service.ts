@@ -0,0 +1,68 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Address } from '../models/user.model';
+import { CartItem } from '../models/cart.model';
+import { ShippingOption } from '../models/shipping.model';
+import { ApiListResponse } from '../models/api.model';
+import { ShippingUtil } from '../utils/shipping.util';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+
+/**
+ * Shipping option shape returned by POST /api/shipping/rates
+ */
+interface ApiShippingOption extends Omit<ShippingOption, 'estimatedDelivery'> {
+  estimatedDelivery: { earliest: string; latest: string };
+}
+
+/**
+ * Shipping Service with Dual Mode Support
+ * Quotes the shipping options (service levels, prices, delivery windows) for a cart.
+ *
+ * API mode: POST /api/shipping/rates (priced by the backend's carrier rate provider)
+ * Demo mode: the bundled rate tables (ShippingUtil)
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ShippingService {
+  private readonly apiUrl = `${environment.apiUrl}/shipping`;
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService
+  ) {}
+
+  /**
+   * Shipping options for cart items going to an address, cheapest first
+   * subtotal is after any coupon discount (it decides free shipping)
+   */
+  getOptions(address: Partial<Address>, items: CartItem[], subtotal: number): Observable<ShippingOption[]> {
+    return this.authService.whenBackend(
+      () => this.http.post<ApiListResponse<ApiShippingOption>>(`${this.apiUrl}/rates`, {
+        address: { state: address.state, zipCode: address.zipCode, country: address.country },
+        items: items.map(item => ({ product: item.product.id, quantity: item.quantity })),
+        subtotal
+      }).pipe(
+        map(response => response.data.map(option => this.fromApi(option)))
+      ),
+      () => of(ShippingUtil.getOptions(
+        address,
+        items.map(item => ({ category: item.product.category, quantity: item.quantity })),
+        subtotal
+      ))
+    );
+  }
+
+  private fromApi(apiOption: ApiShippingOption): ShippingOption {
+    return {
+      ...apiOption,
+      estimatedDelivery: {
+        earliest: new Date(apiOption.estimatedDelivery.earliest),
+        latest: new Date(apiOption.estimatedDelivery.latest)
+      }
+    };
+  }
+}
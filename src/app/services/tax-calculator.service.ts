@@ -0,0 +1,30 @@
+import { Injectable } from '@angular/core';
+import { TaxRequest, TaxResult } from '../models/tax.model';
+import { TaxUtil } from '../utils/tax.util';
+
+/**
+ * Tax Calculator
+ * Works out sales tax for the checkout summary. Defaults to the bundled rate
+ * table; provide another implementation to use a tax service instead:
+ *
+ *   { provide: TaxCalculator, useClass: MyTaxServiceCalculator }
+ *
+ * Orders are always re-taxed by the backend, so this only needs to match it.
+ */
+@Injectable({
+  providedIn: 'root',
+  useFactory: () => new RateTableTaxCalculator()
+})
+export abstract class TaxCalculator {
+  abstract calculate(request: TaxRequest): TaxResult;
+}
+
+/**
+ * Tax from the bundled per-state and ZIP-prefix rates (TaxUtil)
+ */
+@Injectable()
+export class RateTableTaxCalculator implements TaxCalculator {
+  calculate(request: TaxRequest): TaxResult {
+    return TaxUtil.calculate(request);
+  }
+}
@@ -0,0 +1,111 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { HttpEventType } from '@angular/common/http';
+import { lastValueFrom, toArray } from 'rxjs';
+import { UploadProgress, UploadService } from './upload.service';
+import { AuthService } from './auth.service';
+import { createAuthServiceSpy, useDemoMode } from '../testing/auth-service.stub';
+import { ImageUtil, ProcessedImage } from '../utils/image.util';
+
+describe('UploadService', () => {
+  let service: UploadService;
+  let httpMock: HttpTestingController;
+  let authService: jasmine.SpyObj<AuthService>;
+
+  const photo = new File([new Uint8Array([0xff, 0xd8, 0xff])], 'photo.jpg', { type: 'image/jpeg' });
+
+  const processed: ProcessedImage = {
+    image: new Blob(['image'], { type: 'image/webp' }),
+    thumbnail: new Blob(['thumb'], { type: 'image/webp' }),
+    type: 'image/webp',
+    width: 1600,
+    height: 1200
+  };
+
+  // Let ImageUtil.process resolve and the request reach the testing backend
+  const settle = () => new Promise(resolve => setTimeout(resolve));
+
+  beforeEach(() => {
+    const authServiceSpy = createAuthServiceSpy();
+
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        UploadService,
+        { provide: AuthService, useValue: authServiceSpy }
+      ]
+    });
+
+    service = TestBed.inject(UploadService);
+    httpMock = TestBed.inject(HttpTestingController);
+    authService = TestBed.inject(AuthService) as jasmine.SpyObj<AuthService>;
+
+    spyOn(ImageUtil, 'process').and.resolveTo(processed);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should post the processed image and thumbnail as multipart data', async () => {
+    const events = lastValueFrom(service.uploadImage(photo).pipe(toArray()));
+    await settle();
+
+    const req = httpMock.expectOne((request) => request.url.endsWith('/uploads/images'));
+    expect(req.request.method).toBe('POST');
+    const body = req.request.body as FormData;
+    expect(body.get('image')).toBeTruthy();
+    expect(body.get('thumbnail')).toBeTruthy();
+
+    req.event({ type: HttpEventType.UploadProgress, loaded: 50, total: 100 });
+    req.flush({
+      success: true,
+      data: { url: 'http://localhost:3000/uploads/products/a.webp', thumbnailUrl: 'http://localhost:3000/uploads/products/a-thumb.webp' }
+    });
+
+    const progress = await events;
+    expect(progress[0].state).toBe('processing');
+    expect(progress).toContain(jasmine.objectContaining<UploadProgress>({ state: 'uploading', progress: 50 }));
+    expect(progress[progress.length - 1]).toEqual({
+      state: 'done',
+      progress: 100,
+      url: 'http://localhost:3000/uploads/products/a.webp',
+      thumbnailUrl: 'http://localhost:3000/uploads/products/a-thumb.webp'
+    });
+  });
+
+  it('should start a new request when retried after a failure', async () => {
+    const upload = service.uploadImage(photo);
+
+    const first = lastValueFrom(upload).catch(error => error);
+    await settle();
+    httpMock.expectOne((request) => request.url.endsWith('/uploads/images'))
+      .flush({ message: 'Image is too large' }, { status: 400, statusText: 'Bad Request' });
+    expect(await first).toBeTruthy();
+
+    const retry = lastValueFrom(upload);
+    await settle();
+    httpMock.expectOne((request) => request.url.endsWith('/uploads/images'))
+      .flush({ success: true, data: { url: 'http://localhost:3000/uploads/products/b.webp', thumbnailUrl: '' } });
+
+    expect((await retry).url).toBe('http://localhost:3000/uploads/products/b.webp');
+  });
+
+  it('should reject files that are not images without uploading', async () => {
+    const text = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+    await expectAsync(lastValueFrom(service.uploadImage(text))).toBeRejectedWith(
+      jasmine.objectContaining({ status: 400 })
+    );
+    expect(ImageUtil.process).not.toHaveBeenCalled();
+  });
+
+  it('should keep the image as a data URL in demo mode', async () => {
+    useDemoMode(authService);
+
+    const result = await lastValueFrom(service.uploadImage(photo));
+
+    expect(result.state).toBe('done');
+    expect(result.url).toMatch(/^data:image\/webp;base64,/);
+  });
+});
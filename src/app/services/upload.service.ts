@@ -0,0 +1,125 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpEvent, HttpEventType } from '@angular/common/http';
+import { Observable, concat, defer, from, of, throwError, timer } from 'rxjs';
+import { catchError, filter, map, switchMap } from 'rxjs/operators';
+import { ApiResponse } from '../models/api.model';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ImageUtil, ProcessedImage } from '../utils/image.util';
+
+/**
+ * Progress of a single image upload
+ * progress is 0-100 and only meaningful while uploading
+ */
+export interface UploadProgress {
+  state: 'processing' | 'uploading' | 'done';
+  progress: number;
+  url?: string;
+  thumbnailUrl?: string;
+}
+
+interface ApiUploadResult {
+  url: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Upload Service with Dual Mode Support
+ * Product photos are resized, compressed and stripped of metadata in the
+ * browser (see ImageUtil) before they are sent.
+ *
+ * API mode: multipart POST to /api/uploads/images with upload progress
+ * Demo mode: the processed image is kept in the page as a data URL
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UploadService {
+  private readonly apiUrl = `${environment.apiUrl}/uploads`;
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService
+  ) {}
+
+  /**
+   * Process and upload a product image, reporting progress along the way
+   * Each subscription starts a fresh attempt, so retrying is just subscribing again.
+   */
+  uploadImage(file: File): Observable<UploadProgress> {
+    if (!file.type.startsWith('image/')) {
+      return throwError(() => ({ status: 400, message: `${file.name} is not an image` }));
+    }
+    if (file.size > ImageUtil.MAX_SOURCE_SIZE) {
+      return throwError(() => ({ status: 400, message: `${file.name} is too large (max 25 MB)` }));
+    }
+
+    return concat(
+      of<UploadProgress>({ state: 'processing', progress: 0 }),
+      defer(() => from(ImageUtil.process(file))).pipe(
+        catchError(() => throwError(() => ({ status: 400, message: `${file.name} could not be read as an image` }))),
+        switchMap(processed => this.authService.whenBackend(
+          () => this.postImage(processed),
+          () => this.storeDemoImage(processed)
+        ))
+      )
+    );
+  }
+
+  private postImage(processed: ProcessedImage): Observable<UploadProgress> {
+    const extension = processed.type === 'image/webp' ? 'webp' : 'jpg';
+    const formData = new FormData();
+    formData.append('image', processed.image, `image.${extension}`);
+    formData.append('thumbnail', processed.thumbnail, `thumbnail.${extension}`);
+
+    return this.http.post<ApiResponse<ApiUploadResult>>(`${this.apiUrl}/images`, formData, {
+      reportProgress: true,
+      observe: 'events'
+    }).pipe(
+      map(event => this.toProgress(event)),
+      filter((progress): progress is UploadProgress => progress !== null)
+    );
+  }
+
+  private toProgress(event: HttpEvent<ApiResponse<ApiUploadResult>>): UploadProgress | null {
+    switch (event.type) {
+      case HttpEventType.Sent:
+        return { state: 'uploading', progress: 0 };
+      case HttpEventType.UploadProgress:
+        return {
+          state: 'uploading',
+          progress: event.total ? Math.round((event.loaded / event.total) * 100) : 0
+        };
+      case HttpEventType.Response:
+        return {
+          state: 'done',
+          progress: 100,
+          url: event.body?.data.url,
+          thumbnailUrl: event.body?.data.thumbnailUrl
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Demo mode has no file server, so the image lives in memory as a data URL
+   */
+  private storeDemoImage(processed: ProcessedImage): Observable<UploadProgress> {
+    return from(Promise.all([this.toDataUrl(processed.image), this.toDataUrl(processed.thumbnail)])).pipe(
+      switchMap(([url, thumbnailUrl]) => concat(
+        of<UploadProgress>({ state: 'uploading', progress: 50 }),
+        timer(300).pipe(map((): UploadProgress => ({ state: 'done', progress: 100, url, thumbnailUrl })))
+      ))
+    );
+  }
+
+  private toDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  }
+}
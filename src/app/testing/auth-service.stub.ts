@@ -0,0 +1,22 @@
+import { AuthService } from '../services/auth.service';
+
+// whenBackend() implementations that always take the API or the demo branch
+const apiBranch: AuthService['whenBackend'] = api => api();
+const demoBranch: AuthService['whenBackend'] = (_api, demo) => demo();
+
+/**
+ * AuthService spy for services that switch on backend detection
+ * The backend is "up" by default; call useDemoMode() to take the demo branch instead.
+ */
+export function createAuthServiceSpy(): jasmine.SpyObj<AuthService> {
+  const authService = jasmine.createSpyObj<AuthService>('AuthService', ['whenBackend']);
+  authService.whenBackend.and.callFake(apiBranch);
+  return authService;
+}
+
+/**
+ * Make a spy from createAuthServiceSpy() behave as if the backend were down
+ */
+export function useDemoMode(authService: jasmine.SpyObj<AuthService>): void {
+  authService.whenBackend.and.callFake(demoBranch);
+}
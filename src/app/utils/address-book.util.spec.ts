@@ -0,0 +1,53 @@
+import { AddressBookUtil } from './address-book.util';
+import { SavedAddress } from '../models/user.model';
+
+describe('AddressBookUtil', () => {
+  const entry = (id: string, overrides: Partial<SavedAddress> = {}): SavedAddress => ({
+    id,
+    label: id,
+    street: `${id} Main St`,
+    city: 'Atlanta',
+    state: 'GA',
+    zipCode: '30301',
+    country: 'USA',
+    isDefaultShipping: false,
+    isDefaultBilling: false,
+    ...overrides
+  });
+
+  const defaults = (addresses: SavedAddress[]) =>
+    addresses.map(a => [a.id, a.isDefaultShipping, a.isDefaultBilling]);
+
+  it('should make the first address the default when none is flagged', () => {
+    const book = AddressBookUtil.upsert([], entry('home'));
+
+    expect(defaults(book)).toEqual([['home', true, true]]);
+  });
+
+  it('should move a default to the entry that claims it', () => {
+    let book = AddressBookUtil.upsert([], entry('home'));
+    book = AddressBookUtil.upsert(book, entry('salon', { isDefaultShipping: true }));
+
+    expect(defaults(book)).toEqual([
+      ['home', false, true],
+      ['salon', true, false]
+    ]);
+  });
+
+  it('should hand the defaults on when the default entry is removed', () => {
+    let book = AddressBookUtil.upsert([], entry('home'));
+    book = AddressBookUtil.upsert(book, entry('salon'));
+    book = AddressBookUtil.setDefault(book, 'salon', 'billing');
+
+    expect(defaults(AddressBookUtil.remove(book, 'home'))).toEqual([['salon', true, true]]);
+  });
+
+  it('should match a saved address regardless of case and spacing', () => {
+    const book = [entry('home')];
+
+    expect(AddressBookUtil.findMatch(book, { street: ' home main st', city: 'ATLANTA', state: 'ga', zipCode: '30301', country: 'usa' })?.id)
+      .toBe('home');
+    expect(AddressBookUtil.findMatch(book, { street: 'home Main St', city: 'Atlanta', state: 'GA', zipCode: '30302', country: 'USA' }))
+      .toBeUndefined();
+  });
+});
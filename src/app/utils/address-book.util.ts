@@ -0,0 +1,79 @@
+import { Address, SavedAddress } from '../models/user.model';
+import { AddressFormatUtil } from './address-format.util';
+
+export type AddressUse = 'shipping' | 'billing';
+
+/**
+ * Address book helpers
+ * normalize() mirrors normalizeAddressBook in backend/controllers/authController.js
+ */
+export class AddressBookUtil {
+  /**
+   * Keep exactly one default shipping and one default billing entry
+   * The first entry flagged wins; with none flagged, the first address becomes the default.
+   */
+  static normalize(addresses: SavedAddress[]): SavedAddress[] {
+    const shippingIndex = Math.max(addresses.findIndex(a => a.isDefaultShipping), 0);
+    const billingIndex = Math.max(addresses.findIndex(a => a.isDefaultBilling), 0);
+
+    return addresses.map((address, index) => ({
+      ...address,
+      isDefaultShipping: index === shippingIndex,
+      isDefaultBilling: index === billingIndex
+    }));
+  }
+
+  /**
+   * Add an entry, or replace the one with the same ID
+   * An entry flagged as a default takes that role from the others.
+   */
+  static upsert(addresses: SavedAddress[], entry: SavedAddress): SavedAddress[] {
+    const others = addresses.map(address => ({
+      ...address,
+      isDefaultShipping: address.isDefaultShipping && !entry.isDefaultShipping,
+      isDefaultBilling: address.isDefaultBilling && !entry.isDefaultBilling
+    }));
+    const index = others.findIndex(address => address.id === entry.id);
+
+    return AddressBookUtil.normalize(
+      index === -1 ? [...others, entry] : others.map((address, i) => i === index ? entry : address)
+    );
+  }
+
+  static remove(addresses: SavedAddress[], id: string): SavedAddress[] {
+    return AddressBookUtil.normalize(addresses.filter(address => address.id !== id));
+  }
+
+  static setDefault(addresses: SavedAddress[], id: string, use: AddressUse): SavedAddress[] {
+    const flag = use === 'shipping' ? 'isDefaultShipping' : 'isDefaultBilling';
+    return AddressBookUtil.normalize(addresses.map(address => ({ ...address, [flag]: address.id === id })));
+  }
+
+  static findDefault(addresses: SavedAddress[], use: AddressUse): SavedAddress | undefined {
+    return addresses.find(address => use === 'shipping' ? address.isDefaultShipping : address.isDefaultBilling);
+  }
+
+  /**
+   * The saved entry for an address, ignoring case, spacing and how the country is written
+   */
+  static findMatch(addresses: SavedAddress[], address: Address): SavedAddress | undefined {
+    const key = (a: Address) => [a.street, a.city, a.state, (a.zipCode || '').replace(/\s+/g, ''), AddressFormatUtil.countryCode(a.country) ?? a.country]
+      .map(part => (part || '').trim().toUpperCase())
+      .join('|');
+    return addresses.find(saved => key(saved) === key(address));
+  }
+
+  /**
+   * The plain address of an entry, e.g. to fill in a checkout form
+   */
+  static toAddress(saved: SavedAddress): Address {
+    return {
+      street: saved.street,
+      city: saved.city,
+      state: saved.state,
+      zipCode: saved.zipCode,
+      country: saved.country,
+      ...(saved.phone ? { phone: saved.phone } : {})
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { AddressFormatUtil } from './address-format.util';
+
+describe('AddressFormatUtil', () => {
+  it('should read country codes and names, treating no country as the US', () => {
+    expect(AddressFormatUtil.countryCode('USA')).toBe('US');
+    expect(AddressFormatUtil.countryCode('')).toBe('US');
+    expect(AddressFormatUtil.countryCode(' canada ')).toBe('CA');
+    expect(AddressFormatUtil.countryCode('UK')).toBe('GB');
+    expect(AddressFormatUtil.countryCode('Germany')).toBe(null);
+  });
+
+  it('should check postal codes against the country format', () => {
+    expect(AddressFormatUtil.isValidPostalCode('30301', 'US')).toBe(true);
+    expect(AddressFormatUtil.isValidPostalCode('m5v 2t6', 'CA')).toBe(true);
+    expect(AddressFormatUtil.isValidPostalCode('SW1A1AA', 'GB')).toBe(true);
+    expect(AddressFormatUtil.isValidPostalCode('30301', 'CA')).toBe(false);
+    expect(AddressFormatUtil.isValidPostalCode('M5V 2T6', 'US')).toBe(false);
+  });
+
+  it('should convert national and international phone numbers to E.164', () => {
+    expect(AddressFormatUtil.toE164('(404) 555-0100', 'US')).toBe('+14045550100');
+    expect(AddressFormatUtil.toE164('1-416-555-0199', 'CA')).toBe('+14165550199');
+    expect(AddressFormatUtil.toE164('07911 123456', 'GB')).toBe('+447911123456');
+    expect(AddressFormatUtil.toE164('0044 7911 123456', 'US')).toBe('+447911123456');
+    expect(AddressFormatUtil.toE164('555-0100', 'US')).toBe(null);
+  });
+
+  it('should apply each country\'s required fields and region list', () => {
+    const toronto = { street: '1 King St W', city: 'Toronto', state: 'ON', zipCode: 'M5H 1A1', country: 'CA' };
+    const london = { street: '10 Downing St', city: 'London', state: '', zipCode: 'SW1A 2AA', country: 'GB' };
+
+    expect(AddressFormatUtil.validate(toronto)).toBe(null);
+    expect(AddressFormatUtil.validate({ ...toronto, state: 'NY' })).toBe('Please choose a valid province');
+    expect(AddressFormatUtil.validate(london)).toBe(null);
+    expect(AddressFormatUtil.validate({ ...london, country: 'US' })).toBe('Please enter the state');
+    expect(AddressFormatUtil.validate({ ...london, country: 'FR' })).toBe('We do not deliver to this country yet');
+  });
+
+  it('should normalize an address to its stored form', () => {
+    const address = AddressFormatUtil.normalize({
+      street: ' 1 King St W ',
+      city: 'Toronto',
+      state: 'on',
+      zipCode: 'm5h1a1',
+      country: 'Canada',
+      phone: '416 555 0199'
+    });
+
+    expect(address).toEqual({
+      street: '1 King St W',
+      city: 'Toronto',
+      state: 'ON',
+      zipCode: 'M5H 1A1',
+      country: 'CA',
+      phone: '+14165550199'
+    });
+  });
+});
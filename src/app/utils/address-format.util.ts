@@ -0,0 +1,218 @@
+import { Address } from '../models/user.model';
+import { ValidationUtil } from './validation.util';
+
+export type CountryCode = 'US' | 'CA' | 'GB';
+
+export interface Region {
+  code: string;
+  name: string;
+}
+
+/**
+ * How addresses are written and checked in a country
+ */
+export interface AddressFormat {
+  code: CountryCode;
+  name: string;
+  regionLabel: string; // State, Province, County
+  regionRequired: boolean;
+  regions?: Region[]; // Choose from a list; free text when absent
+  postalCodeLabel: string;
+  postalCodePlaceholder: string;
+  cityPlaceholder: string;
+  callingCode: string; // E.164 country code, without the +
+  nationalPhonePattern: RegExp; // National significant number, after the trunk prefix
+  trunkPrefix?: string; // Dialled before national numbers, e.g. 0 in the UK
+}
+
+/**
+ * Countries we deliver to and their address rules
+ * Same rules as backend/config/addressFormats.js; the backend's checks are the ones enforced
+ */
+const ADDRESS_FORMATS: AddressFormat[] = [
+  {
+    code: 'US',
+    name: 'United States',
+    regionLabel: 'State',
+    regionRequired: true,
+    regions: [
+      ['AL', 'Alabama'], ['AK', 'Alaska'], ['AZ', 'Arizona'], ['AR', 'Arkansas'], ['CA', 'California'],
+      ['CO', 'Colorado'], ['CT', 'Connecticut'], ['DE', 'Delaware'], ['DC', 'District of Columbia'],
+      ['FL', 'Florida'], ['GA', 'Georgia'], ['HI', 'Hawaii'], ['ID', 'Idaho'], ['IL', 'Illinois'],
+      ['IN', 'Indiana'], ['IA', 'Iowa'], ['KS', 'Kansas'], ['KY', 'Kentucky'], ['LA', 'Louisiana'],
+      ['ME', 'Maine'], ['MD', 'Maryland'], ['MA', 'Massachusetts'], ['MI', 'Michigan'], ['MN', 'Minnesota'],
+      ['MS', 'Mississippi'], ['MO', 'Missouri'], ['MT', 'Montana'], ['NE', 'Nebraska'], ['NV', 'Nevada'],
+      ['NH', 'New Hampshire'], ['NJ', 'New Jersey'], ['NM', 'New Mexico'], ['NY', 'New York'],
+      ['NC', 'North Carolina'], ['ND', 'North Dakota'], ['OH', 'Ohio'], ['OK', 'Oklahoma'], ['OR', 'Oregon'],
+      ['PA', 'Pennsylvania'], ['RI', 'Rhode Island'], ['SC', 'South Carolina'], ['SD', 'South Dakota'],
+      ['TN', 'Tennessee'], ['TX', 'Texas'], ['UT', 'Utah'], ['VT', 'Vermont'], ['VA', 'Virginia'],
+      ['WA', 'Washington'], ['WV', 'West Virginia'], ['WI', 'Wisconsin'], ['WY', 'Wyoming']
+    ].map(([code, name]) => ({ code, name })),
+    postalCodeLabel: 'ZIP Code',
+    postalCodePlaceholder: '10001',
+    cityPlaceholder: 'New York',
+    callingCode: '1',
+    nationalPhonePattern: /^[2-9]\d{9}$/
+  },
+  {
+    code: 'CA',
+    name: 'Canada',
+    regionLabel: 'Province',
+    regionRequired: true,
+    regions: [
+      ['AB', 'Alberta'], ['BC', 'British Columbia'], ['MB', 'Manitoba'], ['NB', 'New Brunswick'],
+      ['NL', 'Newfoundland and Labrador'], ['NS', 'Nova Scotia'], ['NT', 'Northwest Territories'],
+      ['NU', 'Nunavut'], ['ON', 'Ontario'], ['PE', 'Prince Edward Island'], ['QC', 'Quebec'],
+      ['SK', 'Saskatchewan'], ['YT', 'Yukon']
+    ].map(([code, name]) => ({ code, name })),
+    postalCodeLabel: 'Postal Code',
+    postalCodePlaceholder: 'M5V 2T6',
+    cityPlaceholder: 'Toronto',
+    callingCode: '1',
+    nationalPhonePattern: /^[2-9]\d{9}$/
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    regionLabel: 'County',
+    regionRequired: false,
+    postalCodeLabel: 'Postcode',
+    postalCodePlaceholder: 'SW1A 1AA',
+    cityPlaceholder: 'London',
+    callingCode: '44',
+    nationalPhonePattern: /^[1-9]\d{8,9}$/,
+    trunkPrefix: '0'
+  }
+];
+
+// Other ways buyers (and older orders) write each country
+const COUNTRY_ALIASES: Record<CountryCode, string[]> = {
+  US: ['US', 'USA', 'UNITED STATES', 'UNITED STATES OF AMERICA'],
+  CA: ['CA', 'CAN', 'CANADA'],
+  GB: ['GB', 'GBR', 'UK', 'UNITED KINGDOM', 'GREAT BRITAIN']
+};
+
+const POSTAL_CODE_PATTERNS: Record<CountryCode, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/
+};
+
+/**
+ * Country-aware address rules: required fields, region lists, postal codes and phone numbers
+ * Mirrors backend/utils/address.js
+ */
+export class AddressFormatUtil {
+  static readonly DEFAULT_COUNTRY: CountryCode = 'US';
+
+  static formats(): AddressFormat[] {
+    return ADDRESS_FORMATS;
+  }
+
+  /**
+   * The country code for a country as written (code or name); no country means the US
+   * Returns null for countries we do not deliver to.
+   */
+  static countryCode(country?: string): CountryCode | null {
+    const value = (country || '').trim().toUpperCase();
+    if (!value) {
+      return AddressFormatUtil.DEFAULT_COUNTRY;
+    }
+    const code = (Object.keys(COUNTRY_ALIASES) as CountryCode[]).find(key => COUNTRY_ALIASES[key].includes(value));
+    return code ?? null;
+  }
+
+  static findFormat(country?: string): AddressFormat | undefined {
+    const code = AddressFormatUtil.countryCode(country);
+    return ADDRESS_FORMATS.find(format => format.code === code);
+  }
+
+  static isValidPostalCode(postalCode: string, country?: string): boolean {
+    const code = AddressFormatUtil.countryCode(country);
+    return !!code && POSTAL_CODE_PATTERNS[code].test((postalCode || '').trim().toUpperCase());
+  }
+
+  /**
+   * A phone number in E.164 form (+14045550100), or null if it is not a valid number
+   * Numbers without a + are read as national numbers of the given country.
+   */
+  static toE164(phone: string, country?: string): string | null {
+    const digits = (phone || '').replace(/[\s().-]/g, '');
+    if (digits.startsWith('+') || digits.startsWith('00')) {
+      const international = '+' + digits.replace(/^(\+|00)/, '');
+      return ValidationUtil.isValidPhone(international) ? international : null;
+    }
+
+    const format = AddressFormatUtil.findFormat(country);
+    if (!format || !/^\d+$/.test(digits)) {
+      return null;
+    }
+
+    let national = digits;
+    if (national.length > 10 && national.startsWith(format.callingCode)) {
+      national = national.slice(format.callingCode.length);
+    }
+    if (format.trunkPrefix && national.startsWith(format.trunkPrefix)) {
+      national = national.slice(format.trunkPrefix.length);
+    }
+
+    return format.nationalPhonePattern.test(national) ? `+${format.callingCode}${national}` : null;
+  }
+
+  /**
+   * What is wrong with an address, or null if it is complete and valid for its country
+   */
+  static validate(address: Address): string | null {
+    const format = AddressFormatUtil.findFormat(address.country);
+    if (!format) {
+      return 'We do not deliver to this country yet';
+    }
+
+    if (!address.street?.trim() || !address.city?.trim()) {
+      return 'Please enter the street address and city';
+    }
+
+    const region = (address.state || '').trim().toUpperCase();
+    if (format.regionRequired && !region) {
+      return `Please enter the ${format.regionLabel.toLowerCase()}`;
+    }
+    if (format.regions && region && !format.regions.some(r => r.code === region)) {
+      return `Please choose a valid ${format.regionLabel.toLowerCase()}`;
+    }
+
+    if (!AddressFormatUtil.isValidPostalCode(address.zipCode, format.code)) {
+      return `Please enter a valid ${format.postalCodeLabel.toLowerCase()}`;
+    }
+
+    if (address.phone?.trim() && !AddressFormatUtil.toE164(address.phone, format.code)) {
+      return 'Please enter a valid phone number, including the country code for numbers abroad';
+    }
+
+    return null;
+  }
+
+  /**
+   * An address in its stored form: country code, upper-case region and postal code, E.164 phone
+   * Call after validate(); fields that cannot be normalized are left as entered.
+   */
+  static normalize(address: Address): Address {
+    const format = AddressFormatUtil.findFormat(address.country);
+    if (!format) {
+      return { ...address };
+    }
+
+    const compact = (address.zipCode || '').trim().toUpperCase().replace(/\s+/g, '');
+    const zipCode = format.code === 'US' ? compact : `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+    const phone = address.phone?.trim() ? AddressFormatUtil.toE164(address.phone, format.code) ?? address.phone : undefined;
+
+    return {
+      ...address,
+      street: address.street.trim(),
+      city: address.city.trim(),
+      state: format.regions ? (address.state || '').trim().toUpperCase() : (address.state || '').trim(),
+      zipCode,
+      country: format.code,
+      ...(phone ? { phone } : {})
+    };
+  }
+}
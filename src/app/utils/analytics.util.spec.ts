@@ -0,0 +1,112 @@
+import { AnalyticsUtil } from './analytics.util';
+import { Order, OrderItem } from '../models/order.model';
+import { Product } from '../models/product.model';
+
+describe('AnalyticsUtil', () => {
+  const product = (id: string, texture: Product['texture'], origin: string): Product => ({
+    id,
+    name: `Product ${id}`,
+    description: 'Test product',
+    price: 50,
+    category: 'virgin-hair',
+    length: 18,
+    texture,
+    color: 'Natural Black',
+    origin,
+    stock: 10,
+    imageUrl: 'https://example.com/a.jpg',
+    sellerId: 'seller1',
+    rating: 0,
+    reviews: 0,
+    createdAt: new Date()
+  });
+
+  const item = (productId: string, quantity: number, price: number): OrderItem => ({
+    productId,
+    productName: `Product ${productId}`,
+    productImage: 'https://example.com/a.jpg',
+    price,
+    quantity,
+    subtotal: price * quantity
+  });
+
+  const order = (id: string, createdAt: Date, items: OrderItem[], overrides: Partial<Order> = {}): Order => ({
+    id,
+    userId: 'buyer1',
+    userEmail: 'buyer@example.com',
+    userName: 'Test Buyer',
+    items,
+    shippingAddress: { street: '1 Main St', city: 'Austin', state: 'TX', zipCode: '78701', country: 'USA' },
+    billingAddress: { street: '1 Main St', city: 'Austin', state: 'TX', zipCode: '78701', country: 'USA' },
+    subtotal: items.reduce((sum, i) => sum + i.subtotal, 0),
+    shipping: 0,
+    tax: 0,
+    total: items.reduce((sum, i) => sum + i.subtotal, 0),
+    paymentMethod: 'card',
+    paymentStatus: 'paid',
+    orderStatus: 'processing',
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides
+  });
+
+  const products = [product('p1', 'straight', 'Brazilian'), product('p2', 'curly', 'Peruvian')];
+  const range = { from: new Date(2026, 2, 1), to: new Date(2026, 2, 7) };
+
+  const orders = [
+    // Another seller's item (p9) is ignored
+    order('o1', new Date(2026, 2, 1, 10), [item('p1', 2, 50), item('p9', 1, 500)]),
+    order('o2', new Date(2026, 2, 3, 23, 59), [item('p2', 1, 80)]),
+    order('o3', new Date(2026, 2, 4), [item('p1', 1, 50)], { paymentStatus: 'refunded' }),
+    order('o4', new Date(2026, 2, 5), [item('p2', 3, 80)], { orderStatus: 'cancelled' }),
+    // Outside the range
+    order('o5', new Date(2026, 2, 8), [item('p1', 5, 50)])
+  ];
+
+  it('should only count the seller\'s paid, uncancelled items in the range', () => {
+    const summary = AnalyticsUtil.summarize(orders, products, range);
+
+    expect(summary.revenue).toBe(180);
+    expect(summary.units).toBe(3);
+    expect(summary.orderCount).toBe(4);
+    expect(summary.paidOrderCount).toBe(2);
+    expect(summary.averageOrderValue).toBe(90);
+  });
+
+  it('should report refund and cancel rates over all orders placed', () => {
+    const summary = AnalyticsUtil.summarize(orders, products, range);
+
+    expect(summary.refundRate).toBe(0.25);
+    expect(summary.cancelRate).toBe(0.25);
+  });
+
+  it('should bucket revenue by day, including days without sales', () => {
+    const summary = AnalyticsUtil.summarize(orders, products, range);
+
+    expect(summary.interval).toBe('day');
+    expect(summary.revenueSeries.length).toBe(7);
+    expect(summary.revenueSeries.map(b => b.revenue)).toEqual([100, 0, 80, 0, 0, 0, 0]);
+  });
+
+  it('should rank products, textures and origins by revenue', () => {
+    const summary = AnalyticsUtil.summarize(orders, products, range);
+
+    expect(summary.products.map(p => [p.productId, p.units])).toEqual([['p1', 2], ['p2', 1]]);
+    expect(summary.textures.map(t => t.key)).toEqual(['straight', 'curly']);
+    expect(summary.origins[0]).toEqual({ key: 'Brazilian', units: 2, revenue: 100 });
+  });
+
+  it('should use weekly and monthly buckets for longer ranges', () => {
+    expect(AnalyticsUtil.intervalFor({ from: new Date(2026, 0, 1), to: new Date(2026, 2, 31) })).toBe('week');
+    expect(AnalyticsUtil.intervalFor({ from: new Date(2025, 0, 1), to: new Date(2025, 11, 31) })).toBe('month');
+  });
+
+  it('should export one row per seller line item', () => {
+    const rows = AnalyticsUtil.orderLineRows(orders, products, range);
+
+    expect(rows.length).toBe(5);
+    expect(rows[1]).toEqual([
+      '2026-03-01', 'o1', 'processing', 'paid', 'Product p1', '', 'straight', 'Brazilian', '2', '50.00', '100.00'
+    ]);
+  });
+});
@@ -0,0 +1,279 @@
+import { Order } from '../models/order.model';
+import { Product } from '../models/product.model';
+import { CatalogFileUtil } from './catalog-file.util';
+
+/**
+ * Inclusive range of calendar days, in the seller's local time
+ */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export type SalesInterval = 'day' | 'week' | 'month';
+
+export interface SalesBucket {
+  start: Date;
+  label: string;
+  revenue: number;
+  orders: number;
+}
+
+export interface ProductSales {
+  productId: string;
+  name: string;
+  units: number;
+  revenue: number;
+}
+
+/**
+ * Units and revenue for one texture or origin
+ */
+export interface SalesShare {
+  key: string;
+  units: number;
+  revenue: number;
+}
+
+export interface SalesSummary {
+  interval: SalesInterval;
+  revenueSeries: SalesBucket[];
+  products: ProductSales[];
+  textures: SalesShare[];
+  origins: SalesShare[];
+  revenue: number;
+  units: number;
+  orderCount: number;
+  paidOrderCount: number;
+  averageOrderValue: number;
+  refundRate: number;
+  cancelRate: number;
+}
+
+/**
+ * Sales analytics utilities for the seller dashboard
+ * Orders can contain other sellers' products, so every figure is computed
+ * from the seller's own line items only (revenue excludes shipping and tax,
+ * and is net of coupon discounts).
+ *
+ * An order counts as a sale once it is paid and not cancelled; refund and
+ * cancel rates are shares of all orders placed in the range.
+ */
+export class AnalyticsUtil {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Summarize the orders placed in the range that contain the given products
+   */
+  static summarize(orders: Order[], products: Product[], range: DateRange): SalesSummary {
+    const catalog = new Map(products.map(p => [p.id, p]));
+    const interval = this.intervalFor(range);
+    const series = this.buckets(range, interval);
+    const byStart = new Map(series.map(bucket => [bucket.start.getTime(), bucket]));
+
+    const productSales = new Map<string, ProductSales>();
+    const textures = new Map<string, SalesShare>();
+    const origins = new Map<string, SalesShare>();
+
+    let revenue = 0;
+    let units = 0;
+    let orderCount = 0;
+    let paidOrderCount = 0;
+    let refunded = 0;
+    let cancelled = 0;
+
+    for (const order of this.inRange(orders, range)) {
+      const items = order.items.filter(item => catalog.has(item.productId));
+      if (items.length === 0) continue;
+
+      orderCount++;
+      if (order.paymentStatus === 'refunded') refunded++;
+      if (order.orderStatus === 'cancelled') cancelled++;
+      if (!this.isSale(order)) continue;
+
+      paidOrderCount++;
+      const bucket = byStart.get(this.startOf(new Date(order.createdAt), interval).getTime());
+      if (bucket) bucket.orders++;
+
+      for (const item of items) {
+        const product = catalog.get(item.productId)!;
+        const amount = item.subtotal - (item.discount ?? 0);
+        revenue += amount;
+        units += item.quantity;
+        if (bucket) bucket.revenue += amount;
+
+        const sales = productSales.get(item.productId) ??
+          { productId: item.productId, name: product.name, units: 0, revenue: 0 };
+        sales.units += item.quantity;
+        sales.revenue += amount;
+        productSales.set(item.productId, sales);
+
+        this.addShare(textures, product.texture, item.quantity, amount);
+        this.addShare(origins, product.origin, item.quantity, amount);
+      }
+    }
+
+    return {
+      interval,
+      revenueSeries: series.map(bucket => ({ ...bucket, revenue: this.round(bucket.revenue) })),
+      products: this.ranked([...productSales.values()]),
+      textures: this.ranked([...textures.values()]),
+      origins: this.ranked([...origins.values()]),
+      revenue: this.round(revenue),
+      units,
+      orderCount,
+      paidOrderCount,
+      averageOrderValue: paidOrderCount > 0 ? this.round(revenue / paidOrderCount) : 0,
+      refundRate: orderCount > 0 ? refunded / orderCount : 0,
+      cancelRate: orderCount > 0 ? cancelled / orderCount : 0
+    };
+  }
+
+  /**
+   * One row per seller line item in the range, for spreadsheet export (header first)
+   */
+  static orderLineRows(orders: Order[], products: Product[], range: DateRange): string[][] {
+    const catalog = new Map(products.map(p => [p.id, p]));
+    const rows: string[][] = [[
+      'date', 'order', 'order status', 'payment status', 'product', 'variant',
+      'texture', 'origin', 'quantity', 'unit price', 'subtotal'
+    ]];
+
+    for (const order of this.inRange(orders, range)) {
+      for (const item of order.items) {
+        const product = catalog.get(item.productId);
+        if (!product) continue;
+
+        rows.push([
+          this.isoDate(new Date(order.createdAt)),
+          order.orderNumber || order.id,
+          order.orderStatus,
+          order.paymentStatus,
+          CatalogFileUtil.escapeFormula(item.productName),
+          CatalogFileUtil.escapeFormula(item.variantLabel ?? ''),
+          product.texture,
+          product.origin,
+          String(item.quantity),
+          item.price.toFixed(2),
+          item.subtotal.toFixed(2)
+        ]);
+      }
+    }
+
+    return rows;
+  }
+
+  static revenueRows(summary: SalesSummary): string[][] {
+    return [
+      [`${summary.interval} starting`, 'orders', 'revenue'],
+      ...summary.revenueSeries.map(bucket => [
+        this.isoDate(bucket.start), String(bucket.orders), bucket.revenue.toFixed(2)
+      ])
+    ];
+  }
+
+  static productRows(summary: SalesSummary): string[][] {
+    return [
+      ['product id', 'product', 'units sold', 'revenue'],
+      ...summary.products.map(sales => [
+        sales.productId, CatalogFileUtil.escapeFormula(sales.name), String(sales.units), sales.revenue.toFixed(2)
+      ])
+    ];
+  }
+
+  /**
+   * Bucket size that keeps charts readable: daily up to a month,
+   * weekly up to six months, monthly beyond that
+   */
+  static intervalFor(range: DateRange): SalesInterval {
+    const days = Math.round((this.startOf(range.to, 'day').getTime() - this.startOf(range.from, 'day').getTime()) / this.DAY_MS) + 1;
+    if (days <= 31) return 'day';
+    if (days <= 183) return 'week';
+    return 'month';
+  }
+
+  private static inRange(orders: Order[], range: DateRange): Order[] {
+    const from = this.startOf(range.from, 'day').getTime();
+    const to = this.startOf(range.to, 'day').getTime() + this.DAY_MS;
+
+    return orders.filter(order => {
+      const placed = new Date(order.createdAt).getTime();
+      return placed >= from && placed < to;
+    });
+  }
+
+  private static isSale(order: Order): boolean {
+    return order.paymentStatus === 'paid' && order.orderStatus !== 'cancelled';
+  }
+
+  /**
+   * Empty buckets covering the whole range, so quiet periods show as gaps
+   */
+  private static buckets(range: DateRange, interval: SalesInterval): SalesBucket[] {
+    const buckets: SalesBucket[] = [];
+    const end = this.startOf(range.to, 'day');
+
+    for (let start = this.startOf(range.from, interval); start <= end; start = this.next(start, interval)) {
+      buckets.push({ start, label: this.label(start, interval), revenue: 0, orders: 0 });
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Local midnight at the start of the day, week (Sunday) or month containing date
+   */
+  private static startOf(date: Date, interval: SalesInterval): Date {
+    switch (interval) {
+      case 'month':
+        return new Date(date.getFullYear(), date.getMonth(), 1);
+      case 'week':
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+      default:
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+  }
+
+  private static next(start: Date, interval: SalesInterval): Date {
+    switch (interval) {
+      case 'month':
+        return new Date(start.getFullYear(), start.getMonth() + 1, 1);
+      case 'week':
+        return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+      default:
+        return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    }
+  }
+
+  private static label(start: Date, interval: SalesInterval): string {
+    return interval === 'month'
+      ? start.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+      : start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+
+  private static addShare(shares: Map<string, SalesShare>, key: string, units: number, revenue: number): void {
+    const share = shares.get(key) ?? { key, units: 0, revenue: 0 };
+    share.units += units;
+    share.revenue += revenue;
+    shares.set(key, share);
+  }
+
+  /**
+   * Best sellers first, with revenue rounded to cents
+   */
+  private static ranked<T extends { units: number; revenue: number }>(entries: T[]): T[] {
+    return entries
+      .map(entry => ({ ...entry, revenue: this.round(entry.revenue) }))
+      .sort((a, b) => b.revenue - a.revenue || b.units - a.units);
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private static isoDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
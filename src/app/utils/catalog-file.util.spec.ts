@@ -0,0 +1,96 @@
+import { CatalogFileUtil } from './catalog-file.util';
+import { Product } from '../models/product.model';
+
+describe('CatalogFileUtil', () => {
+  const product: Product = {
+    id: 'p1',
+    name: 'Brazilian Straight Bundle',
+    description: 'Soft, silky "virgin" hair,\nready to dye',
+    price: 89.99,
+    category: 'virgin-hair',
+    length: 18,
+    texture: 'straight',
+    color: 'Natural Black',
+    origin: 'Brazilian',
+    stock: 25,
+    imageUrl: 'https://example.com/a.jpg',
+    images: ['https://example.com/a.jpg', 'https://example.com/b.jpg'],
+    sellerId: 'seller1',
+    rating: 0,
+    reviews: 0,
+    createdAt: new Date()
+  };
+
+  const header = CatalogFileUtil.COLUMNS.join(',');
+
+  describe('CSV', () => {
+    it('should round-trip quotes, commas and newlines', () => {
+      const rows = [['a', 'b,c', 'say "hi"', 'two\nlines']];
+      expect(CatalogFileUtil.parseCsv(CatalogFileUtil.toCsv(rows))).toEqual(rows);
+    });
+
+    it('should skip blank lines and a byte order mark', () => {
+      expect(CatalogFileUtil.parseCsv('\uFEFFa,b\r\n\r\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    it('should neutralize cells that spreadsheets would run as formulas', () => {
+      const rows = CatalogFileUtil.toRows([{ ...product, name: '=HYPERLINK("x")' }]);
+      expect(rows[1][1]).toBe(`'=HYPERLINK("x")`);
+    });
+  });
+
+  describe('plan', () => {
+    it('should report no changes when re-importing an export', () => {
+      const csv = CatalogFileUtil.toCsv(CatalogFileUtil.toRows([product]));
+      const plan = CatalogFileUtil.plan(CatalogFileUtil.parseCsv(csv), [product]);
+
+      expect(plan.unchanged).toBe(1);
+      expect(plan.creates.length).toBe(0);
+      expect(plan.updates.length).toBe(0);
+      expect(plan.errors.length).toBe(0);
+    });
+
+    it('should list changed fields for existing products', () => {
+      const rows = CatalogFileUtil.toRows([{ ...product, price: 79.99, stock: 30 }]);
+      const plan = CatalogFileUtil.plan(rows, [product]);
+
+      expect(plan.updates.length).toBe(1);
+      expect(plan.updates[0].changes.map(c => c.field)).toEqual(['price', 'stock']);
+      expect(plan.updates[0].values).toEqual({ price: 79.99, stock: 30 });
+    });
+
+    it('should create rows without an id once every field is valid', () => {
+      const rows = CatalogFileUtil.parseCsv(
+        `${header}\n,Peruvian Body Wave,Bouncy body wave bundle,virgin-hair,BODY-WAVE,peruvian,20,Natural Black,$95,10,https://example.com/c.jpg`
+      );
+      const plan = CatalogFileUtil.plan(rows, []);
+
+      expect(plan.errors).toEqual([]);
+      expect(plan.creates[0].values).toEqual(jasmine.objectContaining({
+        texture: 'body-wave',
+        origin: 'Peruvian',
+        price: 95,
+        images: ['https://example.com/c.jpg']
+      }));
+    });
+
+    it('should collect validation errors by spreadsheet row', () => {
+      const rows = CatalogFileUtil.parseCsv(
+        `${header}\n,Ok,Too short,wig,straight,Brazilian,18,Black,-5,1.5,not-a-url\nmissing,Name,Description here,virgin-hair,straight,Brazilian,18,Black,10,1,https://example.com/d.jpg`
+      );
+      const plan = CatalogFileUtil.plan(rows, [product]);
+
+      expect(plan.errors.length).toBe(2);
+      expect(plan.errors[0].row).toBe(2);
+      expect(plan.errors[0].messages).toContain('Product name must be at least 3 characters');
+      expect(plan.errors[0].messages).toContain('Price cannot be negative');
+      expect(plan.errors[0].messages).toContain('Stock must be a whole number');
+      expect(plan.errors[1]).toEqual({ row: 3, messages: ['Unknown product id "missing"'] });
+    });
+
+    it('should require every column for new products', () => {
+      const plan = CatalogFileUtil.plan([['name'], ['Lace Closure']], []);
+      expect(plan.errors[0].messages).toContain('price is required');
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import { Product } from '../models/product.model';
+import { ValidationUtil } from './validation.util';
+import { VariantUtil } from './variant.util';
+
+/**
+ * Product fields a catalog file can set
+ */
+export type CatalogField = 'name' | 'description' | 'category' | 'texture' | 'origin' |
+  'length' | 'color' | 'price' | 'stock' | 'images';
+
+export type CatalogValues = Pick<Product, Exclude<CatalogField, 'images'>> & { images: string[] };
+
+export interface CatalogChange {
+  field: CatalogField;
+  from: string;
+  to: string;
+}
+
+/**
+ * Dry-run result of importing a catalog file against the seller's current products
+ */
+export interface CatalogImportPlan {
+  creates: { row: number; values: CatalogValues }[];
+  updates: { row: number; product: Product; changes: CatalogChange[]; values: Partial<CatalogValues> }[];
+  unchanged: number;
+  errors: { row: number; messages: string[] }[];
+  warnings: string[];
+}
+
+/**
+ * Catalog file utilities for seller bulk import/export
+ * One product per row; the header row names the columns, in any order.
+ * Export writes the same columns the import reads, so files round-trip.
+ *
+ * Rows with an `id` update that product; rows without one create a product.
+ */
+export class CatalogFileUtil {
+  static readonly COLUMNS: readonly ('id' | CatalogField)[] = [
+    'id', 'name', 'description', 'category', 'texture', 'origin',
+    'length', 'color', 'price', 'stock', 'images'
+  ];
+
+  static readonly CATEGORIES: Product['category'][] = ['virgin-hair', 'remy-hair', 'synthetic', 'closure', 'frontal'];
+  static readonly TEXTURES: Product['texture'][] = ['straight', 'body-wave', 'deep-wave', 'curly', 'kinky'];
+  static readonly ORIGINS = ['Brazilian', 'Peruvian', 'Malaysian', 'Indian', 'Cambodian', 'Vietnamese'];
+
+  // Gallery URLs share one cell, e.g. "https://a.jpg|https://b.jpg"
+  private static readonly IMAGE_SEPARATOR = '|';
+
+  // Spreadsheet apps run cells starting with these as formulas
+  private static readonly FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+  /**
+   * Rows (header first) describing the given products
+   */
+  static toRows(products: Product[]): string[][] {
+    const rows = products.map(product => this.COLUMNS.map(column => {
+      switch (column) {
+        case 'images':
+          return (product.images?.length ? product.images : [product.imageUrl]).join(this.IMAGE_SEPARATOR);
+        case 'name':
+        case 'description':
+        case 'color':
+          return this.escapeFormula(product[column]);
+        default:
+          return String(product[column] ?? '');
+      }
+    }));
+
+    return [[...this.COLUMNS], ...rows];
+  }
+
+  /**
+   * Serialize rows as RFC 4180 CSV
+   * Starts with a byte order mark so Excel opens it as UTF-8.
+   */
+  static toCsv(rows: string[][]): string {
+    const lines = rows.map(row => row.map(cell =>
+      /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+    ).join(','));
+
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Parse RFC 4180 CSV (quoted fields may contain commas, quotes and newlines)
+   */
+  static parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    // Skip blank lines
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+  }
+
+  /**
+   * Validate every row and work out what importing it would change
+   * Nothing is saved; the caller applies the plan once the seller confirms.
+   */
+  static plan(rows: string[][], existing: Product[]): CatalogImportPlan {
+    const plan: CatalogImportPlan = { creates: [], updates: [], unchanged: 0, errors: [], warnings: [] };
+
+    if (rows.length < 2) {
+      plan.warnings.push('The file has no product rows.');
+      return plan;
+    }
+
+    const columns = this.mapHeader(rows[0], plan.warnings);
+    const seenIds = new Set<string>();
+    let skippedVariantPricing = false;
+
+    rows.slice(1).forEach((cells, index) => {
+      // Spreadsheet row numbers: the header is row 1
+      const row = index + 2;
+      const raw = (column: 'id' | CatalogField): string | undefined => {
+        const position = columns.get(column);
+        return position === undefined ? undefined : (cells[position] ?? '').trim();
+      };
+
+      const id = raw('id');
+      const product = id ? existing.find(p => p.id === id) : undefined;
+
+      if (id && !product) {
+        plan.errors.push({ row, messages: [`Unknown product id "${id}"`] });
+        return;
+      }
+      if (id && seenIds.has(id)) {
+        plan.errors.push({ row, messages: [`Product id "${id}" appears more than once`] });
+        return;
+      }
+      if (id) {
+        seenIds.add(id);
+      }
+
+      const { values, messages } = this.parseValues(raw, !product);
+
+      // Variant products take their price and stock from the variants
+      if (product && VariantUtil.hasVariants(product)) {
+        if ((values.price !== undefined && values.price !== product.price) ||
+            (values.stock !== undefined && values.stock !== product.stock)) {
+          skippedVariantPricing = true;
+        }
+        delete values.price;
+        delete values.stock;
+      }
+
+      if (messages.length > 0) {
+        plan.errors.push({ row, messages });
+      } else if (!product) {
+        plan.creates.push({ row, values: values as CatalogValues });
+      } else {
+        const changes = this.compare(product, values);
+        if (changes.length === 0) {
+          plan.unchanged++;
+        } else {
+          const changed = Object.fromEntries(changes.map(c => [c.field, values[c.field]])) as Partial<CatalogValues>;
+          plan.updates.push({ row, product, changes, values: changed });
+        }
+      }
+    });
+
+    if (skippedVariantPricing) {
+      plan.warnings.push('Price and stock of products with variants are managed per variant and were not imported.');
+    }
+
+    return plan;
+  }
+
+  /**
+   * Match header cells to fields, ignoring case, spaces, dashes and underscores
+   * e.g. "Image URL", "images" and "IMAGES" all map to images
+   */
+  private static mapHeader(header: string[], warnings: string[]): Map<'id' | CatalogField, number> {
+    const aliases: Record<string, 'id' | CatalogField> = { imageurl: 'images', image: 'images' };
+    const columns = new Map<'id' | CatalogField, number>();
+
+    header.forEach((cell, position) => {
+      const key = cell.trim().toLowerCase().replace(/[\s_-]/g, '');
+      const column = this.COLUMNS.find(c => c.toLowerCase() === key) ?? aliases[key];
+
+      if (column && !columns.has(column)) {
+        columns.set(column, position);
+      } else if (cell.trim()) {
+        warnings.push(`Column "${cell.trim()}" was ignored.`);
+      }
+    });
+
+    return columns;
+  }
+
+  /**
+   * Parse and validate the cells of one row
+   * New products need every field; updates only validate the cells that are filled in.
+   */
+  private static parseValues(
+    raw: (column: CatalogField) => string | undefined,
+    isNew: boolean
+  ): { values: Partial<CatalogValues>; messages: string[] } {
+    const values: Partial<CatalogValues> = {};
+    const messages: string[] = [];
+
+    const cell = (column: CatalogField): string | undefined => {
+      const value = raw(column);
+      if (value === undefined || value === '') {
+        if (isNew) {
+          messages.push(`${column} is required`);
+        }
+        return undefined;
+      }
+      return this.unescapeFormula(value);
+    };
+
+    // Names and descriptions are stored as typed: sanitizeText() HTML-encodes its
+    // output, and templates escape on render anyway
+    const name = cell('name');
+    if (name !== undefined) {
+      const result = ValidationUtil.validateProductName(name);
+      if (result.valid) {
+        values.name = name;
+      } else {
+        messages.push(result.message);
+      }
+    }
+
+    const description = cell('description');
+    if (description !== undefined) {
+      const result = ValidationUtil.validateProductDescription(description);
+      if (result.valid) {
+        values.description = description;
+      } else {
+        messages.push(result.message);
+      }
+    }
+
+    const category = cell('category')?.toLowerCase();
+    if (category !== undefined) {
+      const match = this.CATEGORIES.find(c => c === category);
+      if (match) {
+        values.category = match;
+      } else {
+        messages.push(`Invalid category "${category}"`);
+      }
+    }
+
+    const texture = cell('texture')?.toLowerCase();
+    if (texture !== undefined) {
+      const match = this.TEXTURES.find(t => t === texture);
+      if (match) {
+        values.texture = match;
+      } else {
+        messages.push(`Invalid texture "${texture}"`);
+      }
+    }
+
+    const origin = cell('origin');
+    if (origin !== undefined) {
+      const match = this.ORIGINS.find(o => o.toLowerCase() === origin.toLowerCase());
+      if (match) {
+        values.origin = match;
+      } else {
+        messages.push(`Invalid origin "${origin}"`);
+      }
+    }
+
+    const length = cell('length');
+    if (length !== undefined) {
+      const inches = Number(length);
+      if (Number.isInteger(inches) && inches >= 8 && inches <= 40) {
+        values.length = inches;
+      } else {
+        messages.push('Length must be a whole number of inches between 8 and 40');
+      }
+    }
+
+    const color = cell('color');
+    if (color !== undefined) {
+      if (color.length <= 50) {
+        values.color = color;
+      } else {
+        messages.push('Color must not exceed 50 characters');
+      }
+    }
+
+    const price = cell('price');
+    if (price !== undefined) {
+      const amount = Number(price.replace(/^\$/, ''));
+      const result = ValidationUtil.validatePrice(amount);
+      if (result.valid) {
+        values.price = amount;
+      } else {
+        messages.push(result.message);
+      }
+    }
+
+    const stock = cell('stock');
+    if (stock !== undefined) {
+      const quantity = Number(stock);
+      const result = ValidationUtil.validateStock(quantity);
+      if (result.valid) {
+        values.stock = quantity;
+      } else {
+        messages.push(result.message);
+      }
+    }
+
+    const images = cell('images');
+    if (images !== undefined) {
+      const urls = images.split(this.IMAGE_SEPARATOR).map(url => url.trim()).filter(Boolean);
+      const invalid = urls.filter(url => !this.isImageUrl(url));
+      if (invalid.length > 0) {
+        messages.push(`Invalid image URL "${invalid[0]}"`);
+      } else if (urls.length > 10) {
+        messages.push('A product can have at most 10 images');
+      } else {
+        values.images = urls;
+      }
+    }
+
+    return { values, messages };
+  }
+
+  private static compare(product: Product, values: Partial<CatalogValues>): CatalogChange[] {
+    const changes: CatalogChange[] = [];
+    const current = (field: CatalogField): string => field === 'images'
+      ? (product.images?.length ? product.images : [product.imageUrl]).join(this.IMAGE_SEPARATOR)
+      : String(product[field]);
+
+    for (const field of Object.keys(values) as CatalogField[]) {
+      const to = field === 'images'
+        ? values.images!.join(this.IMAGE_SEPARATOR)
+        : String(values[field]);
+
+      if (current(field) !== to) {
+        changes.push({ field, from: current(field), to });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Uploaded images may be served from localhost, so only the scheme is checked
+   */
+  private static isImageUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Prefix cells spreadsheet apps would run as formulas with a quote
+   */
+  static escapeFormula(text: string): string {
+    return this.FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  }
+
+  private static unescapeFormula(text: string): string {
+    return text.startsWith("'") && this.FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+  }
+}
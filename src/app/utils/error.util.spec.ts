@@ -0,0 +1,16 @@
+import { ErrorUtil } from './error.util';
+
+describe('ErrorUtil', () => {
+  it('should use the message of HTTP errors and Error instances', () => {
+    expect(ErrorUtil.message({ status: 409, message: 'Out of stock' }, 'Failed')).toBe('Out of stock');
+    expect(ErrorUtil.message(new Error('Network down'), 'Failed')).toBe('Network down');
+  });
+
+  it('should fall back when there is no usable message', () => {
+    expect(ErrorUtil.message(undefined, 'Failed')).toBe('Failed');
+    expect(ErrorUtil.message(null, 'Failed')).toBe('Failed');
+    expect(ErrorUtil.message('boom', 'Failed')).toBe('Failed');
+    expect(ErrorUtil.message({ message: '' }, 'Failed')).toBe('Failed');
+    expect(ErrorUtil.message({ message: 42 }, 'Failed')).toBe('Failed');
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Caught error helpers
+ * HTTP errors reach callers as { status, message } (see errorInterceptor);
+ * other failures are Error instances or anything else that was thrown.
+ */
+export class ErrorUtil {
+  /**
+   * The message of a caught error, or the fallback when it has none
+   */
+  static message(error: unknown, fallback: string): string {
+    const message = (error as { message?: unknown } | null | undefined)?.message;
+    return typeof message === 'string' && message.length > 0 ? message : fallback;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * A photo prepared for upload: the resized image and its thumbnail
+ */
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  type: 'image/webp' | 'image/jpeg';
+  width: number;
+  height: number;
+}
+
+/**
+ * Image utilities for product photo uploads
+ * Uses the Canvas API to resize and re-encode images in the browser.
+ *
+ * Re-encoding through a canvas writes only pixel data, so EXIF metadata
+ * (camera details, GPS coordinates) never leaves the seller's device.
+ */
+export class ImageUtil {
+  // Longest edge of the uploaded image and of its thumbnail, in pixels
+  static readonly MAX_DIMENSION = 1600;
+  static readonly THUMBNAIL_DIMENSION = 320;
+  static readonly QUALITY = 0.85;
+
+  // Largest original file accepted before processing (phone photos can be large)
+  static readonly MAX_SOURCE_SIZE = 25 * 1024 * 1024;
+
+  private static webpSupported: boolean | null = null;
+
+  /**
+   * Resize, compress and strip metadata from a photo, and create its thumbnail
+   * Output is WebP where the browser can encode it, JPEG otherwise.
+   */
+  static async process(file: File): Promise<ProcessedImage> {
+    // Apply the EXIF orientation while decoding so stripping it does not rotate the photo
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+    try {
+      const type = this.supportsWebP() ? 'image/webp' : 'image/jpeg';
+      const { width, height } = this.fit(bitmap.width, bitmap.height, this.MAX_DIMENSION);
+      const thumbnailSize = this.fit(bitmap.width, bitmap.height, this.THUMBNAIL_DIMENSION);
+
+      const image = await this.encode(bitmap, width, height, type);
+      const thumbnail = await this.encode(bitmap, thumbnailSize.width, thumbnailSize.height, type);
+
+      return { image, thumbnail, type, width, height };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Scale dimensions down (never up) so the longest edge is at most max
+   */
+  static fit(width: number, height: number, max: number): { width: number; height: number } {
+    const scale = Math.min(1, max / Math.max(width, height));
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale))
+    };
+  }
+
+  /**
+   * Whether this browser's canvas can encode WebP (Safari before 16 cannot)
+   */
+  static supportsWebP(): boolean {
+    if (this.webpSupported === null) {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = 1;
+      this.webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+    }
+    return this.webpSupported;
+  }
+
+  private static encode(bitmap: ImageBitmap, width: number, height: number, type: string): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return Promise.reject(new Error('Canvas is not supported'));
+    }
+
+    // JPEG has no transparency; paint white instead of black behind transparent PNGs
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Image could not be encoded')),
+        type,
+        this.QUALITY
+      );
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { PromotionUtil, PromotionLine } from './promotion.util';
+import { Coupon } from '../models/coupon.model';
+import { Product } from '../models/product.model';
+
+describe('PromotionUtil', () => {
+  const product = (id: string, category: Product['category'], sellerId: string): Product => ({
+    id,
+    name: `Product ${id}`,
+    description: 'Test product',
+    price: 0,
+    category,
+    length: 18,
+    texture: 'straight',
+    color: 'Natural Black',
+    origin: 'Brazilian',
+    stock: 10,
+    imageUrl: 'https://example.com/a.jpg',
+    sellerId,
+    rating: 0,
+    reviews: 0,
+    createdAt: new Date()
+  });
+
+  const lines: PromotionLine[] = [
+    { product: product('p1', 'virgin-hair', 'seller1'), price: 100, quantity: 1 },
+    { product: product('p2', 'closure', 'seller2'), price: 30, quantity: 3 }
+  ];
+
+  it('should take a percentage off every eligible line', () => {
+    const coupon: Coupon = { code: 'TEN', type: 'percentage', value: 10 };
+
+    expect(PromotionUtil.calculate(coupon, lines)).toEqual({ discount: 19, lineDiscounts: [10, 9] });
+  });
+
+  it('should spread a fixed discount across lines without losing cents', () => {
+    const coupon: Coupon = { code: 'FIFTY', type: 'fixed', value: 50 };
+    const result = PromotionUtil.calculate(coupon, lines);
+
+    expect(result.discount).toBe(50);
+    expect(result.lineDiscounts).toEqual([26.32, 23.68]);
+  });
+
+  it('should never discount more than the eligible items cost', () => {
+    const coupon: Coupon = { code: 'BIG', type: 'fixed', value: 500, sellerId: 'seller2' };
+
+    expect(PromotionUtil.calculate(coupon, lines).lineDiscounts).toEqual([0, 90]);
+  });
+
+  it('should make the cheapest units free for buy-X-get-Y', () => {
+    const coupon: Coupon = { code: 'BOGO', type: 'bogo', value: 100, buyQuantity: 1, getQuantity: 1 };
+
+    expect(PromotionUtil.calculate(coupon, lines)).toEqual({ discount: 60, lineDiscounts: [0, 60] });
+  });
+
+  it('should only count items in the coupon\'s categories', () => {
+    const coupon: Coupon = { code: 'CLOSURES', type: 'bogo', value: 50, buyQuantity: 2, getQuantity: 1, categories: ['closure'] };
+
+    expect(PromotionUtil.calculate(coupon, lines).lineDiscounts).toEqual([0, 15]);
+  });
+
+  it('should explain why a coupon gives nothing', () => {
+    const minimum: Coupon = { code: 'MIN', type: 'percentage', value: 10, minSubtotal: 250 };
+    const scoped: Coupon = { code: 'WIGS', type: 'percentage', value: 10, categories: ['frontal'] };
+
+    expect(PromotionUtil.calculate(minimum, lines).message).toBe('Add $60.00 more to use MIN.');
+    expect(PromotionUtil.calculate(scoped, lines).message).toBe('WIGS does not apply to the items in your cart.');
+  });
+});
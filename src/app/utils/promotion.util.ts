@@ -0,0 +1,115 @@
+import { Coupon, CouponDiscount } from '../models/coupon.model';
+import { Product } from '../models/product.model';
+
+/**
+ * A cart or order line as seen by a coupon
+ */
+export interface PromotionLine {
+  product: Product;
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Coupon discount calculation
+ * Mirrors backend/utils/promotions.js; the backend's figures are the ones charged
+ */
+export class PromotionUtil {
+  /**
+   * Whether a product is covered by the coupon's scope
+   */
+  static isEligible(coupon: Coupon, product: Product): boolean {
+    if (coupon.categories?.length && !coupon.categories.includes(product.category)) {
+      return false;
+    }
+    if (coupon.sellerId && coupon.sellerId !== product.sellerId) {
+      return false;
+    }
+    if (coupon.productIds?.length && !coupon.productIds.includes(product.id)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Discount a coupon gives on a set of lines, split across the lines
+   */
+  static calculate(coupon: Coupon, lines: PromotionLine[]): CouponDiscount {
+    const lineDiscounts = lines.map(() => 0);
+    const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+    if (coupon.minSubtotal && subtotal < coupon.minSubtotal) {
+      return {
+        discount: 0,
+        lineDiscounts,
+        message: `Add $${(coupon.minSubtotal - subtotal).toFixed(2)} more to use ${coupon.code}.`
+      };
+    }
+
+    const eligible = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => PromotionUtil.isEligible(coupon, line.product));
+
+    if (coupon.type === 'percentage') {
+      eligible.forEach(({ line, index }) => {
+        lineDiscounts[index] = PromotionUtil.round(line.price * line.quantity * coupon.value / 100);
+      });
+    } else if (coupon.type === 'fixed') {
+      // Spread over the eligible lines by value; the last line takes the rounding remainder
+      const eligibleTotal = eligible.reduce((sum, { line }) => sum + line.price * line.quantity, 0);
+      const amount = Math.min(coupon.value, eligibleTotal);
+      let remaining = PromotionUtil.round(amount);
+
+      eligible.forEach(({ line, index }, position) => {
+        const share = position === eligible.length - 1
+          ? remaining
+          : PromotionUtil.round(amount * line.price * line.quantity / eligibleTotal);
+        lineDiscounts[index] = share;
+        remaining = PromotionUtil.round(remaining - share);
+      });
+    } else {
+      // Every group of buy + get units (most expensive first) makes its cheapest units discounted
+      const units = eligible
+        .flatMap(({ line, index }) => Array.from({ length: line.quantity }, () => ({ index, price: line.price })))
+        .sort((a, b) => b.price - a.price);
+      const buy = coupon.buyQuantity ?? 1;
+      const get = coupon.getQuantity ?? 1;
+      const discounted = Math.floor(units.length / (buy + get)) * get;
+
+      units.slice(units.length - discounted).forEach(unit => {
+        lineDiscounts[unit.index] = PromotionUtil.round(lineDiscounts[unit.index] + unit.price * coupon.value / 100);
+      });
+
+      if (discounted === 0 && eligible.length > 0) {
+        return { discount: 0, lineDiscounts, message: `Add ${buy + get} eligible items to use ${coupon.code}.` };
+      }
+    }
+
+    const discount = PromotionUtil.round(lineDiscounts.reduce((sum, amount) => sum + amount, 0));
+
+    return discount > 0
+      ? { discount, lineDiscounts }
+      : { discount, lineDiscounts, message: `${coupon.code} does not apply to the items in your cart.` };
+  }
+
+  /**
+   * Short description of what a coupon gives, e.g. '10% off' or 'Buy 2, get 1 free'
+   */
+  static describe(coupon: Coupon): string {
+    if (coupon.description) {
+      return coupon.description;
+    }
+    if (coupon.type === 'percentage') {
+      return `${coupon.value}% off`;
+    }
+    if (coupon.type === 'fixed') {
+      return `$${coupon.value.toFixed(2)} off`;
+    }
+    const reward = coupon.value >= 100 ? 'free' : `${coupon.value}% off`;
+    return `Buy ${coupon.buyQuantity ?? 1}, get ${coupon.getQuantity ?? 1} ${reward}`;
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
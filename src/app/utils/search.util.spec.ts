@@ -0,0 +1,90 @@
+import { SearchUtil, SearchField } from './search.util';
+
+describe('SearchUtil', () => {
+  describe('tokenize', () => {
+    it('should lowercase and split on non-alphanumeric characters', () => {
+      expect(SearchUtil.tokenize('Peruvian Body-Wave, 18"')).toEqual(['peruvian', 'body', 'wave', '18']);
+    });
+
+    it('should strip accents', () => {
+      expect(SearchUtil.tokenize('Crème Brûlée')).toEqual(['creme', 'brulee']);
+    });
+
+    it('should handle empty input', () => {
+      expect(SearchUtil.tokenize('')).toEqual([]);
+      expect(SearchUtil.tokenize(undefined as any)).toEqual([]);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(SearchUtil.editDistance('wave', 'wave')).toBe(0);
+      expect(SearchUtil.editDistance('wav', 'wave')).toBe(1);
+      expect(SearchUtil.editDistance('kurly', 'curly')).toBe(1);
+      expect(SearchUtil.editDistance('kitten', 'sitting')).toBe(3);
+    });
+
+    it('should stop early once the limit is exceeded', () => {
+      expect(SearchUtil.editDistance('straight', 'curly', 2)).toBe(3);
+    });
+  });
+
+  describe('matchToken', () => {
+    it('should prefer exact over prefix over typo matches', () => {
+      const exact = SearchUtil.matchToken('brazilian', 'brazilian');
+      const prefix = SearchUtil.matchToken('braz', 'brazilian');
+      const typo = SearchUtil.matchToken('brazillian', 'brazilian');
+
+      expect(exact).toBeGreaterThan(prefix);
+      expect(prefix).toBeGreaterThan(typo);
+      expect(typo).toBeGreaterThan(0);
+    });
+
+    it('should not tolerate typos in very short tokens', () => {
+      expect(SearchUtil.matchToken('red', 'bed')).toBe(0);
+    });
+  });
+
+  describe('score', () => {
+    const fields: SearchField[] = [
+      { text: 'Brazilian Straight Bundle', weight: 5 },
+      { text: 'Natural Black', weight: 3 },
+      { text: 'Silky smooth virgin hair', weight: 1 }
+    ];
+
+    it('should require every query token to match', () => {
+      expect(SearchUtil.score(fields, 'straight black')).toBeGreaterThan(0);
+      expect(SearchUtil.score(fields, 'straight blonde')).toBe(0);
+    });
+
+    it('should weight matches by field', () => {
+      expect(SearchUtil.score(fields, 'straight')).toBeGreaterThan(SearchUtil.score(fields, 'silky'));
+    });
+
+    it('should return 0 for a blank query', () => {
+      expect(SearchUtil.score(fields, '   ')).toBe(0);
+    });
+  });
+
+  describe('rank', () => {
+    const products = [
+      { name: 'Malaysian Curly', description: 'Bouncy curls, blends with Brazilian hair' },
+      { name: 'Brazilian Straight', description: 'Silky straight hair' },
+      { name: 'Peruvian Body Wave', description: 'Natural bounce' }
+    ];
+    const fieldsOf = (p: { name: string; description: string }): SearchField[] => [
+      { text: p.name, weight: 5 },
+      { text: p.description, weight: 1 }
+    ];
+
+    it('should drop non-matches and order by relevance', () => {
+      const results = SearchUtil.rank(products, 'brazilian', fieldsOf);
+      expect(results.map(p => p.name)).toEqual(['Brazilian Straight', 'Malaysian Curly']);
+    });
+
+    it('should tolerate typos', () => {
+      const results = SearchUtil.rank(products, 'peruvain', fieldsOf);
+      expect(results.map(p => p.name)).toEqual(['Peruvian Body Wave']);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * A piece of text to search, and how much a match in it counts
+ */
+export interface SearchField {
+  text: string;
+  weight: number;
+}
+
+/**
+ * Full-text search utilities
+ * Tokenized, typo-tolerant matching with weighted relevance scoring.
+ *
+ * Mirrors backend/utils/search.js so demo and API results rank the same way.
+ */
+export class SearchUtil {
+  // Score for a query token that matches a document token exactly,
+  // is a prefix of it (typeahead), or is within the allowed edit distance
+  private static readonly EXACT_MATCH = 1;
+  private static readonly PREFIX_MATCH = 0.8;
+  private static readonly TYPO_MATCH = 0.6;
+
+  /**
+   * Split text into lowercase, accent-free alphanumeric tokens
+   * e.g. "Body-Wave Brazilian" -> ['body', 'wave', 'brazilian']
+   */
+  static tokenize(text: string): string[] {
+    if (!text) {
+      return [];
+    }
+
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 0);
+  }
+
+  /**
+   * Number of typos tolerated for a query token of this length
+   */
+  static maxTypos(token: string): number {
+    if (token.length <= 3) {
+      return 0;
+    }
+    return token.length <= 6 ? 1 : 2;
+  }
+
+  /**
+   * Levenshtein distance between two strings
+   * Stops early and returns max + 1 once the distance is known to exceed max
+   */
+  static editDistance(a: string, b: string, max: number = Infinity): number {
+    if (Math.abs(a.length - b.length) > max) {
+      return max + 1;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        rowMin = Math.min(rowMin, current[j]);
+      }
+
+      if (rowMin > max) {
+        return max + 1;
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  /**
+   * How well a single query token matches a single document token (0 = no match)
+   */
+  static matchToken(queryToken: string, docToken: string): number {
+    if (queryToken === docToken) {
+      return this.EXACT_MATCH;
+    }
+    if (queryToken.length >= 2 && docToken.startsWith(queryToken)) {
+      return this.PREFIX_MATCH;
+    }
+
+    const allowed = this.maxTypos(queryToken);
+    if (allowed > 0 && this.editDistance(queryToken, docToken, allowed) <= allowed) {
+      return this.TYPO_MATCH;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Relevance of a document to a query (0 = not a match)
+   * Every query token must match somewhere; each contributes its best
+   * match score times the weight of the field it matched in.
+   */
+  static score(fields: SearchField[], query: string): number {
+    const queryTokens = this.tokenize(query);
+    if (queryTokens.length === 0) {
+      return 0;
+    }
+
+    const tokenizedFields = fields.map(field => ({
+      tokens: this.tokenize(field.text),
+      weight: field.weight
+    }));
+
+    let total = 0;
+    for (const queryToken of queryTokens) {
+      let best = 0;
+      for (const field of tokenizedFields) {
+        for (const docToken of field.tokens) {
+          best = Math.max(best, this.matchToken(queryToken, docToken) * field.weight);
+        }
+      }
+
+      if (best === 0) {
+        return 0;
+      }
+      total += best;
+    }
+
+    return total;
+  }
+
+  /**
+   * Filter items to those matching the query, most relevant first
+   * Ties keep their original order
+   */
+  static rank<T>(items: T[], query: string, fieldsOf: (item: T) => SearchField[]): T[] {
+    return items
+      .map((item, index) => ({ item, index, score: this.score(fieldsOf(item), query) }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(result => result.item);
+  }
+}
@@ -0,0 +1,71 @@
+import { ShippingUtil, ShippingLine } from './shipping.util';
+
+describe('ShippingUtil', () => {
+  // Friday morning, before the dispatch cutoff
+  const friday = new Date(2026, 9, 16, 10, 0);
+
+  const bundles: ShippingLine[] = [{ category: 'virgin-hair', quantity: 2 }];
+
+  it('should price standard by item count and express and overnight by weight for the zone', () => {
+    const options = ShippingUtil.getOptions({ state: 'NY', zipCode: '10001' }, bundles, 80, friday);
+
+    expect(options.map(o => [o.service, o.amount])).toEqual([
+      ['standard', 8],
+      ['express', 17],
+      ['overnight', 32]
+    ]);
+  });
+
+  it('should move to heavier brackets as the parcel grows', () => {
+    // 4 bundles (16 oz) and a frontal (4 oz) plus packaging is 24 oz over 5 items
+    const lines: ShippingLine[] = [
+      { category: 'remy-hair', quantity: 4 },
+      { category: 'frontal', quantity: 1 }
+    ];
+    const options = ShippingUtil.getOptions({ state: 'CA', zipCode: '90001' }, lines, 80, friday);
+
+    expect(options.map(o => [o.service, o.amount])).toEqual([
+      ['standard', 12],
+      ['express', 29],
+      ['overnight', 52]
+    ]);
+  });
+
+  it('should make standard shipping free over the threshold', () => {
+    const options = ShippingUtil.getOptions({ state: 'NY', zipCode: '10001' }, bundles, 100, friday);
+
+    expect(options[0].service).toBe('standard');
+    expect(options[0].amount).toBe(0);
+  });
+
+  it('should count delivery in business days from dispatch', () => {
+    const options = ShippingUtil.getOptions({ state: 'GA', zipCode: '30301' }, bundles, 80, friday);
+    const standard = options.find(o => o.service === 'standard')!;
+    const overnight = options.find(o => o.service === 'overnight')!;
+
+    // Ships Friday; 2-3 business days skips the weekend
+    expect(standard.estimatedDelivery.earliest).toEqual(new Date(2026, 9, 20));
+    expect(standard.estimatedDelivery.latest).toEqual(new Date(2026, 9, 21));
+    expect(overnight.estimatedDelivery.latest).toEqual(new Date(2026, 9, 19));
+  });
+
+  it('should ship the next business day after the cutoff', () => {
+    const fridayEvening = new Date(2026, 9, 16, 18, 0);
+
+    expect(ShippingUtil.estimateDelivery(1, 1, fridayEvening).earliest).toEqual(new Date(2026, 9, 20));
+  });
+
+  it('should ship standard and express to Canada and the UK without the free-shipping threshold', () => {
+    const options = ShippingUtil.getOptions({ state: 'ON', zipCode: 'M5V 2T6', country: 'CA' }, bundles, 150, friday);
+
+    expect(options.map(o => [o.service, o.amount])).toEqual([
+      ['standard', 20],
+      ['express', 40]
+    ]);
+    expect(ShippingUtil.getOptions({ state: '', zipCode: 'SW1A 1AA', country: 'UK' }, bundles, 80, friday).length).toBe(2);
+  });
+
+  it('should not offer shipping to other countries', () => {
+    expect(ShippingUtil.getOptions({ zipCode: '75001', country: 'France' }, bundles, 80, friday)).toEqual([]);
+  });
+});
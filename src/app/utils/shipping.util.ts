@@ -0,0 +1,192 @@
+import { Address } from '../models/user.model';
+import { Product } from '../models/product.model';
+import { ShippingOption, ShippingService } from '../models/shipping.model';
+import { AddressFormatUtil } from './address-format.util';
+
+interface RateBracket {
+  upTo: number | null; // Inclusive; null = no upper limit
+  rates: (number | null)[]; // One per zone; null = service not offered there
+}
+
+interface ServiceLevel {
+  name: string;
+  freeOver?: number;
+  rateTable: {
+    basis: 'quantity' | 'weight'; // Item count, or parcel weight in ounces
+    brackets: RateBracket[];
+  };
+  transitDays: ([number, number] | null)[]; // Business days [min, max] per zone
+}
+
+/**
+ * Shipping zones, service levels and rate tables
+ * Same tables as backend/config/shipping.js; the backend's figures are the ones charged
+ */
+const SHIPPING_ZONES: Record<number, string[]> = {
+  1: ['GA', 'FL', 'AL', 'SC', 'NC', 'TN'],
+  2: ['VA', 'WV', 'KY', 'OH', 'IN', 'MI', 'IL', 'WI', 'MS', 'LA', 'AR', 'MO', 'DC', 'MD', 'DE', 'PA', 'NJ', 'NY'],
+  3: ['CT', 'RI', 'MA', 'VT', 'NH', 'ME', 'MN', 'IA', 'KS', 'NE', 'SD', 'ND', 'OK', 'TX'],
+  4: ['NM', 'CO', 'WY', 'MT', 'ID', 'UT', 'AZ', 'NV', 'CA', 'OR', 'WA'],
+  5: ['AK', 'HI']
+};
+
+// Countries abroad and their zones
+const INTERNATIONAL_ZONES: Record<string, number> = {
+  CA: 6,
+  GB: 7
+};
+
+const DEFAULT_ZONE = 3;
+
+const SERVICE_LEVELS: Record<ShippingService, ServiceLevel> = {
+  standard: {
+    name: 'Standard',
+    freeOver: 100,
+    rateTable: {
+      basis: 'quantity',
+      brackets: [
+        { upTo: 3, rates: [7, 8, 9, 10, 18, 20, 28] },
+        { upTo: 6, rates: [9, 10, 11, 12, 22, 26, 36] },
+        { upTo: null, rates: [12, 13, 14, 16, 28, 34, 48] }
+      ]
+    },
+    transitDays: [[2, 3], [3, 4], [3, 5], [4, 6], [6, 9], [5, 8], [7, 12]]
+  },
+  express: {
+    name: 'Express',
+    rateTable: {
+      basis: 'weight',
+      brackets: [
+        { upTo: 16, rates: [15, 17, 19, 22, 35, 40, 55] },
+        { upTo: 48, rates: [19, 22, 25, 29, 45, 52, 70] },
+        { upTo: null, rates: [25, 29, 33, 38, 60, 68, 90] }
+      ]
+    },
+    transitDays: [[1, 2], [2, 2], [2, 3], [2, 3], [3, 4], [2, 4], [3, 5]]
+  },
+  overnight: {
+    name: 'Overnight',
+    rateTable: {
+      basis: 'weight',
+      brackets: [
+        { upTo: 16, rates: [28, 32, 36, 40, 60, null, null] },
+        { upTo: 48, rates: [36, 41, 46, 52, 80, null, null] },
+        { upTo: null, rates: [48, 55, 62, 70, 110, null, null] }
+      ]
+    },
+    transitDays: [[1, 1], [1, 1], [1, 1], [1, 1], [2, 2], null, null]
+  }
+};
+
+const CATEGORY_WEIGHTS: Record<string, number> = {
+  'virgin-hair': 4,
+  'remy-hair': 4,
+  'synthetic': 4,
+  'closure': 3,
+  'frontal': 4,
+  'wig': 10
+};
+const PACKAGING_WEIGHT = 4;
+
+const DISPATCH_CUTOFF_HOUR = 14;
+
+/**
+ * A cart or order line as seen by the rate tables
+ */
+export interface ShippingLine {
+  category: Product['category'];
+  quantity: number;
+}
+
+/**
+ * Shipping rates and delivery estimates from the bundled rate tables
+ * Mirrors the backend's default rate provider (backend/utils/shipping.js)
+ */
+export class ShippingUtil {
+  /**
+   * Shipping options for lines going to an address, cheapest first
+   * subtotal is after any coupon discount (it decides free shipping).
+   * Returns no options for addresses we do not ship to. Free standard shipping is US-only.
+   */
+  static getOptions(address: Partial<Address> | undefined, lines: ShippingLine[], subtotal: number, now: Date = new Date()): ShippingOption[] {
+    const zone = ShippingUtil.findZone(address);
+    if (zone === null) {
+      return [];
+    }
+
+    const weight = lines.reduce(
+      (sum, line) => sum + (CATEGORY_WEIGHTS[line.category] ?? CATEGORY_WEIGHTS['virgin-hair']) * line.quantity,
+      PACKAGING_WEIGHT
+    );
+    const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const domestic = !!SHIPPING_ZONES[zone];
+
+    return (Object.keys(SERVICE_LEVELS) as ShippingService[])
+      .flatMap(service => {
+        const level = SERVICE_LEVELS[service];
+        const measure = level.rateTable.basis === 'weight' ? weight : quantity;
+        const bracket = level.rateTable.brackets.find(b => b.upTo === null || measure <= b.upTo)!;
+        const rate = bracket.rates[zone - 1];
+        const transitDays = level.transitDays[zone - 1];
+        if (rate === null || transitDays === null) {
+          return [];
+        }
+
+        const free = domestic && level.freeOver !== undefined && subtotal >= level.freeOver;
+        return [{
+          service,
+          name: level.name,
+          amount: free ? 0 : rate,
+          estimatedDelivery: ShippingUtil.estimateDelivery(transitDays[0], transitDays[1], now)
+        }];
+      })
+      .sort((a, b) => a.amount - b.amount);
+  }
+
+  /**
+   * Earliest and latest delivery dates for a transit time in business days
+   * Orders placed on a business day before the cutoff ship the same day, others the next business day
+   */
+  static estimateDelivery(minDays: number, maxDays: number, now: Date = new Date()): { earliest: Date; latest: Date } {
+    let dispatch = new Date(now);
+    if (ShippingUtil.isWeekend(dispatch) || dispatch.getHours() >= DISPATCH_CUTOFF_HOUR) {
+      dispatch = ShippingUtil.addBusinessDays(dispatch, 1);
+    }
+    dispatch.setHours(0, 0, 0, 0);
+
+    return {
+      earliest: ShippingUtil.addBusinessDays(dispatch, minDays),
+      latest: ShippingUtil.addBusinessDays(dispatch, maxDays)
+    };
+  }
+
+  private static findZone(address?: Partial<Address>): number | null {
+    const country = AddressFormatUtil.countryCode(address?.country);
+    if (country !== 'US') {
+      return (country && INTERNATIONAL_ZONES[country]) || null;
+    }
+    if (!address?.state?.trim()) {
+      return DEFAULT_ZONE;
+    }
+
+    const state = address.state.trim().toUpperCase();
+    const zone = Object.keys(SHIPPING_ZONES).find(key => SHIPPING_ZONES[Number(key)].includes(state));
+    return zone ? Number(zone) : null;
+  }
+
+  private static addBusinessDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    let remaining = days;
+    while (remaining > 0) {
+      result.setDate(result.getDate() + 1);
+      if (!ShippingUtil.isWeekend(result)) {
+        remaining--;
+      }
+    }
+    return result;
+  }
+
+  private static isWeekend(date: Date): boolean {
+    return date.getDay() === 0 || date.getDay() === 6;
+  }
+}
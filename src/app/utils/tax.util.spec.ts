@@ -0,0 +1,47 @@
+import { TaxUtil } from './tax.util';
+
+describe('TaxUtil', () => {
+  it('should add the local rate for the ZIP prefix and tax shipping where the state does', () => {
+    const result = TaxUtil.calculate({
+      address: { state: 'NY', zipCode: '10001', country: 'USA' },
+      subtotal: 90,
+      shipping: 10
+    });
+
+    expect(result.lines).toEqual([
+      { jurisdiction: 'NY', name: 'NY state tax', rate: 4, taxableAmount: 100, amount: 4 },
+      { jurisdiction: 'NY-100', name: 'Local tax', rate: 4.875, taxableAmount: 100, amount: 4.88 }
+    ]);
+    expect(result.tax).toBe(8.88);
+  });
+
+  it('should leave shipping untaxed in states that exempt it', () => {
+    const result = TaxUtil.calculate({
+      address: { state: 'ca', zipCode: '95814' },
+      subtotal: 50,
+      shipping: 10
+    });
+
+    expect(result.lines).toEqual([
+      { jurisdiction: 'CA', name: 'CA state tax', rate: 7.25, taxableAmount: 50, amount: 3.63 }
+    ]);
+    expect(result.tax).toBe(3.63);
+  });
+
+  it('should not tax states without a sales tax, other countries or exempt buyers', () => {
+    const subtotal = 50;
+    const shipping = 10;
+
+    expect(TaxUtil.calculate({ address: { state: 'OR', zipCode: '97201' }, subtotal, shipping }))
+      .toEqual({ tax: 0, lines: [] });
+    expect(TaxUtil.calculate({ address: { state: 'ON', zipCode: 'M5V 2T6', country: 'Canada' }, subtotal, shipping }))
+      .toEqual({ tax: 0, lines: [] });
+    expect(TaxUtil.calculate({ address: { state: 'TX', zipCode: '77001' }, subtotal, shipping, taxExempt: true }))
+      .toEqual({ tax: 0, lines: [] });
+  });
+
+  it('should not tax an order without a shipping state yet', () => {
+    expect(TaxUtil.calculate({ address: { state: '', zipCode: '' }, subtotal: 50, shipping: 10 }))
+      .toEqual({ tax: 0, lines: [] });
+  });
+});
@@ -0,0 +1,133 @@
+import { Address } from '../models/user.model';
+import { TaxLine, TaxRequest, TaxResult } from '../models/tax.model';
+import { AddressFormatUtil } from './address-format.util';
+
+interface StateTaxRate {
+  rate: number; // Percent
+  shippingTaxable: boolean;
+  local?: Record<string, number>; // Combined local rates by ZIP code prefix
+}
+
+/**
+ * Bundled US sales tax rates
+ * Same table as backend/config/taxRates.js; the backend's figures are the ones charged
+ */
+const US_TAX_RATES: Record<string, StateTaxRate> = {
+  AL: { rate: 4, shippingTaxable: false },
+  AK: { rate: 0, shippingTaxable: false },
+  AZ: { rate: 5.6, shippingTaxable: false, local: { '850': 3.0 } },
+  AR: { rate: 6.5, shippingTaxable: true },
+  CA: { rate: 7.25, shippingTaxable: false, local: { '900': 2.25, '901': 2.25, '921': 0.5, '941': 1.375 } },
+  CO: { rate: 2.9, shippingTaxable: false, local: { '802': 5.91 } },
+  CT: { rate: 6.35, shippingTaxable: true },
+  DE: { rate: 0, shippingTaxable: false },
+  DC: { rate: 6, shippingTaxable: true },
+  FL: { rate: 6, shippingTaxable: false, local: { '331': 1.0 } },
+  GA: { rate: 4, shippingTaxable: true, local: { '303': 4.9 } },
+  HI: { rate: 4, shippingTaxable: true },
+  ID: { rate: 6, shippingTaxable: false },
+  IL: { rate: 6.25, shippingTaxable: false, local: { '606': 4.0 } },
+  IN: { rate: 7, shippingTaxable: true },
+  IA: { rate: 6, shippingTaxable: false },
+  KS: { rate: 6.5, shippingTaxable: true },
+  KY: { rate: 6, shippingTaxable: true },
+  LA: { rate: 5, shippingTaxable: false, local: { '701': 5.0 } },
+  ME: { rate: 5.5, shippingTaxable: false },
+  MD: { rate: 6, shippingTaxable: false },
+  MA: { rate: 6.25, shippingTaxable: false },
+  MI: { rate: 6, shippingTaxable: true },
+  MN: { rate: 6.875, shippingTaxable: true },
+  MS: { rate: 7, shippingTaxable: true },
+  MO: { rate: 4.225, shippingTaxable: false },
+  MT: { rate: 0, shippingTaxable: false },
+  NE: { rate: 5.5, shippingTaxable: true },
+  NV: { rate: 6.85, shippingTaxable: false },
+  NH: { rate: 0, shippingTaxable: false },
+  NJ: { rate: 6.625, shippingTaxable: true },
+  NM: { rate: 4.875, shippingTaxable: true },
+  NY: { rate: 4, shippingTaxable: true, local: { '100': 4.875, '101': 4.875, '102': 4.875, '103': 4.875, '104': 4.875 } },
+  NC: { rate: 4.75, shippingTaxable: true },
+  ND: { rate: 5, shippingTaxable: true },
+  OH: { rate: 5.75, shippingTaxable: true },
+  OK: { rate: 4.5, shippingTaxable: false },
+  OR: { rate: 0, shippingTaxable: false },
+  PA: { rate: 6, shippingTaxable: true },
+  RI: { rate: 7, shippingTaxable: true },
+  SC: { rate: 6, shippingTaxable: true },
+  SD: { rate: 4.2, shippingTaxable: true },
+  TN: { rate: 7, shippingTaxable: true, local: { '372': 2.25 } },
+  TX: { rate: 6.25, shippingTaxable: true, local: { '752': 2.0, '753': 2.0, '770': 2.0, '771': 2.0, '772': 2.0 } },
+  UT: { rate: 6.1, shippingTaxable: false },
+  VT: { rate: 6, shippingTaxable: true },
+  VA: { rate: 5.3, shippingTaxable: false },
+  WA: { rate: 6.5, shippingTaxable: true, local: { '980': 3.75, '981': 3.75 } },
+  WV: { rate: 6, shippingTaxable: true },
+  WI: { rate: 5, shippingTaxable: true },
+  WY: { rate: 4, shippingTaxable: false }
+};
+
+/**
+ * Sales tax from the bundled per-state and ZIP-prefix rate table
+ * Mirrors the backend's default tax calculator (backend/utils/tax.js)
+ */
+export class TaxUtil {
+  /**
+   * Tax on an order shipped to the given address
+   * Addresses outside the US, or without a known state, are not taxed
+   */
+  static calculate(request: TaxRequest): TaxResult {
+    if (request.taxExempt) {
+      return { tax: 0, lines: [] };
+    }
+
+    const lines: TaxLine[] = TaxUtil.findJurisdictions(request.address).map(({ shippingTaxable, ...jurisdiction }) => {
+      const taxableAmount = TaxUtil.round(request.subtotal + (shippingTaxable ? request.shipping : 0));
+      return {
+        ...jurisdiction,
+        taxableAmount,
+        amount: TaxUtil.round(taxableAmount * jurisdiction.rate / 100)
+      };
+    });
+
+    return {
+      tax: TaxUtil.round(lines.reduce((sum, line) => sum + line.amount, 0)),
+      lines
+    };
+  }
+
+  private static findJurisdictions(address?: Partial<Address>): (Omit<TaxLine, 'taxableAmount' | 'amount'> & { shippingTaxable: boolean })[] {
+    if (!address?.state || AddressFormatUtil.countryCode(address.country) !== 'US') {
+      return [];
+    }
+
+    const state = address.state.trim().toUpperCase();
+    const stateRates = US_TAX_RATES[state];
+    if (!stateRates || stateRates.rate === 0) {
+      return [];
+    }
+
+    const jurisdictions = [{
+      jurisdiction: state,
+      name: `${state} state tax`,
+      rate: stateRates.rate,
+      shippingTaxable: stateRates.shippingTaxable
+    }];
+
+    const prefix = (address.zipCode ?? '').trim().slice(0, 3);
+    const localRate = stateRates.local?.[prefix];
+    if (localRate) {
+      jurisdictions.push({
+        jurisdiction: `${state}-${prefix}`,
+        name: 'Local tax',
+        rate: localRate,
+        shippingTaxable: stateRates.shippingTaxable
+      });
+    }
+
+    return jurisdictions;
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -69,6 +69,19 @@ describe('ValidationUtil', () => {
     });
   });
 
+  describe('passwordStrength', () => {
+    it('should score the share of requirements met', () => {
+      expect(ValidationUtil.passwordStrength('')).toBe(0);
+      expect(ValidationUtil.passwordStrength('short')).toBe(0.2);
+      expect(ValidationUtil.passwordStrength('NoSpecialChar123')).toBe(0.8);
+      expect(ValidationUtil.passwordStrength('MySecure!Pass2024')).toBe(1);
+    });
+
+    it('should not give a common password full marks', () => {
+      expect(ValidationUtil.passwordStrength('Password123!')).toBe(0.8);
+    });
+  });
+
   describe('sanitizeText', () => {
     it('should remove HTML tags', () => {
       const input = '<script>alert("xss")</script>Hello';
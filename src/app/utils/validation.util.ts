@@ -14,8 +14,8 @@ export class ValidationUtil {
   // URL validation (must be http/https)
   private static readonly URL_REGEX = /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/;
 
-  // Phone number validation (US format)
-  private static readonly PHONE_REGEX = /^\(?([0-9]{3})\)?[-. ]?([0-9]{3})[-. ]?([0-9]{4})$/;
+  // Phone number validation (E.164: + country code and number, up to 15 digits)
+  private static readonly PHONE_REGEX = /^\+[1-9]\d{7,14}$/;
 
   // ZIP code validation (US format)
   private static readonly ZIP_REGEX = /^\d{5}(-\d{4})?$/;
@@ -31,6 +31,15 @@ export class ValidationUtil {
     return this.EMAIL_REGEX.test(email.trim());
   }
 
+  // Password requirements in the order they are reported
+  private static readonly PASSWORD_RULES: { test: (password: string) => boolean; message: string }[] = [
+    { test: p => p.length >= 12, message: 'Password must be at least 12 characters long' },
+    { test: p => /[a-z]/.test(p), message: 'Password must contain at least one lowercase letter' },
+    { test: p => /[A-Z]/.test(p), message: 'Password must contain at least one uppercase letter' },
+    { test: p => /\d/.test(p), message: 'Password must contain at least one number' },
+    { test: p => /[@$!%*?&]/.test(p), message: 'Password must contain at least one special character (@$!%*?&)' }
+  ];
+
   /**
    * Validate password strength
    * Requirements: min 12 chars, uppercase, lowercase, number, special char
@@ -40,24 +49,9 @@ export class ValidationUtil {
       return { valid: false, message: 'Password is required' };
     }
 
-    if (password.length < 12) {
-      return { valid: false, message: 'Password must be at least 12 characters long' };
-    }
-
-    if (!/[a-z]/.test(password)) {
-      return { valid: false, message: 'Password must contain at least one lowercase letter' };
-    }
-
-    if (!/[A-Z]/.test(password)) {
-      return { valid: false, message: 'Password must contain at least one uppercase letter' };
-    }
-
-    if (!/\d/.test(password)) {
-      return { valid: false, message: 'Password must contain at least one number' };
-    }
-
-    if (!/[@$!%*?&]/.test(password)) {
-      return { valid: false, message: 'Password must contain at least one special character (@$!%*?&)' };
+    const failed = this.PASSWORD_RULES.find(rule => !rule.test(password));
+    if (failed) {
+      return { valid: false, message: failed.message };
     }
 
     // Check against common passwords
@@ -69,6 +63,23 @@ export class ValidationUtil {
     return { valid: true, message: 'Password is strong' };
   }
 
+  /**
+   * Share of the password requirements met, from 0 to 1 (for strength meters)
+   * Only a password that passes isStrongPassword scores 1.
+   */
+  static passwordStrength(password: string): number {
+    if (!password || typeof password !== 'string') {
+      return 0;
+    }
+
+    if (this.isStrongPassword(password).valid) {
+      return 1;
+    }
+
+    const met = this.PASSWORD_RULES.filter(rule => rule.test(password)).length;
+    return Math.min(met, this.PASSWORD_RULES.length - 1) / this.PASSWORD_RULES.length;
+  }
+
   /**
    * Validate URL format (must be http/https)
    */
@@ -78,7 +89,8 @@ export class ValidationUtil {
   }
 
   /**
-   * Validate phone number (US format)
+   * Validate phone number in E.164 format (+14045550100)
+   * AddressFormatUtil.toE164 converts national numbers
    */
   static isValidPhone(phone: string): boolean {
     if (!phone || typeof phone !== 'string') return false;
@@ -0,0 +1,75 @@
+import { Product, ProductVariant } from '../models/product.model';
+import { ValidationUtil } from './validation.util';
+
+/**
+ * Product variant helpers
+ * Mirrors the variant rules in backend/models/Product.js
+ */
+export class VariantUtil {
+  // Lace dimensions offered for closures and frontals
+  static readonly LACE_SIZES = ['2x6', '4x4', '5x5', '6x6', '13x4', '13x6'];
+
+  /**
+   * Short description of a variant, e.g. '18" · Natural Black · 13x4 lace'
+   */
+  static label(variant: ProductVariant): string {
+    const parts = [`${variant.length}"`, variant.color];
+    if (variant.laceSize) {
+      parts.push(`${variant.laceSize} lace`);
+    }
+    return parts.join(' · ');
+  }
+
+  static hasVariants(product: Product): boolean {
+    return (product.variants?.length ?? 0) > 0;
+  }
+
+  static find(product: Product, variantId: string | undefined): ProductVariant | undefined {
+    return variantId ? product.variants?.find(v => v.id === variantId) : undefined;
+  }
+
+  /**
+   * Listing-level price and stock for a set of variants:
+   * the lowest variant price ("from $X") and the combined stock
+   */
+  static summarize(variants: ProductVariant[]): { price: number; stock: number } {
+    return {
+      price: Math.min(...variants.map(v => v.price)),
+      stock: variants.reduce((sum, v) => sum + v.stock, 0)
+    };
+  }
+
+  /**
+   * Check a seller's variant grid before saving
+   * Each row needs a color, a valid price and stock, and a unique option combination
+   */
+  static validate(variants: ProductVariant[]): { valid: boolean; message: string } {
+    const seen = new Set<string>();
+
+    for (const [index, variant] of variants.entries()) {
+      const row = `Variant ${index + 1}`;
+
+      if (!variant.color?.trim()) {
+        return { valid: false, message: `${row}: color is required` };
+      }
+
+      const price = ValidationUtil.validatePrice(Number(variant.price));
+      if (!price.valid || Number(variant.price) === 0) {
+        return { valid: false, message: `${row}: ${price.message || 'Price must be greater than zero'}` };
+      }
+
+      const stock = ValidationUtil.validateStock(Number(variant.stock));
+      if (!stock.valid) {
+        return { valid: false, message: `${row}: ${stock.message}` };
+      }
+
+      const key = this.label({ ...variant, color: variant.color.trim().toLowerCase() });
+      if (seen.has(key)) {
+        return { valid: false, message: `${row} duplicates another variant (${this.label(variant)})` };
+      }
+      seen.add(key);
+    }
+
+    return { valid: true, message: '' };
+  }
+}
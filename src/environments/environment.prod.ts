@@ -28,14 +28,7 @@ export const environment = {
   // Sentry Error Monitoring DSN
   // Get from: https://sentry.io (create a new Angular project)
   // Leave empty to disable error monitoring
-  sentryDsn: '', // TODO: Add your Sentry DSN (optional but recommended)
-
-  // Tax rate (8% - update based on your location)
-  taxRate: 0.08,
-
-  // Shipping configuration
-  freeShippingThreshold: 100,
-  shippingCost: 10
+  sentryDsn: '' // TODO: Add your Sentry DSN (optional but recommended)
 };
 
 /**
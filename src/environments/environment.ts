@@ -11,12 +11,5 @@ export const environment = {
   // Sentry Error Monitoring
   // Create a project at https://sentry.io and get your DSN
   // Leave empty to disable Sentry in development
-  sentryDsn: '',
-
-  // Tax rate (8%)
-  taxRate: 0.08,
-
-  // Shipping configuration
-  freeShippingThreshold: 100,
-  shippingCost: 10
+  sentryDsn: ''
 };